@@ -34,12 +34,39 @@ import AdminLogs from '@/pages/admin/AdminLogs';
 import ImportExport from '@/pages/admin/ImportExport';
 import RecycleBin from '@/pages/admin/RecycleBin';
 import ShippingRates from '@/pages/admin/ShippingRates';
+import Vouchers from '@/pages/admin/Vouchers';
+import ExchangeRate from '@/pages/admin/ExchangeRate';
 import AffiliateManagement from '@/pages/admin/AffiliateManagement';
+import RequirePermission from '@/components/admin/RequirePermission';
+import { ADMIN_ROUTE_PERMISSIONS, AdminRoutePath } from '@/utils/permissions';
 
 import './App.css';
-import { useEffect } from 'react';
+import { ComponentType, useEffect } from 'react';
 import { processReferralCode } from '@/utils/referralUtils';
 
+// Page for each guarded /admin route; permissions come from ADMIN_ROUTE_PERMISSIONS
+const ADMIN_PAGES: Record<AdminRoutePath, ComponentType> = {
+  '/admin': Admin,
+  '/admin/dashboard': AdminDashboard,
+  '/admin/enhanced': EnhancedAdminDashboard,
+  '/admin/products': ProductsList,
+  '/admin/sales-report': SalesRevenueReport,
+  '/admin/add-product': AddProduct,
+  '/admin/edit-product/:id': EditProduct,
+  '/admin/products/edit/:id': EditProduct,
+  '/admin/orders-history': OrdersHistory,
+  '/admin/order-confirmation': OrderConfirmation,
+  '/admin/payment-verification': PaymentVerification,
+  '/admin/users': UserManagement,
+  '/admin/logs': AdminLogs,
+  '/admin/import-export': ImportExport,
+  '/admin/recycle-bin': RecycleBin,
+  '/admin/shipping-rates': ShippingRates,
+  '/admin/vouchers': Vouchers,
+  '/admin/exchange-rate': ExchangeRate,
+  '/admin/affiliate': AffiliateManagement
+};
+
 const queryClient = new QueryClient({
   defaultOptions: {
     queries: {
@@ -80,26 +107,19 @@ function App() {
               <Route path="/kategori/sayur-bahan-segar" element={<CategoryPage category="Sayur & Bahan Segar" />} />
               
               {/* Admin routes */}
-              <Route path="/admin" element={<Admin />} />
-              <Route path="/admin/dashboard" element={<AdminDashboard />} />
-              <Route path="/admin/enhanced" element={<EnhancedAdminDashboard />} />
-              <Route path="/admin/products" element={<ProductsList />} />
-              <Route path="/admin/sales-report" element={<SalesRevenueReport />} />
-              <Route path="/admin/add-product" element={<AddProduct />} />
-              <Route path="/admin/edit-product/:id" element={<EditProduct />} />
-              <Route path="/admin/products/edit/:id" element={<EditProduct />} />
-              <Route path="/admin/orders-history" element={<OrdersHistory />} />
-              <Route path="/admin/order-confirmation" element={<OrderConfirmation />} />
-              <Route path="/admin/payment-verification" element={<PaymentVerification />} />
-              <Route path="/admin/users" element={<UserManagement />} />
-              <Route path="/admin/logs" element={<AdminLogs />} />
-              <Route path="/admin/import-export" element={<ImportExport />} />
-              <Route path="/admin/recycle-bin" element={<RecycleBin />} />
-              <Route path="/admin/shipping-rates" element={<ShippingRates />} />
-              <Route path="/admin/affiliate" element={<AffiliateManagement />} />
+              {(Object.keys(ADMIN_PAGES) as AdminRoutePath[]).map((path) => {
+                const Page = ADMIN_PAGES[path];
+                return (
+                  <Route
+                    key={path}
+                    path={path}
+                    element={<RequirePermission permission={ADMIN_ROUTE_PERMISSIONS[path]}><Page /></RequirePermission>}
+                  />
+                );
+              })}
 
               {/* Kasir Routes */}
-              <Route path="/kasir/*" element={<Kasir />} />
+              <Route path="/kasir/*" element={<RequirePermission permission="pos.access"><Kasir /></RequirePermission>} />
               
               {/* 404 route */}
               <Route path="*" element={<NotFound />} />
@@ -7,6 +7,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useToast } from '@/hooks/use-toast';
 import { useNavigate, useLocation } from 'react-router-dom';
+import { rememberReferralCode } from '@/utils/referralUtils';
 
 const AuthForm = () => {
   const [email, setEmail] = useState('');
@@ -136,11 +137,9 @@ const AuthForm = () => {
         return;
       }
 
-      // Store referral code in localStorage if provided
+      // Store the entered referral code under the store's attribution settings
       if (referralCode) {
-        localStorage.setItem('referralCode', referralCode);
-        localStorage.setItem('referralTimestamp', Date.now().toString());
-        console.log('Stored referral code before signup:', referralCode);
+        await rememberReferralCode(referralCode);
       }
 
       const { error } = await signUp(email, password, fullName);
@@ -1,24 +1,30 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useMemo } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
-import { MessageCircle, FileText, CreditCard, Upload } from 'lucide-react';
+import { MessageCircle, FileText, CreditCard, Upload, Ticket, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { prefectures } from '@/data/prefectures';
-import { CartItem, Order } from '@/types';
+import { CartItem, Order, Voucher } from '@/types';
 import { toast } from '@/hooks/use-toast';
 import { useCreateOrder } from '@/hooks/useOrders';
+import { OutOfStockError } from '@/services/stockService';
+import { findRedeemableVoucher, VoucherError } from '@/services/voucherService';
+import { evaluateVoucher } from '@/utils/voucherUtils';
 import { useAuth } from '@/hooks/useFirebaseAuth';
-import { useShippingRateByPrefecture } from '@/hooks/useShippingRates';
+import { useShippingRateByPrefecture, useActiveShippingPromotions } from '@/hooks/useShippingRates';
+import { useProducts } from '@/hooks/useProducts';
+import { calculateShippingFee, applyShippingPromotions, SHIPPING_CLASS_LABELS, formatWeight } from '@/utils/shippingCalculator';
 import { useCurrencyConverter } from '@/hooks/useCurrencyConverter';
+import { isExchangeRateStale, isRupiahPaymentMethod, lockExchangeRate } from '@/utils/currencyUtils';
 import { useLanguage } from '@/hooks/useLanguage';
 import PaymentMethodInfo from '@/components/PaymentMethodInfo'; 
-import { ref, uploadBytes, getDownloadURL } from 'firebase/storage';
-import { storage } from '@/config/firebase';
+import { uploadPaymentProof } from '@/services/paymentService';
+import { getStoredReferralCode, isReferralCodeValid } from '@/utils/referralUtils';
 
 const checkoutSchema = z.object({
   fullName: z.string().min(2, 'Nama lengkap harus minimal 2 karakter'),
@@ -47,12 +53,18 @@ const CheckoutForm = ({ cart, total, onOrderComplete }: CheckoutFormProps) => {
   const createOrder = useCreateOrder();
   const [selectedPrefecture, setSelectedPrefecture] = useState<string>('');
   const { data: shippingRate, isLoading: isLoadingShippingRate } = useShippingRateByPrefecture(selectedPrefecture);
-  const [shippingFee, setShippingFee] = useState<number | null>(null);
+  const { data: products = [] } = useProducts();
+  const { data: shippingPromotions = [] } = useActiveShippingPromotions();
   const [paymentProofFile, setPaymentProofFile] = useState<File | null>(null);
   const [paymentProofPreview, setPaymentProofPreview] = useState<string | null>(null);
   const [showCurrencyInfo, setShowCurrencyInfo] = useState(false);
-  const [affiliateId, setAffiliateId] = useState<string | null>(null);
+  // Shown to the customer only; createOrder resolves the attribution itself
+  const [affiliateId] = useState(() => isReferralCodeValid() ? getStoredReferralCode() : null);
   const [visitorId, setVisitorId] = useState<string | null>(null);
+  const [voucherCode, setVoucherCode] = useState('');
+  const [voucher, setVoucher] = useState<Voucher | null>(null);
+  const [voucherLookupError, setVoucherLookupError] = useState<string | null>(null);
+  const [isApplyingVoucher, setIsApplyingVoucher] = useState(false);
 
   const form = useForm<CheckoutFormData>({
     resolver: zodResolver(checkoutSchema),
@@ -72,31 +84,42 @@ const CheckoutForm = ({ cart, total, onOrderComplete }: CheckoutFormProps) => {
   // Get the current payment method
   const paymentMethod = form.watch('paymentMethod');
   
-  // Calculate total with shipping
-  const totalWithShipping = total + (shippingFee || 0);
+  // Shipping depends on the prefecture rate and the weight and class of the whole cart
+  const shippingQuote = useMemo(
+    () => shippingRate ? calculateShippingFee(shippingRate, cart, products) : null,
+    [shippingRate, cart, products]
+  );
+  const shippingPromotion = useMemo(
+    () => shippingQuote
+      ? applyShippingPromotions(shippingQuote.total, shippingPromotions, cart, selectedPrefecture, products)
+      : null,
+    [shippingQuote, shippingPromotions, cart, selectedPrefecture, products]
+  );
+  const shippingFee = shippingPromotion ? shippingPromotion.fee : null;
 
-  // Move the currency converter hook to the top level
-  const { convertedRupiah, lastUpdated } = useCurrencyConverter(totalWithShipping, paymentMethod);
+  // Vouchers are re-evaluated whenever the cart or shipping changes
+  const voucherResult = useMemo(
+    () => voucher ? evaluateVoucher(voucher, cart, products, shippingFee || 0) : null,
+    [voucher, cart, products, shippingFee]
+  );
+  const appliedVoucher = voucherResult?.applied || null;
+  // A free-shipping voucher has nothing to cover until the prefecture is known
+  const voucherError = voucher?.type === 'free_shipping' && shippingFee === null
+    ? null
+    : voucherResult?.error || null;
+  const voucherDiscount = appliedVoucher?.discount || 0;
+  const voucherShippingDiscount = appliedVoucher?.shipping_discount || 0;
+  const finalShippingFee = shippingFee !== null ? shippingFee - voucherShippingDiscount : null;
 
-  // Update shipping fee when prefecture changes
-  useEffect(() => {
-    if (shippingRate) {
-      console.log('Setting shipping fee from rate:', shippingRate);
-      setShippingFee(shippingRate.price);
-    } else {
-      console.log('No shipping rate found, setting fee to null');
-      setShippingFee(null);
-    }
-  }, [shippingRate]);
+  // Calculate total with shipping
+  const totalWithShipping = total - voucherDiscount + (finalShippingFee || 0);
+
+  // Move the currency converter hook to the top level; PaymentMethodInfo shows
+  // the same conversion so the locked amount is the one the customer saw
+  const currency = useCurrencyConverter(totalWithShipping, paymentMethod);
+  const { convertedRupiah, quote, lastUpdated } = currency;
 
-  // Get affiliate ID from localStorage if not provided
   useEffect(() => {
-    const storedAffiliateId = localStorage.getItem('referralCode');
-    if (storedAffiliateId) {
-      console.log('Found affiliate ID in localStorage:', storedAffiliateId);
-      setAffiliateId(storedAffiliateId);
-    }
-    
     // Get or create visitor ID
     let storedVisitorId = localStorage.getItem('visitorId');
     if (!storedVisitorId) {
@@ -124,8 +147,12 @@ const CheckoutForm = ({ cart, total, onOrderComplete }: CheckoutFormProps) => {
       return `- ${item.name}${variants ? ` | Varian: ${variants}` : ''} | Qty: ${item.quantity} | ${priceDisplay}`;
     }).join('\n');
 
-    const shippingInfo = shippingFee 
-      ? `\n*ONGKOS KIRIM:* ${formatCurrencyByMethod(shippingFee, data.paymentMethod, convertedRupiahValue)}` 
+    const shippingInfo = finalShippingFee 
+      ? `\n*ONGKOS KIRIM:* ${formatCurrencyByMethod(finalShippingFee, data.paymentMethod, convertedRupiahValue)}` 
+      : '';
+
+    const voucherInfo = appliedVoucher
+      ? `\n*VOUCHER ${appliedVoucher.code}:* -${formatCurrencyByMethod(voucherDiscount + voucherShippingDiscount, data.paymentMethod, convertedRupiahValue)}`
       : '';
 
     // Add affiliate info if available
@@ -155,7 +182,7 @@ ${data.paymentMethod}
 *DAFTAR PRODUK:*
 ${productList}
 
-*SUBTOTAL BELANJA:* ${formatCurrencyByMethod(total, data.paymentMethod, convertedRupiahValue)}${shippingInfo}
+*SUBTOTAL BELANJA:* ${formatCurrencyByMethod(total, data.paymentMethod, convertedRupiahValue)}${voucherInfo}${shippingInfo}
 *TOTAL BELANJA:* ${totalDisplay}${affiliateInfo}
 
 ${data.notes ? `Catatan: ${data.notes}` : ''}
@@ -219,22 +246,49 @@ Mohon konfirmasi pesanan saya. Terima kasih banyak!`;
     setPaymentProofPreview(null);
   };
 
-  const uploadPaymentProof = async (orderId: string): Promise<string | null> => {
-    if (!paymentProofFile) return null;
+  const uploadOrderPaymentProof = async (orderId: string, paymentMethod: string): Promise<void> => {
+    // Proofs are stored against the customer's account, so guests send theirs via WhatsApp
+    if (!paymentProofFile || !user) return;
 
     try {
-      // Upload to Firebase Storage
-      const storageRef = ref(storage, `payment-proofs/${orderId}_${Date.now()}`);
-      await uploadBytes(storageRef, paymentProofFile);
-      const downloadURL = await getDownloadURL(storageRef);
-      
-      return downloadURL;
+      await uploadPaymentProof(paymentProofFile, {
+        id: orderId,
+        user_id: user?.uid || null,
+        payment_method: paymentMethod
+      });
     } catch (error) {
+      // The order is placed either way; the proof can be uploaded again from the orders page
       console.error('Error uploading payment proof:', error);
-      return null;
+      toast({
+        title: "Bukti Pembayaran Gagal Diunggah",
+        description: "Pesanan tetap dibuat. Unggah ulang bukti pembayaran dari halaman Pesanan Saya.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleApplyVoucher = async () => {
+    setIsApplyingVoucher(true);
+    setVoucherLookupError(null);
+
+    try {
+      const found = await findRedeemableVoucher(voucherCode, user?.uid);
+      setVoucher(found);
+      setVoucherCode(found.code);
+    } catch (error) {
+      setVoucher(null);
+      setVoucherLookupError(error instanceof VoucherError ? error.message : 'Gagal memeriksa voucher. Silakan coba lagi.');
+    } finally {
+      setIsApplyingVoucher(false);
     }
   };
 
+  const removeVoucher = () => {
+    setVoucher(null);
+    setVoucherCode('');
+    setVoucherLookupError(null);
+  };
+
   const onSubmit = async (data: CheckoutFormData) => {
     if (cart.length === 0) {
       toast({
@@ -245,6 +299,55 @@ Mohon konfirmasi pesanan saya. Terima kasih banyak!`;
       return;
     }
 
+    if (voucher && !appliedVoucher) {
+      toast({
+        title: "Voucher Tidak Dapat Dipakai",
+        description: voucherError || "Hapus voucher atau lengkapi pesanan terlebih dahulu.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (isRupiahPaymentMethod(data.paymentMethod)) {
+      if (!quote || !convertedRupiah) {
+        toast({
+          title: "Kurs Belum Tersedia",
+          description: "Tunggu sampai total dalam rupiah muncul, lalu coba lagi.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      // Bank reconciliation matches transfers against the locked rupiah total,
+      // so the local fallback rate is never locked onto an order
+      if (quote.source === 'fallback') {
+        toast({
+          title: "Kurs Belum Tersedia",
+          description: "Kurs toko tidak dapat dimuat, sehingga total rupiah hanya perkiraan. Coba lagi nanti atau pilih metode pembayaran lain.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      // An old rate is refreshed first so the customer confirms the new amount
+      if (isExchangeRateStale(quote)) {
+        const refreshed = await currency.refreshRate();
+        if (refreshed.error) {
+          toast({
+            title: "Kurs Tidak Dapat Diperbarui",
+            description: "Kurs toko terbaru tidak dapat dimuat. Coba lagi nanti atau pilih metode pembayaran lain.",
+            variant: "destructive",
+          });
+          return;
+        }
+        toast({
+          title: "Kurs Diperbarui",
+          description: "Total dalam rupiah telah diperbarui. Periksa kembali sebelum membuat pesanan.",
+        });
+        return;
+      }
+    }
+
     setIsSubmitting(true);
 
     try {
@@ -256,7 +359,8 @@ Mohon konfirmasi pesanan saya. Terima kasih banyak!`;
           price: item.price,
           quantity: item.quantity,
           image_url: item.image_url,
-          selectedVariants: item.selectedVariants || {}
+          selectedVariants: item.selectedVariants || {},
+          ...(item.selectedVariantName ? { selectedVariantName: item.selectedVariantName } : {})
         })),
         totalPrice: totalWithShipping,
         customerInfo: {
@@ -271,12 +375,16 @@ Mohon konfirmasi pesanan saya. Terima kasih banyak!`;
           payment_method: data.paymentMethod
         },
         userId: user?.uid,
-        shipping_fee: shippingFee || 0,
-        affiliate_id: affiliateId, // Include affiliate ID in order data
-        visitor_id: visitorId // Include visitor ID for tracking guest referrals
+        shipping_fee: finalShippingFee || 0,
+        shipping_promotion: shippingPromotion?.applied || null,
+        voucher: appliedVoucher,
+        visitor_id: visitorId, // Include visitor ID for tracking guest referrals
+        // The rupiah total the customer saw, payable until the quote expires
+        exchange_rate: isRupiahPaymentMethod(data.paymentMethod) && quote && convertedRupiah
+          ? lockExchangeRate(quote, convertedRupiah)
+          : null
       };
 
-      console.log('Creating order with affiliate ID:', affiliateId);
       console.log('Creating order with visitor ID:', visitorId);
       
       const orderId = await createOrder.mutateAsync({
@@ -285,22 +393,14 @@ Mohon konfirmasi pesanan saya. Terima kasih banyak!`;
         customerInfo: orderData.customerInfo,
         userId: orderData.userId,
         shipping_fee: orderData.shipping_fee,
-        affiliate_id: orderData.affiliate_id,
-        visitor_id: orderData.visitor_id
+        shipping_promotion: orderData.shipping_promotion,
+        voucher: orderData.voucher,
+        visitor_id: orderData.visitor_id,
+        exchange_rate: orderData.exchange_rate
       });
 
       // Upload payment proof if provided
-      let paymentProofUrl = null;
-      if (paymentProofFile) {
-        paymentProofUrl = await uploadPaymentProof(orderId);
-        
-        // If payment proof was uploaded, update the order with the URL
-        if (paymentProofUrl) {
-          // Import the function here to avoid circular dependencies
-          const { updatePaymentProof } = await import('@/services/orderService');
-          await updatePaymentProof(orderId, paymentProofUrl);
-        }
-      }
+      await uploadOrderPaymentProof(orderId, data.paymentMethod);
 
       // Show success message
       toast({
@@ -320,6 +420,26 @@ Mohon konfirmasi pesanan saya. Terima kasih banyak!`;
       
     } catch (error) {
       console.error('Error creating order:', error);
+      if (error instanceof OutOfStockError) {
+        toast({
+          title: "Stok Tidak Mencukupi",
+          description: `${error.shortages
+            .map(shortage => `${shortage.name}${shortage.variantName ? ` (${shortage.variantName})` : ''}: tersisa ${shortage.available}, diminta ${shortage.requested}`)
+            .join('; ')}. Silakan sesuaikan jumlah di keranjang.`,
+          variant: "destructive",
+        });
+        return;
+      }
+      if (error instanceof VoucherError) {
+        setVoucher(null);
+        setVoucherLookupError(error.message);
+        toast({
+          title: "Voucher Tidak Dapat Dipakai",
+          description: `${error.message}. Voucher telah dihapus dari pesanan.`,
+          variant: "destructive",
+        });
+        return;
+      }
       toast({
         title: "Terjadi Kesalahan",
         description: "Gagal membuat pesanan. Silakan coba lagi.",
@@ -511,6 +631,7 @@ Mohon konfirmasi pesanan saya. Terima kasih banyak!`;
             <PaymentMethodInfo 
               paymentMethod={paymentMethod} 
               totalAmount={totalWithShipping} 
+              currency={currency}
             />
           )}
 
@@ -518,39 +639,45 @@ Mohon konfirmasi pesanan saya. Terima kasih banyak!`;
           {paymentMethod && paymentMethod !== 'COD (Cash on Delivery)' && (
             <div className="space-y-2">
               <FormLabel>{t('checkout.paymentProof')}</FormLabel>
-              <div className="border-2 border-dashed border-gray-300 rounded-lg p-4">
-                <Input
-                  type="file"
-                  accept="image/*"
-                  onChange={handlePaymentProofChange}
-                  className="mb-2"
-                />
-                <p className="text-xs text-gray-500">
-                  {t('checkout.paymentProofFormats')}
+              {!user ? (
+                <p className="text-sm text-gray-600 bg-gray-50 border border-gray-200 rounded-lg p-3">
+                  {t('checkout.paymentProofSignIn')}
                 </p>
+              ) : (
+                <div className="border-2 border-dashed border-gray-300 rounded-lg p-4">
+                  <Input
+                    type="file"
+                    accept="image/*"
+                    onChange={handlePaymentProofChange}
+                    className="mb-2"
+                  />
+                  <p className="text-xs text-gray-500">
+                    {t('checkout.paymentProofFormats')}
+                  </p>
                 
-                {paymentProofPreview && (
-                  <div className="mt-3">
-                    <div className="relative inline-block">
-                      <img 
-                        src={paymentProofPreview} 
-                        alt="Preview" 
-                        className="w-40 h-40 object-contain rounded-md border border-gray-200" 
-                      />
-                      <button
-                        type="button"
-                        onClick={removePaymentProof}
-                        className="absolute -top-2 -right-2 bg-red-500 text-white rounded-full w-6 h-6 flex items-center justify-center text-xs hover:bg-red-600"
-                      >
-                        ✕
-                      </button>
+                  {paymentProofPreview && (
+                    <div className="mt-3">
+                      <div className="relative inline-block">
+                        <img 
+                          src={paymentProofPreview} 
+                          alt="Preview" 
+                          className="w-40 h-40 object-contain rounded-md border border-gray-200" 
+                        />
+                        <button
+                          type="button"
+                          onClick={removePaymentProof}
+                          className="absolute -top-2 -right-2 bg-red-500 text-white rounded-full w-6 h-6 flex items-center justify-center text-xs hover:bg-red-600"
+                        >
+                          ✕
+                        </button>
+                      </div>
+                      <p className="text-sm text-green-600 mt-2">
+                        {t('checkout.paymentProofReady')}
+                      </p>
                     </div>
-                    <p className="text-sm text-green-600 mt-2">
-                      {t('checkout.paymentProofReady')}
-                    </p>
-                  </div>
-                )}
-              </div>
+                  )}
+                </div>
+              )}
             </div>
           )}
 
@@ -564,6 +691,58 @@ Mohon konfirmasi pesanan saya. Terima kasih banyak!`;
             </div>
           )}
 
+          {/* Voucher */}
+          <div className="space-y-2">
+            <FormLabel className="flex items-center space-x-2">
+              <Ticket className="w-4 h-4" />
+              <span>Kode Voucher</span>
+            </FormLabel>
+            {voucher ? (
+              <div className={`flex items-center justify-between p-3 rounded-lg border ${
+                voucherError ? 'bg-red-50 border-red-200' : 'bg-green-50 border-green-200'
+              }`}>
+                <div>
+                  <p className="font-mono font-bold">{voucher.code}</p>
+                  {voucher.description && (
+                    <p className="text-xs text-gray-600">{voucher.description}</p>
+                  )}
+                  {voucherError && (
+                    <p className="text-sm text-red-600">{voucherError}</p>
+                  )}
+                </div>
+                <Button type="button" variant="ghost" size="sm" onClick={removeVoucher}>
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            ) : (
+              <div className="flex space-x-2">
+                <Input
+                  placeholder="Masukkan kode voucher"
+                  value={voucherCode}
+                  onChange={(e) => setVoucherCode(e.target.value.toUpperCase())}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') {
+                      e.preventDefault();
+                      handleApplyVoucher();
+                    }
+                  }}
+                  className="font-mono"
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={handleApplyVoucher}
+                  disabled={isApplyingVoucher || !voucherCode.trim()}
+                >
+                  {isApplyingVoucher ? 'Memeriksa...' : 'Pakai'}
+                </Button>
+              </div>
+            )}
+            {voucherLookupError && !voucher && (
+              <p className="text-sm text-red-600">{voucherLookupError}</p>
+            )}
+          </div>
+
           {/* Order Summary with Shipping Fee */}
           <div className="border-t border-b py-4 my-4 space-y-2">
             <div className="flex justify-between items-center">
@@ -571,13 +750,29 @@ Mohon konfirmasi pesanan saya. Terima kasih banyak!`;
               <span>¥{total.toLocaleString()}</span>
             </div>
             
+            {voucherDiscount > 0 && appliedVoucher && (
+              <div className="flex justify-between items-center text-sm text-green-700">
+                <span>Voucher {appliedVoucher.code}</span>
+                <span>-¥{voucherDiscount.toLocaleString()}</span>
+              </div>
+            )}
+            
             <div className="flex justify-between items-center">
               <span className="font-medium">{t('checkout.shippingCost')}</span>
               {selectedPrefecture ? (
                 isLoadingShippingRate ? (
                   <span className="text-gray-500">{t('checkout.loading')}</span>
-                ) : shippingFee !== null ? (
-                  <span>¥{shippingFee.toLocaleString()}</span>
+                ) : finalShippingFee !== null ? (
+                  <span>
+                    {(shippingPromotion?.applied || voucherShippingDiscount > 0) && (
+                      <span className="line-through text-gray-400 mr-2">
+                        ¥{(shippingPromotion?.applied?.original_fee ?? shippingFee ?? 0).toLocaleString()}
+                      </span>
+                    )}
+                    {finalShippingFee === 0 && (shippingPromotion?.applied || voucherShippingDiscount > 0)
+                      ? 'GRATIS'
+                      : `¥${finalShippingFee.toLocaleString()}`}
+                  </span>
                 ) : (
                   <span className="text-yellow-600 text-sm">{t('checkout.shippingNotSet')}</span>
                 )
@@ -586,6 +781,47 @@ Mohon konfirmasi pesanan saya. Terima kasih banyak!`;
               )}
             </div>
             
+            {shippingQuote && shippingQuote.parcels.length > 1 && (
+              <div className="pl-4 space-y-1">
+                {shippingQuote.parcels.map((parcel, index) => (
+                  <div key={index} className="flex justify-between items-center text-sm text-gray-600">
+                    <span>
+                      Paket {SHIPPING_CLASS_LABELS[parcel.shipping_class]} ({formatWeight(parcel.weight)})
+                    </span>
+                    <span>¥{(parcel.price + parcel.surcharge).toLocaleString()}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+            {shippingQuote && shippingQuote.parcels.length === 1 && shippingQuote.parcels[0].surcharge > 0 && (
+              <div className="pl-4 flex justify-between items-center text-sm text-gray-600">
+                <span>Termasuk biaya {SHIPPING_CLASS_LABELS[shippingQuote.parcels[0].shipping_class]}</span>
+                <span>¥{shippingQuote.parcels[0].surcharge.toLocaleString()}</span>
+              </div>
+            )}
+            
+            {shippingPromotion?.applied && (
+              <div className="flex justify-between items-center text-sm text-green-700">
+                <span>Promo ongkir: {shippingPromotion.applied.name}</span>
+                <span>-¥{shippingPromotion.applied.discount.toLocaleString()}</span>
+              </div>
+            )}
+            {voucherShippingDiscount > 0 && appliedVoucher && (
+              <div className="flex justify-between items-center text-sm text-green-700">
+                <span>Voucher {appliedVoucher.code} (gratis ongkir)</span>
+                <span>-¥{voucherShippingDiscount.toLocaleString()}</span>
+              </div>
+            )}
+            {shippingPromotion?.next && (
+              <div className="p-2 bg-green-50 border border-green-200 rounded text-sm text-green-800">
+                Belanja ¥{shippingPromotion.next.remaining.toLocaleString()} lagi
+                {shippingPromotion.next.promotion.categories.length > 0 && ` dari kategori ${shippingPromotion.next.promotion.categories.join(', ')}`}
+                {shippingPromotion.next.promotion.type === 'free'
+                  ? ' untuk mendapatkan GRATIS ongkir!'
+                  : ` untuk hemat ongkir ¥${shippingPromotion.next.discount.toLocaleString()}!`}
+              </div>
+            )}
+            
             <div className="flex justify-between items-center pt-2 mt-2 text-lg font-bold">
               <span>{t('cart.total')}</span>
               <span className="text-primary">¥{totalWithShipping.toLocaleString()}</span>
@@ -0,0 +1,58 @@
+import { useState } from 'react';
+import { useDisplayCurrency } from '@/hooks/useDisplayCurrency';
+import { DisplayCurrency } from '@/types';
+
+const CurrencySwitcher = () => {
+  const { displayCurrency, setDisplayCurrency } = useDisplayCurrency();
+  const [isOpen, setIsOpen] = useState(false);
+
+  const currencies: { code: DisplayCurrency; symbol: string; name: string }[] = [
+    { code: 'JPY', symbol: '¥', name: 'Yen' },
+    { code: 'IDR', symbol: 'Rp', name: 'Rupiah' },
+    { code: 'both', symbol: '¥/Rp', name: 'Yen + Rupiah' },
+  ];
+
+  const currentCurrency = currencies.find(currency => currency.code === displayCurrency);
+
+  return (
+    <div className="relative">
+      <div
+        onClick={() => setIsOpen(!isOpen)}
+        className="p-2 hover:bg-gray-100 rounded-full cursor-pointer"
+        aria-label="Mata uang"
+      >
+        <span className="text-sm font-semibold">{currentCurrency?.symbol}</span>
+      </div>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-40 bg-white border border-gray-200 rounded-lg shadow-lg z-50">
+          {currencies.map((currency) => (
+            <div
+              key={currency.code}
+              onClick={() => {
+                setDisplayCurrency(currency.code);
+                setIsOpen(false);
+              }}
+              className={`w-full px-3 py-2 text-left hover:bg-gray-50 flex items-center space-x-2 first:rounded-t-lg last:rounded-b-lg ${
+                displayCurrency === currency.code ? 'bg-gray-50 font-medium' : ''
+              } cursor-pointer`}
+            >
+              <span className="text-sm font-semibold w-10">{currency.symbol}</span>
+              <span className="text-sm">{currency.name}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Click outside to close */}
+      {isOpen && (
+        <div
+          className="fixed inset-0 z-40"
+          onClick={() => setIsOpen(false)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default CurrencySwitcher;
@@ -5,8 +5,10 @@ import { useCart } from '@/hooks/useCart';
 import { useAuth } from '@/hooks/useFirebaseAuth';
 import { useLanguage } from '@/hooks/useLanguage';
 import UserMenu from '@/components/UserMenu';
+import NotificationBell from '@/components/affiliate/NotificationBell';
 import CartIcon from '@/components/CartIcon';
 import LanguageSwitcher from '@/components/LanguageSwitcher';
+import CurrencySwitcher from '@/components/CurrencySwitcher';
 import { Button } from '@/components/ui/button';
 import { usePWAInstall } from '@/hooks/usePWAInstall';
 
@@ -111,6 +113,9 @@ const Header = ({ shouldAnimateCart = false }: HeaderProps) => {
             {/* Language Switcher */}
             <LanguageSwitcher />
 
+            {/* Display Currency */}
+            <CurrencySwitcher />
+
             {/* Cart */}
             <div
               onClick={() => handleNavClick('/cart')}
@@ -123,7 +128,10 @@ const Header = ({ shouldAnimateCart = false }: HeaderProps) => {
 
             {/* Auth */}
             {user ? (
-              <UserMenu />
+              <>
+                <NotificationBell />
+                <UserMenu />
+              </>
             ) : (
               <div onClick={() => handleNavClick('/auth')}>
                 <Button variant="outline" size="sm" className="flex items-center space-x-2">
@@ -1,6 +1,7 @@
 import React from 'react';
 import { Order } from '@/types';
 import { formatPrice } from '@/utils/cart';
+import { EXCHANGE_RATE_SOURCE_LABELS, formatRupiah } from '@/utils/currencyUtils';
 
 interface InvoiceProps {
   order: Order;
@@ -16,6 +17,16 @@ const Invoice = ({ order, invoiceNumber }: InvoiceProps) => {
     });
   };
 
+  const formatDateTime = (dateString: string) => {
+    return new Date(dateString).toLocaleString('id-ID', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
   return (
     <div className="max-w-4xl mx-auto bg-white p-8 shadow-lg print-container" id="invoice-content">
       {/* Print-specific styles */}
@@ -215,18 +226,55 @@ const Invoice = ({ order, invoiceNumber }: InvoiceProps) => {
             <div className="space-y-2">
               <div className="flex justify-between text-base">
                 <span className="font-medium">Subtotal:</span>
-                <span>{formatPrice(order.total_price - (order.shipping_fee || 0))}</span>
+                <span>{formatPrice(order.total_price - (order.shipping_fee || 0) + (order.voucher?.discount || 0))}</span>
               </div>
+              {order.voucher && order.voucher.discount > 0 && (
+                <div className="flex justify-between text-sm text-green-700">
+                  <span>Voucher {order.voucher.code}:</span>
+                  <span>-{formatPrice(order.voucher.discount)}</span>
+                </div>
+              )}
               <div className="flex justify-between text-base">
                 <span>Ongkos Kirim:</span>
-                <span>{order.shipping_fee ? formatPrice(order.shipping_fee) : 'Akan dikonfirmasi'}</span>
+                <span>
+                  {order.shipping_fee
+                    ? formatPrice(order.shipping_fee)
+                    : order.shipping_promotion || order.voucher?.shipping_discount ? 'Gratis' : 'Akan dikonfirmasi'}
+                </span>
               </div>
+              {order.shipping_promotion && (
+                <div className="flex justify-between text-sm text-green-700">
+                  <span>Promo: {order.shipping_promotion.name}</span>
+                  <span>-{formatPrice(order.shipping_promotion.discount)}</span>
+                </div>
+              )}
+              {order.voucher && order.voucher.shipping_discount > 0 && (
+                <div className="flex justify-between text-sm text-green-700">
+                  <span>Voucher {order.voucher.code} (ongkir):</span>
+                  <span>-{formatPrice(order.voucher.shipping_discount)}</span>
+                </div>
+              )}
               <div className="border-t pt-2 mt-2">
                 <div className="flex justify-between text-xl font-bold text-red-600">
                   <span>Total Belanja:</span>
                   <span>{formatPrice(order.total_price)}</span>
                 </div>
               </div>
+              {order.exchange_rate && (
+                <div className="border-t pt-2 mt-2">
+                  <div className="flex justify-between text-base font-semibold">
+                    <span>Total (Rupiah):</span>
+                    <span>{formatRupiah(order.exchange_rate.total_rupiah)}</span>
+                  </div>
+                  <p className="text-xs text-gray-600 mt-2">
+                    Kurs 1 JPY = Rp {order.exchange_rate.rate.toLocaleString('id-ID', { maximumFractionDigits: 2 })}
+                    {' '}({EXCHANGE_RATE_SOURCE_LABELS[order.exchange_rate.source]}, {formatDateTime(order.exchange_rate.fetched_at)})
+                  </p>
+                  <p className="text-xs text-gray-600">
+                    Berlaku hingga {formatDateTime(order.exchange_rate.expires_at)}
+                  </p>
+                </div>
+              )}
             </div>
           </div>
         </div>
@@ -0,0 +1,61 @@
+import { Order, OrderTracking } from '@/types';
+import { getOrderStatusLabel } from '@/utils/orderStatus';
+
+interface OrderStatusTimelineProps {
+  order: Order;
+}
+
+const STATUS_DOT_COLORS: Record<string, string> = {
+  pending: 'bg-yellow-400',
+  confirmed: 'bg-blue-400',
+  processing: 'bg-purple-400',
+  shipped: 'bg-indigo-400',
+  delivered: 'bg-teal-400',
+  completed: 'bg-green-400',
+  cancelled: 'bg-red-400'
+};
+
+const formatTimestamp = (timestamp: string) => {
+  return new Date(timestamp).toLocaleString('id-ID', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+};
+
+const OrderStatusTimeline = ({ order }: OrderStatusTimelineProps) => {
+  // Orders created before status history existed only know their creation time
+  const history: OrderTracking[] = order.status_history && order.status_history.length > 0
+    ? [...order.status_history].sort((a, b) =>
+        new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+      )
+    : [{
+        id: `${order.id}-created`,
+        order_id: order.id,
+        status: order.status || 'pending',
+        timestamp: order.updated_at || order.created_at
+      }];
+
+  return (
+    <ol className="relative border-l border-gray-200 ml-1.5 space-y-4">
+      {history.map((entry, index) => (
+        <li key={entry.id} className="ml-4">
+          <div
+            className={`absolute w-3 h-3 rounded-full -left-1.5 mt-1 ${
+              STATUS_DOT_COLORS[entry.status] || 'bg-gray-400'
+            } ${index === history.length - 1 ? 'ring-4 ring-gray-100' : ''}`}
+          />
+          <p className="text-sm font-medium text-gray-900">{getOrderStatusLabel(entry.status)}</p>
+          <time className="text-xs text-gray-500">{formatTimestamp(entry.timestamp)}</time>
+          {entry.notes && (
+            <p className="text-xs text-gray-600 mt-1">{entry.notes}</p>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default OrderStatusTimeline;
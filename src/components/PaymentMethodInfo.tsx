@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { useCurrencyConverter } from '@/hooks/useCurrencyConverter';
+import { CurrencyConversion } from '@/hooks/useCurrencyConverter';
 import { useLanguage } from '@/hooks/useLanguage';
 import { Card, CardContent } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
@@ -9,10 +9,12 @@ import { Button } from '@/components/ui/button';
 interface PaymentMethodInfoProps {
   paymentMethod: string;
   totalAmount: number;
+  // Owned by the checkout form so the amount shown is the amount locked onto the order
+  currency: CurrencyConversion;
 }
 
-const PaymentMethodInfo = ({ paymentMethod, totalAmount }: PaymentMethodInfoProps) => {
-  const { convertedRupiah, isLoading, error, refreshRate, lastUpdated, isRefreshing } = useCurrencyConverter(totalAmount, paymentMethod);
+const PaymentMethodInfo = ({ paymentMethod, totalAmount, currency }: PaymentMethodInfoProps) => {
+  const { convertedRupiah, isLoading, error, refreshRate, lastUpdated, isRefreshing } = currency;
   const { t } = useLanguage();
   const [showRefreshAnimation, setShowRefreshAnimation] = useState(false);
 
@@ -83,6 +85,7 @@ const PaymentMethodInfo = ({ paymentMethod, totalAmount }: PaymentMethodInfoProp
             {t('checkout.automaticRate')} {lastUpdated}
           </p>
         )}
+        <p className="text-xs text-blue-600 mb-3">{t('checkout.rateLockNotice')}</p>
         
         {error && (
           <div className="p-2 bg-yellow-50 border border-yellow-200 rounded-md text-xs text-yellow-700 mb-3">
@@ -197,6 +200,7 @@ const PaymentMethodInfo = ({ paymentMethod, totalAmount }: PaymentMethodInfoProp
                     {t('checkout.automaticRate')} {lastUpdated}
                   </p>
                 )}
+                <p className="text-xs text-blue-600 mt-1">{t('checkout.rateLockNotice')}</p>
               </>
             )}
             
@@ -5,16 +5,15 @@ import { Label } from '@/components/ui/label';
 import { toast } from '@/hooks/use-toast';
 import { Upload, X, Image } from 'lucide-react';
 import { useLanguage } from '@/hooks/useLanguage';
-import { updatePaymentProof } from '@/services/orderService';
-import { ref, uploadBytes, getDownloadURL } from 'firebase/storage';
-import { storage } from '@/config/firebase';
+import { uploadPaymentProof } from '@/services/paymentService';
+import { Order } from '@/types';
 
 interface PaymentProofUploaderProps {
-  orderId: string;
+  order: Pick<Order, 'id' | 'user_id' | 'customer_info'>;
   onSuccess?: () => void;
 }
 
-const PaymentProofUploader = ({ orderId, onSuccess }: PaymentProofUploaderProps) => {
+const PaymentProofUploader = ({ order, onSuccess }: PaymentProofUploaderProps) => {
   const [file, setFile] = useState<File | null>(null);
   const { t } = useLanguage();
   const [preview, setPreview] = useState<string | null>(null);
@@ -61,17 +60,16 @@ const PaymentProofUploader = ({ orderId, onSuccess }: PaymentProofUploaderProps)
   };
 
   const handleUpload = async () => {
-    if (!file || !orderId) return;
+    if (!file || !order.id) return;
 
     setUploading(true);
     try {
-      // Upload to Firebase Storage
-      const storageRef = ref(storage, `payment-proofs/${orderId}_${Date.now()}`);
-      await uploadBytes(storageRef, file);
-      const downloadURL = await getDownloadURL(storageRef);
-
-      // Update order with payment proof URL
-      await updatePaymentProof(orderId, downloadURL);
+      // Stored as a new proof; earlier uploads stay in the order's history
+      await uploadPaymentProof(file, {
+        id: order.id,
+        user_id: order.user_id,
+        payment_method: order.customer_info?.payment_method || ''
+      });
 
       toast({
         title: t('payment.proofUploaded'),
@@ -1,8 +1,8 @@
 import { useRef } from 'react';
 import { Link } from 'react-router-dom';
 import { Product } from '@/types';
-import { formatPrice } from '@/utils/cart';
 import { useLanguage } from '@/hooks/useLanguage';
+import { useDisplayCurrency } from '@/hooks/useDisplayCurrency';
 import AddToCartButton from '@/components/AddToCartButton';
 import { Badge } from '@/components/ui/badge';
 import { getCategoryIcon } from '@/utils/categoryVariants';
@@ -15,6 +15,8 @@ interface ProductCardProps {
 const ProductCard = ({ product, onAddToCart }: ProductCardProps) => {
   const cardRef = useRef<HTMLDivElement>(null);
   const { t } = useLanguage();
+  const { formatDisplayPrice } = useDisplayCurrency();
+  const price = formatDisplayPrice(product.price);
 
   const handleAddToCart = (position: { x: number; y: number }) => {
     if (onAddToCart) {
@@ -55,8 +57,13 @@ const ProductCard = ({ product, onAddToCart }: ProductCardProps) => {
           </p>
           
           <div className="space-y-2 sm:space-y-3">
-            <div className="text-base sm:text-lg md:text-xl font-bold text-red-600">
-              {formatPrice(product.price)}
+            <div>
+              <div className="text-base sm:text-lg md:text-xl font-bold text-red-600">
+                {price.primary}
+              </div>
+              {price.secondary && (
+                <div className="text-xs text-gray-500">{price.secondary}</div>
+              )}
             </div>
             
             <div className="flex items-center justify-between">
@@ -0,0 +1,37 @@
+import { ExternalLink, Truck } from 'lucide-react';
+import { OrderShipment } from '@/types';
+import { getCarrier, getTrackingUrl } from '@/utils/shippingCarriers';
+
+interface ShipmentTrackingInfoProps {
+  shipment: OrderShipment;
+}
+
+const ShipmentTrackingInfo = ({ shipment }: ShipmentTrackingInfoProps) => {
+  const carrier = getCarrier(shipment.carrier);
+  const trackingUrl = getTrackingUrl(shipment.carrier, shipment.tracking_number);
+
+  return (
+    <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 text-sm">
+      <div className="flex items-center space-x-2">
+        <Truck className="w-4 h-4 text-indigo-600" />
+        <div>
+          <p className="font-medium">{carrier?.name || shipment.carrier}</p>
+          <p className="text-gray-600 font-mono">{shipment.tracking_number}</p>
+        </div>
+      </div>
+      {trackingUrl && (
+        <a
+          href={trackingUrl}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="inline-flex items-center text-indigo-600 hover:text-indigo-800 font-medium"
+        >
+          Lacak Paket
+          <ExternalLink className="w-3 h-3 ml-1" />
+        </a>
+      )}
+    </div>
+  );
+};
+
+export default ShipmentTrackingInfo;
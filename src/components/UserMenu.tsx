@@ -1,7 +1,7 @@
-import { LogOut, User, ShoppingBag, Settings, Percent } from 'lucide-react';
+import { LogOut, User, ShoppingBag, Settings, Percent, Calculator } from 'lucide-react';
 import { useAuth } from '@/hooks/useFirebaseAuth';
+import { usePermissions } from '@/hooks/usePermissions';
 import { useNavigate } from 'react-router-dom';
-import { useState, useEffect } from 'react';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -15,24 +15,9 @@ import { Button } from '@/components/ui/button';
 const UserMenu = () => {
   const { user, signOut } = useAuth();
   const navigate = useNavigate();
-  const [isAdmin, setIsAdmin] = useState(false);
-
-  useEffect(() => {
-    // For Firebase, you can check admin status based on custom claims or a separate admin list
-    // For now, we'll set a simple check - you can modify this based on your needs
-    const checkAdminStatus = () => {
-      if (user) {
-        // You can implement custom claims or check against a list of admin emails
-        // For demo purposes, let's check if email contains 'admin'
-        const adminEmails = ['admin@gmail.com', 'ari4rich@gmail.com'];
-        setIsAdmin(adminEmails.includes(user.email || ''));
-      }
-    };
-
-    if (user) {
-      checkAdminStatus();
-    }
-  }, [user]);
+  const { can } = usePermissions();
+  const isAdmin = can('admin.access');
+  const isCashier = can('pos.access');
 
   if (!user) return null;
 
@@ -53,6 +38,10 @@ const UserMenu = () => {
     navigate('/admin');
   };
 
+  const handleKasirClick = () => {
+    navigate('/kasir');
+  };
+
   return (
     <DropdownMenu>
       <DropdownMenuTrigger asChild>
@@ -77,13 +66,21 @@ const UserMenu = () => {
           <Percent className="mr-2 h-4 w-4" />
           <span>Program Affiliate</span>
         </DropdownMenuItem>
-        {isAdmin && (
+        {(isAdmin || isCashier) && (
           <>
             <DropdownMenuSeparator />
-            <DropdownMenuItem onClick={handleAdminClick}>
-              <Settings className="mr-2 h-4 w-4" />
-              <span>Admin Panel</span>
-            </DropdownMenuItem>
+            {isAdmin && (
+              <DropdownMenuItem onClick={handleAdminClick}>
+                <Settings className="mr-2 h-4 w-4" />
+                <span>Admin Panel</span>
+              </DropdownMenuItem>
+            )}
+            {isCashier && (
+              <DropdownMenuItem onClick={handleKasirClick}>
+                <Calculator className="mr-2 h-4 w-4" />
+                <span>Kasir</span>
+              </DropdownMenuItem>
+            )}
           </>
         )}
         <DropdownMenuSeparator />
@@ -10,76 +10,118 @@ import {
   Trash2,
   Truck,
   CreditCard,
-  Percent
+  Percent,
+  FileText,
+  Ticket,
+  Banknote
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { usePermissions } from '@/hooks/usePermissions';
+import { Permission } from '@/types';
 
 const AdminSidebar = () => {
   const location = useLocation();
+  const { can } = usePermissions();
 
-  const menuItems = [
+  const menuItems: {
+    title: string;
+    href: string;
+    icon: typeof LayoutDashboard;
+    permission: Permission;
+    description?: string;
+  }[] = [
     {
       title: 'Dashboard',
       href: '/admin',
+      permission: 'dashboard.view',
       icon: LayoutDashboard,
     },
     {
       title: 'Laporan Penjualan',
       href: '/admin/sales-report',
+      permission: 'reports.view',
       icon: BarChart,
       description: 'Sales & Revenue'
     },
     {
       title: 'Konfirmasi Pesanan',
       href: '/admin/order-confirmation',
+      permission: 'orders.manage',
       icon: CheckCircle,
       description: 'Pending orders'
     },
     {
       title: 'Verifikasi Pembayaran',
       href: '/admin/payment-verification',
+      permission: 'payments.verify',
       icon: CreditCard,
       description: 'Payment verification'
     },
     {
       title: 'Produk',
       href: '/admin/products',
+      permission: 'products.manage',
       icon: Package,
     },
     {
       title: 'Tambah Produk',
       href: '/admin/add-product',
+      permission: 'products.manage',
       icon: Package,
     },
     {
       title: 'Riwayat Pesanan',
       href: '/admin/orders-history',
+      permission: 'orders.manage',
       icon: ShoppingCart,
     },
     {
       title: 'Manajemen User',
       href: '/admin/users',
+      permission: 'users.manage',
       icon: Users,
     },
     {
       title: 'Pengaturan Ongkir',
       href: '/admin/shipping-rates',
+      permission: 'shipping.manage',
       icon: Truck,
     },
+    {
+      title: 'Voucher',
+      href: '/admin/vouchers',
+      permission: 'vouchers.manage',
+      icon: Ticket,
+    },
+    {
+      title: 'Kurs Rupiah',
+      href: '/admin/exchange-rate',
+      permission: 'exchange_rate.manage',
+      icon: Banknote,
+    },
     {
       title: 'Program Affiliate',
       href: '/admin/affiliate',
+      permission: 'affiliate.manage',
       icon: Percent,
     },
     {
       title: 'Import/Export',
       href: '/admin/import-export',
+      permission: 'data.import_export',
       icon: Upload,
     },
     {
       title: 'Recycle Bin',
       href: '/admin/recycle-bin',
+      permission: 'recycle_bin.manage',
       icon: Trash2,
+    },
+    {
+      title: 'Log Aktivitas',
+      href: '/admin/logs',
+      permission: 'logs.view',
+      icon: FileText,
     }
   ];
 
@@ -92,7 +134,7 @@ const AdminSidebar = () => {
       
       <nav className="p-4">
         <ul className="space-y-2">
-          {menuItems.map((item) => {
+          {menuItems.filter((item) => can(item.permission)).map((item) => {
             const isActive = location.pathname === item.href;
             const Icon = item.icon;
             
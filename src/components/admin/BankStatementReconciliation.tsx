@@ -0,0 +1,217 @@
+import { useRef } from 'react';
+import { CheckCircle, Landmark, Upload, XCircle } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { toast } from '@/hooks/use-toast';
+import {
+  useBankReviewQueue,
+  useConfirmBankTransaction,
+  useDismissBankTransaction,
+  useImportBankStatement
+} from '@/hooks/useBankReconciliation';
+import { BankTransaction, Order, PaymentProof } from '@/types';
+import {
+  decodeBankStatement,
+  getExpectedTransferAmount,
+  getNameMatchScore,
+  isAwaitingTransfer,
+  parseBankStatement
+} from '@/utils/bankReconciliation';
+import { formatRupiah, formatYen } from '@/utils/currencyUtils';
+
+interface BankStatementReconciliationProps {
+  orders: Order[];
+  proofs: PaymentProof[];
+}
+
+const formatAmount = (amount: number, currency: BankTransaction['currency']) =>
+  currency === 'IDR' ? formatRupiah(amount) : formatYen(amount);
+
+// Upload of Yucho / Indonesian bank statements and the queue of transfers
+// that could not be matched to a single order
+const BankStatementReconciliation = ({ orders, proofs }: BankStatementReconciliationProps) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { data: queue = [] } = useBankReviewQueue();
+  const importStatement = useImportBankStatement();
+  const confirmTransaction = useConfirmBankTransaction();
+  const dismissTransaction = useDismissBankTransaction();
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const transactions = parseBankStatement(decodeBankStatement(await file.arrayBuffer()));
+      if (transactions.length === 0) {
+        toast({
+          title: "Tidak Ada Transfer Masuk",
+          description: "File tidak berisi transaksi masuk yang bisa dicocokkan",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const result = await importStatement.mutateAsync({
+        fileName: file.name,
+        transactions,
+        orders,
+        proofs
+      });
+
+      toast({
+        title: "Import Mutasi Selesai",
+        description: [
+          `${result.autoVerified} pembayaran terverifikasi otomatis.`,
+          `${result.review} transfer perlu ditinjau, ${result.unmatched} tidak cocok dengan pesanan.`,
+          result.duplicates > 0 ? `${result.duplicates} transfer sudah pernah diimpor.` : ''
+        ].filter(Boolean).join('\n'),
+      });
+    } catch (error) {
+      console.error('Error importing bank statement:', error);
+      toast({
+        title: "Import Gagal",
+        description: error instanceof Error ? error.message : "Format file tidak valid",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleConfirm = async (transaction: BankTransaction, order: Order) => {
+    try {
+      await confirmTransaction.mutateAsync({ transaction, order, proofs });
+      toast({
+        title: "Pembayaran Terverifikasi",
+        description: `Transfer dicocokkan dengan pesanan #${order.id.slice(-8)}`,
+      });
+    } catch (error) {
+      console.error('Error confirming bank transaction:', error);
+      toast({
+        title: "Error",
+        description: "Gagal mengonfirmasi transfer",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDismiss = async (transaction: BankTransaction) => {
+    try {
+      await dismissTransaction.mutateAsync(transaction);
+    } catch (error) {
+      console.error('Error dismissing bank transaction:', error);
+      toast({
+        title: "Error",
+        description: "Gagal mengabaikan transfer",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const isBusy = confirmTransaction.isPending || dismissTransaction.isPending;
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center">
+            <Landmark className="w-5 h-5 mr-2" />
+            Rekonsiliasi Mutasi Bank
+          </CardTitle>
+          <p className="text-sm text-gray-500 mt-1">
+            Upload CSV mutasi Yucho atau bank Indonesia. Transfer yang cocok dengan satu pesanan langsung diverifikasi.
+          </p>
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv"
+          onChange={handleFileChange}
+          className="hidden"
+        />
+        <Button
+          variant="outline"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={importStatement.isPending}
+        >
+          <Upload className="w-4 h-4 mr-2" />
+          {importStatement.isPending ? 'Memproses...' : 'Import Mutasi'}
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {queue.length === 0 ? (
+          <p className="text-sm text-gray-500">Tidak ada transfer yang perlu ditinjau</p>
+        ) : (
+          <div className="space-y-3">
+            <p className="text-sm font-medium text-gray-700">Perlu Ditinjau ({queue.length})</p>
+            {queue.map(transaction => {
+              const candidates = transaction.candidate_order_ids
+                .map(orderId => orders.find(order => order.id === orderId))
+                .filter((order): order is Order => !!order && isAwaitingTransfer(order));
+
+              return (
+                <div key={transaction.id} className="border rounded-lg p-3 space-y-2">
+                  <div className="flex flex-wrap items-start justify-between gap-2">
+                    <div>
+                      <p className="font-semibold">{formatAmount(transaction.amount, transaction.currency)}</p>
+                      <p className="text-sm text-gray-600">{transaction.sender || '-'}</p>
+                      <p className="text-xs text-gray-400">
+                        {new Date(transaction.date).toLocaleDateString('id-ID')} · {transaction.file_name}
+                      </p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDismiss(transaction)}
+                      disabled={isBusy}
+                    >
+                      <XCircle className="w-4 h-4 mr-1" />
+                      Abaikan
+                    </Button>
+                  </div>
+
+                  {candidates.length === 0 ? (
+                    <p className="text-xs text-yellow-700">Pesanan kandidat sudah tidak menunggu pembayaran</p>
+                  ) : (
+                    <div className="space-y-2">
+                      {candidates.map(order => {
+                        const expected = getExpectedTransferAmount(order);
+                        const nameMatches = getNameMatchScore(order.customer_info?.name || '', transaction.sender) > 0;
+
+                        return (
+                          <div key={order.id} className="flex flex-wrap items-center justify-between gap-2 bg-gray-50 rounded-md p-2">
+                            <div className="text-sm">
+                              <span className="font-medium">#{order.id.slice(-8)}</span>
+                              {' · '}{order.customer_info?.name}
+                              {expected && (
+                                <span className="text-gray-500"> · {formatAmount(expected.amount, expected.currency)}</span>
+                              )}
+                              {nameMatches && (
+                                <Badge className="ml-2 bg-blue-100 text-blue-800">Nama cocok</Badge>
+                              )}
+                            </div>
+                            <Button
+                              size="sm"
+                              className="bg-green-600 hover:bg-green-700 text-white"
+                              onClick={() => handleConfirm(transaction, order)}
+                              disabled={isBusy}
+                            >
+                              <CheckCircle className="w-4 h-4 mr-1" />
+                              Konfirmasi
+                            </Button>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BankStatementReconciliation;
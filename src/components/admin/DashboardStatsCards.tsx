@@ -1,7 +1,7 @@
 
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Package, TrendingDown, CheckCircle, AlertTriangle, ShoppingCart } from 'lucide-react';
+import { Package, TrendingDown, CheckCircle, AlertTriangle, ShoppingCart, Clock, DollarSign, Tag } from 'lucide-react';
 import { DashboardStats } from '@/types';
 
 interface DashboardStatsCardsProps {
@@ -34,17 +34,35 @@ const DashboardStatsCards = ({ stats }: DashboardStatsCardsProps) => {
       icon: AlertTriangle,
       color: 'bg-orange-500'
     },
+    {
+      title: 'Kategori',
+      value: stats.totalCategories,
+      icon: Tag,
+      color: 'bg-teal-500'
+    },
     {
       title: 'Total Pesanan',
       value: stats.totalOrders,
       icon: ShoppingCart,
       color: 'bg-purple-500'
+    },
+    {
+      title: 'Pesanan Pending',
+      value: stats.pendingOrders,
+      icon: Clock,
+      color: 'bg-yellow-500'
+    },
+    {
+      title: 'Total Pendapatan',
+      value: `¥${stats.totalRevenue.toLocaleString()}`,
+      icon: DollarSign,
+      color: 'bg-emerald-500'
     }
   ];
 
   return (
     <>
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-6 mb-8">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
         {statCards.map((stat) => {
           const Icon = stat.icon;
           return (
@@ -0,0 +1,213 @@
+import { useState } from 'react';
+import { CheckCircle, Eye, XCircle } from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { toast } from '@/hooks/use-toast';
+import { useRejectPaymentProof, useVerifyPaymentProof } from '@/hooks/usePaymentProofs';
+import { PaymentProof, PaymentProofStatus } from '@/types';
+import { PAYMENT_PROOF_STATUS_LABELS } from '@/utils/paymentUtils';
+
+interface PaymentProofGalleryProps {
+  proofs: PaymentProof[];
+  onView: (imageUrl: string) => void;
+}
+
+const STATUS_COLORS: Record<PaymentProofStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  verified: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800'
+};
+
+const formatDateTime = (dateString: string) => new Date(dateString).toLocaleString('id-ID');
+
+// Every upload of one order side by side, each with its review history
+const PaymentProofGallery = ({ proofs, onView }: PaymentProofGalleryProps) => {
+  const verifyProof = useVerifyPaymentProof();
+  const rejectProof = useRejectPaymentProof();
+  const [rejectingProof, setRejectingProof] = useState<PaymentProof | null>(null);
+  const [rejectReason, setRejectReason] = useState('');
+
+  const handleVerify = async (proof: PaymentProof) => {
+    try {
+      await verifyProof.mutateAsync(proof);
+      toast({
+        title: "Pembayaran Terverifikasi",
+        description: "Bukti pembayaran diterima dan pesanan dikonfirmasi",
+      });
+    } catch (error) {
+      console.error('Error verifying payment proof:', error);
+      toast({
+        title: "Error",
+        description: "Gagal memverifikasi bukti pembayaran",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleReject = async () => {
+    if (!rejectingProof) return;
+
+    try {
+      await rejectProof.mutateAsync({ proof: rejectingProof, reason: rejectReason.trim() });
+      toast({
+        title: "Bukti Ditolak",
+        description: "Pelanggan dapat mengunggah bukti pembayaran baru",
+      });
+      setRejectingProof(null);
+      setRejectReason('');
+    } catch (error) {
+      console.error('Error rejecting payment proof:', error);
+      toast({
+        title: "Error",
+        description: "Gagal menolak bukti pembayaran",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (proofs.length === 0) {
+    return <p className="text-sm text-yellow-600 mt-2">Belum ada bukti pembayaran</p>;
+  }
+
+  return (
+    <div className="mt-2">
+      <p className="text-sm font-medium text-gray-700 mb-2">
+        Bukti Pembayaran ({proofs.length}):
+      </p>
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+        {proofs.map((proof, index) => (
+          <div key={proof.id} className="bg-white border rounded-lg p-3 space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-xs font-medium text-gray-500">Upload #{index + 1}</span>
+              <Badge className={STATUS_COLORS[proof.status]}>
+                {PAYMENT_PROOF_STATUS_LABELS[proof.status]}
+              </Badge>
+            </div>
+            <img
+              src={proof.image_url}
+              alt={`Bukti Pembayaran #${index + 1}`}
+              className="w-full h-40 object-cover rounded-md cursor-pointer border border-gray-200"
+              onClick={() => onView(proof.image_url)}
+            />
+            <p className="text-xs text-gray-500">{formatDateTime(proof.uploaded_at)}</p>
+
+            {proof.reviews.length > 0 && (
+              <ul className="text-xs space-y-1 border-t pt-2">
+                {proof.reviews.map((review, reviewIndex) => (
+                  <li key={reviewIndex} className={review.status === 'verified' ? 'text-green-700' : 'text-red-700'}>
+                    {PAYMENT_PROOF_STATUS_LABELS[review.status]} · {formatDateTime(review.reviewed_at)}
+                    {review.notes && <span className="block text-gray-600">{review.notes}</span>}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" size="sm" onClick={() => onView(proof.image_url)}>
+                <Eye className="w-4 h-4 mr-1" />
+                Lihat
+              </Button>
+              {proof.status === 'pending' && (
+                <>
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button size="sm" className="bg-green-600 hover:bg-green-700 text-white" disabled={verifyProof.isPending}>
+                        <CheckCircle className="w-4 h-4 mr-1" />
+                        Verifikasi
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Konfirmasi Verifikasi</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          Terima bukti pembayaran ini? Status pesanan akan berubah menjadi "Dikonfirmasi".
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Batal</AlertDialogCancel>
+                        <AlertDialogAction
+                          onClick={() => handleVerify(proof)}
+                          className="bg-green-600 hover:bg-green-700"
+                        >
+                          Verifikasi
+                        </AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                  <Button variant="destructive" size="sm" onClick={() => setRejectingProof(proof)}>
+                    <XCircle className="w-4 h-4 mr-1" />
+                    Tolak
+                  </Button>
+                </>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <Dialog
+        open={!!rejectingProof}
+        onOpenChange={(open) => {
+          if (!open) {
+            setRejectingProof(null);
+            setRejectReason('');
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Tolak Bukti Pembayaran</DialogTitle>
+            <DialogDescription>
+              Pesanan tetap terbuka agar pelanggan bisa mengunggah bukti baru.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2 py-2">
+            <Label htmlFor="reject-proof-reason">Alasan</Label>
+            <Textarea
+              id="reject-proof-reason"
+              value={rejectReason}
+              onChange={(e) => setRejectReason(e.target.value)}
+              placeholder="Contoh: nominal transfer tidak sesuai"
+              rows={3}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejectingProof(null)}>
+              Batal
+            </Button>
+            <Button
+              onClick={handleReject}
+              disabled={rejectProof.isPending || !rejectReason.trim()}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              {rejectProof.isPending ? 'Menyimpan...' : 'Tolak Bukti'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default PaymentProofGallery;
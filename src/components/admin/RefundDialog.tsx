@@ -0,0 +1,114 @@
+import { useEffect, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { toast } from '@/hooks/use-toast';
+import { Order } from '@/types';
+import { refundOrder } from '@/services/orderService';
+
+interface RefundDialogProps {
+  order: Order | null;
+  onClose: () => void;
+  onRefunded?: () => void;
+}
+
+const RefundDialog = ({ order, onClose, onRefunded }: RefundDialogProps) => {
+  const queryClient = useQueryClient();
+  const [amount, setAmount] = useState('');
+  const [reason, setReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const refundable = order ? (order.total_price || 0) - (order.refunded_amount || 0) : 0;
+
+  useEffect(() => {
+    setAmount(refundable > 0 ? refundable.toString() : '');
+    setReason('');
+  }, [order, refundable]);
+
+  const handleSubmit = async () => {
+    if (!order) return;
+
+    setIsSaving(true);
+    try {
+      await refundOrder(order.id, parseInt(amount) || 0, reason.trim());
+      await queryClient.invalidateQueries({ queryKey: ['orders'] });
+
+      toast({
+        title: "Refund Dicatat",
+        description: `Refund ¥${(parseInt(amount) || 0).toLocaleString()} untuk order #${order.id.slice(-8)} berhasil dicatat. Komisi affiliate telah disesuaikan.`,
+      });
+      onRefunded?.();
+      onClose();
+    } catch (error) {
+      console.error('Error refunding order:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Gagal mencatat refund",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!order} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Catat Refund</DialogTitle>
+          <DialogDescription>
+            {order && `Order #${order.id.slice(-8)} · maksimal ¥${refundable.toLocaleString()}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="refund-amount">Jumlah Refund (¥)</Label>
+            <Input
+              id="refund-amount"
+              inputMode="numeric"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value.replace(/[^\d]/g, ''))}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="refund-reason">Alasan</Label>
+            <Textarea
+              id="refund-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Contoh: produk rusak saat pengiriman"
+              rows={3}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Batal
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={isSaving || !amount || !reason.trim()}
+            className="bg-red-600 hover:bg-red-700"
+          >
+            {isSaving ? 'Menyimpan...' : 'Catat Refund'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RefundDialog;
@@ -0,0 +1,55 @@
+import { Navigate } from 'react-router-dom';
+import { usePermissions } from '@/hooks/usePermissions';
+import { Permission } from '@/types';
+import { ROLE_LABELS } from '@/utils/permissions';
+
+interface RequirePermissionProps {
+  permission: Permission;
+  children: React.ReactNode;
+}
+
+const RequirePermission = ({ permission, children }: RequirePermissionProps) => {
+  const { user, role, can, loading } = usePermissions();
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-red-600 mx-auto mb-4"></div>
+          <p className="text-gray-600">Verifying access...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  if (!can(permission)) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="text-center">
+          <div className="text-6xl mb-4">🚫</div>
+          <h2 className="text-2xl font-bold text-gray-900 mb-4">Access Denied</h2>
+          <p className="text-gray-600 mb-4">
+            Your role ({ROLE_LABELS[role]}) doesn't have access to this page.
+          </p>
+          <p className="text-sm text-gray-400 mb-6">
+            Current user: {user.email}
+          </p>
+          <button
+            onClick={() => window.location.href = '/'}
+            className="bg-red-600 text-white px-6 py-3 rounded-lg hover:bg-red-700"
+          >
+            Go to Home
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+};
+
+export default RequirePermission;
@@ -0,0 +1,106 @@
+import { useRef, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { toast } from '@/hooks/use-toast';
+import { Order, ShippingCarrier } from '@/types';
+import { importOrderShipments } from '@/services/orderService';
+import { parseCSVShipments } from '@/utils/exportUtils';
+
+interface ShipmentCsvImportProps {
+  orders: Order[];
+}
+
+// Staff usually copy the short "#xxxxxxxx" number shown on the order card
+const resolveOrderId = (orderRef: string, orders: Order[]): string | null => {
+  const ref = orderRef.trim().toLowerCase();
+  if (!ref) return null;
+
+  const exact = orders.find(order => order.id.toLowerCase() === ref);
+  if (exact) return exact.id;
+
+  const matches = orders.filter(order => order.id.toLowerCase().endsWith(ref));
+  return matches.length === 1 ? matches[0].id : null;
+};
+
+const ShipmentCsvImport = ({ orders }: ShipmentCsvImportProps) => {
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setIsImporting(true);
+    try {
+      const rows = parseCSVShipments(await file.text());
+      const errors: string[] = [];
+      const shipments: { orderId: string; carrier: ShippingCarrier; trackingNumber: string }[] = [];
+
+      rows.forEach(row => {
+        const orderId = resolveOrderId(row.orderRef, orders);
+        if (!orderId) {
+          errors.push(`Baris ${row.line}: order "${row.orderRef}" tidak ditemukan`);
+        } else if (!row.carrier) {
+          errors.push(`Baris ${row.line}: kurir "${row.rawCarrier}" tidak dikenal`);
+        } else if (!row.trackingNumber) {
+          errors.push(`Baris ${row.line}: nomor resi kosong`);
+        } else {
+          shipments.push({ orderId, carrier: row.carrier, trackingNumber: row.trackingNumber });
+        }
+      });
+
+      const result = await importOrderShipments(shipments);
+      result.failed.forEach(failure => {
+        errors.push(`Order #${failure.orderId.slice(-8)}: ${failure.error}`);
+      });
+
+      await queryClient.invalidateQueries({ queryKey: ['orders'] });
+
+      toast({
+        title: errors.length > 0 ? "Import Selesai dengan Error" : "Import Berhasil",
+        description: [
+          `${result.updated} dari ${rows.length} nomor resi berhasil diimpor.`,
+          ...errors.slice(0, 5),
+          errors.length > 5 ? `dan ${errors.length - 5} error lainnya...` : ''
+        ].filter(Boolean).join('\n'),
+        variant: errors.length > 0 && result.updated === 0 ? "destructive" : "default",
+      });
+    } catch (error) {
+      console.error('Error importing shipments:', error);
+      toast({
+        title: "Import Gagal",
+        description: error instanceof Error ? error.message : "Format file tidak valid",
+        variant: "destructive",
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".csv,text/csv"
+        className="hidden"
+        onChange={handleFileChange}
+      />
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => fileInputRef.current?.click()}
+        disabled={isImporting}
+        title="Kolom CSV: order_id, carrier, tracking_number"
+      >
+        <Upload className="w-4 h-4 mr-2" />
+        {isImporting ? 'Mengimpor...' : 'Import Resi (CSV)'}
+      </Button>
+    </>
+  );
+};
+
+export default ShipmentCsvImport;
@@ -0,0 +1,114 @@
+import { useEffect, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from '@/hooks/use-toast';
+import { Order, ShippingCarrier } from '@/types';
+import { updateOrderShipment } from '@/services/orderService';
+import { SHIPPING_CARRIERS } from '@/utils/shippingCarriers';
+
+interface ShipmentDialogProps {
+  order: Order | null;
+  onClose: () => void;
+}
+
+const ShipmentDialog = ({ order, onClose }: ShipmentDialogProps) => {
+  const queryClient = useQueryClient();
+  const [carrier, setCarrier] = useState<ShippingCarrier>('yamato');
+  const [trackingNumber, setTrackingNumber] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setCarrier(order?.shipment?.carrier || 'yamato');
+    setTrackingNumber(order?.shipment?.tracking_number || '');
+  }, [order]);
+
+  const handleSubmit = async () => {
+    if (!order) return;
+
+    setIsSaving(true);
+    try {
+      await updateOrderShipment(order.id, carrier, trackingNumber);
+      await queryClient.invalidateQueries({ queryKey: ['orders'] });
+
+      toast({
+        title: "Resi Disimpan",
+        description: `Nomor resi untuk order #${order.id.slice(-8)} berhasil disimpan`,
+      });
+      onClose();
+    } catch (error) {
+      console.error('Error saving shipment:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Gagal menyimpan nomor resi",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!order} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Informasi Pengiriman</DialogTitle>
+          <DialogDescription>
+            {order && `Order #${order.id.slice(-8)} akan ditandai sebagai dikirim.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="shipment-carrier">Kurir</Label>
+            <Select value={carrier} onValueChange={(value) => setCarrier(value as ShippingCarrier)}>
+              <SelectTrigger id="shipment-carrier">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SHIPPING_CARRIERS.map(info => (
+                  <SelectItem key={info.id} value={info.id}>{info.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="shipment-tracking">Nomor Resi</Label>
+            <Input
+              id="shipment-tracking"
+              value={trackingNumber}
+              onChange={(e) => setTrackingNumber(e.target.value)}
+              placeholder="Contoh: 1234-5678-9012"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Batal
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={isSaving || !trackingNumber.trim()}
+            className="bg-blue-600 hover:bg-blue-700"
+          >
+            {isSaving ? 'Menyimpan...' : 'Simpan Resi'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ShipmentDialog;
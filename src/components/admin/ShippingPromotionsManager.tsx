@@ -0,0 +1,447 @@
+import { useState } from 'react';
+import {
+  useShippingPromotions,
+  useAddShippingPromotion,
+  useUpdateShippingPromotion,
+  useDeleteShippingPromotion
+} from '@/hooks/useShippingRates';
+import { prefectures } from '@/data/prefectures';
+import { getCategoriesWithVariants } from '@/utils/categoryVariants';
+import { toast } from '@/hooks/use-toast';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Gift, Edit, Trash2, Plus } from 'lucide-react';
+import { ShippingPromotion, ShippingPromotionType } from '@/types';
+
+const PROMOTION_TYPE_LABELS: Record<ShippingPromotionType, string> = {
+  free: 'Gratis Ongkir',
+  discount_amount: 'Potongan (¥)',
+  discount_percent: 'Potongan (%)'
+};
+
+const emptyForm = {
+  name: '',
+  type: 'free' as ShippingPromotionType,
+  value: '',
+  min_subtotal: '',
+  prefectures: [] as string[],
+  categories: [] as string[],
+  starts_at: '',
+  ends_at: '',
+  active: true
+};
+
+const toggleValue = (values: string[], value: string) =>
+  values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+
+const ShippingPromotionsManager = () => {
+  const { data: promotions = [], isLoading } = useShippingPromotions();
+  const addPromotion = useAddShippingPromotion();
+  const updatePromotion = useUpdateShippingPromotion();
+  const deletePromotion = useDeleteShippingPromotion();
+
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  const categories = getCategoriesWithVariants();
+
+  const formatPrice = (price: number) => {
+    return new Intl.NumberFormat('ja-JP', {
+      style: 'currency',
+      currency: 'JPY',
+    }).format(price);
+  };
+
+  const openCreate = () => {
+    setEditingId(null);
+    setFormData(emptyForm);
+    setIsDialogOpen(true);
+  };
+
+  const openEdit = (promotion: ShippingPromotion) => {
+    setEditingId(promotion.id);
+    setFormData({
+      name: promotion.name,
+      type: promotion.type,
+      value: promotion.value?.toString() || '',
+      min_subtotal: promotion.min_subtotal?.toString() || '',
+      prefectures: promotion.prefectures || [],
+      categories: promotion.categories || [],
+      starts_at: promotion.starts_at ? promotion.starts_at.split('T')[0] : '',
+      ends_at: promotion.ends_at ? promotion.ends_at.split('T')[0] : '',
+      active: promotion.active
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleSubmit = async () => {
+    const value = parseInt(formData.value) || 0;
+
+    if (!formData.name.trim()) {
+      toast({
+        title: "Error",
+        description: "Nama promo wajib diisi",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (formData.type !== 'free' && value <= 0) {
+      toast({
+        title: "Error",
+        description: "Nilai potongan harus lebih dari 0",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (formData.starts_at && formData.ends_at && formData.starts_at > formData.ends_at) {
+      toast({
+        title: "Error",
+        description: "Tanggal mulai harus sebelum tanggal berakhir",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const promotion = {
+      name: formData.name.trim(),
+      type: formData.type,
+      value: formData.type === 'free' ? 0 : value,
+      min_subtotal: parseInt(formData.min_subtotal) || 0,
+      prefectures: formData.prefectures,
+      categories: formData.categories,
+      // Date inputs are whole days in Japan time
+      starts_at: formData.starts_at ? new Date(`${formData.starts_at}T00:00:00+09:00`).toISOString() : null,
+      ends_at: formData.ends_at ? new Date(`${formData.ends_at}T23:59:59+09:00`).toISOString() : null,
+      active: formData.active
+    };
+
+    try {
+      if (editingId) {
+        await updatePromotion.mutateAsync({ id: editingId, updates: promotion });
+      } else {
+        await addPromotion.mutateAsync(promotion);
+      }
+
+      toast({
+        title: "Berhasil",
+        description: `Promo ${promotion.name} berhasil disimpan`,
+      });
+      setIsDialogOpen(false);
+    } catch (error) {
+      console.error('Error saving shipping promotion:', error);
+      toast({
+        title: "Error",
+        description: "Gagal menyimpan promo ongkir",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleToggleActive = async (promotion: ShippingPromotion) => {
+    try {
+      await updatePromotion.mutateAsync({ id: promotion.id, updates: { active: !promotion.active } });
+    } catch (error) {
+      console.error('Error toggling shipping promotion:', error);
+      toast({
+        title: "Error",
+        description: "Gagal mengubah status promo",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleDelete = async (promotion: ShippingPromotion) => {
+    if (!window.confirm(`Hapus promo ${promotion.name}?`)) return;
+
+    try {
+      await deletePromotion.mutateAsync(promotion.id);
+      toast({
+        title: "Berhasil",
+        description: `Promo ${promotion.name} berhasil dihapus`,
+      });
+    } catch (error) {
+      console.error('Error deleting shipping promotion:', error);
+      toast({
+        title: "Error",
+        description: "Gagal menghapus promo ongkir",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const describeBenefit = (promotion: ShippingPromotion) => {
+    if (promotion.type === 'free') return 'Gratis ongkir';
+    if (promotion.type === 'discount_amount') return `Potongan ${formatPrice(promotion.value)}`;
+    return `Potongan ${promotion.value}%`;
+  };
+
+  const describePeriod = (promotion: ShippingPromotion) => {
+    if (!promotion.starts_at && !promotion.ends_at) return 'Tanpa batas waktu';
+    const format = (date?: string | null) =>
+      date ? new Date(date).toLocaleDateString('id-ID', { day: 'numeric', month: 'short', year: 'numeric' }) : '...';
+    return `${format(promotion.starts_at)} - ${format(promotion.ends_at)}`;
+  };
+
+  return (
+    <>
+      <Card className="mt-6">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="flex items-center space-x-2">
+              <Gift className="w-5 h-5" />
+              <span>Promo Ongkir ({promotions.length})</span>
+            </CardTitle>
+            <Button onClick={openCreate} size="sm">
+              <Plus className="w-4 h-4 mr-2" />
+              Tambah Promo
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Nama</TableHead>
+                    <TableHead>Benefit</TableHead>
+                    <TableHead>Min. Belanja</TableHead>
+                    <TableHead>Berlaku Untuk</TableHead>
+                    <TableHead>Periode</TableHead>
+                    <TableHead>Aktif</TableHead>
+                    <TableHead className="text-right">Aksi</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {promotions.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={7} className="text-center py-8 text-gray-500">
+                        Belum ada promo ongkir
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    promotions.map(promotion => (
+                      <TableRow key={promotion.id}>
+                        <TableCell className="font-medium">{promotion.name}</TableCell>
+                        <TableCell>
+                          <Badge variant="secondary">{describeBenefit(promotion)}</Badge>
+                        </TableCell>
+                        <TableCell>{formatPrice(promotion.min_subtotal || 0)}</TableCell>
+                        <TableCell className="text-sm text-gray-600">
+                          <div>
+                            {promotion.prefectures?.length > 0
+                              ? `${promotion.prefectures.length} prefektur`
+                              : 'Semua prefektur'}
+                          </div>
+                          <div>
+                            {promotion.categories?.length > 0
+                              ? promotion.categories.join(', ')
+                              : 'Semua kategori'}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-sm text-gray-600">{describePeriod(promotion)}</TableCell>
+                        <TableCell>
+                          <Switch
+                            checked={promotion.active}
+                            onCheckedChange={() => handleToggleActive(promotion)}
+                          />
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end space-x-2">
+                            <Button variant="outline" size="sm" onClick={() => openEdit(promotion)}>
+                              <Edit className="w-4 h-4" />
+                            </Button>
+                            <Button variant="destructive" size="sm" onClick={() => handleDelete(promotion)}>
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Edit Promo Ongkir' : 'Tambah Promo Ongkir'}</DialogTitle>
+            <DialogDescription>
+              Promo dengan potongan terbesar yang memenuhi syarat akan dipakai saat checkout.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="promo-name">Nama Promo</Label>
+              <Input
+                id="promo-name"
+                value={formData.name}
+                onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="Contoh: Gratis ongkir di atas ¥10.000"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Jenis</Label>
+                <Select
+                  value={formData.type}
+                  onValueChange={(value) => setFormData(prev => ({ ...prev, type: value as ShippingPromotionType }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(PROMOTION_TYPE_LABELS).map(([type, label]) => (
+                      <SelectItem key={type} value={type}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="promo-value">Nilai</Label>
+                <Input
+                  id="promo-value"
+                  inputMode="numeric"
+                  value={formData.type === 'free' ? '' : formData.value}
+                  onChange={(e) => setFormData(prev => ({ ...prev, value: e.target.value.replace(/[^\d]/g, '') }))}
+                  placeholder={formData.type === 'discount_percent' ? 'Persen' : 'Yen'}
+                  disabled={formData.type === 'free'}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="promo-min-subtotal">Minimal Belanja (¥)</Label>
+              <Input
+                id="promo-min-subtotal"
+                inputMode="numeric"
+                value={formData.min_subtotal}
+                onChange={(e) => setFormData(prev => ({ ...prev, min_subtotal: e.target.value.replace(/[^\d]/g, '') }))}
+                placeholder="0"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="promo-start">Mulai</Label>
+                <Input
+                  id="promo-start"
+                  type="date"
+                  value={formData.starts_at}
+                  onChange={(e) => setFormData(prev => ({ ...prev, starts_at: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="promo-end">Berakhir</Label>
+                <Input
+                  id="promo-end"
+                  type="date"
+                  value={formData.ends_at}
+                  onChange={(e) => setFormData(prev => ({ ...prev, ends_at: e.target.value }))}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Kategori (kosongkan untuk semua)</Label>
+              <div className="grid grid-cols-2 gap-2">
+                {categories.map(category => (
+                  <label key={category} className="flex items-center space-x-2 text-sm">
+                    <Checkbox
+                      checked={formData.categories.includes(category)}
+                      onCheckedChange={() => setFormData(prev => ({
+                        ...prev,
+                        categories: toggleValue(prev.categories, category)
+                      }))}
+                    />
+                    <span>{category}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Prefektur (kosongkan untuk semua)</Label>
+              <div className="grid grid-cols-2 gap-2 max-h-48 overflow-y-auto border rounded p-2">
+                {prefectures.map(prefecture => {
+                  const prefectureId = prefecture.name_en.toLowerCase();
+                  return (
+                    <label key={prefectureId} className="flex items-center space-x-2 text-sm">
+                      <Checkbox
+                        checked={formData.prefectures.includes(prefectureId)}
+                        onCheckedChange={() => setFormData(prev => ({
+                          ...prev,
+                          prefectures: toggleValue(prev.prefectures, prefectureId)
+                        }))}
+                      />
+                      <span>{prefecture.name} ({prefecture.name_en})</span>
+                    </label>
+                  );
+                })}
+              </div>
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="promo-active"
+                checked={formData.active}
+                onCheckedChange={(checked) => setFormData(prev => ({ ...prev, active: checked }))}
+              />
+              <Label htmlFor="promo-active">Aktif</Label>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+              Batal
+            </Button>
+            <Button
+              onClick={handleSubmit}
+              disabled={addPromotion.isPending || updatePromotion.isPending}
+              className="bg-blue-600 hover:bg-blue-700"
+            >
+              {addPromotion.isPending || updatePromotion.isPending ? 'Menyimpan...' : 'Simpan Promo'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default ShippingPromotionsManager;
@@ -0,0 +1,102 @@
+import { AffiliateLedgerEntry } from '@/types/affiliate';
+import { buildStatement, getLedgerBalance, LEDGER_ENTRY_TYPE_LABELS } from '@/utils/affiliateLedger';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+
+interface AffiliateStatementProps {
+  entries: AffiliateLedgerEntry[];
+}
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('id-ID', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+const formatChange = (change: number) => {
+  if (change === 0) return '-';
+  return `${change > 0 ? '+' : '−'}¥${Math.abs(change).toLocaleString()}`;
+};
+
+// Every movement on an affiliate's balance, newest first
+const AffiliateStatement = ({ entries }: AffiliateStatementProps) => {
+  const balance = getLedgerBalance(entries);
+  const lines = buildStatement(entries).reverse();
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <div className="bg-blue-50 p-3 rounded-md">
+          <p className="text-xs text-blue-500">Total Komisi</p>
+          <p className="text-lg font-semibold text-blue-700">¥{balance.earned.toLocaleString()}</p>
+        </div>
+        <div className="bg-yellow-50 p-3 rounded-md">
+          <p className="text-xs text-yellow-600">Saldo Tersedia</p>
+          <p className="text-lg font-semibold text-yellow-700">¥{balance.available.toLocaleString()}</p>
+        </div>
+        <div className="bg-purple-50 p-3 rounded-md">
+          <p className="text-xs text-purple-500">Dalam Pencairan</p>
+          <p className="text-lg font-semibold text-purple-700">¥{balance.payoutRequested.toLocaleString()}</p>
+        </div>
+        <div className="bg-green-50 p-3 rounded-md">
+          <p className="text-xs text-green-500">Sudah Dibayar</p>
+          <p className="text-lg font-semibold text-green-700">¥{balance.paid.toLocaleString()}</p>
+        </div>
+      </div>
+
+      {lines.length === 0 ? (
+        <p className="text-center py-8 text-gray-500">Belum ada mutasi saldo</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Tanggal</TableHead>
+                <TableHead>Keterangan</TableHead>
+                <TableHead>Jenis</TableHead>
+                <TableHead className="text-right">Mutasi</TableHead>
+                <TableHead className="text-right">Saldo</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {lines.map(({ entry, change, balance: runningBalance }) => (
+                <TableRow key={entry.id}>
+                  <TableCell className="text-sm text-gray-500 whitespace-nowrap">
+                    {formatDate(entry.createdAt)}
+                  </TableCell>
+                  <TableCell>
+                    {entry.description}
+                    {entry.type === 'payout' && change === 0 && (
+                      <p className="text-xs text-gray-500">¥{entry.amount.toLocaleString()}</p>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{LEDGER_ENTRY_TYPE_LABELS[entry.type]}</Badge>
+                  </TableCell>
+                  <TableCell className={`text-right font-medium ${change < 0 ? 'text-red-600' : change > 0 ? 'text-green-600' : 'text-gray-400'}`}>
+                    {formatChange(change)}
+                  </TableCell>
+                  <TableCell className="text-right font-semibold">
+                    ¥{runningBalance.toLocaleString()}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AffiliateStatement;
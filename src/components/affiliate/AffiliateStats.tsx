@@ -1,14 +1,19 @@
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { useAffiliate } from '@/hooks/useAffiliate';
-import { TrendingUp, Users, ShoppingCart, DollarSign, Clock } from 'lucide-react';
+import { getHoldPeriodDays } from '@/utils/affiliateLedger';
+import { getCampaignStats } from '@/utils/affiliateCampaigns';
+import { getProductStats } from '@/utils/affiliateProducts';
+import CampaignBreakdown from '@/components/affiliate/CampaignBreakdown';
+import ProductBreakdown from '@/components/affiliate/ProductBreakdown';
+import { TrendingUp, Users, ShoppingCart, DollarSign, Clock, Lock, Tag, Package } from 'lucide-react';
 
 const AffiliateStats = () => {
-  const { affiliate, loading } = useAffiliate();
+  const { affiliate, referrals, commissions, balance, withdrawable, settings, loading } = useAffiliate();
 
   if (loading) {
     return (
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-        {[1, 2, 3, 4].map((i) => (
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
+        {[1, 2, 3, 4, 5].map((i) => (
           <Card key={i} className="animate-pulse">
             <CardHeader className="pb-2">
               <div className="h-5 bg-gray-200 rounded w-1/2"></div>
@@ -43,42 +48,82 @@ const AffiliateStats = () => {
       description: 'Jumlah pengguna yang mendaftar'
     },
     {
-      title: 'Komisi Pending',
-      value: `¥${affiliate.pendingCommission.toLocaleString()}`,
+      title: 'Saldo Terkunci',
+      value: `¥${withdrawable.locked.toLocaleString()}`,
+      icon: Lock,
+      color: 'bg-gray-500',
+      description: `Ditahan ${getHoldPeriodDays(settings)} hari setelah pesanan diterima`
+    },
+    {
+      title: 'Saldo Tersedia',
+      value: `¥${withdrawable.withdrawable.toLocaleString()}`,
       icon: Clock,
       color: 'bg-yellow-500',
-      description: 'Komisi yang belum dibayarkan'
+      description: 'Komisi yang bisa dicairkan'
     },
     {
       title: 'Total Komisi',
-      value: `¥${affiliate.totalCommission.toLocaleString()}`,
+      value: `¥${balance.earned.toLocaleString()}`,
       icon: DollarSign,
       color: 'bg-red-500',
       description: 'Total komisi yang didapatkan'
     }
   ];
 
+  const campaignStats = getCampaignStats(referrals, commissions);
+  const productStats = getProductStats(referrals, commissions);
+
   return (
-    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-      {stats.map((stat, index) => {
-        const Icon = stat.icon;
-        return (
-          <Card key={index} className="hover:shadow-md transition-shadow">
-            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium text-gray-600">
-                {stat.title}
-              </CardTitle>
-              <div className={`p-2 rounded-full ${stat.color}`}>
-                <Icon className="w-4 h-4 text-white" />
-              </div>
-            </CardHeader>
-            <CardContent>
-              <div className="text-2xl font-bold">{stat.value}</div>
-              <p className="text-xs text-gray-500 mt-1">{stat.description}</p>
-            </CardContent>
-          </Card>
-        );
-      })}
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
+        {stats.map((stat, index) => {
+          const Icon = stat.icon;
+          return (
+            <Card key={index} className="hover:shadow-md transition-shadow">
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium text-gray-600">
+                  {stat.title}
+                </CardTitle>
+                <div className={`p-2 rounded-full ${stat.color}`}>
+                  <Icon className="w-4 h-4 text-white" />
+                </div>
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{stat.value}</div>
+                <p className="text-xs text-gray-500 mt-1">{stat.description}</p>
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+
+      {campaignStats.some(stat => stat.campaign) && (
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-gray-600 flex items-center">
+              <Tag className="w-4 h-4 mr-2" />
+              Performa per Campaign
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <CampaignBreakdown stats={campaignStats} />
+          </CardContent>
+        </Card>
+      )}
+
+      {productStats.length > 0 && (
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-gray-600 flex items-center">
+              <Package className="w-4 h-4 mr-2" />
+              Performa per Produk
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ProductBreakdown stats={productStats} />
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 };
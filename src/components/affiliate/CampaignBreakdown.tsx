@@ -0,0 +1,56 @@
+import { CampaignStats } from '@/types/affiliate';
+import { getCampaignLabel } from '@/utils/affiliateCampaigns';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+interface CampaignBreakdownProps {
+  stats: CampaignStats[];
+}
+
+const formatRate = (orders: number, clicks: number) =>
+  clicks > 0 ? `${((orders / clicks) * 100).toFixed(1)}%` : '-';
+
+const CampaignBreakdown = ({ stats }: CampaignBreakdownProps) => {
+  if (stats.length === 0) {
+    return <p className="text-center py-6 text-sm text-gray-500">Belum ada data campaign</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Campaign</TableHead>
+            <TableHead className="text-right">Klik</TableHead>
+            <TableHead className="text-right">Registrasi</TableHead>
+            <TableHead className="text-right">Order</TableHead>
+            <TableHead className="text-right">Konversi</TableHead>
+            <TableHead className="text-right">Komisi</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {stats.map(stat => (
+            <TableRow key={stat.campaign}>
+              <TableCell className={`font-medium ${stat.campaign ? '' : 'text-gray-500'}`}>
+                {getCampaignLabel(stat.campaign)}
+              </TableCell>
+              <TableCell className="text-right">{stat.clicks.toLocaleString()}</TableCell>
+              <TableCell className="text-right">{stat.registrations.toLocaleString()}</TableCell>
+              <TableCell className="text-right">{stat.orders.toLocaleString()}</TableCell>
+              <TableCell className="text-right">{formatRate(stat.orders, stat.clicks)}</TableCell>
+              <TableCell className="text-right font-semibold">¥{stat.commission.toLocaleString()}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
+
+export default CampaignBreakdown;
@@ -0,0 +1,28 @@
+import { AffiliateCommission } from '@/types/affiliate';
+import { COMMISSION_ADJUSTMENT_LABELS } from '@/utils/commissionCalculator';
+
+interface CommissionAdjustmentsNoteProps {
+  commission: AffiliateCommission;
+}
+
+const CommissionAdjustmentsNote = ({ commission }: CommissionAdjustmentsNoteProps) => {
+  const { adjustments, originalAmount } = commission;
+
+  if (!adjustments || adjustments.length === 0) return null;
+
+  return (
+    <div className="mt-1 space-y-0.5 text-xs font-normal text-gray-500">
+      {originalAmount !== undefined && (
+        <p className="line-through">¥{originalAmount.toLocaleString()}</p>
+      )}
+      {adjustments.map(adjustment => (
+        <p key={adjustment.id} className="text-red-600">
+          −¥{adjustment.amount.toLocaleString()} · {COMMISSION_ADJUSTMENT_LABELS[adjustment.reason]}
+          {adjustment.notes ? ` (${adjustment.notes})` : ''}
+        </p>
+      ))}
+    </div>
+  );
+};
+
+export default CommissionAdjustmentsNote;
@@ -0,0 +1,84 @@
+import { AffiliateCommission } from '@/types/affiliate';
+import { RATE_SOURCE_LABELS } from '@/utils/commissionCalculator';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Info } from 'lucide-react';
+
+interface CommissionBreakdownDialogProps {
+  commission: AffiliateCommission;
+}
+
+const CommissionBreakdownDialog = ({ commission }: CommissionBreakdownDialogProps) => {
+  const { breakdown } = commission;
+
+  // Commissions created before per-item rules have no breakdown
+  if (!breakdown) return null;
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-6 px-1 text-gray-500">
+          <Info className="w-4 h-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Rincian Komisi</DialogTitle>
+          <DialogDescription>
+            Order #{commission.orderId.slice(0, 8)} · ongkos kirim tidak dihitung
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-2 text-sm">
+            <span className="text-gray-500">Tier</span>
+            <span>{breakdown.tierName || 'Tanpa tier'}</span>
+            <span className="text-gray-500">Penjualan bulan ini sebelumnya</span>
+            <span>¥{breakdown.monthlySales.toLocaleString()}</span>
+            <span className="text-gray-500">Komisi dasar</span>
+            <span>{breakdown.baseRate}%</span>
+            {breakdown.discount > 0 && (
+              <>
+                <span className="text-gray-500">Potongan voucher</span>
+                <span>-¥{breakdown.discount.toLocaleString()}</span>
+              </>
+            )}
+          </div>
+
+          <div className="border rounded divide-y">
+            {breakdown.lines.map((line, index) => (
+              <div key={`${line.productId}-${index}`} className="p-2 text-sm flex justify-between items-start">
+                <div>
+                  <p className="font-medium">{line.name} × {line.quantity}</p>
+                  <p className="text-xs text-gray-500">
+                    ¥{line.lineTotal.toLocaleString()} × {line.rate}%{' '}
+                    <Badge variant="outline" className="ml-1 text-[10px]">
+                      {RATE_SOURCE_LABELS[line.rateSource]}
+                      {line.rateSource === 'category' && line.category ? `: ${line.category}` : ''}
+                    </Badge>
+                  </p>
+                </div>
+                <span className="font-semibold">¥{line.amount.toLocaleString()}</span>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex justify-between font-bold">
+            <span>Total Komisi</span>
+            <span className="text-primary">¥{commission.commissionAmount.toLocaleString()}</span>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CommissionBreakdownDialog;
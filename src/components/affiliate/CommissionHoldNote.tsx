@@ -0,0 +1,26 @@
+import { AffiliateCommission } from '@/types/affiliate';
+import { getCommissionReleaseDate, isCommissionLocked } from '@/utils/affiliateLedger';
+import { Lock } from 'lucide-react';
+
+interface CommissionHoldNoteProps {
+  commission: AffiliateCommission;
+  holdPeriodDays: number;
+}
+
+// Shown under the status while the commission cannot be paid out yet
+const CommissionHoldNote = ({ commission, holdPeriodDays }: CommissionHoldNoteProps) => {
+  if (!isCommissionLocked(commission, holdPeriodDays)) return null;
+
+  const releaseDate = getCommissionReleaseDate(commission, holdPeriodDays);
+
+  return (
+    <p className="mt-1 flex items-center text-xs text-gray-500">
+      <Lock className="w-3 h-3 mr-1" />
+      {releaseDate
+        ? `Terkunci s/d ${releaseDate.toLocaleDateString('id-ID', { day: 'numeric', month: 'short', year: 'numeric' })}`
+        : 'Terkunci sampai pesanan diterima'}
+    </p>
+  );
+};
+
+export default CommissionHoldNote;
@@ -13,9 +13,13 @@ import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Search, DollarSign, RefreshCw } from 'lucide-react';
+import CommissionBreakdownDialog from '@/components/affiliate/CommissionBreakdownDialog';
+import CommissionAdjustmentsNote from '@/components/affiliate/CommissionAdjustmentsNote';
+import CommissionHoldNote from '@/components/affiliate/CommissionHoldNote';
+import { getHoldPeriodDays } from '@/utils/affiliateLedger';
 
 const CommissionsTable = () => {
-  const { commissions, loading } = useAffiliate();
+  const { commissions, settings, loading } = useAffiliate();
   const [searchTerm, setSearchTerm] = useState('');
 
   const filteredCommissions = commissions.filter(commission => 
@@ -33,6 +37,8 @@ const CommissionsTable = () => {
         return <Badge variant="destructive">Ditolak</Badge>;
       case 'paid':
         return <Badge className="bg-primary">Dibayar</Badge>;
+      case 'reversed':
+        return <Badge variant="outline" className="bg-gray-100 text-gray-600 border-gray-200">Dibatalkan</Badge>;
       default:
         return <Badge variant="outline">Unknown</Badge>;
     }
@@ -121,8 +127,13 @@ const CommissionsTable = () => {
                     <TableCell>¥{commission.orderTotal.toLocaleString()}</TableCell>
                     <TableCell className="font-semibold text-primary">
                       ¥{commission.commissionAmount.toLocaleString()}
+                      <CommissionBreakdownDialog commission={commission} />
+                      <CommissionAdjustmentsNote commission={commission} />
+                    </TableCell>
+                    <TableCell>
+                      {getStatusBadge(commission.status)}
+                      <CommissionHoldNote commission={commission} holdPeriodDays={getHoldPeriodDays(settings)} />
                     </TableCell>
-                    <TableCell>{getStatusBadge(commission.status)}</TableCell>
                     <TableCell className="text-sm text-gray-500">
                       {formatDate(commission.createdAt)}
                     </TableCell>
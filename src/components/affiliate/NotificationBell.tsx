@@ -0,0 +1,155 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, Bell, Settings } from 'lucide-react';
+import { useAffiliateNotifications } from '@/hooks/useAffiliateNotifications';
+import { toast } from '@/hooks/use-toast';
+import { AffiliateNotification, AffiliateNotificationType } from '@/types/affiliate';
+import { NOTIFICATION_TYPE_LABELS } from '@/utils/affiliateNotifications';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Switch } from '@/components/ui/switch';
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('id-ID', {
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+// Affiliate notification center in the header; renders nothing for other users
+const NotificationBell = () => {
+  const navigate = useNavigate();
+  const {
+    isAffiliate,
+    notifications,
+    unreadCount,
+    preferences,
+    markAsRead,
+    markAllAsRead,
+    updatePreferences
+  } = useAffiliateNotifications();
+  const [open, setOpen] = useState(false);
+  const [showPreferences, setShowPreferences] = useState(false);
+
+  if (!isAffiliate) {
+    return null;
+  }
+
+  const handleOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (!isOpen) setShowPreferences(false);
+  };
+
+  const handleNotificationClick = (notification: AffiliateNotification) => {
+    if (!notification.read) {
+      markAsRead([notification.id]);
+    }
+    setOpen(false);
+    navigate('/referral');
+  };
+
+  const handlePreferenceChange = async (type: AffiliateNotificationType, enabled: boolean) => {
+    try {
+      await updatePreferences({ ...preferences, [type]: enabled });
+    } catch (error) {
+      console.error('Error updating notification preferences:', error);
+      toast({
+        title: 'Error',
+        description: 'Gagal menyimpan pengaturan notifikasi',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="relative p-2" aria-label="Notifikasi">
+          <Bell className="w-5 h-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] px-1 rounded-full bg-red-600 text-white text-[10px] font-bold flex items-center justify-center">
+              {unreadCount > 99 ? '99+' : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between px-4 py-3 border-b">
+          {showPreferences ? (
+            <button
+              type="button"
+              onClick={() => setShowPreferences(false)}
+              className="flex items-center text-sm font-semibold"
+            >
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Pengaturan Notifikasi
+            </button>
+          ) : (
+            <>
+              <span className="text-sm font-semibold">Notifikasi Affiliate</span>
+              <div className="flex items-center space-x-1">
+                {unreadCount > 0 && (
+                  <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={markAllAsRead}>
+                    Tandai dibaca
+                  </Button>
+                )}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 w-7 p-0"
+                  onClick={() => setShowPreferences(true)}
+                  aria-label="Pengaturan notifikasi"
+                >
+                  <Settings className="w-4 h-4" />
+                </Button>
+              </div>
+            </>
+          )}
+        </div>
+
+        {showPreferences ? (
+          <div className="p-4 space-y-3">
+            {(Object.keys(NOTIFICATION_TYPE_LABELS) as AffiliateNotificationType[]).map(type => (
+              <div key={type} className="flex items-center justify-between">
+                <Label htmlFor={`notification-${type}`} className="text-sm font-normal">
+                  {NOTIFICATION_TYPE_LABELS[type]}
+                </Label>
+                <Switch
+                  id={`notification-${type}`}
+                  checked={preferences[type]}
+                  onCheckedChange={(enabled) => handlePreferenceChange(type, enabled)}
+                />
+              </div>
+            ))}
+          </div>
+        ) : notifications.length === 0 ? (
+          <p className="text-center py-8 text-sm text-gray-500">Belum ada notifikasi</p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.map(notification => (
+              <button
+                key={notification.id}
+                type="button"
+                onClick={() => handleNotificationClick(notification)}
+                className={`w-full text-left px-4 py-3 border-b last:border-b-0 hover:bg-gray-50 ${
+                  notification.read ? '' : 'bg-blue-50'
+                }`}
+              >
+                <div className="flex items-start justify-between gap-2">
+                  <p className="text-sm font-medium">{notification.title}</p>
+                  {!notification.read && <span className="mt-1.5 w-2 h-2 rounded-full bg-primary shrink-0" />}
+                </div>
+                <p className="text-xs text-gray-600">{notification.message}</p>
+                <p className="text-[11px] text-gray-400 mt-1">{formatDate(notification.eventAt)}</p>
+              </button>
+            ))}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default NotificationBell;
@@ -11,7 +11,9 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { toast } from '@/hooks/use-toast';
 import { useLanguage } from '@/hooks/useLanguage';
-import { DollarSign, CreditCard, AlertCircle } from 'lucide-react';
+import { DollarSign, CreditCard, AlertCircle, Lock, Clock } from 'lucide-react';
+import { getHoldPeriodDays } from '@/utils/affiliateLedger';
+import { AffiliateBankInfo } from '@/types/affiliate';
 
 const payoutSchema = z.object({
   amount: z.string()
@@ -26,12 +28,18 @@ const payoutSchema = z.object({
   bankName: z.string().min(1, 'Nama bank wajib diisi'),
   accountNumber: z.string().min(1, 'Nomor rekening wajib diisi'),
   accountName: z.string().min(1, 'Nama pemilik rekening wajib diisi'),
+  // Only needed for transfers to a Japanese bank (Zengin)
+  bankCode: z.string().regex(/^(\d{4})?$/, 'Kode bank terdiri dari 4 digit'),
+  branchCode: z.string().regex(/^(\d{3})?$/, 'Kode cabang terdiri dari 3 digit'),
+  branchName: z.string(),
+  accountType: z.enum(['ordinary', 'checking']),
+  accountNameKana: z.string(),
 });
 
 type PayoutFormValues = z.infer<typeof payoutSchema>;
 
 const PayoutRequestForm = () => {
-  const { affiliate, settings, requestPayout } = useAffiliate();
+  const { affiliate, withdrawable, settings, requestPayout } = useAffiliate();
   const { t } = useLanguage();
   const [isSubmitting, setIsSubmitting] = useState(false);
 
@@ -43,6 +51,11 @@ const PayoutRequestForm = () => {
       bankName: affiliate?.bankInfo?.bankName || '',
       accountNumber: affiliate?.bankInfo?.accountNumber || '',
       accountName: affiliate?.bankInfo?.accountName || '',
+      bankCode: affiliate?.bankInfo?.bankCode || '',
+      branchCode: affiliate?.bankInfo?.branchCode || '',
+      branchName: affiliate?.bankInfo?.branchName || '',
+      accountType: affiliate?.bankInfo?.accountType || 'ordinary',
+      accountNameKana: affiliate?.bankInfo?.accountNameKana || '',
     },
   });
 
@@ -58,8 +71,8 @@ const PayoutRequestForm = () => {
 
     const amount = Number(data.amount);
     
-    // Check if amount is greater than pending commission
-    if (amount > affiliate.pendingCommission) {
+    // Check if amount is greater than the balance outside the hold period
+    if (amount > withdrawable.withdrawable) {
       toast({
         title: 'Error',
         description: 'Jumlah melebihi komisi yang tersedia',
@@ -81,10 +94,17 @@ const PayoutRequestForm = () => {
     try {
       setIsSubmitting(true);
       
-      const bankInfo = {
+      const bankInfo: AffiliateBankInfo = {
         bankName: data.bankName,
         accountNumber: data.accountNumber,
         accountName: data.accountName,
+        ...(data.bankCode ? {
+          bankCode: data.bankCode,
+          branchCode: data.branchCode,
+          branchName: data.branchName,
+          accountType: data.accountType,
+          accountNameKana: data.accountNameKana,
+        } : {}),
       };
       
       await requestPayout(amount, data.method, bankInfo);
@@ -95,11 +115,8 @@ const PayoutRequestForm = () => {
       });
       
       form.reset({
+        ...data,
         amount: '',
-        method: data.method,
-        bankName: data.bankName,
-        accountNumber: data.accountNumber,
-        accountName: data.accountName,
       });
     } catch (error) {
       console.error('Error requesting payout:', error);
@@ -118,7 +135,7 @@ const PayoutRequestForm = () => {
   }
 
   const minAmount = settings.minPayoutAmount;
-  const maxAmount = affiliate.pendingCommission;
+  const maxAmount = withdrawable.withdrawable;
   const canRequestPayout = maxAmount >= minAmount;
 
   return (
@@ -130,6 +147,31 @@ const PayoutRequestForm = () => {
         </CardTitle>
       </CardHeader>
       <CardContent>
+        {withdrawable.locked > 0 && (
+          <div className="bg-gray-50 p-3 rounded-md flex items-start space-x-2 mb-4 text-sm text-gray-600">
+            <Lock className="w-4 h-4 mt-0.5" />
+            <p>
+              ¥{withdrawable.locked.toLocaleString()} masih terkunci sampai {getHoldPeriodDays(settings)} hari
+              setelah pesanan diterima dan belum bisa dicairkan.
+            </p>
+          </div>
+        )}
+        {withdrawable.pending > 0 && (
+          <div className="bg-gray-50 p-3 rounded-md flex items-start space-x-2 mb-4 text-sm text-gray-600">
+            <Clock className="w-4 h-4 mt-0.5" />
+            <p>
+              ¥{withdrawable.pending.toLocaleString()} masih menunggu persetujuan admin dan belum bisa dicairkan.
+            </p>
+          </div>
+        )}
+        {withdrawable.requested > 0 && (
+          <div className="bg-gray-50 p-3 rounded-md flex items-start space-x-2 mb-4 text-sm text-gray-600">
+            <Clock className="w-4 h-4 mt-0.5" />
+            <p>
+              ¥{withdrawable.requested.toLocaleString()} sudah diajukan untuk pencairan dan menunggu diproses admin.
+            </p>
+          </div>
+        )}
         {!canRequestPayout ? (
           <div className="bg-yellow-50 p-4 rounded-md flex items-start space-x-3">
             <AlertCircle className="w-5 h-5 text-yellow-500 mt-0.5" />
@@ -244,6 +286,87 @@ const PayoutRequestForm = () => {
                     </FormItem>
                   )}
                 />
+
+                <div className="border-t pt-4 space-y-4">
+                  <p className="text-sm text-gray-600">
+                    Rekening bank Jepang (opsional, untuk transfer Zengin)
+                  </p>
+                  <div className="grid grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="bankCode"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Kode Bank</FormLabel>
+                          <FormControl>
+                            <Input {...field} inputMode="numeric" maxLength={4} placeholder="Contoh: 9900" />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="branchCode"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Kode Cabang</FormLabel>
+                          <FormControl>
+                            <Input {...field} inputMode="numeric" maxLength={3} placeholder="Contoh: 118" />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="branchName"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Nama Cabang</FormLabel>
+                          <FormControl>
+                            <Input {...field} placeholder="Contoh: イチイチハチ" />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="accountType"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Jenis Rekening</FormLabel>
+                          <Select onValueChange={field.onChange} defaultValue={field.value}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value="ordinary">普通 (Biasa)</SelectItem>
+                              <SelectItem value="checking">当座 (Giro)</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                  <FormField
+                    control={form.control}
+                    name="accountNameKana"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Nama Pemilik (Katakana)</FormLabel>
+                        <FormControl>
+                          <Input {...field} placeholder="Contoh: ブディ サントソ" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
               </div>
 
               <Button 
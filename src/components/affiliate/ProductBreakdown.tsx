@@ -0,0 +1,55 @@
+import { useProducts } from '@/hooks/useProducts';
+import { ProductStats } from '@/types/affiliate';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+interface ProductBreakdownProps {
+  stats: ProductStats[];
+}
+
+const ProductBreakdown = ({ stats }: ProductBreakdownProps) => {
+  const { data: products = [] } = useProducts();
+
+  if (stats.length === 0) {
+    return <p className="text-center py-6 text-sm text-gray-500">Belum ada data produk</p>;
+  }
+
+  // Products that were only clicked have no commission line to take the name from
+  const getName = (stat: ProductStats) =>
+    stat.name || products.find(product => product.id === stat.productId)?.name || stat.productId;
+
+  return (
+    <div className="overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Produk</TableHead>
+            <TableHead className="text-right">Klik</TableHead>
+            <TableHead className="text-right">Order</TableHead>
+            <TableHead className="text-right">Terjual</TableHead>
+            <TableHead className="text-right">Komisi</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {stats.map(stat => (
+            <TableRow key={stat.productId}>
+              <TableCell className="font-medium">{getName(stat)}</TableCell>
+              <TableCell className="text-right">{stat.clicks.toLocaleString()}</TableCell>
+              <TableCell className="text-right">{stat.orders.toLocaleString()}</TableCell>
+              <TableCell className="text-right">{stat.quantity.toLocaleString()}</TableCell>
+              <TableCell className="text-right font-semibold">¥{stat.commission.toLocaleString()}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
+
+export default ProductBreakdown;
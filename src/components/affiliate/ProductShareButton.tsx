@@ -0,0 +1,203 @@
+import { useRef, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import html2canvas from 'html2canvas';
+import QRCode from 'qrcode.react';
+import { Copy, Download, Share2 } from 'lucide-react';
+import { useAuth } from '@/hooks/useFirebaseAuth';
+import { useCurrencyConverter } from '@/hooks/useCurrencyConverter';
+import { toast } from '@/hooks/use-toast';
+import { getAffiliateUser } from '@/services/affiliateService';
+import { Product } from '@/types';
+import { buildProductLink } from '@/utils/affiliateProducts';
+import { formatRupiah, formatYen } from '@/utils/currencyUtils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+interface ProductShareButtonProps {
+  product: Product;
+  price: number;
+}
+
+interface ProductShareContentProps extends ProductShareButtonProps {
+  link: string;
+  referralCode: string;
+}
+
+// Mounted only while open, so the exchange rate is fetched on demand
+const ProductShareContent = ({ product, price, link, referralCode }: ProductShareContentProps) => {
+  const cardRef = useRef<HTMLDivElement>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const { convertedRupiah } = useCurrencyConverter(price, 'Bank Transfer (Rupiah)');
+
+  const handleCopyLink = () => {
+    navigator.clipboard.writeText(link)
+      .then(() => {
+        toast({
+          title: 'Link disalin!',
+          description: 'Link produk dengan kode referral Anda berhasil disalin',
+        });
+      })
+      .catch(err => {
+        console.error('Error copying product link:', err);
+      });
+  };
+
+  const handleShareLink = async () => {
+    if (navigator.share) {
+      try {
+        await navigator.share({
+          title: product.name,
+          text: `${product.name} - ${formatYen(price)} di Injapan Food`,
+          url: link,
+        });
+      } catch (error) {
+        console.error('Error sharing:', error);
+      }
+    } else {
+      handleCopyLink();
+    }
+  };
+
+  const handleShareImage = async () => {
+    if (!cardRef.current) return;
+
+    try {
+      setIsGenerating(true);
+      const canvas = await html2canvas(cardRef.current, {
+        scale: 2,
+        logging: false,
+        useCORS: true,
+        backgroundColor: '#ffffff'
+      });
+      const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+      if (!blob) {
+        throw new Error('Failed to render share image');
+      }
+
+      const file = new File([blob], `injapan-${product.id}.png`, { type: 'image/png' });
+      if (navigator.canShare?.({ files: [file] })) {
+        await navigator.share({ files: [file], title: product.name, text: link });
+        return;
+      }
+
+      const url = URL.createObjectURL(blob);
+      const anchor = document.createElement('a');
+      anchor.href = url;
+      anchor.download = file.name;
+      anchor.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error generating share image:', error);
+      toast({
+        title: 'Error',
+        description: 'Gagal membuat gambar untuk dibagikan',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex space-x-2">
+        <Input value={link} readOnly className="font-mono text-sm bg-gray-50" />
+        <Button onClick={handleCopyLink} size="sm" className="shrink-0">
+          <Copy className="w-4 h-4 mr-2" />
+          Salin
+        </Button>
+      </div>
+
+      <div ref={cardRef} className="bg-white border rounded-lg overflow-hidden">
+        <img
+          src={product.images?.[0] || product.image_url || '/placeholder.svg'}
+          alt={product.name}
+          crossOrigin="anonymous"
+          className="w-full h-56 object-cover"
+        />
+        <div className="p-4 flex items-end justify-between gap-4">
+          <div className="min-w-0">
+            <p className="font-semibold text-gray-900 line-clamp-2">{product.name}</p>
+            <p className="text-2xl font-bold text-primary">{formatYen(price)}</p>
+            {convertedRupiah !== null && (
+              <p className="text-sm text-gray-600">≈ {formatRupiah(convertedRupiah)}</p>
+            )}
+            <p className="text-xs text-gray-500 mt-2">
+              Kode referral: <span className="font-mono font-semibold">{referralCode}</span>
+            </p>
+          </div>
+          <div className="shrink-0 text-center">
+            <QRCode value={link} size={96} level="M" includeMargin={false} />
+            <p className="text-[10px] text-gray-500 mt-1">Scan untuk beli</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-2">
+        <Button onClick={handleShareLink} variant="outline" className="w-full">
+          <Share2 className="w-4 h-4 mr-2" />
+          Bagikan Link
+        </Button>
+        <Button onClick={handleShareImage} disabled={isGenerating} className="w-full">
+          <Download className="w-4 h-4 mr-2" />
+          {isGenerating ? 'Membuat gambar...' : 'Bagikan Gambar'}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+// Shown on product pages to signed-in affiliates only
+const ProductShareButton = ({ product, price }: ProductShareButtonProps) => {
+  const { user } = useAuth();
+  const [open, setOpen] = useState(false);
+
+  const { data: affiliate } = useQuery({
+    queryKey: ['affiliate', user?.uid],
+    queryFn: () => getAffiliateUser(user!.uid),
+    enabled: !!user,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  if (!affiliate) {
+    return null;
+  }
+
+  const link = buildProductLink(window.location.origin, product.id, affiliate.referralCode);
+
+  return (
+    <>
+      <Button variant="outline" className="w-full" onClick={() => setOpen(true)}>
+        <Share2 className="w-4 h-4 mr-2" />
+        Bagikan dengan Kode Saya
+      </Button>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Bagikan Produk</DialogTitle>
+            <DialogDescription>
+              Pembeli yang membuka link ini tercatat sebagai referral Anda
+            </DialogDescription>
+          </DialogHeader>
+          {open && (
+            <ProductShareContent
+              product={product}
+              price={price}
+              link={link}
+              referralCode={affiliate.referralCode}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default ProductShareButton;
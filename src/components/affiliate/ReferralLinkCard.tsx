@@ -3,15 +3,32 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { useAffiliate } from '@/hooks/useAffiliate';
-import { Copy, Share2, QrCode } from 'lucide-react';
+import { Copy, Share2, QrCode, Tag } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
 import { useLanguage } from '@/hooks/useLanguage';
 import QRCode from 'qrcode.react';
+import { buildCampaignLink, CAMPAIGN_PRESETS, normalizeCampaign } from '@/utils/affiliateCampaigns';
 
 const ReferralLinkCard = () => {
   const { affiliate, referralLink, copyReferralLink } = useAffiliate();
   const { t } = useLanguage();
   const [showQR, setShowQR] = useState(false);
+  const [campaign, setCampaign] = useState('');
+
+  const campaignLink = buildCampaignLink(referralLink, campaign);
+
+  const handleCopyCampaignLink = () => {
+    navigator.clipboard.writeText(campaignLink)
+      .then(() => {
+        toast({
+          title: 'Link disalin!',
+          description: 'Link campaign berhasil disalin ke clipboard',
+        });
+      })
+      .catch(err => {
+        console.error('Error copying campaign link:', err);
+      });
+  };
 
   const handleCopyLink = () => {
     copyReferralLink();
@@ -27,7 +44,7 @@ const ReferralLinkCard = () => {
         await navigator.share({
           title: 'Injapan Food Affiliate',
           text: 'Belanja makanan Indonesia di Jepang dan dapatkan diskon dengan kode referral saya!',
-          url: referralLink,
+          url: campaignLink,
         });
       } catch (error) {
         console.error('Error sharing:', error);
@@ -72,6 +89,47 @@ const ReferralLinkCard = () => {
           </div>
         </div>
 
+        <div className="flex flex-col space-y-2 border-t pt-4">
+          <div className="text-sm font-medium text-gray-700 flex items-center">
+            <Tag className="w-4 h-4 mr-1" />
+            Link per Campaign
+          </div>
+          <p className="text-xs text-gray-500">
+            Tambahkan tag agar tahu channel mana yang paling banyak menghasilkan order
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {CAMPAIGN_PRESETS.map(preset => (
+              <Button
+                key={preset.value}
+                type="button"
+                size="sm"
+                variant={campaign === preset.value ? 'default' : 'outline'}
+                onClick={() => setCampaign(campaign === preset.value ? '' : preset.value)}
+              >
+                {preset.label}
+              </Button>
+            ))}
+          </div>
+          <Input
+            value={campaign}
+            onChange={(e) => setCampaign(normalizeCampaign(e.target.value))}
+            placeholder="Atau tulis tag sendiri, mis. grup-wa-osaka"
+          />
+          {campaign && (
+            <div className="flex space-x-2">
+              <Input
+                value={campaignLink}
+                readOnly
+                className="font-mono text-sm bg-gray-50"
+              />
+              <Button onClick={handleCopyCampaignLink} size="sm" className="shrink-0">
+                <Copy className="w-4 h-4 mr-2" />
+                {t('affiliate.copyLink')}
+              </Button>
+            </div>
+          )}
+        </div>
+
         <div className="flex flex-col sm:flex-row space-y-2 sm:space-y-0 sm:space-x-2 pt-2">
           <Button onClick={handleShare} variant="outline" className="w-full">
             <Share2 className="w-4 h-4 mr-2" />
@@ -91,7 +149,7 @@ const ReferralLinkCard = () => {
           <div className="flex flex-col items-center pt-4">
             <div className="bg-white p-4 rounded-lg shadow-sm">
               <QRCode 
-                value={referralLink} 
+                value={campaignLink} 
                 size={200} 
                 level="H"
                 includeMargin={true}
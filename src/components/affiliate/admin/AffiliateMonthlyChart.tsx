@@ -3,11 +3,16 @@ import { useAffiliateAdmin } from '@/hooks/useAffiliateAdmin';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import CampaignBreakdown from '@/components/affiliate/CampaignBreakdown';
+import { getCampaignLabel, getCampaignStats } from '@/utils/affiliateCampaigns';
 
 const AffiliateMonthlyChart = () => {
   const { commissions, referrals, selectedMonth, availableMonths } = useAffiliateAdmin();
   const [chartData, setChartData] = useState<any[]>([]);
-  const [activeTab, setActiveTab] = useState<'commissions' | 'referrals'>('commissions');
+  const [activeTab, setActiveTab] = useState<'commissions' | 'referrals' | 'campaigns'>('commissions');
+
+  // Campaigns are compared within the selected month
+  const campaignStats = getCampaignStats(referrals, commissions);
 
   // Format month for display
   const formatMonth = (monthStr: string) => {
@@ -76,6 +81,13 @@ const AffiliateMonthlyChart = () => {
       });
       
       setChartData(data);
+    } else if (activeTab === 'campaigns') {
+      setChartData(getCampaignStats(referrals, commissions).map(stat => ({
+        month: getCampaignLabel(stat.campaign),
+        clicks: stat.clicks,
+        registrations: stat.registrations,
+        orders: stat.orders
+      })));
     } else {
       const groupedReferrals = groupByMonth(referrals, 'createdAt');
       
@@ -102,10 +114,11 @@ const AffiliateMonthlyChart = () => {
       <CardHeader>
         <CardTitle className="flex justify-between items-center">
           <span>Statistik Bulanan</span>
-          <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as 'commissions' | 'referrals')}>
+          <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as 'commissions' | 'referrals' | 'campaigns')}>
             <TabsList>
               <TabsTrigger value="commissions">Komisi</TabsTrigger>
               <TabsTrigger value="referrals">Referral</TabsTrigger>
+              <TabsTrigger value="campaigns">Campaign</TabsTrigger>
             </TabsList>
           </Tabs>
         </CardTitle>
@@ -139,6 +152,11 @@ const AffiliateMonthlyChart = () => {
             </BarChart>
           </ResponsiveContainer>
         </div>
+        {activeTab === 'campaigns' && (
+          <div className="mt-4">
+            <CampaignBreakdown stats={campaignStats} />
+          </div>
+        )}
       </CardContent>
     </Card>
   );
@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
@@ -6,10 +6,17 @@ import { useAffiliateAdmin } from '@/hooks/useAffiliateAdmin';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Card, CardContent, CardHeader, CardTitle, CardFooter } from '@/components/ui/card';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { toast } from '@/hooks/use-toast';
 import { Settings, Save } from 'lucide-react';
+import CommissionRulesEditor, { RuleFormRow, TierFormRow } from '@/components/affiliate/admin/CommissionRulesEditor';
+import PayoutRemitterFields from '@/components/affiliate/admin/PayoutRemitterFields';
+import { AffiliateTier, AttributionModel, CommissionRule, PayoutRemitter } from '@/types/affiliate';
+import { getHoldPeriodDays } from '@/utils/affiliateLedger';
+import { ATTRIBUTION_MODEL_LABELS, getAttributionModel, getAttributionWindowDays } from '@/utils/affiliateAttribution';
+import { EMPTY_REMITTER, getRemitterIssues } from '@/utils/payoutExport';
 
 const settingsSchema = z.object({
   defaultCommissionRate: z.string()
@@ -28,6 +35,17 @@ const settingsSchema = z.object({
     .refine(val => Number(val) > 0, {
       message: 'Jumlah minimum harus lebih dari 0',
     }),
+  holdPeriodDays: z.string()
+    .min(1, 'Masa tahan wajib diisi')
+    .refine(val => Number.isInteger(Number(val)) && Number(val) >= 0, {
+      message: 'Masa tahan harus berupa bilangan bulat 0 atau lebih',
+    }),
+  attributionWindowDays: z.string()
+    .min(1, 'Jendela atribusi wajib diisi')
+    .refine(val => Number.isInteger(Number(val)) && Number(val) >= 1, {
+      message: 'Jendela atribusi harus berupa bilangan bulat 1 atau lebih',
+    }),
+  attributionModel: z.enum(['first_click', 'last_click']),
   termsAndConditions: z.string()
     .min(10, 'Syarat dan ketentuan minimal 10 karakter'),
 });
@@ -37,23 +55,101 @@ type SettingsFormValues = z.infer<typeof settingsSchema>;
 const AffiliateSettingsForm = () => {
   const { settings, updateSettings, loading } = useAffiliateAdmin();
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [tiers, setTiers] = useState<TierFormRow[]>([]);
+  const [rules, setRules] = useState<RuleFormRow[]>([]);
+  const [remitter, setRemitter] = useState<PayoutRemitter>(EMPTY_REMITTER);
+
+  useEffect(() => {
+    if (!settings) return;
+    setTiers((settings.tiers || []).map(tier => ({
+      id: tier.id,
+      name: tier.name,
+      minMonthlySales: tier.minMonthlySales.toString(),
+      commissionRate: tier.commissionRate.toString()
+    })));
+    setRules((settings.commissionRules || []).map(rule => ({
+      id: rule.id,
+      type: rule.type,
+      target: rule.target,
+      targetName: rule.targetName,
+      commissionRate: rule.commissionRate.toString()
+    })));
+    setRemitter(settings.payoutRemitter || EMPTY_REMITTER);
+  }, [settings]);
 
   const form = useForm<SettingsFormValues>({
     resolver: zodResolver(settingsSchema),
     defaultValues: {
       defaultCommissionRate: settings ? settings.defaultCommissionRate.toString() : '5',
       minPayoutAmount: settings ? settings.minPayoutAmount.toString() : '5000',
+      holdPeriodDays: getHoldPeriodDays(settings).toString(),
+      attributionWindowDays: getAttributionWindowDays(settings).toString(),
+      attributionModel: getAttributionModel(settings),
       termsAndConditions: settings ? settings.termsAndConditions : '',
     },
   });
 
+  const isValidRate = (value: string) => value !== '' && Number(value) >= 0 && Number(value) <= 100;
+
   const onSubmit = async (data: SettingsFormValues) => {
+    if (tiers.some(tier => !tier.name.trim() || !isValidRate(tier.commissionRate))) {
+      toast({
+        title: 'Error',
+        description: 'Setiap tier harus memiliki nama dan komisi antara 0-100%',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (rules.some(rule => !rule.target || !isValidRate(rule.commissionRate))) {
+      toast({
+        title: 'Error',
+        description: 'Setiap aturan harus memiliki target dan komisi antara 0-100%',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const hasRemitter = remitter.companyCode.trim() !== '';
+    const remitterIssues = hasRemitter ? getRemitterIssues(remitter) : [];
+    if (remitterIssues.length > 0) {
+      toast({
+        title: 'Error',
+        description: `Rekening pengirim belum valid: ${remitterIssues.join(', ')}`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const affiliateTiers: AffiliateTier[] = tiers
+      .map(tier => ({
+        id: tier.id,
+        name: tier.name.trim(),
+        minMonthlySales: Number(tier.minMonthlySales) || 0,
+        commissionRate: Number(tier.commissionRate)
+      }))
+      .sort((a, b) => a.minMonthlySales - b.minMonthlySales);
+
+    const commissionRules: CommissionRule[] = rules.map(rule => ({
+      id: rule.id,
+      type: rule.type,
+      target: rule.target,
+      targetName: rule.targetName || rule.target,
+      commissionRate: Number(rule.commissionRate)
+    }));
+
     try {
       setIsSubmitting(true);
       
       await updateSettings({
         defaultCommissionRate: Number(data.defaultCommissionRate),
+        tiers: affiliateTiers,
+        commissionRules,
         minPayoutAmount: Number(data.minPayoutAmount),
+        holdPeriodDays: Number(data.holdPeriodDays),
+        attributionWindowDays: Number(data.attributionWindowDays),
+        attributionModel: data.attributionModel,
+        ...(hasRemitter ? { payoutRemitter: remitter } : {}),
         termsAndConditions: data.termsAndConditions,
       });
       
@@ -148,6 +244,89 @@ const AffiliateSettingsForm = () => {
                   </FormItem>
                 )}
               />
+
+              <FormField
+                control={form.control}
+                name="holdPeriodDays"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Masa Tahan Komisi (hari)</FormLabel>
+                    <FormControl>
+                      <Input
+                        {...field}
+                        type="number"
+                        min="0"
+                        step="1"
+                      />
+                    </FormControl>
+                    <p className="text-xs text-gray-500">
+                      Komisi terkunci sampai sekian hari setelah pesanan diterima, baru bisa dicairkan
+                    </p>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="attributionWindowDays"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Jendela Atribusi (hari)</FormLabel>
+                    <FormControl>
+                      <Input
+                        {...field}
+                        type="number"
+                        min="1"
+                        step="1"
+                      />
+                    </FormControl>
+                    <p className="text-xs text-gray-500">
+                      Berapa lama setelah klik link referral pesanan masih dihitung untuk affiliate
+                    </p>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="attributionModel"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Model Atribusi</FormLabel>
+                    <Select value={field.value} onValueChange={(value) => field.onChange(value as AttributionModel)}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {(Object.keys(ATTRIBUTION_MODEL_LABELS) as AttributionModel[]).map(model => (
+                          <SelectItem key={model} value={model}>{ATTRIBUTION_MODEL_LABELS[model]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-gray-500">
+                      Klik pertama: affiliate pertama tetap berlaku selama jendela atribusi. Klik terakhir: link terbaru menggantikan yang lama.
+                    </p>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="border-t pt-4">
+              <CommissionRulesEditor
+                tiers={tiers}
+                rules={rules}
+                onTiersChange={setTiers}
+                onRulesChange={setRules}
+              />
+            </div>
+
+            <div className="border-t pt-4">
+              <PayoutRemitterFields value={remitter} onChange={setRemitter} />
             </div>
 
             <FormField
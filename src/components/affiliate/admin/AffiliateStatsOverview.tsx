@@ -5,7 +5,7 @@ import { useState, useEffect } from 'react';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 
 const AffiliateStatsOverview = () => {
-  const { affiliates, commissions, loading, selectedMonth, setSelectedMonth, availableMonths } = useAffiliateAdmin();
+  const { affiliates, commissions, balances, loading, selectedMonth, setSelectedMonth, availableMonths } = useAffiliateAdmin();
 
   if (loading) {
     return (
@@ -41,9 +41,9 @@ const AffiliateStatsOverview = () => {
   
   const totalReferrals = affiliates.reduce((sum, affiliate) => sum + affiliate.totalReferrals, 0);
   
-  const totalCommission = affiliates.reduce((sum, affiliate) => sum + affiliate.totalCommission, 0);
+  const totalCommission = affiliates.reduce((sum, affiliate) => sum + (balances[affiliate.id]?.earned || 0), 0);
   
-  const pendingCommission = affiliates.reduce((sum, affiliate) => sum + affiliate.pendingCommission, 0);
+  const pendingCommission = affiliates.reduce((sum, affiliate) => sum + (balances[affiliate.id]?.available || 0), 0);
   
   const pendingCommissions = commissions.filter(commission => commission.status === 'pending').length;
 
@@ -27,9 +27,11 @@ import {
   DialogTrigger,
 } from '@/components/ui/dialog';
 import { AffiliateUser } from '@/types/affiliate';
+import { EMPTY_BALANCE } from '@/utils/affiliateLedger';
+import AffiliateStatement from '@/components/affiliate/AffiliateStatement';
 
 const AffiliatesTable = () => {
-  const { affiliates, loading, selectedMonth, setSelectedMonth, availableMonths } = useAffiliateAdmin();
+  const { affiliates, balances, ledgerEntries, loading, selectedMonth, setSelectedMonth, availableMonths } = useAffiliateAdmin();
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedAffiliate, setSelectedAffiliate] = useState<AffiliateUser | null>(null);
 
@@ -154,7 +156,7 @@ const AffiliatesTable = () => {
                     <TableCell>{affiliate.totalClicks}</TableCell>
                     <TableCell>{affiliate.totalReferrals}</TableCell>
                     <TableCell className="font-semibold">
-                      ¥{affiliate.totalCommission.toLocaleString()}
+                      ¥{(balances[affiliate.id] || EMPTY_BALANCE).earned.toLocaleString()}
                     </TableCell>
                     <TableCell className="text-sm text-gray-500">
                       {formatDate(affiliate.createdAt)}
@@ -171,7 +173,7 @@ const AffiliatesTable = () => {
                             Detail
                           </Button>
                         </DialogTrigger>
-                        <DialogContent className="max-w-2xl">
+                        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
                           <DialogHeader>
                             <DialogTitle>Detail Affiliate</DialogTitle>
                           </DialogHeader>
@@ -220,27 +222,10 @@ const AffiliatesTable = () => {
                               </div>
 
                               <div className="border-t pt-4 mt-4">
-                                <h4 className="text-sm font-medium text-gray-500 mb-2">Komisi</h4>
-                                <div className="grid grid-cols-3 gap-4">
-                                  <div className="bg-blue-50 p-3 rounded-md">
-                                    <p className="text-xs text-blue-500">Total Komisi</p>
-                                    <p className="text-lg font-semibold text-blue-700">
-                                      ¥{selectedAffiliate.totalCommission.toLocaleString()}
-                                    </p>
-                                  </div>
-                                  <div className="bg-yellow-50 p-3 rounded-md">
-                                    <p className="text-xs text-yellow-500">Komisi Pending</p>
-                                    <p className="text-lg font-semibold text-yellow-700">
-                                      ¥{selectedAffiliate.pendingCommission.toLocaleString()}
-                                    </p>
-                                  </div>
-                                  <div className="bg-green-50 p-3 rounded-md">
-                                    <p className="text-xs text-green-500">Komisi Dibayar</p>
-                                    <p className="text-lg font-semibold text-green-700">
-                                      ¥{selectedAffiliate.paidCommission.toLocaleString()}
-                                    </p>
-                                  </div>
-                                </div>
+                                <h4 className="text-sm font-medium text-gray-500 mb-2">Mutasi Saldo</h4>
+                                <AffiliateStatement
+                                  entries={ledgerEntries.filter(entry => entry.affiliateId === selectedAffiliate.id)}
+                                />
                               </div>
 
                               {selectedAffiliate.bankInfo && (
@@ -0,0 +1,198 @@
+import { useProducts } from '@/hooks/useProducts';
+import { getCategoriesWithVariants } from '@/utils/categoryVariants';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, X } from 'lucide-react';
+import { CommissionRule } from '@/types/affiliate';
+
+// Numbers are kept as strings while editing so fields can be cleared
+export interface TierFormRow {
+  id: string;
+  name: string;
+  minMonthlySales: string;
+  commissionRate: string;
+}
+
+export interface RuleFormRow {
+  id: string;
+  type: CommissionRule['type'];
+  target: string;
+  targetName?: string;
+  commissionRate: string;
+}
+
+interface CommissionRulesEditorProps {
+  tiers: TierFormRow[];
+  rules: RuleFormRow[];
+  onTiersChange: (tiers: TierFormRow[]) => void;
+  onRulesChange: (rules: RuleFormRow[]) => void;
+}
+
+const newRowId = (prefix: string) => `${prefix}_${Date.now().toString(36)}${Math.random().toString(36).substring(2, 5)}`;
+
+const CommissionRulesEditor = ({ tiers, rules, onTiersChange, onRulesChange }: CommissionRulesEditorProps) => {
+  const { data: products = [] } = useProducts();
+  const categories = getCategoriesWithVariants();
+
+  const updateTier = (index: number, field: keyof TierFormRow, value: string) => {
+    onTiersChange(tiers.map((tier, i) => i === index ? { ...tier, [field]: value } : tier));
+  };
+
+  const updateRule = (index: number, changes: Partial<RuleFormRow>) => {
+    onRulesChange(rules.map((rule, i) => i === index ? { ...rule, ...changes } : rule));
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <div>
+            <Label>Tier Affiliate</Label>
+            <p className="text-xs text-gray-500">
+              Tier dicapai dari total penjualan referral dalam satu bulan dan menggantikan komisi default
+            </p>
+          </div>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => onTiersChange([...tiers, { id: newRowId('tier'), name: '', minMonthlySales: '', commissionRate: '' }])}
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Tambah Tier
+          </Button>
+        </div>
+        {tiers.length === 0 ? (
+          <p className="text-sm text-gray-500 border rounded p-3">
+            Belum ada tier. Semua affiliate memakai komisi default.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            <div className="grid grid-cols-[1fr_1fr_100px_40px] gap-2 text-xs text-gray-500">
+              <span>Nama</span>
+              <span>Min. Penjualan/Bulan (¥)</span>
+              <span>Komisi (%)</span>
+              <span />
+            </div>
+            {tiers.map((tier, index) => (
+              <div key={tier.id} className="grid grid-cols-[1fr_1fr_100px_40px] gap-2">
+                <Input
+                  value={tier.name}
+                  onChange={(e) => updateTier(index, 'name', e.target.value)}
+                  placeholder="Contoh: Gold"
+                />
+                <Input
+                  inputMode="numeric"
+                  value={tier.minMonthlySales}
+                  onChange={(e) => updateTier(index, 'minMonthlySales', e.target.value.replace(/[^\d]/g, ''))}
+                  placeholder="0"
+                />
+                <Input
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="0.1"
+                  value={tier.commissionRate}
+                  onChange={(e) => updateTier(index, 'commissionRate', e.target.value)}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onTiersChange(tiers.filter((_, i) => i !== index))}
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <div>
+            <Label>Komisi per Produk / Kategori</Label>
+            <p className="text-xs text-gray-500">
+              Aturan produk diutamakan, lalu kategori, lalu tier atau komisi default
+            </p>
+          </div>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => onRulesChange([...rules, { id: newRowId('rule'), type: 'category', target: '', commissionRate: '' }])}
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Tambah Aturan
+          </Button>
+        </div>
+        {rules.length === 0 ? (
+          <p className="text-sm text-gray-500 border rounded p-3">
+            Belum ada aturan khusus.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {rules.map((rule, index) => (
+              <div key={rule.id} className="grid grid-cols-[130px_1fr_100px_40px] gap-2">
+                <Select
+                  value={rule.type}
+                  onValueChange={(value) => updateRule(index, { type: value as RuleFormRow['type'], target: '' })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="category">Kategori</SelectItem>
+                    <SelectItem value="product">Produk</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={rule.target}
+                  onValueChange={(value) => updateRule(index, {
+                    target: value,
+                    targetName: rule.type === 'product' ? products.find(p => p.id === value)?.name || value : value
+                  })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder={rule.type === 'product' ? 'Pilih produk' : 'Pilih kategori'} />
+                  </SelectTrigger>
+                  <SelectContent className="max-h-60">
+                    {rule.type === 'product'
+                      ? products.map(product => (
+                          <SelectItem key={product.id} value={product.id}>{product.name}</SelectItem>
+                        ))
+                      : categories.map(category => (
+                          <SelectItem key={category} value={category}>{category}</SelectItem>
+                        ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="0.1"
+                  value={rule.commissionRate}
+                  onChange={(e) => updateRule(index, { commissionRate: e.target.value })}
+                  placeholder="%"
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onRulesChange(rules.filter((_, i) => i !== index))}
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CommissionRulesEditor;
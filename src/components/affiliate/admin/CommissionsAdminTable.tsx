@@ -12,7 +12,7 @@ import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Search, DollarSign, RefreshCw, CheckCircle, XCircle } from 'lucide-react';
+import { Search, DollarSign, RefreshCw, CheckCircle, XCircle, ShieldAlert } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
 import { 
   Select,
@@ -33,20 +33,49 @@ import {
   AlertDialogTrigger,
 } from '@/components/ui/alert-dialog';
 import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import CommissionBreakdownDialog from '@/components/affiliate/CommissionBreakdownDialog';
+import CommissionAdjustmentsNote from '@/components/affiliate/CommissionAdjustmentsNote';
+import CommissionHoldNote from '@/components/affiliate/CommissionHoldNote';
+import { getHoldPeriodDays } from '@/utils/affiliateLedger';
+import { RISK_FLAG_SCORE } from '@/utils/affiliateFraud';
+import { CommissionRisk } from '@/types/affiliate';
 
 const CommissionsAdminTable = () => {
-  const { commissions, loading, approveCommission, rejectCommission, selectedMonth, setSelectedMonth, availableMonths } = useAffiliateAdmin();
+  const { commissions, commissionRisks, settings, loading, approveCommission, rejectCommission, selectedMonth, setSelectedMonth, availableMonths } = useAffiliateAdmin();
   const [searchTerm, setSearchTerm] = useState('');
   const [isProcessing, setIsProcessing] = useState(false);
   const [selectedCommissionId, setSelectedCommissionId] = useState<string | null>(null);
   const [rejectionReason, setRejectionReason] = useState('');
+  const [showFlaggedOnly, setShowFlaggedOnly] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [bulkRejectionReason, setBulkRejectionReason] = useState('');
+
+  const getRisk = (commissionId: string): CommissionRisk => commissionRisks[commissionId] || { score: 0, reasons: [] };
+  const isFlagged = (commissionId: string) => getRisk(commissionId).score >= RISK_FLAG_SCORE;
 
   const filteredCommissions = commissions.filter(commission => 
-    commission.orderId.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    commission.status.toLowerCase().includes(searchTerm.toLowerCase())
+    (commission.orderId.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      commission.status.toLowerCase().includes(searchTerm.toLowerCase())) &&
+    (!showFlaggedOnly || isFlagged(commission.id))
   );
 
   const pendingCommissions = filteredCommissions.filter(commission => commission.status === 'pending');
+  const flaggedCount = commissions.filter(commission => isFlagged(commission.id)).length;
+  const selectedPendingIds = selectedIds.filter(id => pendingCommissions.some(commission => commission.id === id));
+
+  const toggleSelected = (commissionId: string, checked: boolean) => {
+    setSelectedIds(current => checked
+      ? [...current, commissionId]
+      : current.filter(id => id !== commissionId));
+  };
+
+  const getRiskBadge = (risk: CommissionRisk) => {
+    if (risk.score === 0) return <span className="text-xs text-gray-400">-</span>;
+    return risk.score >= RISK_FLAG_SCORE
+      ? <Badge variant="destructive">{risk.score}</Badge>
+      : <Badge variant="outline" className="bg-yellow-50 text-yellow-700 border-yellow-200">{risk.score}</Badge>;
+  };
 
   const getStatusBadge = (status: string) => {
     switch (status) {
@@ -58,6 +87,8 @@ const CommissionsAdminTable = () => {
         return <Badge variant="destructive">Ditolak</Badge>;
       case 'paid':
         return <Badge className="bg-primary">Dibayar</Badge>;
+      case 'reversed':
+        return <Badge variant="outline" className="bg-gray-100 text-gray-600 border-gray-200">Dibatalkan</Badge>;
       default:
         return <Badge variant="outline">Unknown</Badge>;
     }
@@ -127,6 +158,40 @@ const CommissionsAdminTable = () => {
     }
   };
 
+  // Reviews run one by one so a failure leaves the rest of the selection intact
+  const handleBulkReview = async (decision: 'approve' | 'reject') => {
+    const ids = selectedPendingIds;
+    let done = 0;
+    
+    try {
+      setIsProcessing(true);
+      for (const commissionId of ids) {
+        if (decision === 'approve') {
+          await approveCommission(commissionId);
+        } else {
+          await rejectCommission(commissionId, bulkRejectionReason);
+        }
+        done++;
+      }
+      toast({
+        title: 'Berhasil',
+        description: `${done} komisi berhasil ${decision === 'approve' ? 'disetujui' : 'ditolak'}`,
+      });
+      setSelectedIds([]);
+      setBulkRejectionReason('');
+    } catch (error) {
+      console.error('Error reviewing commissions:', error);
+      setSelectedIds(ids.slice(done));
+      toast({
+        title: 'Error',
+        description: `${done} dari ${ids.length} komisi diproses. ${error instanceof Error ? error.message : ''}`,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
   if (loading) {
     return (
       <Card>
@@ -165,6 +230,15 @@ const CommissionsAdminTable = () => {
             </div>
           </CardTitle>
           <div className="flex flex-col sm:flex-row gap-2 sm:items-center">
+            <Button
+              variant={showFlaggedOnly ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setShowFlaggedOnly(!showFlaggedOnly)}
+              className={showFlaggedOnly ? 'bg-red-600 hover:bg-red-700' : ''}
+            >
+              <ShieldAlert className="w-4 h-4 mr-1" />
+              Mencurigakan ({flaggedCount})
+            </Button>
             <Select value={selectedMonth} onValueChange={setSelectedMonth}>
               <SelectTrigger className="w-full sm:w-48">
                 <SelectValue placeholder="Pilih Bulan" />
@@ -204,14 +278,80 @@ const CommissionsAdminTable = () => {
           </div>
         ) : (
           <div className="overflow-x-auto">
+            {selectedPendingIds.length > 0 && (
+              <div className="flex flex-wrap items-center gap-2 mb-4 p-3 bg-gray-50 rounded-md">
+                <span className="text-sm font-medium">{selectedPendingIds.length} komisi dipilih</span>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleBulkReview('approve')}
+                  disabled={isProcessing}
+                  className="bg-green-50 text-green-700 border-green-200 hover:bg-green-100"
+                >
+                  <CheckCircle className="w-4 h-4 mr-1" />
+                  Setujui Semua
+                </Button>
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={isProcessing}
+                      className="bg-red-50 text-red-700 border-red-200 hover:bg-red-100"
+                    >
+                      <XCircle className="w-4 h-4 mr-1" />
+                      Tolak Semua
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Tolak {selectedPendingIds.length} Komisi</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        Semua komisi yang dipilih akan ditolak dengan alasan yang sama. Tindakan ini tidak dapat dibatalkan.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <div className="py-4">
+                      <Label htmlFor="bulk-reason">Alasan Penolakan</Label>
+                      <Textarea
+                        id="bulk-reason"
+                        value={bulkRejectionReason}
+                        onChange={(e) => setBulkRejectionReason(e.target.value)}
+                        placeholder="Contoh: pembelian sendiri melalui link affiliate"
+                        className="mt-2"
+                      />
+                    </div>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Batal</AlertDialogCancel>
+                      <AlertDialogAction
+                        onClick={() => handleBulkReview('reject')}
+                        className="bg-red-600 hover:bg-red-700"
+                      >
+                        Tolak Komisi
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+                <Button size="sm" variant="ghost" onClick={() => setSelectedIds([])} disabled={isProcessing}>
+                  Batal Pilih
+                </Button>
+              </div>
+            )}
             <Table>
               <TableHeader>
                 <TableRow>
+                  <TableHead className="w-10">
+                    <Checkbox
+                      checked={pendingCommissions.length > 0 && selectedPendingIds.length === pendingCommissions.length}
+                      onCheckedChange={(checked) => setSelectedIds(checked ? pendingCommissions.map(commission => commission.id) : [])}
+                      disabled={pendingCommissions.length === 0}
+                    />
+                  </TableHead>
                   <TableHead>Order ID</TableHead>
                   <TableHead>Affiliate</TableHead>
                   <TableHead>Total Order</TableHead>
                   <TableHead>Komisi</TableHead>
                   <TableHead>Status</TableHead>
+                  <TableHead>Risiko</TableHead>
                   <TableHead>Tanggal</TableHead>
                   <TableHead className="text-right">Aksi</TableHead>
                 </TableRow>
@@ -219,9 +359,18 @@ const CommissionsAdminTable = () => {
               <TableBody>
                 {filteredCommissions.map((commission) => {
                   const isPending = commission.status === 'pending';
+                  const risk = getRisk(commission.id);
                   
                   return (
-                    <TableRow key={commission.id}>
+                    <TableRow key={commission.id} className={risk.score >= RISK_FLAG_SCORE ? 'bg-red-50/50' : ''}>
+                      <TableCell>
+                        {isPending && (
+                          <Checkbox
+                            checked={selectedIds.includes(commission.id)}
+                            onCheckedChange={(checked) => toggleSelected(commission.id, checked === true)}
+                          />
+                        )}
+                      </TableCell>
                       <TableCell className="font-medium">
                         {commission.orderId.slice(0, 8)}...
                       </TableCell>
@@ -231,8 +380,19 @@ const CommissionsAdminTable = () => {
                       <TableCell>¥{commission.orderTotal.toLocaleString()}</TableCell>
                       <TableCell className="font-semibold text-primary">
                         ¥{commission.commissionAmount.toLocaleString()}
+                      <CommissionBreakdownDialog commission={commission} />
+                      <CommissionAdjustmentsNote commission={commission} />
+                      </TableCell>
+                      <TableCell>
+                        {getStatusBadge(commission.status)}
+                        <CommissionHoldNote commission={commission} holdPeriodDays={getHoldPeriodDays(settings)} />
+                      </TableCell>
+                      <TableCell className="max-w-[220px]">
+                        {getRiskBadge(risk)}
+                        {risk.reasons.map(reason => (
+                          <p key={reason} className="text-xs text-gray-500 mt-1">{reason}</p>
+                        ))}
                       </TableCell>
-                      <TableCell>{getStatusBadge(commission.status)}</TableCell>
                       <TableCell className="text-sm text-gray-500">
                         {formatDate(commission.createdAt)}
                       </TableCell>
@@ -301,7 +461,8 @@ const CommissionsAdminTable = () => {
                           <span className="text-xs text-gray-500">
                             {commission.status === 'approved' ? 'Disetujui' : 
                              commission.status === 'rejected' ? 'Ditolak' : 
-                             commission.status === 'paid' ? 'Dibayar' : '-'}
+                             commission.status === 'paid' ? 'Dibayar' :
+                             commission.status === 'reversed' ? 'Dibatalkan' : '-'}
                           </span>
                         )}
                       </TableCell>
@@ -0,0 +1,146 @@
+import { useState } from 'react';
+import { findLedgerDrift, repairLedgerDrift } from '@/services/affiliateService';
+import { AffiliateBalance, AffiliateLedgerDrift } from '@/types/affiliate';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { toast } from '@/hooks/use-toast';
+import { Scale, RefreshCw, Wrench, CheckCircle } from 'lucide-react';
+
+const BALANCE_FIELDS: { key: keyof AffiliateBalance; label: string }[] = [
+  { key: 'earned', label: 'Total Komisi' },
+  { key: 'available', label: 'Saldo Tersedia' },
+  { key: 'payoutRequested', label: 'Dalam Pencairan' },
+  { key: 'paid', label: 'Sudah Dibayar' }
+];
+
+const LedgerReconciliation = () => {
+  const [drifts, setDrifts] = useState<AffiliateLedgerDrift[] | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [repairingId, setRepairingId] = useState<string | null>(null);
+
+  const handleCheck = async () => {
+    setIsChecking(true);
+    try {
+      setDrifts(await findLedgerDrift());
+    } catch (error) {
+      console.error('Error checking ledger:', error);
+      toast({
+        title: "Error",
+        description: "Gagal memeriksa ledger affiliate",
+        variant: "destructive",
+      });
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const handleRepair = async (drift: AffiliateLedgerDrift) => {
+    setRepairingId(drift.affiliateId);
+    try {
+      await repairLedgerDrift(drift);
+      setDrifts(current => (current || []).filter(item => item.affiliateId !== drift.affiliateId));
+      toast({
+        title: "Ledger Diperbaiki",
+        description: `Saldo ${drift.displayName} sudah sesuai dengan komisi dan pencairannya`,
+      });
+    } catch (error) {
+      console.error('Error repairing ledger:', error);
+      toast({
+        title: "Error",
+        description: "Gagal memperbaiki ledger",
+        variant: "destructive",
+      });
+    } finally {
+      setRepairingId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+          <div>
+            <CardTitle className="flex items-center">
+              <Scale className="w-5 h-5 mr-2" />
+              Rekonsiliasi Saldo
+            </CardTitle>
+            <p className="text-sm text-gray-500 mt-1">
+              Bandingkan saldo di ledger dengan data komisi dan pencairan setiap affiliate
+            </p>
+          </div>
+          <Button onClick={handleCheck} disabled={isChecking}>
+            <RefreshCw className={`w-4 h-4 mr-2 ${isChecking ? 'animate-spin' : ''}`} />
+            {isChecking ? 'Memeriksa...' : 'Periksa Ledger'}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {drifts === null ? (
+          <p className="text-center py-8 text-gray-500">Klik "Periksa Ledger" untuk mulai</p>
+        ) : drifts.length === 0 ? (
+          <div className="flex items-center justify-center py-8 text-green-700">
+            <CheckCircle className="w-5 h-5 mr-2" />
+            Semua saldo affiliate sudah sesuai
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Affiliate</TableHead>
+                  {BALANCE_FIELDS.map(field => (
+                    <TableHead key={field.key} className="text-right">{field.label}</TableHead>
+                  ))}
+                  <TableHead className="text-right">Aksi</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {drifts.map(drift => (
+                  <TableRow key={drift.affiliateId}>
+                    <TableCell className="font-medium">{drift.displayName}</TableCell>
+                    {BALANCE_FIELDS.map(({ key }) => (
+                      <TableCell key={key} className="text-right text-sm">
+                        {drift.expected[key] === drift.actual[key] ? (
+                          <span className="text-gray-500">¥{drift.actual[key].toLocaleString()}</span>
+                        ) : (
+                          <>
+                            <p className="text-red-600 line-through">¥{drift.actual[key].toLocaleString()}</p>
+                            <p className="font-semibold">¥{drift.expected[key].toLocaleString()}</p>
+                          </>
+                        )}
+                      </TableCell>
+                    ))}
+                    <TableCell className="text-right">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleRepair(drift)}
+                        disabled={repairingId !== null}
+                      >
+                        <Wrench className="w-4 h-4 mr-1" />
+                        {repairingId === drift.affiliateId ? 'Memperbaiki...' : 'Perbaiki'}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <p className="text-xs text-gray-500 mt-2">
+              Perbaikan mencatat entri penyesuaian di ledger; entri lama tidak diubah.
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default LedgerReconciliation;
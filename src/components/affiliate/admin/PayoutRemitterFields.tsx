@@ -0,0 +1,61 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { BankAccountType, PayoutRemitter } from '@/types/affiliate';
+
+interface PayoutRemitterFieldsProps {
+  value: PayoutRemitter;
+  onChange: (remitter: PayoutRemitter) => void;
+}
+
+const TEXT_FIELDS: { key: Exclude<keyof PayoutRemitter, 'accountType'>; label: string; placeholder: string }[] = [
+  { key: 'companyCode', label: 'Kode Perusahaan (委託者コード)', placeholder: '10 digit dari bank' },
+  { key: 'companyNameKana', label: 'Nama Perusahaan (Katakana)', placeholder: 'Contoh: インジャパン' },
+  { key: 'bankCode', label: 'Kode Bank', placeholder: '4 digit' },
+  { key: 'bankNameKana', label: 'Nama Bank (Katakana)', placeholder: 'Contoh: ミズホ' },
+  { key: 'branchCode', label: 'Kode Cabang', placeholder: '3 digit' },
+  { key: 'branchNameKana', label: 'Nama Cabang (Katakana)', placeholder: 'Contoh: トウキョウ' },
+  { key: 'accountNumber', label: 'Nomor Rekening', placeholder: 'Maks. 7 digit' }
+];
+
+// Shop account for the header of Zengin payout files
+const PayoutRemitterFields = ({ value, onChange }: PayoutRemitterFieldsProps) => (
+  <div className="space-y-2">
+    <div>
+      <Label>Rekening Pengirim Payout</Label>
+      <p className="text-xs text-gray-500">
+        Dipakai untuk file transfer Zengin pada payout run bulanan. Kosongkan jika tidak memakai bank Jepang.
+      </p>
+    </div>
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+      {TEXT_FIELDS.map(field => (
+        <div key={field.key} className="space-y-1">
+          <Label htmlFor={`remitter-${field.key}`} className="text-xs">{field.label}</Label>
+          <Input
+            id={`remitter-${field.key}`}
+            value={value[field.key]}
+            onChange={(e) => onChange({ ...value, [field.key]: e.target.value })}
+            placeholder={field.placeholder}
+          />
+        </div>
+      ))}
+      <div className="space-y-1">
+        <Label className="text-xs">Jenis Rekening</Label>
+        <Select
+          value={value.accountType}
+          onValueChange={(accountType) => onChange({ ...value, accountType: accountType as BankAccountType })}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="ordinary">普通 (Biasa)</SelectItem>
+            <SelectItem value="checking">当座 (Giro)</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  </div>
+);
+
+export default PayoutRemitterFields;
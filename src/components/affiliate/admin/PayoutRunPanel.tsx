@@ -0,0 +1,411 @@
+import { useState } from 'react';
+import { useAffiliateAdmin } from '@/hooks/useAffiliateAdmin';
+import { AffiliatePayoutRun } from '@/types/affiliate';
+import { buildIndonesianBankCsv, buildZenginFile, downloadFile, getBankInfoIssues } from '@/utils/payoutExport';
+import { generateRemittanceStatementPDF } from '@/utils/pdfUtils';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { toast } from '@/hooks/use-toast';
+import { Banknote, Download, FileText, CheckCircle, XCircle, AlertCircle, Play } from 'lucide-react';
+
+const formatMonth = (monthStr: string) => {
+  const [year, month] = monthStr.split('-');
+  const date = new Date(parseInt(year), parseInt(month) - 1);
+  return date.toLocaleDateString('id-ID', { month: 'long', year: 'numeric' });
+};
+
+const formatDate = (dateString?: string) => {
+  if (!dateString) return '-';
+  return new Date(dateString).toLocaleDateString('id-ID', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric'
+  });
+};
+
+const getRunStatusBadge = (status: AffiliatePayoutRun['status']) => {
+  switch (status) {
+    case 'draft':
+      return <Badge variant="outline" className="bg-blue-50 text-blue-700 border-blue-200">Berjalan</Badge>;
+    case 'completed':
+      return <Badge className="bg-green-500">Selesai</Badge>;
+    case 'cancelled':
+      return <Badge variant="destructive">Dibatalkan</Badge>;
+  }
+};
+
+const PayoutRunItemsTable = ({ run }: { run: AffiliatePayoutRun }) => (
+  <div className="overflow-x-auto">
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Affiliate</TableHead>
+          <TableHead>Rekening</TableHead>
+          <TableHead>Komisi</TableHead>
+          <TableHead className="text-right">Jumlah</TableHead>
+          <TableHead className="text-right">Bukti Transfer</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {run.items.map(item => {
+          const issues = getBankInfoIssues(item.bankInfo);
+
+          return (
+            <TableRow key={item.payoutId}>
+              <TableCell>
+                <p className="font-medium">{item.displayName}</p>
+                <p className="text-xs text-gray-500">{item.email}</p>
+              </TableCell>
+              <TableCell className="text-sm">
+                <p>{item.bankInfo.bankName} · {item.bankInfo.accountNumber}</p>
+                <p className="text-xs text-gray-500">{item.bankInfo.accountName}</p>
+                {issues.length > 0 && (
+                  <p className="text-xs text-yellow-700">Zengin: {issues.join(', ')} belum diisi</p>
+                )}
+              </TableCell>
+              <TableCell className="text-sm text-gray-500">{item.commissions.length} order</TableCell>
+              <TableCell className="text-right font-semibold">¥{item.amount.toLocaleString()}</TableCell>
+              <TableCell className="text-right">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={run.status !== 'completed'}
+                  onClick={() => generateRemittanceStatementPDF(run, item)}
+                >
+                  <FileText className="w-4 h-4 mr-1" />
+                  PDF
+                </Button>
+              </TableCell>
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  </div>
+);
+
+const PayoutRunPanel = () => {
+  const { payoutRuns, payoutRunCandidates, settings, createPayoutRun, completePayoutRun, cancelPayoutRun } = useAffiliateAdmin();
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [cancelNotes, setCancelNotes] = useState('');
+  const [transferDate, setTransferDate] = useState(new Date().toISOString().split('T')[0]);
+  const [viewRun, setViewRun] = useState<AffiliatePayoutRun | null>(null);
+
+  const openRun = payoutRuns.find(run => run.status === 'draft');
+  const pastRuns = payoutRuns.filter(run => run.status !== 'draft');
+  const readyCandidates = payoutRunCandidates.filter(candidate => candidate.affiliate.bankInfo);
+  const missingBankInfo = payoutRunCandidates.length - readyCandidates.length;
+
+  const runAction = async (action: () => Promise<unknown>, successMessage: string) => {
+    try {
+      setIsProcessing(true);
+      await action();
+      toast({
+        title: 'Berhasil',
+        description: successMessage,
+      });
+    } catch (error) {
+      console.error('Error updating payout run:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Gagal memproses payout run',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleExportZengin = (run: AffiliatePayoutRun) => {
+    try {
+      const file = buildZenginFile(run, settings?.payoutRemitter, new Date(transferDate));
+      downloadFile(file, 'text/plain;charset=shift_jis', `zengin-affiliate-${run.month}.txt`);
+    } catch (error) {
+      toast({
+        title: 'Tidak dapat membuat file Zengin',
+        description: error instanceof Error ? error.message : 'Data rekening belum lengkap',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleExportIndonesian = (run: AffiliatePayoutRun) => {
+    // BOM so Excel reads the names as UTF-8
+    downloadFile('\uFEFF' + buildIndonesianBankCsv(run), 'text/csv;charset=utf-8;', `transfer-bank-indonesia-${run.month}.csv`);
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Banknote className="w-5 h-5 mr-2" />
+          Payout Run Bulanan
+        </CardTitle>
+        <p className="text-sm text-gray-500">
+          Cairkan semua saldo komisi yang sudah disetujui dan lewat masa tahan dalam satu batch transfer bank
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {openRun ? (
+          <div className="space-y-4">
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+              <div>
+                <p className="font-medium">
+                  {formatMonth(openRun.month)} {getRunStatusBadge(openRun.status)}
+                </p>
+                <p className="text-sm text-gray-500">
+                  {openRun.items.length} affiliate · total ¥{openRun.totalAmount.toLocaleString()}
+                </p>
+              </div>
+              <div className="flex flex-wrap items-center gap-2">
+                <Input
+                  type="date"
+                  value={transferDate}
+                  onChange={(e) => setTransferDate(e.target.value)}
+                  className="w-40"
+                  aria-label="Tanggal transfer"
+                />
+                <Button variant="outline" size="sm" onClick={() => handleExportZengin(openRun)}>
+                  <Download className="w-4 h-4 mr-1" />
+                  Zengin
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => handleExportIndonesian(openRun)}>
+                  <Download className="w-4 h-4 mr-1" />
+                  CSV Bank Indonesia
+                </Button>
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button size="sm" disabled={isProcessing} className="bg-green-600 hover:bg-green-700">
+                      <CheckCircle className="w-4 h-4 mr-1" />
+                      Tandai Selesai
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Selesaikan Payout Run</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        Pastikan file transfer sudah diproses bank. Semua {openRun.items.length} pencairan akan ditandai selesai
+                        dan komisinya berstatus "Dibayar".
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Batal</AlertDialogCancel>
+                      <AlertDialogAction
+                        onClick={() => runAction(() => completePayoutRun(openRun.id), 'Payout run selesai')}
+                        className="bg-green-600 hover:bg-green-700"
+                      >
+                        Selesaikan
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button size="sm" variant="outline" disabled={isProcessing} className="text-red-700 border-red-200 hover:bg-red-50">
+                      <XCircle className="w-4 h-4 mr-1" />
+                      Batalkan
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Batalkan Payout Run</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        Pencairan dalam run ini akan ditolak dan saldonya kembali ke affiliate.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <div className="py-4">
+                      <label className="text-sm font-medium text-gray-700">
+                        Alasan Pembatalan
+                      </label>
+                      <Textarea
+                        value={cancelNotes}
+                        onChange={(e) => setCancelNotes(e.target.value)}
+                        placeholder="Masukkan alasan pembatalan"
+                        className="mt-2"
+                      />
+                    </div>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel onClick={() => setCancelNotes('')}>Batal</AlertDialogCancel>
+                      <AlertDialogAction
+                        onClick={() => runAction(async () => {
+                          await cancelPayoutRun(openRun.id, cancelNotes.trim() || 'Payout run dibatalkan');
+                          setCancelNotes('');
+                        }, 'Payout run dibatalkan')}
+                        className="bg-red-600 hover:bg-red-700"
+                      >
+                        Batalkan Run
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </div>
+            </div>
+            <PayoutRunItemsTable run={openRun} />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+              <div>
+                <p className="font-medium">
+                  {readyCandidates.length} affiliate siap dicairkan · total ¥
+                  {readyCandidates.reduce((sum, candidate) => sum + candidate.amount, 0).toLocaleString()}
+                </p>
+                <p className="text-sm text-gray-500">
+                  Minimal saldo ¥{(settings?.minPayoutAmount || 0).toLocaleString()} per affiliate
+                </p>
+              </div>
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button disabled={isProcessing || readyCandidates.length === 0}>
+                    <Play className="w-4 h-4 mr-2" />
+                    Buat Payout Run
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Buat Payout Run</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      Saldo {readyCandidates.length} affiliate akan dipindahkan ke status "Diproses" sampai transfer selesai.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Batal</AlertDialogCancel>
+                    <AlertDialogAction onClick={() => runAction(() => createPayoutRun(), 'Payout run dibuat')}>
+                      Buat Run
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </div>
+            {missingBankInfo > 0 && (
+              <div className="bg-yellow-50 p-3 rounded-md flex items-start space-x-2 text-sm text-yellow-800">
+                <AlertCircle className="w-4 h-4 mt-0.5" />
+                <p>{missingBankInfo} affiliate memenuhi syarat tetapi belum mengisi rekening bank dan tidak ikut dalam run.</p>
+              </div>
+            )}
+            {readyCandidates.length > 0 && (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Affiliate</TableHead>
+                      <TableHead>Rekening</TableHead>
+                      <TableHead className="text-right">Jumlah</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {readyCandidates.map(candidate => (
+                      <TableRow key={candidate.affiliate.id}>
+                        <TableCell className="font-medium">{candidate.affiliate.displayName}</TableCell>
+                        <TableCell className="text-sm">
+                          {candidate.affiliate.bankInfo?.bankName} · {candidate.affiliate.bankInfo?.accountNumber}
+                        </TableCell>
+                        <TableCell className="text-right font-semibold">¥{candidate.amount.toLocaleString()}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </div>
+        )}
+
+        {pastRuns.length > 0 && (
+          <div className="border-t pt-4">
+            <h4 className="font-medium mb-2">Riwayat Payout Run</h4>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Periode</TableHead>
+                  <TableHead>Affiliate</TableHead>
+                  <TableHead>Total</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Tanggal</TableHead>
+                  <TableHead className="text-right">Aksi</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {pastRuns.map(run => (
+                  <TableRow key={run.id}>
+                    <TableCell>{formatMonth(run.month)}</TableCell>
+                    <TableCell>{run.items.length}</TableCell>
+                    <TableCell className="font-semibold">¥{run.totalAmount.toLocaleString()}</TableCell>
+                    <TableCell>{getRunStatusBadge(run.status)}</TableCell>
+                    <TableCell className="text-sm text-gray-500">{formatDate(run.completedAt || run.cancelledAt)}</TableCell>
+                    <TableCell className="text-right">
+                      <Button size="sm" variant="outline" onClick={() => setViewRun(run)}>
+                        Detail
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!viewRun} onOpenChange={(open) => !open && setViewRun(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Payout Run {viewRun && formatMonth(viewRun.month)}</DialogTitle>
+          </DialogHeader>
+          {viewRun && (
+            <div className="space-y-4">
+              <div className="flex flex-wrap items-center gap-2">
+                {getRunStatusBadge(viewRun.status)}
+                <span className="text-sm text-gray-500">
+                  {viewRun.items.length} affiliate · total ¥{viewRun.totalAmount.toLocaleString()}
+                </span>
+                {viewRun.notes && <span className="text-sm text-gray-500">· {viewRun.notes}</span>}
+                {viewRun.status === 'completed' && (
+                  <div className="ml-auto flex gap-2">
+                    <Button variant="outline" size="sm" onClick={() => handleExportZengin(viewRun)}>
+                      <Download className="w-4 h-4 mr-1" />
+                      Zengin
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => handleExportIndonesian(viewRun)}>
+                      <Download className="w-4 h-4 mr-1" />
+                      CSV Bank Indonesia
+                    </Button>
+                  </div>
+                )}
+              </div>
+              <PayoutRunItemsTable run={viewRun} />
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default PayoutRunPanel;
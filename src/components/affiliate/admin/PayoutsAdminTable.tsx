@@ -224,7 +224,12 @@ const PayoutsAdminTable = () => {
                       <TableCell className="font-semibold">
                         ¥{payout.amount.toLocaleString()}
                       </TableCell>
-                      <TableCell>{payout.method}</TableCell>
+                      <TableCell>
+                        {payout.method}
+                        {payout.runId && (
+                          <Badge variant="outline" className="ml-2">Payout Run</Badge>
+                        )}
+                      </TableCell>
                       <TableCell>{getStatusBadge(payout.status)}</TableCell>
                       <TableCell className="text-sm text-gray-500">
                         {formatDate(payout.requestedAt)}
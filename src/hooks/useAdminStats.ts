@@ -1,25 +1,23 @@
-import { useQuery } from '@tanstack/react-query';
-import { DashboardStats, Product } from '@/types';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { getDashboardStats, rebuildOrderStats } from '@/services/statsService';
 
 export const useAdminStats = () => {
   return useQuery({
     queryKey: ['admin-stats'],
-    queryFn: async (): Promise<DashboardStats> => {
-      // Mock stats data
-      return {
-        totalProducts: 12,
-        activeProducts: 10,
-        outOfStockProducts: 2,
-        lowStockProducts: [],
-        totalOrders: 0,
-        criticalStockProducts: [],
-        totalCategories: 5,
-        pendingOrders: 0,
-        totalRevenue: 0
-      };
-    },
+    queryFn: getDashboardStats,
     staleTime: 60000, // 1 minute
     refetchInterval: 60000, // Refetch every minute
     refetchIntervalInBackground: false, // Don't refetch when tab is not active
   });
-};
\ No newline at end of file
+};
+
+export const useRebuildAdminStats = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: rebuildOrderStats,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin-stats'] });
+    },
+  });
+};
@@ -8,10 +8,12 @@ import {
   subscribeToAffiliateReferrals,
   subscribeToAffiliateCommissions,
   subscribeToAffiliatePayouts,
+  subscribeToAffiliateLedger,
   getAffiliateFollowers,
   updateAffiliateBankInfo,
   requestPayout,
-  getAffiliateSettings
+  getAffiliateSettings,
+  ensureReferralCodeIndex
 } from '@/services/affiliateService';
 import { 
   AffiliateUser, 
@@ -19,8 +21,11 @@ import {
   AffiliateCommission, 
   AffiliateSettings,
   AffiliateFollower,
-  AffiliatePayout
+  AffiliatePayout,
+  AffiliateLedgerEntry,
+  AffiliateBalance
 } from '@/types/affiliate';
+import { getHoldPeriodDays, getLedgerBalance, getWithdrawableBalance, WithdrawableBalance } from '@/utils/affiliateLedger';
 
 interface AffiliateContextType {
   affiliate: AffiliateUser | null;
@@ -29,6 +34,9 @@ interface AffiliateContextType {
   referrals: AffiliateReferral[];
   commissions: AffiliateCommission[];
   payouts: AffiliatePayout[];
+  ledger: AffiliateLedgerEntry[];
+  balance: AffiliateBalance;
+  withdrawable: WithdrawableBalance;
   followers: AffiliateFollower[];
   settings: AffiliateSettings | null;
   joinAffiliate: () => Promise<void>;
@@ -48,9 +56,13 @@ export const AffiliateProvider = ({ children }: { children: React.ReactNode }) =
   const [referrals, setReferrals] = useState<AffiliateReferral[]>([]);
   const [commissions, setCommissions] = useState<AffiliateCommission[]>([]);
   const [payouts, setPayouts] = useState<AffiliatePayout[]>([]);
+  const [ledger, setLedger] = useState<AffiliateLedgerEntry[]>([]);
   const [followers, setFollowers] = useState<AffiliateFollower[]>([]);
   const [settings, setSettings] = useState<AffiliateSettings | null>(null);
 
+  const balance = getLedgerBalance(ledger);
+  const withdrawable = getWithdrawableBalance(balance, commissions, payouts, getHoldPeriodDays(settings));
+
   // Generate referral link
   const referralLink = affiliate 
     ? `${window.location.origin}/?ref=${affiliate.referralCode}`
@@ -79,6 +91,9 @@ export const AffiliateProvider = ({ children }: { children: React.ReactNode }) =
         
         // Get followers if affiliate exists
         if (affiliateData) {
+          // Affiliates that joined before the referral code lookup existed
+          await ensureReferralCodeIndex(affiliateData);
+          
           const followersData = await getAffiliateFollowers(affiliateData.id);
           console.log('Loaded followers data:', followersData);
           setFollowers(followersData);
@@ -103,6 +118,7 @@ export const AffiliateProvider = ({ children }: { children: React.ReactNode }) =
     let unsubscribeReferrals: (() => void) | undefined;
     let unsubscribeCommissions: (() => void) | undefined;
     let unsubscribePayouts: (() => void) | undefined; 
+    let unsubscribeLedger: (() => void) | undefined;
 
     try {
       // Subscribe to affiliate stats
@@ -185,6 +201,18 @@ export const AffiliateProvider = ({ children }: { children: React.ReactNode }) =
       } catch (payoutsError) {
         console.error('Error subscribing to payouts:', payoutsError);
       }
+
+      // Subscribe to ledger, which all balances derive from
+      try {
+        unsubscribeLedger = subscribeToAffiliateLedger(
+          affiliate.id,
+          (updatedLedger) => {
+            setLedger(updatedLedger);
+          }
+        );
+      } catch (ledgerError) {
+        console.error('Error subscribing to ledger:', ledgerError);
+      }
     } catch (err) {
       console.error('Error setting up subscriptions:', err);
       setError('Failed to set up real-time updates');
@@ -195,6 +223,7 @@ export const AffiliateProvider = ({ children }: { children: React.ReactNode }) =
       if (unsubscribeReferrals) unsubscribeReferrals();
       if (unsubscribeCommissions) unsubscribeCommissions(); 
       if (unsubscribePayouts) unsubscribePayouts(); 
+      if (unsubscribeLedger) unsubscribeLedger();
     };
   }, [user, affiliate]);
 
@@ -268,6 +297,10 @@ export const AffiliateProvider = ({ children }: { children: React.ReactNode }) =
         bankInfo || affiliate.bankInfo
       );
       
+      if (bankInfo) {
+        setAffiliate({ ...affiliate, bankInfo });
+      }
+      
       return payoutId;
     } catch (err) {
       console.error('Error requesting payout:', err);
@@ -301,6 +334,9 @@ export const AffiliateProvider = ({ children }: { children: React.ReactNode }) =
         referrals,
         commissions,
         payouts,
+        ledger,
+        balance,
+        withdrawable,
         followers,
         settings,
         joinAffiliate,
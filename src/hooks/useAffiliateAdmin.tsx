@@ -1,4 +1,4 @@
-import { useState, useEffect, createContext, useContext } from 'react';
+import { useState, useEffect, useMemo, createContext, useContext } from 'react';
 import { useAuth } from '@/hooks/useFirebaseAuth';
 import { 
   getAllAffiliates,
@@ -7,15 +7,24 @@ import {
   getAllPayouts,
   processPayout,
   approveCommission,
-  rejectCommission
+  rejectCommission,
+  createPayoutRun,
+  completePayoutRun,
+  cancelPayoutRun
 } from '@/services/affiliateService';
 import { 
   AffiliateUser, 
   AffiliateSettings,
   AffiliateReferral,
   AffiliateCommission,
-  AffiliatePayout
+  AffiliatePayout,
+  AffiliatePayoutRun,
+  AffiliateLedgerEntry,
+  AffiliateBalance,
+  CommissionRisk
 } from '@/types/affiliate';
+import { getLedgerBalances, getPayoutRunCandidates, PayoutRunCandidate } from '@/utils/affiliateLedger';
+import { assessCommissionRisks } from '@/utils/affiliateFraud';
 import { collection, query, onSnapshot, where, getDocs, orderBy, limit } from 'firebase/firestore';
 import { db } from '@/config/firebase';
 
@@ -25,6 +34,11 @@ interface AffiliateAdminContextType {
   referrals: AffiliateReferral[];
   payouts: AffiliatePayout[];
   commissions: AffiliateCommission[];
+  ledgerEntries: AffiliateLedgerEntry[];
+  balances: Record<string, AffiliateBalance>;
+  commissionRisks: Record<string, CommissionRisk>;
+  payoutRuns: AffiliatePayoutRun[];
+  payoutRunCandidates: PayoutRunCandidate[];
   loading: boolean;
   error: string | null;
   selectedMonth: string;
@@ -34,6 +48,9 @@ interface AffiliateAdminContextType {
   processPayout: (payoutId: string, status: 'processing' | 'completed' | 'rejected', notes?: string) => Promise<void>;
   approveCommission: (commissionId: string) => Promise<void>;
   rejectCommission: (commissionId: string, reason: string) => Promise<void>;
+  createPayoutRun: () => Promise<string>;
+  completePayoutRun: (runId: string) => Promise<void>;
+  cancelPayoutRun: (runId: string, notes: string) => Promise<void>;
 }
 
 const AffiliateAdminContext = createContext<AffiliateAdminContextType | undefined>(undefined);
@@ -49,6 +66,8 @@ export const AffiliateAdminProvider = ({ children }: { children: React.ReactNode
   const [allPayouts, setAllPayouts] = useState<AffiliatePayout[]>([]);
   const [commissions, setCommissions] = useState<AffiliateCommission[]>([]);
   const [allCommissions, setAllCommissions] = useState<AffiliateCommission[]>([]);
+  const [ledgerEntries, setLedgerEntries] = useState<AffiliateLedgerEntry[]>([]);
+  const [payoutRuns, setPayoutRuns] = useState<AffiliatePayoutRun[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [availableMonths, setAvailableMonths] = useState<string[]>([]);
@@ -61,6 +80,29 @@ export const AffiliateAdminProvider = ({ children }: { children: React.ReactNode
   
   const [selectedMonth, setSelectedMonth] = useState<string>(getCurrentMonth());
 
+  // Balances cover all time, whatever month is selected
+  const balances = getLedgerBalances(ledgerEntries);
+
+  // Risk looks across all months: repeat addresses and click floods span them
+  const [commissionRisks, setCommissionRisks] = useState<Record<string, CommissionRisk>>({});
+  useEffect(() => {
+    let cancelled = false;
+    assessCommissionRisks(allCommissions, allAffiliates, allReferrals)
+      .then(risks => {
+        if (!cancelled) setCommissionRisks(risks);
+      })
+      .catch(error => console.error('Error assessing commission risks:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [allCommissions, allAffiliates, allReferrals]);
+
+  // What a payout run started now would pay, for the preview
+  const payoutRunCandidates = useMemo(
+    () => settings ? getPayoutRunCandidates(allAffiliates, ledgerEntries, allCommissions, allPayouts, settings) : [],
+    [allAffiliates, ledgerEntries, allCommissions, allPayouts, settings]
+  );
+
   // Load initial data
   useEffect(() => {
     const loadInitialData = async () => {
@@ -168,6 +210,8 @@ export const AffiliateAdminProvider = ({ children }: { children: React.ReactNode
     let unsubscribeCommissions: (() => void) | undefined;
     let unsubscribePayouts: (() => void) | undefined;
     let unsubscribeReferrals: (() => void) | undefined;
+    let unsubscribeLedger: (() => void) | undefined;
+    let unsubscribePayoutRuns: (() => void) | undefined;
 
     try {
       // Subscribe to affiliates
@@ -308,6 +352,46 @@ export const AffiliateAdminProvider = ({ children }: { children: React.ReactNode
       } catch (err) {
         console.error('Error setting up referrals subscription:', err);
       }
+
+      // Subscribe to the ledger, which all balances derive from
+      try {
+        unsubscribeLedger = onSnapshot(
+          collection(db, 'affiliate_ledger'),
+          (snapshot) => {
+            setLedgerEntries(snapshot.docs.map(doc => ({
+              id: doc.id,
+              ...doc.data()
+            } as AffiliateLedgerEntry)));
+          },
+          (err) => {
+            console.error('Error subscribing to ledger:', err);
+            setError('Failed to subscribe to ledger');
+          }
+        );
+      } catch (err) {
+        console.error('Error setting up ledger subscription:', err);
+      }
+
+      // Subscribe to payout runs
+      try {
+        unsubscribePayoutRuns = onSnapshot(
+          collection(db, 'affiliate_payout_runs'),
+          (snapshot) => {
+            const runsData = snapshot.docs.map(doc => ({
+              id: doc.id,
+              ...doc.data()
+            } as AffiliatePayoutRun));
+            runsData.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+            setPayoutRuns(runsData);
+          },
+          (err) => {
+            console.error('Error subscribing to payout runs:', err);
+            setError('Failed to subscribe to payout runs');
+          }
+        );
+      } catch (err) {
+        console.error('Error setting up payout runs subscription:', err);
+      }
     } catch (err) {
       console.error('Error setting up admin subscriptions:', err);
       setError('Failed to set up real-time updates');
@@ -318,6 +402,8 @@ export const AffiliateAdminProvider = ({ children }: { children: React.ReactNode
       if (unsubscribeCommissions) unsubscribeCommissions();
       if (unsubscribePayouts) unsubscribePayouts(); 
       if (unsubscribeReferrals) unsubscribeReferrals(); 
+      if (unsubscribeLedger) unsubscribeLedger();
+      if (unsubscribePayoutRuns) unsubscribePayoutRuns();
     };
   }, [user]);
 
@@ -389,6 +475,48 @@ export const AffiliateAdminProvider = ({ children }: { children: React.ReactNode
     }
   };
 
+  // Start a payout run for the current month
+  const createPayoutRunFn = async () => {
+    if (!user) {
+      throw new Error('You must be logged in to create payout runs');
+    }
+
+    try {
+      return await createPayoutRun(user.uid);
+    } catch (err) {
+      console.error('Error creating payout run:', err);
+      throw err;
+    }
+  };
+
+  // Complete payout run
+  const completePayoutRunFn = async (runId: string) => {
+    if (!user) {
+      throw new Error('You must be logged in to complete payout runs');
+    }
+
+    try {
+      await completePayoutRun(runId, user.uid);
+    } catch (err) {
+      console.error('Error completing payout run:', err);
+      throw err;
+    }
+  };
+
+  // Cancel payout run
+  const cancelPayoutRunFn = async (runId: string, notes: string) => {
+    if (!user) {
+      throw new Error('You must be logged in to cancel payout runs');
+    }
+
+    try {
+      await cancelPayoutRun(runId, user.uid, notes);
+    } catch (err) {
+      console.error('Error cancelling payout run:', err);
+      throw err;
+    }
+  };
+
   return (
     <AffiliateAdminContext.Provider
       value={{
@@ -397,6 +525,11 @@ export const AffiliateAdminProvider = ({ children }: { children: React.ReactNode
         referrals,
         payouts,
         commissions,
+        ledgerEntries,
+        balances,
+        commissionRisks,
+        payoutRuns,
+        payoutRunCandidates,
         loading,
         error,
         selectedMonth,
@@ -405,7 +538,10 @@ export const AffiliateAdminProvider = ({ children }: { children: React.ReactNode
         updateSettings: updateSettingsFn,
         processPayout: processPayoutFn,
         approveCommission: approveCommissionFn,
-        rejectCommission: rejectCommissionFn
+        rejectCommission: rejectCommissionFn,
+        createPayoutRun: createPayoutRunFn,
+        completePayoutRun: completePayoutRunFn,
+        cancelPayoutRun: cancelPayoutRunFn
       }}
     >
       {children}
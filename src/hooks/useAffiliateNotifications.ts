@@ -0,0 +1,125 @@
+import { useEffect, useRef, useState } from 'react';
+import { useAuth } from '@/hooks/useFirebaseAuth';
+import {
+  getNotificationSettings,
+  markNotificationsRead,
+  recordAffiliateNotifications,
+  subscribeToAffiliateCommissions,
+  subscribeToAffiliateNotifications,
+  subscribeToAffiliatePayouts,
+  subscribeToAffiliateStats,
+  updateNotificationPreferences
+} from '@/services/affiliateService';
+import {
+  AffiliateCommission,
+  AffiliateNotification,
+  AffiliateNotificationSettings,
+  AffiliateNotificationType,
+  AffiliatePayout,
+  AffiliateUser
+} from '@/types/affiliate';
+import { getNewNotifications, getNotificationPreferences, getReachedClickMilestone } from '@/utils/affiliateNotifications';
+
+/**
+ * Notification feed of the signed-in affiliate. New events in the affiliate's
+ * profile, commissions and payouts are recorded as notifications while any
+ * page with the header is open; `isAffiliate` is false for other users.
+ */
+export const useAffiliateNotifications = () => {
+  const { user } = useAuth();
+  const [affiliate, setAffiliate] = useState<AffiliateUser | null>(null);
+  const [settings, setSettings] = useState<AffiliateNotificationSettings | null>(null);
+  const [notifications, setNotifications] = useState<AffiliateNotification[] | null>(null);
+  const [commissions, setCommissions] = useState<AffiliateCommission[] | null>(null);
+  const [payouts, setPayouts] = useState<AffiliatePayout[] | null>(null);
+  const isRecordingRef = useRef(false);
+
+  const affiliateId = affiliate?.id;
+
+  useEffect(() => {
+    setAffiliate(null);
+    if (!user) return;
+
+    return subscribeToAffiliateStats(user.uid, setAffiliate);
+  }, [user]);
+
+  useEffect(() => {
+    setSettings(null);
+    setNotifications(null);
+    setCommissions(null);
+    setPayouts(null);
+    if (!affiliateId) return;
+
+    const unsubscribeNotifications = subscribeToAffiliateNotifications(affiliateId, setNotifications);
+    const unsubscribeCommissions = subscribeToAffiliateCommissions(affiliateId, setCommissions);
+    const unsubscribePayouts = subscribeToAffiliatePayouts(affiliateId, setPayouts);
+
+    return () => {
+      unsubscribeNotifications();
+      unsubscribeCommissions();
+      unsubscribePayouts();
+    };
+  }, [affiliateId]);
+
+  // Loaded once the affiliate is known; creating it needs the click count
+  useEffect(() => {
+    if (!affiliate || settings) return;
+
+    getNotificationSettings(affiliate.id, affiliate.totalClicks)
+      .then(setSettings)
+      .catch(error => console.error('Error loading notification settings:', error));
+  }, [affiliate, settings]);
+
+  useEffect(() => {
+    if (!affiliate || !settings || !notifications || !commissions || !payouts || isRecordingRef.current) return;
+
+    const knownIds = new Set(notifications.map(notification => notification.id));
+    const newNotifications = getNewNotifications(affiliate, commissions, payouts, settings, knownIds);
+    const milestone = getReachedClickMilestone(affiliate.totalClicks || 0);
+    const reachedMilestone = milestone > settings.clickMilestone ? milestone : undefined;
+    if (newNotifications.length === 0 && reachedMilestone === undefined) return;
+
+    isRecordingRef.current = true;
+    recordAffiliateNotifications(affiliate.id, newNotifications, reachedMilestone)
+      .then(() => {
+        if (reachedMilestone !== undefined) {
+          setSettings({ ...settings, clickMilestone: reachedMilestone });
+        }
+      })
+      .catch(error => console.error('Error recording notifications:', error))
+      .finally(() => {
+        isRecordingRef.current = false;
+      });
+  }, [affiliate, settings, notifications, commissions, payouts]);
+
+  const feed = notifications || [];
+  const unreadCount = feed.filter(notification => !notification.read).length;
+
+  const markAsRead = async (notificationIds: string[]) => {
+    if (notificationIds.length === 0) return;
+    try {
+      await markNotificationsRead(notificationIds);
+    } catch (error) {
+      console.error('Error marking notifications as read:', error);
+    }
+  };
+
+  const markAllAsRead = () =>
+    markAsRead(feed.filter(notification => !notification.read).map(notification => notification.id));
+
+  const updatePreferences = async (preferences: Record<AffiliateNotificationType, boolean>) => {
+    if (!affiliate || !settings) return;
+    await updateNotificationPreferences(affiliate.id, preferences);
+    setSettings({ ...settings, preferences });
+  };
+
+  return {
+    isAffiliate: !!affiliate,
+    notifications: feed,
+    unreadCount,
+    preferences: getNotificationPreferences(settings),
+    markAsRead,
+    markAllAsRead,
+    updatePreferences
+  };
+};
@@ -1,14 +1,15 @@
-
-import { useState, useEffect } from 'react';
 import { doc, getDoc, setDoc } from 'firebase/firestore';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { db } from '@/config/firebase';
 import { useAuth } from '@/hooks/useFirebaseAuth';
+import { DisplayCurrency } from '@/types';
 
 interface AppSettings {
   theme: 'light' | 'dark' | 'system';
   language: 'id' | 'en';
   notifications: boolean;
   autoSave: boolean;
+  displayCurrency: DisplayCurrency;
 }
 
 const defaultSettings: AppSettings = {
@@ -16,47 +17,57 @@ const defaultSettings: AppSettings = {
   language: 'id',
   notifications: true,
   autoSave: true,
+  displayCurrency: 'JPY',
 };
 
-export const useAppSettings = () => {
-  const [settings, setSettings] = useState<AppSettings>(defaultSettings);
-  const [loading, setLoading] = useState(true);
-  const { user } = useAuth();
-
-  useEffect(() => {
-    if (user?.uid) {
-      loadUserSettings();
-    } else {
-      setLoading(false);
-    }
-  }, [user?.uid]);
+// Guests keep their settings on the device
+const GUEST_SETTINGS_KEY = 'app_settings';
 
-  const loadUserSettings = async () => {
-    if (!user?.uid) return;
-    
+const loadSettings = async (userId?: string): Promise<AppSettings> => {
+  if (!userId) {
     try {
-      const settingsRef = doc(db, 'user_settings', user.uid);
-      const settingsDoc = await getDoc(settingsRef);
-      
-      if (settingsDoc.exists()) {
-        setSettings({ ...defaultSettings, ...settingsDoc.data() });
-      }
+      const savedSettings = localStorage.getItem(GUEST_SETTINGS_KEY);
+      return savedSettings ? { ...defaultSettings, ...JSON.parse(savedSettings) } : defaultSettings;
     } catch (error) {
-      console.error('Error loading user settings:', error);
-    } finally {
-      setLoading(false);
+      console.warn('Error reading guest settings:', error);
+      return defaultSettings;
     }
-  };
+  }
 
-  const updateSettings = async (newSettings: Partial<AppSettings>) => {
-    if (!user?.uid) return;
+  try {
+    const settingsRef = doc(db, 'user_settings', userId);
+    const settingsDoc = await getDoc(settingsRef);
 
+    return settingsDoc.exists() ? { ...defaultSettings, ...settingsDoc.data() } : defaultSettings;
+  } catch (error) {
+    console.error('Error loading user settings:', error);
+    return defaultSettings;
+  }
+};
+
+// Shared through the query cache, so every product card reads the same settings
+export const useAppSettings = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const queryKey = ['app-settings', user?.uid || 'guest'];
+
+  const { data: settings = defaultSettings, isLoading: loading } = useQuery({
+    queryKey,
+    queryFn: () => loadSettings(user?.uid),
+    staleTime: Infinity,
+  });
+
+  const updateSettings = async (newSettings: Partial<AppSettings>) => {
     const updatedSettings = { ...settings, ...newSettings };
-    setSettings(updatedSettings);
+    queryClient.setQueryData(queryKey, updatedSettings);
 
     try {
-      const settingsRef = doc(db, 'user_settings', user.uid);
-      await setDoc(settingsRef, updatedSettings, { merge: true });
+      if (user?.uid) {
+        const settingsRef = doc(db, 'user_settings', user.uid);
+        await setDoc(settingsRef, updatedSettings, { merge: true });
+      } else {
+        localStorage.setItem(GUEST_SETTINGS_KEY, JSON.stringify(updatedSettings));
+      }
     } catch (error) {
       console.error('Error updating user settings:', error);
     }
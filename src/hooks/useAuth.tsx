@@ -9,7 +9,7 @@ import {
 } from 'firebase/auth';
 import { doc, setDoc, getDoc } from 'firebase/firestore';
 import { auth, db } from '@/config/firebase';
-import { getStoredReferralCode, isReferralCodeValid, registerWithReferral } from '@/utils/referralUtils';
+import { getStoredCampaign, getStoredReferralCode, isReferralCodeValid, registerWithReferral } from '@/utils/referralUtils';
 
 interface AuthContextType {
   user: User | null;
@@ -91,7 +91,9 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
             referralCode,
             user.uid,
             email,
-            fullName
+            fullName,
+            localStorage.getItem('visitorId') || undefined,
+            getStoredCampaign() || undefined
           );
           console.log('Successfully registered user with referral');
         } catch (referralError) {
@@ -0,0 +1,72 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  getBankReviewQueue,
+  importBankStatement,
+  confirmBankTransaction,
+  dismissBankTransaction
+} from '@/services/bankReconciliationService';
+import { BankStatementTransaction, BankTransaction, Order, PaymentProof } from '@/types';
+
+export const useBankReviewQueue = () => {
+  return useQuery({
+    queryKey: ['bank-transactions', 'review'],
+    queryFn: getBankReviewQueue,
+    staleTime: 60000, // 1 minute
+  });
+};
+
+// Imports and confirmations verify orders and their payment proofs
+const useInvalidateReconciliation = () => {
+  const queryClient = useQueryClient();
+
+  return () => {
+    queryClient.invalidateQueries({ queryKey: ['bank-transactions'] });
+    queryClient.invalidateQueries({ queryKey: ['payment-proofs'] });
+    queryClient.invalidateQueries({ queryKey: ['orders'] });
+  };
+};
+
+export const useImportBankStatement = () => {
+  const invalidate = useInvalidateReconciliation();
+
+  return useMutation({
+    mutationFn: ({
+      fileName,
+      transactions,
+      orders,
+      proofs
+    }: {
+      fileName: string;
+      transactions: BankStatementTransaction[];
+      orders: Order[];
+      proofs: PaymentProof[];
+    }) => importBankStatement(fileName, transactions, orders, proofs),
+    onSuccess: invalidate,
+  });
+};
+
+export const useConfirmBankTransaction = () => {
+  const invalidate = useInvalidateReconciliation();
+
+  return useMutation({
+    mutationFn: ({
+      transaction,
+      order,
+      proofs
+    }: {
+      transaction: BankTransaction;
+      order: Order;
+      proofs: PaymentProof[];
+    }) => confirmBankTransaction(transaction, order, proofs),
+    onSuccess: invalidate,
+  });
+};
+
+export const useDismissBankTransaction = () => {
+  const invalidate = useInvalidateReconciliation();
+
+  return useMutation({
+    mutationFn: (transaction: BankTransaction) => dismissBankTransaction(transaction),
+    onSuccess: invalidate,
+  });
+};
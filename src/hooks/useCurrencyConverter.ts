@@ -1,181 +1,47 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState } from 'react';
+import { useRefreshStoreExchangeRate, useStoreExchangeRate } from '@/hooks/useExchangeRate';
+import { convertYenToRupiah, isRupiahPaymentMethod } from '@/utils/currencyUtils';
 
 /**
- * Custom hook to convert JPY to IDR using exchange rate API
+ * Custom hook to convert JPY to IDR using the store's exchange rate
  * @param yenAmount - Amount in Japanese Yen
  * @param paymentMethod - Selected payment method
- * @returns Object containing converted amount, loading state, and error
+ * @returns Object containing converted amount, the quote it is based on, loading state, and error
  */
 export const useCurrencyConverter = (yenAmount: number, paymentMethod: string) => {
-  const [convertedRupiah, setConvertedRupiah] = useState<number | null>(null);
-  const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-  const [exchangeRate, setExchangeRate] = useState<number | null>(null);
-  const [lastUpdated, setLastUpdated] = useState<string | null>(null);
+  const isRupiah = isRupiahPaymentMethod(paymentMethod);
+  const { data, isLoading } = useStoreExchangeRate(isRupiah);
+  const refreshStoreRate = useRefreshStoreExchangeRate();
   const [isRefreshing, setIsRefreshing] = useState(false);
-  
-  // Use a ref to track if we're already fetching to prevent multiple simultaneous requests
-  const isFetchingRef = useRef(false);
-  
-  // Use localStorage to cache the exchange rate and last fetch time
-  const getCachedRate = () => {
-    try {
-      const cachedData = localStorage.getItem('exchange_rate_cache');
-      if (cachedData) {
-        const { rate, timestamp, lastUpdated } = JSON.parse(cachedData);
-        setLastUpdated(lastUpdated);
-        const now = Date.now();
-        const ONE_HOUR = 60 * 60 * 1000; // 1 hour in milliseconds
-        
-        // Return cached rate if it's less than 1 hour old
-        if (now - timestamp < ONE_HOUR) {
-          return rate;
-        }
-      }
-    } catch (e) {
-      console.warn('Error reading cached exchange rate:', e);
-    }
-    return null;
-  };
-  
-  const setCachedRate = (rate: number) => {
-    try {
-      const now = new Date();
-      const formattedDate = now.toLocaleDateString('id-ID', {
-        day: 'numeric',
-        month: 'long',
-        year: 'numeric'
-      });
-      
-      localStorage.setItem('exchange_rate_cache', JSON.stringify({
-        rate,
-        timestamp: Date.now(),
-        lastUpdated: formattedDate
-      }));
-      
-      setLastUpdated(formattedDate);
-    } catch (e) {
-      console.warn('Error caching exchange rate:', e);
-    }
-  };
 
-  const fetchExchangeRate = async () => {
+  // Only rupiah payment methods are converted
+  const quote = isRupiah ? data?.quote ?? null : null;
+
+  const refreshRate = async () => {
     setIsRefreshing(true);
-    // Prevent multiple simultaneous fetches
-    if (isFetchingRef.current) return;
-    
-    isFetchingRef.current = true;
-    setIsLoading(true);
-    setError(null);
-    
     try {
-      // Try primary API first
-      const response = await fetch('https://api.exchangerate.host/latest?base=JPY&symbols=IDR', {
-        method: 'GET',
-        headers: {
-          'Accept': 'application/json'
-        },
-        // Add cache control to prevent browser caching
-        cache: 'no-cache'
-      });
-      
-      if (!response.ok) {
-        throw new Error('Failed to get exchange rate from primary API');
-      }
-      
-      const data = await response.json();
-      
-      if (data.rates && data.rates.IDR) {
-        const rate = data.rates.IDR;
-        setExchangeRate(rate);
-        setCachedRate(rate); // This will also set lastUpdated
-        const rupiah = yenAmount * rate;
-        setConvertedRupiah(Math.round(rupiah));
-      } else {
-        throw new Error('Invalid data from primary API');
-      }
-    } catch (primaryError) {
-      console.warn('Primary API failed:', primaryError);
-      
-      try {
-        // Try backup API if primary fails
-        const backupResponse = await fetch('https://open.er-api.com/v6/latest/JPY', {
-          method: 'GET',
-          headers: {
-            'Accept': 'application/json'
-          },
-          cache: 'no-cache'
-        });
-        
-        if (!backupResponse.ok) {
-          throw new Error('Failed to get exchange rate from backup API');
-        }
-        
-        const backupData = await backupResponse.json();
-        
-        if (backupData.rates && backupData.rates.IDR) {
-          const backupRate = backupData.rates.IDR;
-          setExchangeRate(backupRate);
-          setCachedRate(backupRate); // This will also set lastUpdated
-          const rupiah = yenAmount * backupRate;
-          setConvertedRupiah(Math.round(rupiah));
-        } else {
-          throw new Error('Invalid data from backup API');
-        }
-      } catch (backupError) {
-        console.error('Both APIs failed:', backupError);
-        
-        // Use fallback rate if both APIs fail
-        setError('Failed to get exchange rate. Using fallback rate.');
-        const fallbackRate = 100; // Approximate rate: 1 JPY ≈ 100 IDR
-        setExchangeRate(fallbackRate);
-        const rupiah = yenAmount * fallbackRate;
-        setConvertedRupiah(Math.round(rupiah));
-      }
+      return await refreshStoreRate();
     } finally {
-      setIsLoading(false);
-      isFetchingRef.current = false;
       setIsRefreshing(false);
     }
   };
 
-  // Initial load effect - only runs when payment method changes to Rupiah
-  useEffect(() => {
-    // Only fetch exchange rate if payment method is bank transfer in Rupiah
-    if (paymentMethod === 'Bank Transfer (Rupiah)' || paymentMethod === 'QRIS / QR Code') {
-      // Try to get cached rate first
-      const cachedRate = getCachedRate();
-      
-      if (cachedRate) {
-        // Use cached rate if available
-        setExchangeRate(cachedRate);
-        const rupiah = yenAmount * cachedRate;
-        setConvertedRupiah(Math.round(rupiah));
-      } else {
-        // Fetch new rate if no cached rate
-        fetchExchangeRate();
-      }
-    } else {
-      // Reset state if payment method is not Rupiah
-      setConvertedRupiah(null);
-      setIsLoading(false);
-      setError(null);
-    }
-  }, [paymentMethod]);
-
-  // Recalculation effect - only runs when yenAmount changes and we already have a rate
-  useEffect(() => {
-    if (exchangeRate && (paymentMethod === 'Bank Transfer (Rupiah)' || paymentMethod === 'QRIS / QR Code')) {
-      setConvertedRupiah(Math.round(yenAmount * exchangeRate));
-    }
-  }, [yenAmount, exchangeRate, paymentMethod]);
-
-  return { 
-    convertedRupiah, 
-    isLoading, 
-    error,
+  return {
+    convertedRupiah: quote ? convertYenToRupiah(yenAmount, quote.rate) : null,
+    exchangeRate: quote?.rate ?? null,
+    quote,
+    isLoading: isRupiah && isLoading,
+    error: isRupiah ? data?.error ?? null : null,
     isRefreshing,
-    lastUpdated,
-    refreshRate: fetchExchangeRate 
+    lastUpdated: isRupiah && data?.updatedAt
+      ? new Date(data.updatedAt).toLocaleDateString('id-ID', {
+          day: 'numeric',
+          month: 'long',
+          year: 'numeric'
+        })
+      : null,
+    refreshRate
   };
-};
\ No newline at end of file
+};
+
+export type CurrencyConversion = ReturnType<typeof useCurrencyConverter>;
@@ -0,0 +1,21 @@
+import { useAppSettings } from '@/hooks/useAppSettings';
+import { useStoreExchangeRate } from '@/hooks/useExchangeRate';
+import { DisplayCurrency } from '@/types';
+import { getDisplayPrices } from '@/utils/currencyUtils';
+
+/**
+ * Storefront prices in the customer's preferred currency, converted with the
+ * same store rate that checkout quotes
+ */
+export const useDisplayCurrency = () => {
+  const { settings, updateSettings } = useAppSettings();
+  const { displayCurrency } = settings;
+  const { data } = useStoreExchangeRate(displayCurrency !== 'JPY');
+  const rate = data?.quote.rate ?? null;
+
+  return {
+    displayCurrency,
+    setDisplayCurrency: (currency: DisplayCurrency) => updateSettings({ displayCurrency: currency }),
+    formatDisplayPrice: (yenAmount: number) => getDisplayPrices(yenAmount, displayCurrency, rate)
+  };
+};
@@ -0,0 +1,56 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  getExchangeRateSettings,
+  getExchangeRateHistory,
+  loadStoreExchangeRate,
+  updateExchangeRateSettings
+} from '@/services/exchangeRateService';
+import { EXCHANGE_RATE_MAX_AGE_MS } from '@/utils/currencyUtils';
+
+const STORE_RATE_KEY = ['exchange-rate', 'store'];
+
+// One shared quote for checkout and every price on the storefront
+export const useStoreExchangeRate = (enabled = true) => {
+  return useQuery({
+    queryKey: STORE_RATE_KEY,
+    queryFn: () => loadStoreExchangeRate(),
+    enabled,
+    staleTime: EXCHANGE_RATE_MAX_AGE_MS,
+  });
+};
+
+// Reload the store rate, skipping the copy cached on the device
+export const useRefreshStoreExchangeRate = () => {
+  const queryClient = useQueryClient();
+
+  return () => queryClient.fetchQuery({
+    queryKey: STORE_RATE_KEY,
+    queryFn: () => loadStoreExchangeRate(false),
+    staleTime: 0,
+  });
+};
+
+export const useExchangeRateSettings = () => {
+  return useQuery({
+    queryKey: ['exchange-rate', 'settings'],
+    queryFn: getExchangeRateSettings,
+  });
+};
+
+export const useExchangeRateHistory = () => {
+  return useQuery({
+    queryKey: ['exchange-rate', 'history'],
+    queryFn: getExchangeRateHistory,
+  });
+};
+
+export const useUpdateExchangeRateSettings = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: updateExchangeRateSettings,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['exchange-rate'] });
+    },
+  });
+};
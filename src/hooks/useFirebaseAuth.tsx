@@ -12,6 +12,8 @@ import {
   browserLocalPersistence
 } from 'firebase/auth';
 import { firebaseConfig } from '@/config/env';
+import { registerWithReferral } from '@/services/affiliateService';
+import { getStoredCampaign, getStoredReferralCode, isReferralCodeValid } from '@/utils/referralUtils';
 
 interface AuthContextType {
   user: User | null;
@@ -116,6 +118,25 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
           displayName: fullName
         });
         console.log('Sign up successful and profile updated:', user.email);
+        
+        // Attribute the new account to the affiliate whose referral code is stored
+        const referralCode = getStoredReferralCode();
+        if (referralCode && isReferralCodeValid()) {
+          try {
+            await registerWithReferral(
+              referralCode,
+              user.uid,
+              email,
+              fullName,
+              localStorage.getItem('visitorId') || undefined,
+              getStoredCampaign() || undefined
+            );
+            console.log('Registered new user with referral code:', referralCode);
+          } catch (referralError) {
+            console.error('Error registering user with referral:', referralError);
+            // Don't fail signup if referral processing fails
+          }
+        }
       }
       
       return { error: null };
@@ -1,7 +1,12 @@
 
 import { useMutation, useQueryClient } from '@tanstack/react-query';
-import { getFirestore, doc, updateDoc, runTransaction, getDoc } from 'firebase/firestore';
+import { getFirestore, doc, runTransaction, arrayUnion } from 'firebase/firestore';
 import { toast } from '@/hooks/use-toast';
+import { logAdminAction } from '@/services/adminLogService';
+import { applyOrderStatsChange } from '@/services/statsService';
+import { reserveStock, releaseOrderStock } from '@/services/stockService';
+import { assertStatusTransition, createStatusHistoryEntry, clawBackOrderCommission } from '@/services/orderService';
+import { Order } from '@/types';
 
 export const useOrderOperations = () => {
   const queryClient = useQueryClient();
@@ -10,6 +15,8 @@ export const useOrderOperations = () => {
   const confirmOrderMutation = useMutation({ 
     mutationFn: async (orderId: string) => {
       try {
+        let previousOrder = null as Order | null;
+        
         // Use a transaction to ensure atomic updates
         await runTransaction(db, async (transaction) => {
           // Get the order document
@@ -24,108 +31,46 @@ export const useOrderOperations = () => {
           }
           
           const orderData = orderDoc.data();
+          previousOrder = orderData as Order;
+          
+          const currentStatus = orderData.status || 'pending';
           
           // Check if order is already confirmed
-          if (orderData.status === 'confirmed') {
+          if (currentStatus === 'confirmed') {
             console.warn('Order already confirmed:', orderId);
             throw new Error('Order already confirmed');
           }
+          assertStatusTransition(currentStatus, 'confirmed');
           
-          console.log('Checking stock for items in order:', orderData.items);
-          
-          // Check stock for each item in the order
-          for (const item of orderData.items) {
-            // Skip if no product_id (backward compatibility)
-            if (!item.product_id) {
-              console.warn('Item has no product_id, skipping stock check:', item);
-              continue;
-            }
-            
-            const productRef = doc(db, 'products', item.product_id);
-            const productDoc = await transaction.get(productRef);
-            
-            if (!productDoc.exists()) {
-              console.error(`Product ${item.name} (${item.product_id}) not found`);
-              throw new Error(`Product ${item.name} not found`);
-            }
-            
-            const productData = productDoc.data();
-            
-            // Check if we need to update variant stock or main product stock
-            if (item.selectedVariants && Object.keys(item.selectedVariants).length > 0 && 
-                productData.variants && productData.variants.length > 0) {
-              
-              // Find the matching variant
-              const variantName = item.selectedVariantName || 
-                                 (item.selectedVariants.variant ? item.selectedVariants.variant : null);
-              
-              console.log('Checking variant stock:', {
-                productName: item.name,
-                variantName,
-                selectedVariants: item.selectedVariants
-              });
-              
-              if (!variantName) {
-                console.error(`Variant name not found for ${item.name}`);
-                throw new Error(`Variant name not found for ${item.name}`);
-              }
-              
-              const variantIndex = productData.variants.findIndex(v => v.name === variantName);
-              
-              if (variantIndex === -1) {
-                console.error(`Variant ${variantName} not found for ${item.name}`);
-                throw new Error(`Variant ${variantName} not found for ${item.name}`);
-              }
-              
-              const variant = productData.variants[variantIndex];
-              
-              // Check if there's enough stock
-              if (variant.stock < item.quantity) {
-                console.error(`Not enough stock for ${item.name} (${variantName}). Available: ${variant.stock}, Requested: ${item.quantity}`);
-                throw new Error(`Not enough stock for ${item.name} (${variantName}). Available: ${variant.stock}, Requested: ${item.quantity}`);
-              }
-              
-              // Update variant stock
-              const updatedVariants = [...productData.variants];
-              updatedVariants[variantIndex] = {
-                ...variant,
-                stock: variant.stock - item.quantity
-              }; 
-              
-              console.log(`Updating variant stock for ${item.name} (${variantName}): ${variant.stock} -> ${variant.stock - item.quantity}`);
-              
-              // Update the product with new variants array
-              transaction.update(productRef, { 
-                variants: updatedVariants,
-                updated_at: new Date().toISOString()
-              });
-              
-            } else {
-              // Check if there's enough stock for the main product
-              if (productData.stock < item.quantity) {
-                console.error(`Not enough stock for ${item.name}. Available: ${productData.stock}, Requested: ${item.quantity}`);
-                throw new Error(`Not enough stock for ${item.name}. Available: ${productData.stock}, Requested: ${item.quantity}`);
-              }
-              
-              console.log(`Updating main product stock for ${item.name}: ${productData.stock} -> ${productData.stock - item.quantity}`);
-              
-              // Update main product stock
-              transaction.update(productRef, { 
-                stock: productData.stock - item.quantity,
-                updated_at: new Date().toISOString()
-              });
-            }
+          // Orders placed before checkout-time reservation still need their stock taken
+          if (!orderData.stock_reserved) {
+            console.log('Reserving stock for legacy order items:', orderData.items);
+            await reserveStock(transaction, orderData.items || [], orderId);
           }
           
           // Update order status to confirmed
           console.log('Updating order status to confirmed:', orderId);
           transaction.update(orderRef, {
             status: 'confirmed',
+            stock_reserved: true,
+            status_history: arrayUnion(createStatusHistoryEntry(orderId, 'confirmed', currentStatus)),
             confirmed_at: new Date().toISOString(),
             updated_at: new Date().toISOString()
           });
         });
         
+        if (previousOrder) {
+          await applyOrderStatsChange(previousOrder, { ...previousOrder, status: 'confirmed' });
+        }
+        
+        await logAdminAction({
+          action: 'confirm_order',
+          target_type: 'order',
+          target_id: orderId,
+          before: { status: previousOrder?.status ?? null },
+          after: { status: 'confirmed' }
+        });
+        
         return orderId;
       } catch (error) {
         console.error('Order confirmation transaction failed:', error);
@@ -136,6 +81,7 @@ export const useOrderOperations = () => {
       // Invalidate multiple query keys to ensure data refresh
       queryClient.invalidateQueries({ queryKey: ['orders'] });
       queryClient.invalidateQueries({ queryKey: ['pending-orders'] });
+      queryClient.invalidateQueries({ queryKey: ['admin-stats'] });
       
       // Force refetch immediately
       queryClient.refetchQueries({ queryKey: ['orders'] });
@@ -143,7 +89,7 @@ export const useOrderOperations = () => {
       
       toast({
         title: "Order Confirmed",
-        description: "Order has been confirmed and product stock has been updated successfully.",
+        description: "Order has been confirmed successfully.",
       });
     },
     onError: (error) => {
@@ -160,9 +106,35 @@ export const useOrderOperations = () => {
   const cancelOrderMutation = useMutation({
     mutationFn: async (orderId: string) => {
       const orderRef = doc(db, 'orders', orderId);
-      await updateDoc(orderRef, {
-        status: 'cancelled',
-        updated_at: new Date().toISOString()
+      const previousOrder = await runTransaction(db, async (transaction) => {
+        const before = await transaction.get(orderRef);
+        if (!before.exists()) {
+          throw new Error('Order not found');
+        }
+        
+        const previousOrder = before.data() as Order;
+        const currentStatus = previousOrder.status || 'pending';
+        assertStatusTransition(currentStatus, 'cancelled');
+        
+        transaction.update(orderRef, {
+          status: 'cancelled',
+          status_history: arrayUnion(createStatusHistoryEntry(orderId, 'cancelled', currentStatus)),
+          updated_at: new Date().toISOString()
+        });
+        return previousOrder;
+      });
+      const currentStatus = previousOrder.status || 'pending';
+      await releaseOrderStock(orderId);
+      await clawBackOrderCommission(orderId, 'order_cancelled');
+      
+      await applyOrderStatsChange(previousOrder, { ...previousOrder, status: 'cancelled' });
+      
+      await logAdminAction({
+        action: 'cancel_order',
+        target_type: 'order',
+        target_id: orderId,
+        before: { status: currentStatus },
+        after: { status: 'cancelled' }
       });
       return orderId;
     },
@@ -170,6 +142,7 @@ export const useOrderOperations = () => {
       // Invalidate multiple query keys to ensure data refresh
       queryClient.invalidateQueries({ queryKey: ['orders'] });
       queryClient.invalidateQueries({ queryKey: ['pending-orders'] });
+      queryClient.invalidateQueries({ queryKey: ['admin-stats'] });
       
       // Force refetch immediately
       queryClient.refetchQueries({ queryKey: ['orders'] });
@@ -177,14 +150,14 @@ export const useOrderOperations = () => {
       
       toast({
         title: "Order Cancelled",
-        description: "Order has been cancelled successfully.",
+        description: "Order has been cancelled and its reserved stock released.",
       });
     },
     onError: (error) => {
       console.error('Order cancellation failed:', error);
       toast({
         title: "Error",
-        description: "Failed to cancel order. Please try again.",
+        description: error instanceof Error ? error.message : "Failed to cancel order. Please try again.",
         variant: "destructive",
       });
     }
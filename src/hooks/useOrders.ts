@@ -1,6 +1,6 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { getAllOrders, getOrdersByUser, createOrder } from '@/services/orderService';
-import { Order, CartItem } from '@/types';
+import { AppliedShippingPromotion, AppliedVoucher, Order, OrderExchangeRate, OrderItem } from '@/types';
 
 export const useOrders = () => {
   return useQuery({
@@ -35,14 +35,22 @@ export const useCreateOrder = () => {
       customerInfo,
       userId,
       shipping_fee,
-      affiliate_id
+      shipping_promotion,
+      voucher,
+      affiliate_id,
+      visitor_id,
+      exchange_rate
     }: {
-      items: CartItem[];
+      items: OrderItem[];
       totalPrice: number;
       customerInfo: any;
       userId?: string;
       shipping_fee?: number;
+      shipping_promotion?: AppliedShippingPromotion | null;
+      voucher?: AppliedVoucher | null;
       affiliate_id?: string;
+      visitor_id?: string;
+      exchange_rate?: OrderExchangeRate | null;
     }) => {
       return await createOrder({
         user_id: userId,
@@ -51,12 +59,18 @@ export const useCreateOrder = () => {
         total_price: totalPrice,
         status: 'pending',
         shipping_fee: shipping_fee,
-        affiliate_id: affiliate_id
+        shipping_promotion: shipping_promotion,
+        voucher: voucher,
+        affiliate_id: affiliate_id,
+        visitor_id: visitor_id,
+        exchange_rate: exchange_rate
       });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['orders'] });
       queryClient.invalidateQueries({ queryKey: ['pending-orders'] });
+      // Stock was reserved for the new order
+      queryClient.invalidateQueries({ queryKey: ['products'] });
     },
   });
 };
\ No newline at end of file
@@ -1,14 +1,13 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { 
-  getAllPaymentProofs, 
-  getPaymentProofsByStatus, 
+import {
+  getAllPaymentProofs,
+  getPaymentProofsByOrder,
   getPaymentProofsByUser,
-  getPaymentProofByInvoice,
   verifyPaymentProof,
   rejectPaymentProof,
-  uploadPaymentProof,
-  PaymentProof
+  uploadPaymentProof
 } from '@/services/paymentService';
+import { PaymentProof } from '@/types';
 
 export const usePaymentProofs = () => {
   return useQuery({
@@ -18,12 +17,12 @@ export const usePaymentProofs = () => {
   });
 };
 
-export const usePaymentProofsByStatus = (status: string) => {
+export const usePaymentProofsByOrder = (orderId: string) => {
   return useQuery({
-    queryKey: ['payment-proofs', 'status', status],
-    queryFn: () => getPaymentProofsByStatus(status),
+    queryKey: ['payment-proofs', 'order', orderId],
+    queryFn: () => getPaymentProofsByOrder(orderId),
     staleTime: 60000, // 1 minute
-    enabled: !!status,
+    enabled: !!orderId,
   });
 };
 
@@ -36,22 +35,15 @@ export const usePaymentProofsByUser = (userId: string) => {
   });
 };
 
-export const usePaymentProofByInvoice = (invoiceId: string) => {
-  return useQuery({
-    queryKey: ['payment-proof', 'invoice', invoiceId],
-    queryFn: () => getPaymentProofByInvoice(invoiceId),
-    staleTime: 60000, // 1 minute
-    enabled: !!invoiceId,
-  });
-};
-
+// Reviews change the order's payment status too
 export const useVerifyPaymentProof = () => {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: (paymentId: string) => verifyPaymentProof(paymentId),
+    mutationFn: (proof: PaymentProof) => verifyPaymentProof(proof),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['payment-proofs'] });
+      queryClient.invalidateQueries({ queryKey: ['orders'] });
     },
   });
 };
@@ -60,10 +52,11 @@ export const useRejectPaymentProof = () => {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: ({ paymentId, reason }: { paymentId: string; reason: string }) => 
-      rejectPaymentProof(paymentId, reason),
+    mutationFn: ({ proof, reason }: { proof: PaymentProof; reason: string }) =>
+      rejectPaymentProof(proof, reason),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['payment-proofs'] });
+      queryClient.invalidateQueries({ queryKey: ['orders'] });
     },
   });
 };
@@ -72,15 +65,16 @@ export const useUploadPaymentProof = () => {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: ({ 
-      file, 
-      paymentData 
-    }: { 
-      file: File; 
-      paymentData: Omit<PaymentProof, 'id' | 'bukti_url' | 'uploaded_at'> 
-    }) => uploadPaymentProof(file, paymentData),
+    mutationFn: ({
+      file,
+      order
+    }: {
+      file: File;
+      order: Parameters<typeof uploadPaymentProof>[1];
+    }) => uploadPaymentProof(file, order),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['payment-proofs'] });
+      queryClient.invalidateQueries({ queryKey: ['orders'] });
     },
   });
-};
\ No newline at end of file
+};
@@ -0,0 +1,30 @@
+import { useQuery } from '@tanstack/react-query';
+import { useAuth } from '@/hooks/useFirebaseAuth';
+import { getUserProfile } from '@/services/userService';
+import { Permission, UserRole } from '@/types';
+import { hasPermission } from '@/utils/permissions';
+
+export const useUserProfile = (userId?: string) => {
+  return useQuery({
+    queryKey: ['user-profile', userId],
+    queryFn: () => getUserProfile(userId as string),
+    enabled: !!userId,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+};
+
+export const usePermissions = () => {
+  const { user, loading: authLoading } = useAuth();
+  const { data: profile, isLoading: profileLoading } = useUserProfile(user?.uid);
+
+  const role: UserRole = profile?.role || 'customer';
+
+  const can = (permission: Permission) => !!user && hasPermission(role, permission);
+
+  return {
+    user,
+    role,
+    can,
+    loading: authLoading || (!!user && profileLoading),
+  };
+};
@@ -4,9 +4,14 @@ import {
   getShippingRateByPrefecture, 
   addShippingRate, 
   updateShippingRate, 
-  deleteShippingRate 
+  deleteShippingRate,
+  getAllShippingPromotions,
+  getActiveShippingPromotions,
+  addShippingPromotion,
+  updateShippingPromotion,
+  deleteShippingPromotion
 } from '@/services/shippingService';
-import { ShippingRate } from '@/types';
+import { ShippingPromotion, ShippingRate } from '@/types';
 
 export const useShippingRates = () => {
   return useQuery({
@@ -57,4 +62,54 @@ export const useDeleteShippingRate = () => {
       queryClient.invalidateQueries({ queryKey: ['shipping-rates'] });
     },
   });
-};
\ No newline at end of file
+};
+
+export const useShippingPromotions = () => {
+  return useQuery({
+    queryKey: ['shipping-promotions'],
+    queryFn: getAllShippingPromotions,
+  });
+};
+
+export const useActiveShippingPromotions = () => {
+  return useQuery({
+    queryKey: ['shipping-promotions', 'active'],
+    queryFn: getActiveShippingPromotions,
+    staleTime: 300000, // 5 minutes
+  });
+};
+
+export const useAddShippingPromotion = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (promotion: Omit<ShippingPromotion, 'id' | 'created_at' | 'updated_at'>) =>
+      addShippingPromotion(promotion),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['shipping-promotions'] });
+    },
+  });
+};
+
+export const useUpdateShippingPromotion = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, updates }: { id: string; updates: Partial<ShippingPromotion> }) =>
+      updateShippingPromotion(id, updates),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['shipping-promotions'] });
+    },
+  });
+};
+
+export const useDeleteShippingPromotion = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => deleteShippingPromotion(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['shipping-promotions'] });
+    },
+  });
+};
@@ -0,0 +1,58 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  getAllVouchers,
+  getVoucherRedemptions,
+  addVoucher,
+  updateVoucher,
+  deleteVoucher
+} from '@/services/voucherService';
+import { Voucher } from '@/types';
+
+export const useVouchers = () => {
+  return useQuery({
+    queryKey: ['vouchers'],
+    queryFn: getAllVouchers,
+  });
+};
+
+export const useVoucherRedemptions = () => {
+  return useQuery({
+    queryKey: ['voucher-redemptions'],
+    queryFn: getVoucherRedemptions,
+  });
+};
+
+export const useAddVoucher = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (voucher: Omit<Voucher, 'id' | 'used_count' | 'created_at' | 'updated_at'>) =>
+      addVoucher(voucher),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['vouchers'] });
+    },
+  });
+};
+
+export const useUpdateVoucher = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, updates }: { id: string; updates: Partial<Omit<Voucher, 'id' | 'code' | 'used_count'>> }) =>
+      updateVoucher(id, updates),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['vouchers'] });
+    },
+  });
+};
+
+export const useDeleteVoucher = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => deleteVoucher(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['vouchers'] });
+    },
+  });
+};
@@ -2,6 +2,7 @@
 import { Link } from 'react-router-dom';
 import { Minus, Plus, Trash2, ShoppingBag } from 'lucide-react';
 import { useCart } from '@/hooks/useCart';
+import { useDisplayCurrency } from '@/hooks/useDisplayCurrency';
 import Header from '@/components/Header';
 import Footer from '@/components/Footer';
 import CheckoutForm from '@/components/CheckoutForm';
@@ -9,6 +10,8 @@ import { Button } from '@/components/ui/button';
 
 const Cart = () => {
   const { cart, updateQuantity, removeFromCart, total, clearCart } = useCart();
+  const { formatDisplayPrice } = useDisplayCurrency();
+  const displayTotal = formatDisplayPrice(total);
 
   const handleQuantityChange = (id: string, change: number) => {
     const item = cart.find(item => item.id === id);
@@ -112,7 +115,7 @@ const Cart = () => {
 
                             {/* Price per unit */}
                             <div className="text-sm text-gray-500 mb-3">
-                              ¥{item.price.toLocaleString()} per item
+                              {formatDisplayPrice(item.price).primary} per item
                             </div>
 
                             {/* Quantity Controls & Total Price */}
@@ -140,8 +143,13 @@ const Cart = () => {
                               <div className="flex items-center gap-4">
                                 <div className="text-right">
                                   <div className="text-lg font-bold text-primary">
-                                    ¥{(item.price * item.quantity).toLocaleString()}
+                                    {formatDisplayPrice(item.price * item.quantity).primary}
                                   </div>
+                                  {formatDisplayPrice(item.price * item.quantity).secondary && (
+                                    <div className="text-xs text-gray-500">
+                                      {formatDisplayPrice(item.price * item.quantity).secondary}
+                                    </div>
+                                  )}
                                 </div>
                                 <button
                                   onClick={() => removeFromCart(item.id)}
@@ -164,13 +172,16 @@ const Cart = () => {
                   <div className="space-y-3">
                     <div className="flex justify-between items-center text-gray-600">
                       <span className="text-lg">Subtotal ({cart.reduce((sum, item) => sum + item.quantity, 0)} item)</span>
-                      <span className="text-lg font-semibold text-gray-800">¥{total.toLocaleString()}</span>
+                      <span className="text-lg font-semibold text-gray-800">{displayTotal.primary}</span>
                     </div>
                     <div className="border-t border-gray-200 pt-3">
                       <div className="flex justify-between items-center">
                         <span className="text-2xl font-bold text-gray-800">Total Belanja</span>
-                        <span className="text-2xl font-bold text-primary">¥{total.toLocaleString()}</span>
+                        <span className="text-2xl font-bold text-primary">{displayTotal.primary}</span>
                       </div>
+                      {displayTotal.secondary && (
+                        <p className="text-right text-sm text-gray-500 mt-1">{displayTotal.secondary}</p>
+                      )}
                     </div>
                   </div>
                 </div>
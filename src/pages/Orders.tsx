@@ -15,6 +15,9 @@ import { useState } from 'react';
 import { useQueryClient } from '@tanstack/react-query';
 import OrderPaymentStatus from '@/components/OrderPaymentStatus';
 import PaymentProofUploader from '@/components/PaymentProofUploader';
+import OrderStatusTimeline from '@/components/OrderStatusTimeline';
+import ShipmentTrackingInfo from '@/components/ShipmentTrackingInfo';
+import { getOrderStatusLabel } from '@/utils/orderStatus';
 
 const Orders = () => {
   const { user, loading: authLoading } = useAuth();
@@ -99,6 +102,10 @@ const Orders = () => {
         return 'default';
       case 'processing':
         return 'default';
+      case 'shipped':
+        return 'default';
+      case 'delivered':
+        return 'default';
       case 'completed':
         return 'default';
       case 'cancelled':
@@ -108,23 +115,6 @@ const Orders = () => {
     }
   };
 
-  const getStatusText = (status: string) => {
-    switch (status) {
-      case 'pending':
-        return 'Menunggu Konfirmasi';
-      case 'confirmed':
-        return 'Dikonfirmasi';
-      case 'processing':
-        return 'Diproses';
-      case 'completed':
-        return 'Selesai';
-      case 'cancelled':
-        return 'Dibatalkan';
-      default:
-        return status;
-    }
-  };
-
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'pending':
@@ -133,6 +123,10 @@ const Orders = () => {
         return 'text-blue-600';
       case 'processing':
         return 'text-purple-600';
+      case 'shipped':
+        return 'text-indigo-600';
+      case 'delivered':
+        return 'text-teal-600';
       case 'completed':
         return 'text-green-600';
       case 'cancelled':
@@ -148,7 +142,7 @@ const Orders = () => {
     }
     
     // Fallback logic based on order status
-    if (order.status === 'confirmed' || order.status === 'processing' || order.status === 'completed') {
+    if (['confirmed', 'processing', 'shipped', 'delivered', 'completed'].includes(order.status)) {
       return 'verified';
     } else if (order.status === 'cancelled') {
       return 'rejected';
@@ -237,7 +231,7 @@ const Orders = () => {
                       </div>
                       <div className="text-right space-y-2">
                         <Badge variant={getStatusBadgeVariant(order.status || 'pending')}>
-                          {getStatusText(order.status || 'pending')}
+                          {getOrderStatusLabel(order.status || 'pending')}
                         </Badge>
                         <div className="text-lg font-bold text-primary">
                           {formatPrice(order.total_price)}
@@ -290,6 +284,14 @@ const Orders = () => {
                         </div>
                       </div>
 
+                      {/* Shipment Tracking */}
+                      {order.shipment && (
+                        <div className="bg-indigo-50 p-4 rounded-lg border border-indigo-100">
+                          <h4 className="font-medium text-indigo-800 mb-3">Informasi Pengiriman</h4>
+                          <ShipmentTrackingInfo shipment={order.shipment} />
+                        </div>
+                      )}
+
                       {/* Payment Status Section */}
                       <div className="bg-blue-50 p-4 rounded-lg border border-blue-100">
                         <h4 className="font-medium text-blue-800 mb-3">{t('orders.paymentInfo')}</h4>
@@ -305,7 +307,7 @@ const Orders = () => {
                             />
                           </div>
                           
-                          {!order.payment_proof_url && order.status === 'pending' && (
+                          {order.status === 'pending' && (!order.payment_proof_url || order.payment_status === 'rejected') && (
                             <Button 
                               variant="outline" 
                               size="sm"
@@ -322,7 +324,7 @@ const Orders = () => {
                         {showUploader === order.id && (
                           <div className="mt-4 border-t border-blue-200 pt-4">
                             <PaymentProofUploader 
-                              orderId={order.id} 
+                              order={order} 
                               onSuccess={handleUploadSuccess}
                             />
                           </div>
@@ -350,30 +352,22 @@ const Orders = () => {
 
                       {/* Status Timeline */}
                       <div className="pt-4 border-t border-gray-100">
-                        <div className="flex items-center space-x-2">
-                          <div className={`w-3 h-3 rounded-full ${
-                            order.status === 'pending' ? 'bg-yellow-400' :
-                            order.status === 'confirmed' ? 'bg-blue-400' :
-                            order.status === 'processing' ? 'bg-purple-400' :
-                            order.status === 'completed' ? 'bg-green-400' :
-                            'bg-red-400'
-                          }`}></div>
-                          <span className={`text-sm font-medium ${getStatusColor(order.status || 'pending')}`}>
-                            {t('orders.status')} {getStatusText(order.status || 'pending')}
-                          </span>
-                        </div>
+                        <h4 className={`text-sm font-medium mb-3 ${getStatusColor(order.status || 'pending')}`}>
+                          {t('orders.status')} {getOrderStatusLabel(order.status || 'pending')}
+                        </h4>
+                        <OrderStatusTimeline order={order} />
                         {order.status === 'pending' && (
-                          <p className="text-xs text-gray-500 mt-1 ml-5">
+                          <p className="text-xs text-gray-500 mt-3">
                             {t('orders.pending')}
                           </p>
                         )}
                         {order.status === 'confirmed' && (
-                          <p className="text-xs text-gray-500 mt-1 ml-5">
+                          <p className="text-xs text-gray-500 mt-3">
                             {t('orders.confirmed')}
                           </p>
                         )}
                         {order.status === 'completed' && (
-                          <p className="text-xs text-gray-500 mt-1 ml-5">
+                          <p className="text-xs text-gray-500 mt-3">
                             {t('orders.completed')}
                           </p>
                         )}
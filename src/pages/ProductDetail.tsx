@@ -1,8 +1,8 @@
 import { useState, useRef, useEffect } from 'react';
 import { useParams, Link } from 'react-router-dom';
 import { useProduct, useProducts } from '@/hooks/useProducts';
-import { formatPrice } from '@/utils/cart';
 import { useLanguage } from '@/hooks/useLanguage';
+import { useDisplayCurrency } from '@/hooks/useDisplayCurrency';
 import { useCartAnimation } from '@/hooks/useCartAnimation';
 import { ShoppingCart, Truck, Check } from 'lucide-react';
 import Header from '@/components/Header';
@@ -14,10 +14,12 @@ import { toast } from '@/hooks/use-toast';
 import { ProductVariant } from '@/types';
 import { Badge } from '@/components/ui/badge';
 import { getCategoryIcon } from '@/utils/categoryVariants';
+import ProductShareButton from '@/components/affiliate/ProductShareButton';
 
 const ProductDetail = () => {
   const { id } = useParams();
   const { t } = useLanguage();
+  const { formatDisplayPrice } = useDisplayCurrency();
   const [quantity, setQuantity] = useState(1);
   const [selectedVariant, setSelectedVariant] = useState<ProductVariant | null>(null);
   const quantityRef = useRef<HTMLDivElement>(null);
@@ -160,6 +162,8 @@ const ProductDetail = () => {
 
   const effectiveStock = getEffectiveStock();
   const effectivePrice = getEffectivePrice();
+  const displayPrice = formatDisplayPrice(effectivePrice);
+  const displayTotal = formatDisplayPrice(effectivePrice * quantity);
   const hasVariants = product.variants && product.variants.length > 0;
 
   console.log('ProductDetail render - hasVariants:', hasVariants);
@@ -205,8 +209,13 @@ const ProductDetail = () => {
                 <span>{product.category}</span>
               </Badge>
               <h1 className="text-3xl font-bold text-gray-900 mb-4">{product.name}</h1>
-              <div className="text-4xl font-bold text-primary mb-6">
-                {formatPrice(effectivePrice)}
+              <div className="mb-6">
+                <div className="text-4xl font-bold text-primary">
+                  {displayPrice.primary}
+                </div>
+                {displayPrice.secondary && (
+                  <div className="text-lg text-gray-500 mt-1">{displayPrice.secondary}</div>
+                )}
               </div>
             </div>
 
@@ -261,7 +270,12 @@ const ProductDetail = () => {
                   </div>
                   
                   <div className="text-lg font-semibold">
-                    {t('productDetail.total')} {formatPrice(effectivePrice * quantity)}
+                    {t('productDetail.total')} {displayTotal.primary}
+                    {displayTotal.secondary && (
+                      <span className="block text-sm font-normal text-gray-500">
+                        {displayTotal.secondary}
+                      </span>
+                    )}
                   </div>
                 </div>
               </div>
@@ -303,6 +317,8 @@ const ProductDetail = () => {
               </button>
             )}
 
+            <ProductShareButton product={product} price={effectivePrice} />
+
             <div className="grid grid-cols-2 gap-4 pt-6 border-t border-gray-200">
               <div className="text-center p-6 bg-white rounded-xl shadow-sm border border-gray-100 hover:shadow-md transition-shadow duration-300">
                 <div className="w-12 h-12 bg-blue-100 rounded-full flex items-center justify-center mx-auto mb-3">
@@ -336,7 +352,7 @@ const ProductDetail = () => {
                     />
                     <h3 className="font-semibold mb-2">{relatedProduct.name}</h3>
                     <div className="text-xl font-bold text-primary">
-                      {formatPrice(relatedProduct.price)}
+                      {formatDisplayPrice(relatedProduct.price).primary}
                     </div>
                   </Link>
                 </div>
@@ -11,12 +11,14 @@ import ReferralsTable from '@/components/affiliate/ReferralsTable';
 import CommissionsTable from '@/components/affiliate/CommissionsTable';
 import FollowersTable from '@/components/affiliate/FollowersTable';
 import PayoutsTable from '@/components/affiliate/PayoutsTable';
+import AffiliateStatement from '@/components/affiliate/AffiliateStatement';
 import PayoutRequestForm from '@/components/affiliate/PayoutRequestForm';
 import JoinAffiliateCard from '@/components/affiliate/JoinAffiliateCard';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 
 const ReferralContent = () => {
-  const { affiliate, loading } = useAffiliate();
+  const { affiliate, ledger, loading } = useAffiliate();
   const { t } = useLanguage();
 
   // Enhanced scroll to top when component mounts
@@ -70,6 +72,7 @@ const ReferralContent = () => {
           <TabsTrigger value="commissions">{t('affiliate.commissions')}</TabsTrigger>
           <TabsTrigger value="followers">{t('affiliate.followers')}</TabsTrigger>
           <TabsTrigger value="payouts">{t('affiliate.payouts')}</TabsTrigger>
+          <TabsTrigger value="statement">{t('affiliate.statement')}</TabsTrigger>
         </TabsList>
         
         <TabsContent value="referrals">
@@ -87,6 +90,17 @@ const ReferralContent = () => {
         <TabsContent value="payouts">
           <PayoutsTable />
         </TabsContent>
+        
+        <TabsContent value="statement">
+          <Card>
+            <CardHeader>
+              <CardTitle>{t('affiliate.statement')}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <AffiliateStatement entries={ledger} />
+            </CardContent>
+          </Card>
+        </TabsContent>
       </Tabs>
     </div>
   );
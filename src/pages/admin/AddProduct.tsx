@@ -14,6 +14,8 @@ import AdminLayout from '@/components/admin/AdminLayout';
 import ProductVariants from '@/components/admin/ProductVariants';
 import { addProduct, uploadProductImages } from '@/services/productService';
 import { getCategoriesWithVariants, getCategoryIcon } from '@/utils/categoryVariants';
+import { SHIPPING_CLASSES, SHIPPING_CLASS_LABELS } from '@/utils/shippingCalculator';
+import { ShippingClass } from '@/types';
 
 const AddProduct = () => {
   const navigate = useNavigate();
@@ -26,7 +28,9 @@ const AddProduct = () => {
     description: '',
     price: '',
     category: '',
-    stock: ''
+    stock: '',
+    weight: '',
+    shipping_class: 'normal'
   });
   const [variants, setVariants] = useState([]);
 
@@ -50,6 +54,13 @@ const AddProduct = () => {
     }
   };
 
+  const handleWeightChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = e.target.value;
+    if (value === '' || /^\d+$/.test(value)) {
+      handleInputChange('weight', value);
+    }
+  };
+
   const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = Array.from(e.target.files || []);
     
@@ -163,6 +174,8 @@ const AddProduct = () => {
         price: priceNum,
         category: formData.category,
         stock: stockNum,
+        weight: parseInt(formData.weight) || 0,
+        shipping_class: formData.shipping_class as ShippingClass,
         images: imageUrls.length > 0 ? imageUrls : ['/placeholder.svg'],
         image_url: imageUrls.length > 0 ? imageUrls[0] : '/placeholder.svg',
         variants: variants || [],
@@ -309,6 +322,44 @@ const AddProduct = () => {
                   </div>
                 </div>
 
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="weight">Berat per Unit (gram)</Label>
+                    <Input
+                      id="weight"
+                      type="text"
+                      inputMode="numeric"
+                      value={formData.weight}
+                      onChange={handleWeightChange}
+                      placeholder="0"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      Digunakan untuk menghitung ongkos kirim berdasarkan berat
+                    </p>
+                  </div>
+                  <div>
+                    <Label htmlFor="shipping_class">Jenis Pengiriman</Label>
+                    <Select
+                      value={formData.shipping_class}
+                      onValueChange={(value) => handleInputChange('shipping_class', value)}
+                    >
+                      <SelectTrigger id="shipping_class">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {SHIPPING_CLASSES.map(shippingClass => (
+                          <SelectItem key={shippingClass} value={shippingClass}>
+                            {SHIPPING_CLASS_LABELS[shippingClass]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-gray-500 mt-1">
+                      Produk dingin dan beku dikirim terpisah dengan biaya tambahan
+                    </p>
+                  </div>
+                </div>
+
                 <div className="border-t pt-6">
                   <ProductVariants
                     category={formData.category}
@@ -1,11 +1,13 @@
 
 import { useProducts } from '@/hooks/useProducts';
+import { useAdminStats } from '@/hooks/useAdminStats';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Package, TrendingUp, Users, ShoppingCart } from 'lucide-react';
 import AdminLayout from '@/components/admin/AdminLayout';
 
 const AdminDashboard = () => {
   const { data: products = [] } = useProducts();
+  const { data: adminStats } = useAdminStats();
 
   const stats = [
     {
@@ -28,7 +30,7 @@ const AdminDashboard = () => {
     },
     {
       title: 'Total Pesanan',
-      value: 0, // Will be implemented when orders are available
+      value: adminStats?.totalOrders ?? 0,
       icon: ShoppingCart,
       color: 'bg-purple-500'
     }
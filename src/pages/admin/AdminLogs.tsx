@@ -16,52 +16,125 @@ import { FileText, Search, Filter, Activity } from 'lucide-react';
 import { useAdminLogs } from '@/hooks/useAdminLogs';
 import AdminLayout from '@/components/admin/AdminLayout';
 
+const ACTION_LABELS: { [key: string]: string } = {
+  'create_product': 'Tambah Produk',
+  'add_product': 'Tambah Produk',
+  'update_product': 'Edit Produk',
+  'edit_product': 'Edit Produk',
+  'delete_product': 'Hapus Produk',
+  'export_products': 'Export Produk',
+  'import_products': 'Import Produk',
+  'restore_item': 'Pulihkan Item',
+  'update_order_status': 'Ubah Status Pesanan',
+  'confirm_order': 'Konfirmasi Pesanan',
+  'cancel_order': 'Batalkan Pesanan',
+  'update_shipment': 'Input Resi Pengiriman',
+  'verify_payment': 'Verifikasi Pembayaran',
+  'reject_payment': 'Tolak Pembayaran',
+  'import_bank_statement': 'Import Mutasi Bank',
+  'confirm_bank_transaction': 'Konfirmasi Mutasi Bank',
+  'dismiss_bank_transaction': 'Abaikan Mutasi Bank',
+  'create_shipping_rate': 'Tambah Ongkir',
+  'update_shipping_rate': 'Edit Ongkir',
+  'delete_shipping_rate': 'Hapus Ongkir',
+  'create_shipping_promotion': 'Tambah Promo Ongkir',
+  'update_shipping_promotion': 'Edit Promo Ongkir',
+  'delete_shipping_promotion': 'Hapus Promo Ongkir',
+  'create_voucher': 'Tambah Voucher',
+  'update_voucher': 'Edit Voucher',
+  'delete_voucher': 'Hapus Voucher',
+  'approve_commission': 'Setujui Komisi',
+  'reject_commission': 'Tolak Komisi',
+  'reverse_commission': 'Tarik Komisi',
+  'refund_order': 'Refund Pesanan',
+  'process_payout': 'Proses Payout',
+  'complete_payout': 'Selesaikan Payout',
+  'reject_payout': 'Tolak Payout',
+  'reconcile_affiliate_ledger': 'Rekonsiliasi Ledger Affiliate',
+  'create_payout_run': 'Buat Payout Run',
+  'complete_payout_run': 'Selesaikan Payout Run',
+  'cancel_payout_run': 'Batalkan Payout Run',
+  'update_affiliate_settings': 'Edit Pengaturan Affiliate',
+  'update_exchange_rate': 'Ubah Kurs Rupiah',
+  'update_user_role': 'Ubah Role Pengguna',
+  'claim_store_ownership': 'Klaim Owner Toko'
+};
+
+const TARGET_LABELS: { [key: string]: string } = {
+  'product': 'Produk',
+  'products': 'Produk',
+  'order': 'Pesanan',
+  'payment_proof': 'Bukti Pembayaran',
+  'bank_statement': 'Mutasi Bank',
+  'bank_transaction': 'Transaksi Bank',
+  'shipping_rate': 'Ongkir',
+  'shipping_promotion': 'Promo Ongkir',
+  'voucher': 'Voucher',
+  'affiliate': 'Affiliate',
+  'affiliate_commission': 'Komisi Affiliate',
+  'affiliate_payout': 'Payout Affiliate',
+  'affiliate_payout_run': 'Payout Run Affiliate',
+  'affiliate_settings': 'Pengaturan Affiliate',
+  'exchange_rate': 'Kurs Rupiah',
+  'user': 'Pengguna'
+};
+
+const formatChangeValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '-';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
 const AdminLogs = () => {
   const [searchTerm, setSearchTerm] = useState('');
-  const [actionFilter, setActionFilter] = useState('');
+  const [actionFilter, setActionFilter] = useState('all');
+  const [targetFilter, setTargetFilter] = useState('all');
+  const [actorFilter, setActorFilter] = useState('all');
   const { data: logs = [], isLoading } = useAdminLogs();
 
+  const actions = Array.from(new Set(logs.map(log => log.action))).sort();
+  const targetTypes = Array.from(new Set(logs.map(log => log.target_type))).sort();
+  const actors = Array.from(new Set(logs.map(log => log.admin_email || log.user_id))).sort();
+
   const filteredLogs = logs.filter(log => {
-    const matchesSearch = log.action.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         log.target_type.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         log.details?.name?.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesAction = !actionFilter || log.action === actionFilter;
-    return matchesSearch && matchesAction;
+    const term = searchTerm.toLowerCase();
+    const matchesSearch = !term ||
+                         log.action.toLowerCase().includes(term) ||
+                         getActionLabel(log.action).toLowerCase().includes(term) ||
+                         log.target_type.toLowerCase().includes(term) ||
+                         log.target_id?.toLowerCase().includes(term) ||
+                         log.admin_email?.toLowerCase().includes(term) ||
+                         String(log.details?.name || '').toLowerCase().includes(term) ||
+                         Object.keys(log.changes || {}).some(field => field.toLowerCase().includes(term));
+    const matchesAction = actionFilter === 'all' || log.action === actionFilter;
+    const matchesTarget = targetFilter === 'all' || log.target_type === targetFilter;
+    const matchesActor = actorFilter === 'all' || (log.admin_email || log.user_id) === actorFilter;
+    return matchesSearch && matchesAction && matchesTarget && matchesActor;
   });
 
-  const getActionColor = (action: string) => {
-    switch (action) {
-      case 'create_product':
-      case 'add_product':
-        return 'bg-green-100 text-green-800';
-      case 'update_product':
-      case 'edit_product':
-        return 'bg-blue-100 text-blue-800';
-      case 'delete_product':
-        return 'bg-red-100 text-red-800';
-      case 'export_products':
-      case 'import_products':
-        return 'bg-purple-100 text-purple-800';
-      case 'restore_item':
-        return 'bg-orange-100 text-orange-800';
-      default:
-        return 'bg-gray-100 text-gray-800';
+  function getActionColor(action: string) {
+    if (action.startsWith('create') || action.startsWith('add') || action.startsWith('approve') ||
+        action.startsWith('verify') || action.startsWith('confirm') || action.startsWith('complete')) {
+      return 'bg-green-100 text-green-800';
     }
-  };
+    if (action.startsWith('update') || action.startsWith('edit') || action.startsWith('process')) {
+      return 'bg-blue-100 text-blue-800';
+    }
+    if (action.startsWith('delete') || action.startsWith('reject') || action.startsWith('cancel')) {
+      return 'bg-red-100 text-red-800';
+    }
+    if (action.startsWith('export') || action.startsWith('import')) {
+      return 'bg-purple-100 text-purple-800';
+    }
+    if (action.startsWith('restore')) {
+      return 'bg-orange-100 text-orange-800';
+    }
+    return 'bg-gray-100 text-gray-800';
+  }
 
-  const getActionLabel = (action: string) => {
-    const actionLabels: { [key: string]: string } = {
-      'create_product': 'Tambah Produk',
-      'add_product': 'Tambah Produk',
-      'update_product': 'Edit Produk',
-      'edit_product': 'Edit Produk',
-      'delete_product': 'Hapus Produk',
-      'export_products': 'Export Produk',
-      'import_products': 'Import Produk',
-      'restore_item': 'Pulihkan Item'
-    };
-    return actionLabels[action] || action;
-  };
+  function getActionLabel(action: string) {
+    return ACTION_LABELS[action] || action;
+  }
 
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('id-ID', {
@@ -102,11 +175,11 @@ const AdminLogs = () => {
             </CardTitle>
             
             {/* Search and Filter */}
-            <div className="flex space-x-4 mt-4">
-              <div className="relative flex-1">
+            <div className="flex flex-wrap gap-4 mt-4">
+              <div className="relative flex-1 min-w-[240px]">
                 <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
                 <Input
-                  placeholder="Cari berdasarkan aksi atau target..."
+                  placeholder="Cari aksi, target, admin atau field..."
                   value={searchTerm}
                   onChange={(e) => setSearchTerm(e.target.value)}
                   className="pl-10"
@@ -118,13 +191,32 @@ const AdminLogs = () => {
                   <SelectValue placeholder="Filter Aksi" />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="">Semua Aksi</SelectItem>
-                  <SelectItem value="create_product">Tambah Produk</SelectItem>
-                  <SelectItem value="update_product">Edit Produk</SelectItem>
-                  <SelectItem value="delete_product">Hapus Produk</SelectItem>
-                  <SelectItem value="export_products">Export Produk</SelectItem>
-                  <SelectItem value="import_products">Import Produk</SelectItem>
-                  <SelectItem value="restore_item">Pulihkan Item</SelectItem>
+                  <SelectItem value="all">Semua Aksi</SelectItem>
+                  {actions.map(action => (
+                    <SelectItem key={action} value={action}>{getActionLabel(action)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={targetFilter} onValueChange={setTargetFilter}>
+                <SelectTrigger className="w-48">
+                  <SelectValue placeholder="Filter Target" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Semua Target</SelectItem>
+                  {targetTypes.map(targetType => (
+                    <SelectItem key={targetType} value={targetType}>{TARGET_LABELS[targetType] || targetType}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={actorFilter} onValueChange={setActorFilter}>
+                <SelectTrigger className="w-56">
+                  <SelectValue placeholder="Filter Admin" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Semua Admin</SelectItem>
+                  {actors.map(actor => (
+                    <SelectItem key={actor} value={actor}>{actor}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
@@ -142,8 +234,9 @@ const AdminLogs = () => {
                   <TableHeader>
                     <TableRow>
                       <TableHead>Aksi</TableHead>
+                      <TableHead>Admin</TableHead>
                       <TableHead>Target</TableHead>
-                      <TableHead>Detail</TableHead>
+                      <TableHead>Perubahan</TableHead>
                       <TableHead>Waktu</TableHead>
                     </TableRow>
                   </TableHeader>
@@ -155,9 +248,12 @@ const AdminLogs = () => {
                             {getActionLabel(log.action)}
                           </Badge>
                         </TableCell>
+                        <TableCell className="text-sm">
+                          {log.admin_email || log.user_id}
+                        </TableCell>
                         <TableCell>
                           <div>
-                            <div className="font-medium">{log.target_type}</div>
+                            <div className="font-medium">{TARGET_LABELS[log.target_type] || log.target_type}</div>
                             {log.target_id && (
                               <div className="text-sm text-gray-500 font-mono">
                                 ID: {log.target_id.slice(0, 8)}
@@ -175,11 +271,14 @@ const AdminLogs = () => {
                                 Jumlah: {log.details.count}
                               </div>
                             )}
-                            {log.details?.changes && (
-                              <div className="text-gray-600">
-                                Perubahan: {Object.keys(log.details.changes).join(', ')}
+                            {log.changes && Object.entries(log.changes).map(([field, change]) => (
+                              <div key={field} className="text-gray-600">
+                                <span className="font-mono text-xs">{field}</span>:{' '}
+                                <span className="line-through text-red-600 break-all">{formatChangeValue(change.before)}</span>
+                                {' → '}
+                                <span className="text-green-700 break-all">{formatChangeValue(change.after)}</span>
                               </div>
-                            )}
+                            ))}
                           </div>
                         </TableCell>
                         <TableCell className="text-sm text-gray-500">
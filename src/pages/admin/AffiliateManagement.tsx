@@ -6,7 +6,9 @@ import AffiliatesTable from '@/components/affiliate/admin/AffiliatesTable';
 import CommissionsAdminTable from '@/components/affiliate/admin/CommissionsAdminTable';
 import AffiliateMonthlyChart from '@/components/affiliate/admin/AffiliateMonthlyChart';
 import PayoutsAdminTable from '@/components/affiliate/admin/PayoutsAdminTable';
+import PayoutRunPanel from '@/components/affiliate/admin/PayoutRunPanel';
 import AffiliateSettingsForm from '@/components/affiliate/admin/AffiliateSettingsForm';
+import LedgerReconciliation from '@/components/affiliate/admin/LedgerReconciliation';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 
 const AffiliateManagementContent = () => {
@@ -53,6 +55,7 @@ const AffiliateManagementContent = () => {
           <TabsTrigger value="affiliates">Daftar Affiliate</TabsTrigger>
           <TabsTrigger value="commissions">Komisi</TabsTrigger>
           <TabsTrigger value="payouts">Pencairan</TabsTrigger>
+          <TabsTrigger value="reconciliation">Rekonsiliasi</TabsTrigger>
           <TabsTrigger value="settings">Pengaturan</TabsTrigger>
         </TabsList>
         
@@ -65,9 +68,14 @@ const AffiliateManagementContent = () => {
         </TabsContent>
         
         <TabsContent value="payouts">
+          <PayoutRunPanel />
           <PayoutsAdminTable />
         </TabsContent>
         
+        <TabsContent value="reconciliation">
+          <LedgerReconciliation />
+        </TabsContent>
+        
         <TabsContent value="settings">
           <AffiliateSettingsForm />
         </TabsContent>
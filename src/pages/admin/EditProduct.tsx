@@ -15,6 +15,8 @@ import { useQueryClient } from '@tanstack/react-query';
 import ProductVariants from '@/components/admin/ProductVariants';
 import { updateProduct, uploadProductImages } from '@/services/productService';
 import { getCategoriesWithVariants, getCategoryIcon } from '@/utils/categoryVariants';
+import { SHIPPING_CLASSES, SHIPPING_CLASS_LABELS } from '@/utils/shippingCalculator';
+import { ShippingClass } from '@/types';
 
 const EditProduct = () => {
   const { id } = useParams<{ id: string }>();
@@ -30,7 +32,9 @@ const EditProduct = () => {
     description: '',
     price: '',
     category: '',
-    stock: ''
+    stock: '',
+    weight: '',
+    shipping_class: 'normal'
   });
   const [variants, setVariants] = useState([]);
 
@@ -43,7 +47,9 @@ const EditProduct = () => {
         description: product.description || '',
         price: product.price.toString(),
         category: product.category,
-        stock: product.stock?.toString() || '0'
+        stock: product.stock?.toString() || '0',
+        weight: product.weight?.toString() || '',
+        shipping_class: product.shipping_class || 'normal'
       });
       setExistingImages(Array.isArray(product.images) ? product.images : [product.image_url].filter(Boolean));
       setVariants(product.variants || []);
@@ -68,6 +74,13 @@ const EditProduct = () => {
     }
   };
 
+  const handleWeightChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = e.target.value;
+    if (value === '' || /^\d+$/.test(value)) {
+      handleInputChange('weight', value);
+    }
+  };
+
   const handleNewImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = Array.from(e.target.files || []);
     
@@ -177,6 +190,8 @@ const EditProduct = () => {
         price: priceNum,
         category: formData.category,
         stock: stockNum,
+        weight: parseInt(formData.weight) || 0,
+        shipping_class: formData.shipping_class as ShippingClass,
         images: allImages.length > 0 ? allImages : ['/placeholder.svg'],
         variants: variants,
         updated_at: new Date().toISOString()
@@ -350,6 +365,44 @@ const EditProduct = () => {
                   </div>
                 </div>
 
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="weight">Berat per Unit (gram)</Label>
+                    <Input
+                      id="weight"
+                      type="text"
+                      inputMode="numeric"
+                      value={formData.weight}
+                      onChange={handleWeightChange}
+                      placeholder="0"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      Digunakan untuk menghitung ongkos kirim berdasarkan berat
+                    </p>
+                  </div>
+                  <div>
+                    <Label htmlFor="shipping_class">Jenis Pengiriman</Label>
+                    <Select
+                      value={formData.shipping_class}
+                      onValueChange={(value) => handleInputChange('shipping_class', value)}
+                    >
+                      <SelectTrigger id="shipping_class">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {SHIPPING_CLASSES.map(shippingClass => (
+                          <SelectItem key={shippingClass} value={shippingClass}>
+                            {SHIPPING_CLASS_LABELS[shippingClass]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-gray-500 mt-1">
+                      Produk dingin dan beku dikirim terpisah dengan biaya tambahan
+                    </p>
+                  </div>
+                </div>
+
                 <div className="border-t pt-6">
                   <ProductVariants
                     category={formData.category}
@@ -1,7 +1,9 @@
-import { useAdminStats } from '@/hooks/useAdminStats';
+import { useAdminStats, useRebuildAdminStats } from '@/hooks/useAdminStats';
 import { useAdminLogs } from '@/hooks/useAdminLogs';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { RefreshCw } from 'lucide-react';
 import DashboardStatsCards from '@/components/admin/DashboardStatsCards';
 import AdminLayout from '@/components/admin/AdminLayout';
 import SeedDataButton from '@/components/admin/SeedDataButton';
@@ -9,6 +11,7 @@ import SeedDataButton from '@/components/admin/SeedDataButton';
 const EnhancedAdminDashboard = () => {
   const { data: stats, isLoading: statsLoading } = useAdminStats();
   const { data: logs = [], isLoading: logsLoading } = useAdminLogs();
+  const rebuildStats = useRebuildAdminStats();
 
   if (statsLoading) {
     return (
@@ -38,7 +41,17 @@ const EnhancedAdminDashboard = () => {
             <h1 className="text-3xl font-bold text-gray-900">Dashboard Admin Injapan Food</h1>
             <p className="text-gray-600">Selamat datang di panel admin yang telah ditingkatkan</p>
           </div>
-          <SeedDataButton />
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              onClick={() => rebuildStats.mutate()}
+              disabled={rebuildStats.isPending}
+            >
+              <RefreshCw className={`w-4 h-4 mr-2 ${rebuildStats.isPending ? 'animate-spin' : ''}`} />
+              Hitung Ulang Statistik
+            </Button>
+            <SeedDataButton />
+          </div>
         </div>
 
         <DashboardStatsCards stats={stats} />
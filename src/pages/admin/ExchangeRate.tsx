@@ -0,0 +1,274 @@
+import { useEffect, useState } from 'react';
+import { useExchangeRateHistory, useExchangeRateSettings, useUpdateExchangeRateSettings } from '@/hooks/useExchangeRate';
+import { fetchReferenceRate } from '@/services/exchangeRateService';
+import { toast } from '@/hooks/use-toast';
+import AdminLayout from '@/components/admin/AdminLayout';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Banknote, History, RefreshCw } from 'lucide-react';
+import { ExchangeRateMode, ExchangeRateProvider } from '@/types';
+import {
+  EXCHANGE_RATE_MODE_LABELS,
+  FALLBACK_EXCHANGE_RATE,
+  calculateStoreRate,
+  formatRupiah
+} from '@/utils/currencyUtils';
+
+interface ReferenceRate {
+  rate: number;
+  provider: ExchangeRateProvider;
+  fetched_at: string;
+}
+
+const formatRate = (rate: number) =>
+  `Rp ${rate.toLocaleString('id-ID', { maximumFractionDigits: 2 })}`;
+
+const formatDateTime = (dateString: string) => new Date(dateString).toLocaleString('id-ID');
+
+const ExchangeRate = () => {
+  const { data: settings, isLoading } = useExchangeRateSettings();
+  const { data: history = [] } = useExchangeRateHistory();
+  const updateSettings = useUpdateExchangeRateSettings();
+
+  const [mode, setMode] = useState<ExchangeRateMode>('markup');
+  const [manualRate, setManualRate] = useState('');
+  const [markupPercent, setMarkupPercent] = useState('0');
+  const [reference, setReference] = useState<ReferenceRate | null>(null);
+  const [isFetchingReference, setIsFetchingReference] = useState(false);
+
+  useEffect(() => {
+    if (!settings) return;
+    setMode(settings.mode);
+    setManualRate(String(settings.manual_rate || ''));
+    setMarkupPercent(String(settings.markup_percent));
+    setReference(settings.reference_rate && settings.reference_provider && settings.reference_fetched_at
+      ? { rate: settings.reference_rate, provider: settings.reference_provider, fetched_at: settings.reference_fetched_at }
+      : null);
+  }, [settings]);
+
+  const previewRate = calculateStoreRate({
+    mode,
+    manual_rate: parseFloat(manualRate) || 0,
+    markup_percent: parseFloat(markupPercent) || 0,
+    reference_rate: reference?.rate ?? null
+  });
+
+  const handleFetchReference = async () => {
+    setIsFetchingReference(true);
+    try {
+      setReference(await fetchReferenceRate());
+    } catch (error) {
+      console.error('Error fetching reference rate:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Gagal mengambil kurs referensi",
+        variant: "destructive",
+      });
+    } finally {
+      setIsFetchingReference(false);
+    }
+  };
+
+  const handleSave = async () => {
+    try {
+      const saved = await updateSettings.mutateAsync({
+        mode,
+        manual_rate: parseFloat(manualRate) || 0,
+        markup_percent: parseFloat(markupPercent) || 0,
+        reference_rate: reference?.rate ?? null,
+        reference_provider: reference?.provider ?? null,
+        reference_fetched_at: reference?.fetched_at ?? null
+      });
+      toast({
+        title: "Kurs Disimpan",
+        description: `Pelanggan sekarang melihat kurs 1 JPY = ${formatRate(saved.rate)}`,
+      });
+    } catch (error) {
+      console.error('Error saving exchange rate:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Gagal menyimpan kurs",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <AdminLayout>
+      <div className="p-8">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900">Kurs Rupiah</h1>
+          <p className="text-gray-600">Kurs JPY → IDR yang dipakai semua pelanggan saat membayar dalam rupiah</p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <Banknote className="w-5 h-5 mr-2" />
+                Kurs Saat Ini
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <p className="text-sm text-gray-500">Memuat...</p>
+              ) : settings ? (
+                <div className="space-y-1">
+                  <p className="text-3xl font-bold text-primary">1 JPY = {formatRate(settings.rate)}</p>
+                  <p className="text-sm text-gray-600">{EXCHANGE_RATE_MODE_LABELS[settings.mode]}</p>
+                  <p className="text-xs text-gray-500">Diperbarui {formatDateTime(settings.updated_at)}</p>
+                </div>
+              ) : (
+                <p className="text-sm text-yellow-700">
+                  Kurs toko belum diatur. Pelanggan melihat kurs cadangan 1 JPY = {formatRate(FALLBACK_EXCHANGE_RATE)}.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Atur Kurs</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label>Metode</Label>
+                <Select value={mode} onValueChange={(value) => setMode(value as ExchangeRateMode)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(EXCHANGE_RATE_MODE_LABELS) as ExchangeRateMode[]).map(option => (
+                      <SelectItem key={option} value={option}>{EXCHANGE_RATE_MODE_LABELS[option]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {mode === 'manual' ? (
+                <div className="space-y-2">
+                  <Label htmlFor="manual-rate">Kurs (IDR per 1 JPY)</Label>
+                  <Input
+                    id="manual-rate"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={manualRate}
+                    onChange={(e) => setManualRate(e.target.value)}
+                  />
+                </div>
+              ) : (
+                <>
+                  <div className="flex items-end justify-between gap-2">
+                    <div>
+                      <Label>Kurs Referensi</Label>
+                      {reference ? (
+                        <>
+                          <p className="font-medium">{formatRate(reference.rate)}</p>
+                          <p className="text-xs text-gray-500">
+                            {reference.provider} · {formatDateTime(reference.fetched_at)}
+                          </p>
+                        </>
+                      ) : (
+                        <p className="text-sm text-gray-500">Belum diambil</p>
+                      )}
+                    </div>
+                    <Button variant="outline" size="sm" onClick={handleFetchReference} disabled={isFetchingReference}>
+                      <RefreshCw className={`w-4 h-4 mr-1 ${isFetchingReference ? 'animate-spin' : ''}`} />
+                      Ambil Kurs Referensi
+                    </Button>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="markup-percent">Markup (%)</Label>
+                    <Input
+                      id="markup-percent"
+                      type="number"
+                      step="0.1"
+                      value={markupPercent}
+                      onChange={(e) => setMarkupPercent(e.target.value)}
+                    />
+                  </div>
+                </>
+              )}
+
+              <div className="bg-gray-50 p-3 rounded-lg text-sm">
+                {previewRate ? (
+                  <>
+                    <p>Kurs baru: <span className="font-semibold">1 JPY = {formatRate(previewRate)}</span></p>
+                    <p className="text-gray-600">Contoh: ¥1.000 = {formatRupiah(1000 * previewRate)}</p>
+                  </>
+                ) : (
+                  <p className="text-gray-500">Lengkapi kurs untuk melihat pratinjau</p>
+                )}
+              </div>
+
+              <Button onClick={handleSave} disabled={!previewRate || updateSettings.isPending} className="w-full">
+                {updateSettings.isPending ? 'Menyimpan...' : 'Simpan Kurs'}
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <History className="w-5 h-5 mr-2" />
+              Riwayat Perubahan Kurs
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {history.length === 0 ? (
+              <p className="text-sm text-gray-500">Belum ada perubahan kurs</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Waktu</TableHead>
+                    <TableHead>Metode</TableHead>
+                    <TableHead className="text-right">Referensi</TableHead>
+                    <TableHead className="text-right">Markup</TableHead>
+                    <TableHead className="text-right">Kurs Lama</TableHead>
+                    <TableHead className="text-right">Kurs Baru</TableHead>
+                    <TableHead>Oleh</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {history.map(entry => (
+                    <TableRow key={entry.id}>
+                      <TableCell>{formatDateTime(entry.changed_at)}</TableCell>
+                      <TableCell>{EXCHANGE_RATE_MODE_LABELS[entry.mode]}</TableCell>
+                      <TableCell className="text-right">
+                        {entry.mode === 'markup' && entry.reference_rate ? formatRate(entry.reference_rate) : '-'}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {entry.mode === 'markup' ? `${entry.markup_percent}%` : '-'}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {entry.previous_rate ? formatRate(entry.previous_rate) : '-'}
+                      </TableCell>
+                      <TableCell className="text-right font-medium">{formatRate(entry.rate)}</TableCell>
+                      <TableCell>{entry.changed_by_email || '-'}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </AdminLayout>
+  );
+};
+
+export default ExchangeRate;
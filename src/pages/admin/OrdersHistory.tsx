@@ -6,7 +6,7 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { toast } from '@/hooks/use-toast';
-import { Search, Eye, CheckCircle, XCircle, Clock, Package, FileText, RefreshCw } from 'lucide-react';
+import { Search, Eye, CheckCircle, XCircle, Clock, Package, FileText, RefreshCw, Truck, Home, Undo2 } from 'lucide-react';
 import AdminLayout from '@/components/admin/AdminLayout';
 import InvoiceModal from '@/components/InvoiceModal';
 import { Order } from '@/types';
@@ -14,6 +14,12 @@ import { updateOrderStatus } from '@/services/orderService';
 import { useQueryClient } from '@tanstack/react-query';
 import ErrorState from '@/components/ErrorState';
 import EmptyState from '@/components/EmptyState';
+import OrderStatusTimeline from '@/components/OrderStatusTimeline';
+import ShipmentTrackingInfo from '@/components/ShipmentTrackingInfo';
+import ShipmentDialog from '@/components/admin/ShipmentDialog';
+import RefundDialog from '@/components/admin/RefundDialog';
+import ShipmentCsvImport from '@/components/admin/ShipmentCsvImport';
+import { ORDER_STATUSES, getNextOrderStatuses } from '@/utils/orderStatus';
 
 const OrdersHistory = () => {
   const { data: orders = [], isLoading, error } = useOrders();
@@ -22,6 +28,8 @@ const OrdersHistory = () => {
   const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
   const [showInvoice, setShowInvoice] = useState(false);
   const [invoiceOrder, setInvoiceOrder] = useState<Order | null>(null);
+  const [shipmentOrder, setShipmentOrder] = useState<Order | null>(null);
+  const [refundOrder, setRefundOrder] = useState<Order | null>(null);
   const queryClient = useQueryClient();
 
   // Add manual refresh function instead of relying on automatic refetching
@@ -34,6 +42,7 @@ const OrdersHistory = () => {
       order.customer_info?.name?.toLowerCase().includes(searchTerm.toLowerCase()) ||
       order.customer_info?.email?.toLowerCase().includes(searchTerm.toLowerCase()) ||
       order.id.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      (order.shipment && order.shipment.tracking_number.toLowerCase().includes(searchTerm.toLowerCase())) ||
       (order.affiliate_id && order.affiliate_id.toLowerCase().includes(searchTerm.toLowerCase()));
     
     const matchesStatus = statusFilter === 'all' || order.status === statusFilter;
@@ -41,16 +50,22 @@ const OrdersHistory = () => {
     return matchesSearch && matchesStatus;
   });
 
-  const getStatusBadge = (status: string) => {
+  const getStatusConfig = (status: string) => {
     const config = {
       pending: { color: 'bg-yellow-100 text-yellow-800', icon: Clock, label: 'Pending' },
       confirmed: { color: 'bg-blue-100 text-blue-800', icon: CheckCircle, label: 'Confirmed' },
       processing: { color: 'bg-purple-100 text-purple-800', icon: Package, label: 'Processing' },
+      shipped: { color: 'bg-indigo-100 text-indigo-800', icon: Truck, label: 'Shipped' },
+      delivered: { color: 'bg-teal-100 text-teal-800', icon: Home, label: 'Delivered' },
       completed: { color: 'bg-green-100 text-green-800', icon: CheckCircle, label: 'Completed' },
       cancelled: { color: 'bg-red-100 text-red-800', icon: XCircle, label: 'Cancelled' },
     };
 
-    const { color, icon: Icon, label } = config[status as keyof typeof config] || config.pending;
+    return config[status as keyof typeof config] || config.pending;
+  };
+
+  const getStatusBadge = (status: string) => {
+    const { color, icon: Icon, label } = getStatusConfig(status);
 
     return (
       <Badge className={`${color} flex items-center space-x-1`}>
@@ -73,7 +88,7 @@ const OrdersHistory = () => {
       console.error('Error updating order status:', error);
       toast({
         title: "Error",
-        description: "Gagal mengubah status order",
+        description: error instanceof Error ? error.message : "Gagal mengubah status order",
         variant: "destructive",
       });
     }
@@ -124,10 +139,13 @@ const OrdersHistory = () => {
             <p className="text-gray-600">Kelola dan monitor semua pesanan dengan invoice otomatis</p>
           </div>
           
-          <Button onClick={handleRefresh} variant="outline" size="sm">
-            <RefreshCw className="w-4 h-4 mr-2" />
-            Refresh Data
-          </Button>
+          <div className="flex items-center gap-2">
+            <ShipmentCsvImport orders={orders} />
+            <Button onClick={handleRefresh} variant="outline" size="sm">
+              <RefreshCw className="w-4 h-4 mr-2" />
+              Refresh Data
+            </Button>
+          </div>
         </div>
 
         {/* Filters */}
@@ -136,7 +154,7 @@ const OrdersHistory = () => {
             <div className="relative">
               <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
               <Input
-                placeholder="Cari berdasarkan nama, email, ID pesanan, atau kode referral..."
+                placeholder="Cari berdasarkan nama, email, ID pesanan, nomor resi, atau kode referral..."
                 value={searchTerm}
                 onChange={(e) => setSearchTerm(e.target.value)}
                 className="pl-10"
@@ -150,11 +168,9 @@ const OrdersHistory = () => {
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="all">Semua Status</SelectItem>
-                <SelectItem value="pending">Pending</SelectItem>
-                <SelectItem value="confirmed">Confirmed</SelectItem>
-                <SelectItem value="processing">Processing</SelectItem>
-                <SelectItem value="completed">Completed</SelectItem>
-                <SelectItem value="cancelled">Cancelled</SelectItem>
+                {ORDER_STATUSES.map(status => (
+                  <SelectItem key={status} value={status}>{getStatusConfig(status).label}</SelectItem>
+                ))}
               </SelectContent>
             </Select>
           </div>
@@ -231,21 +247,28 @@ const OrdersHistory = () => {
                       </p>
                     </div>
 
+                    {/* Shipment */}
+                    {order.shipment && (
+                      <div className="bg-indigo-50 p-3 rounded">
+                        <ShipmentTrackingInfo shipment={order.shipment} />
+                      </div>
+                    )}
+
                     {/* Actions */}
                     <div className="flex space-x-2 pt-4 border-t">
                       <Select
                         value={order.status}
                         onValueChange={(newStatus) => handleStatusChange(order.id, newStatus)}
+                        disabled={getNextOrderStatuses(order.status).length === 0}
                       >
                         <SelectTrigger className="w-48">
                           <SelectValue />
                         </SelectTrigger>
                         <SelectContent>
-                          <SelectItem value="pending">Pending</SelectItem>
-                          <SelectItem value="confirmed">Confirmed</SelectItem>
-                          <SelectItem value="processing">Processing</SelectItem>
-                          <SelectItem value="completed">Completed</SelectItem>
-                          <SelectItem value="cancelled">Cancelled</SelectItem>
+                          {/* Only the current status and its allowed next steps */}
+                          {[order.status, ...getNextOrderStatuses(order.status)].map(status => (
+                            <SelectItem key={status} value={status}>{getStatusConfig(status).label}</SelectItem>
+                          ))}
                         </SelectContent>
                       </Select>
                       
@@ -258,6 +281,17 @@ const OrdersHistory = () => {
                         Detail
                       </Button>
 
+                      {['processing', 'shipped', 'delivered', 'completed'].includes(order.status) && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setShipmentOrder(order)}
+                        >
+                          <Truck className="w-4 h-4 mr-2" />
+                          {order.shipment ? 'Ubah Resi' : 'Input Resi'}
+                        </Button>
+                      )}
+
                       <Button
                         variant="outline"
                         size="sm"
@@ -337,6 +371,37 @@ const OrdersHistory = () => {
                   </div>
                 </div>
 
+                {selectedOrder.refunds && selectedOrder.refunds.length > 0 && (
+                  <div>
+                    <h4 className="font-medium mb-2">Refund:</h4>
+                    <div className="space-y-2">
+                      {selectedOrder.refunds.map(refund => (
+                        <div key={refund.id} className="flex justify-between items-start p-2 bg-red-50 rounded text-sm">
+                          <div>
+                            <p>{refund.reason}</p>
+                            <p className="text-xs text-gray-500">{new Date(refund.created_at).toLocaleString('id-ID')}</p>
+                          </div>
+                          <p className="font-medium text-red-700">-{formatPrice(refund.amount)}</p>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {selectedOrder.shipment && (
+                  <div>
+                    <h4 className="font-medium mb-2">Pengiriman:</h4>
+                    <div className="bg-indigo-50 p-3 rounded">
+                      <ShipmentTrackingInfo shipment={selectedOrder.shipment} />
+                    </div>
+                  </div>
+                )}
+
+                <div>
+                  <h4 className="font-medium mb-2">Riwayat Status:</h4>
+                  <OrderStatusTimeline order={selectedOrder} />
+                </div>
+
                 <div className="flex space-x-2">
                   <Button
                     onClick={() => handleShowInvoice(selectedOrder)}
@@ -345,12 +410,30 @@ const OrdersHistory = () => {
                     <FileText className="w-4 h-4 mr-2" />
                     Lihat Invoice
                   </Button>
+                  {selectedOrder.payment_status === 'verified' &&
+                    (selectedOrder.refunded_amount || 0) < selectedOrder.total_price && (
+                    <Button
+                      variant="outline"
+                      onClick={() => setRefundOrder(selectedOrder)}
+                      className="text-red-700 border-red-200 hover:bg-red-50"
+                    >
+                      <Undo2 className="w-4 h-4 mr-2" />
+                      Refund
+                    </Button>
+                  )}
                 </div>
               </CardContent>
             </Card>
           </div>
         )}
 
+        <ShipmentDialog order={shipmentOrder} onClose={() => setShipmentOrder(null)} />
+        <RefundDialog
+          order={refundOrder}
+          onClose={() => setRefundOrder(null)}
+          onRefunded={() => setSelectedOrder(null)}
+        />
+
         {/* Invoice Modal */}
         {showInvoice && invoiceOrder && (
           <InvoiceModal
@@ -10,14 +10,21 @@ import AdminLayout from '@/components/admin/AdminLayout';
 import InvoiceModal from '@/components/InvoiceModal';
 import { Order } from '@/types';
 import { updateOrderStatus } from '@/services/orderService';
+import { rejectPaymentProof } from '@/services/paymentService';
 import { useQueryClient } from '@tanstack/react-query';
 import ErrorState from '@/components/ErrorState';
 import EmptyState from '@/components/EmptyState';
 import { useOrders } from '@/hooks/useOrders';
+import { usePaymentProofs } from '@/hooks/usePaymentProofs';
+import { getOrderPaymentProofs } from '@/utils/paymentUtils';
+import { formatRupiah, isExchangeRateExpired } from '@/utils/currencyUtils';
+import PaymentProofGallery from '@/components/admin/PaymentProofGallery';
+import BankStatementReconciliation from '@/components/admin/BankStatementReconciliation';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
 
 const PaymentVerification = () => {
   const { data: orders = [], isLoading, error } = useOrders();
+  const { data: paymentProofs = [] } = usePaymentProofs();
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState('pending');
   const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
@@ -43,6 +50,10 @@ const PaymentVerification = () => {
     return matchesSearch && matchesStatus;
   });
 
+  // Orders with an open proof are verified from the proof itself
+  const hasPendingProof = (order: Order) =>
+    getOrderPaymentProofs(order, paymentProofs).some(proof => proof.status === 'pending');
+
   const getStatusBadge = (status: string) => {
     const config = {
       pending: { color: 'bg-yellow-100 text-yellow-800', icon: Clock, label: 'Menunggu Verifikasi' },
@@ -89,9 +100,14 @@ const PaymentVerification = () => {
     }
   };
 
-  const handleRejectPayment = async (orderId: string) => {
+  const handleRejectPayment = async (order: Order) => {
     try {
-      await updateOrderStatus(orderId, 'cancelled', 'rejected');
+      // Open proofs are closed with the order so their history stays complete
+      for (const proof of getOrderPaymentProofs(order, paymentProofs).filter(proof => proof.status === 'pending')) {
+        await rejectPaymentProof(proof, 'Pesanan dibatalkan');
+      }
+      await updateOrderStatus(order.id, 'cancelled', 'rejected');
+      await queryClient.invalidateQueries({ queryKey: ['payment-proofs'] });
       await queryClient.invalidateQueries({ queryKey: ['orders'] });
       
       toast({
@@ -157,6 +173,8 @@ const PaymentVerification = () => {
           <p className="text-gray-600">Verifikasi bukti pembayaran dari pelanggan</p>
         </div>
 
+        <BankStatementReconciliation orders={orders} proofs={paymentProofs} />
+
         {/* Filters */}
         <div className="mb-6 flex flex-col sm:flex-row gap-4">
           <div className="flex-1">
@@ -215,6 +233,14 @@ const PaymentVerification = () => {
                       <p className="text-lg font-bold mt-2">
                         {formatPrice(order.total_price)}
                       </p>
+                      {order.exchange_rate && (
+                        <p className="text-sm text-gray-600">
+                          {formatRupiah(order.exchange_rate.total_rupiah)}
+                          {order.payment_status !== 'verified' && isExchangeRateExpired(order.exchange_rate) && (
+                            <span className="block text-xs text-red-600">Kurs kedaluwarsa</span>
+                          )}
+                        </p>
+                      )}
                     </div>
                   </div>
                 </CardHeader>
@@ -228,29 +254,10 @@ const PaymentVerification = () => {
                           {getPaymentMethodIcon(order.customer_info?.payment_method || '')}
                           <p className="text-sm"><strong>Metode:</strong> {order.customer_info?.payment_method || 'Tidak ada informasi'}</p>
                         </div>
-                        {order.payment_proof_url ? (
-                          <div className="mt-2">
-                            <p className="text-sm font-medium text-gray-700 mb-2">Bukti Pembayaran:</p>
-                            <div className="flex items-center space-x-2">
-                              <img 
-                                src={order.payment_proof_url} 
-                                alt="Bukti Pembayaran" 
-                                className="w-16 h-16 object-cover rounded-md cursor-pointer border border-gray-200"
-                                onClick={() => handleShowPaymentProof(order.payment_proof_url || '')}
-                              />
-                              <Button 
-                                variant="outline" 
-                                size="sm"
-                                onClick={() => handleShowPaymentProof(order.payment_proof_url || '')}
-                              >
-                                <Eye className="w-4 h-4 mr-2" />
-                                Lihat Bukti
-                              </Button>
-                            </div>
-                          </div>
-                        ) : (
-                          <p className="text-sm text-yellow-600 mt-2">Belum ada bukti pembayaran</p>
-                        )}
+                        <PaymentProofGallery
+                          proofs={getOrderPaymentProofs(order, paymentProofs)}
+                          onView={handleShowPaymentProof}
+                        />
                       </div>
                     </div>
 
@@ -274,66 +281,66 @@ const PaymentVerification = () => {
 
                     {/* Actions */}
                     <div className="flex space-x-2 pt-4 border-t">
-                      {order.payment_status === 'pending' && (
-                        <>
-                          <AlertDialog>
-                            <AlertDialogTrigger asChild>
-                              <Button
-                                className="bg-green-600 hover:bg-green-700 text-white"
-                                size="sm"
+                      {order.payment_status === 'pending' && !hasPendingProof(order) && (
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button
+                              className="bg-green-600 hover:bg-green-700 text-white"
+                              size="sm"
+                            >
+                              <CheckCircle className="w-4 h-4 mr-2" />
+                              Verifikasi
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Konfirmasi Verifikasi</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                Apakah Anda yakin ingin memverifikasi pembayaran ini? Status pesanan akan berubah menjadi "Dikonfirmasi".
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Batal</AlertDialogCancel>
+                              <AlertDialogAction
+                                onClick={() => handleVerifyPayment(order.id)}
+                                className="bg-green-600 hover:bg-green-700"
                               >
-                                <CheckCircle className="w-4 h-4 mr-2" />
                                 Verifikasi
-                              </Button>
-                            </AlertDialogTrigger>
-                            <AlertDialogContent>
-                              <AlertDialogHeader>
-                                <AlertDialogTitle>Konfirmasi Verifikasi</AlertDialogTitle>
-                                <AlertDialogDescription>
-                                  Apakah Anda yakin ingin memverifikasi pembayaran ini? Status pesanan akan berubah menjadi "Dikonfirmasi".
-                                </AlertDialogDescription>
-                              </AlertDialogHeader>
-                              <AlertDialogFooter>
-                                <AlertDialogCancel>Batal</AlertDialogCancel>
-                                <AlertDialogAction
-                                  onClick={() => handleVerifyPayment(order.id)}
-                                  className="bg-green-600 hover:bg-green-700"
-                                >
-                                  Verifikasi
-                                </AlertDialogAction>
-                              </AlertDialogFooter>
-                            </AlertDialogContent>
-                          </AlertDialog>
+                              </AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      )}
 
-                          <AlertDialog>
-                            <AlertDialogTrigger asChild>
-                              <Button
-                                variant="destructive"
-                                size="sm"
+                      {order.status === 'pending' && order.payment_status !== 'verified' && (
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button
+                              variant="destructive"
+                              size="sm"
+                            >
+                              <XCircle className="w-4 h-4 mr-2" />
+                              Tolak
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Konfirmasi Penolakan</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                Apakah Anda yakin ingin menolak pembayaran ini? Status pesanan akan berubah menjadi "Dibatalkan".
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Batal</AlertDialogCancel>
+                              <AlertDialogAction
+                                onClick={() => handleRejectPayment(order)}
+                                className="bg-red-600 hover:bg-red-700"
                               >
-                                <XCircle className="w-4 h-4 mr-2" />
-                                Tolak
-                              </Button>
-                            </AlertDialogTrigger>
-                            <AlertDialogContent>
-                              <AlertDialogHeader>
-                                <AlertDialogTitle>Konfirmasi Penolakan</AlertDialogTitle>
-                                <AlertDialogDescription>
-                                  Apakah Anda yakin ingin menolak pembayaran ini? Status pesanan akan berubah menjadi "Dibatalkan".
-                                </AlertDialogDescription>
-                              </AlertDialogHeader>
-                              <AlertDialogFooter>
-                                <AlertDialogCancel>Batal</AlertDialogCancel>
-                                <AlertDialogAction
-                                  onClick={() => handleRejectPayment(order.id)}
-                                  className="bg-red-600 hover:bg-red-700"
-                                >
-                                  Tolak Pembayaran
-                                </AlertDialogAction>
-                              </AlertDialogFooter>
-                            </AlertDialogContent>
-                          </AlertDialog>
-                        </>
+                                Tolak Pembayaran
+                              </AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
                       )}
                       
                       <Button
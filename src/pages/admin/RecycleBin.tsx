@@ -14,7 +14,6 @@ import {
 } from '@/components/ui/table';
 import { Trash2, RotateCcw, AlertTriangle, Package } from 'lucide-react';
 import { useRecycleBin, useRestoreFromRecycleBin } from '@/hooks/useRecycleBin';
-import { useLogAdminAction } from '@/hooks/useAdminLogs';
 import { toast } from '@/hooks/use-toast';
 import { RecycleBinItem } from '@/types';
 import AdminLayout from '@/components/admin/AdminLayout';
@@ -22,17 +21,10 @@ import AdminLayout from '@/components/admin/AdminLayout';
 const RecycleBin = () => {
   const { data: recycleBinItems = [], isLoading, refetch } = useRecycleBin();
   const restoreItem = useRestoreFromRecycleBin();
-  const logAction = useLogAdminAction();
 
   const handleRestore = async (item: RecycleBinItem) => {
     try {
       await restoreItem.mutateAsync(item);
-      logAction.mutate({
-        action: 'restore_item',
-        target_type: item.original_table,
-        target_id: item.original_id,
-        details: { name: item.data.name }
-      });
       toast({
         title: "Item dipulihkan!",
         description: `${item.data.name} berhasil dipulihkan`,
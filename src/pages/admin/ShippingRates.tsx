@@ -3,6 +3,7 @@ import { useShippingRates, useAddShippingRate, useUpdateShippingRate, useDeleteS
 import { prefectures } from '@/data/prefectures';
 import { toast } from '@/hooks/use-toast';
 import AdminLayout from '@/components/admin/AdminLayout';
+import ShippingPromotionsManager from '@/components/admin/ShippingPromotionsManager';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -34,8 +35,9 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from '@/components/ui/alert-dialog';
-import { Truck, Edit, Trash2, Search, RefreshCw } from 'lucide-react';
-import { ShippingRate } from '@/types';
+import { Truck, Edit, Trash2, Search, RefreshCw, Plus, X } from 'lucide-react';
+import { ShippingRate, ShippingWeightTier } from '@/types';
+import { formatWeight } from '@/utils/shippingCalculator';
 import { collection, getDocs, setDoc, doc } from 'firebase/firestore';
 import { db } from '@/config/firebase';
 
@@ -51,8 +53,11 @@ const ShippingRates = () => {
   
   const [formData, setFormData] = useState({
     price: '',
-    delivery_time: ''
+    delivery_time: '',
+    cool_surcharge: '',
+    frozen_surcharge: ''
   });
+  const [tiers, setTiers] = useState<{ max_weight: string; price: string }[]>([]);
 
   // Filter rates based on search term
   const filteredRates = shippingRates.filter(rate => {
@@ -136,6 +141,19 @@ const ShippingRates = () => {
     setFormData(prev => ({ ...prev, [field]: value }));
   };
 
+  const handleTierChange = (index: number, field: 'max_weight' | 'price', value: string) => {
+    if (value !== '' && !/^\d+$/.test(value)) return;
+    setTiers(prev => prev.map((tier, i) => i === index ? { ...tier, [field]: value } : tier));
+  };
+
+  const addTier = () => {
+    setTiers(prev => [...prev, { max_weight: '', price: '' }]);
+  };
+
+  const removeTier = (index: number) => {
+    setTiers(prev => prev.filter((_, i) => i !== index));
+  };
+
   const handleEditSubmit = async () => {
     if (!selectedRate || !formData.price || !formData.delivery_time) {
       toast({
@@ -156,12 +174,40 @@ const ShippingRates = () => {
       return;
     }
 
+    const weightTiers: ShippingWeightTier[] = tiers
+      .filter(tier => tier.max_weight !== '' || tier.price !== '')
+      .map(tier => ({
+        max_weight: parseInt(tier.max_weight),
+        price: parseInt(tier.price)
+      }));
+
+    if (weightTiers.some(tier => isNaN(tier.max_weight) || tier.max_weight <= 0 || isNaN(tier.price))) {
+      toast({
+        title: "Error",
+        description: "Setiap tier berat harus memiliki berat maksimal dan ongkir",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (new Set(weightTiers.map(tier => tier.max_weight)).size !== weightTiers.length) {
+      toast({
+        title: "Error",
+        description: "Berat maksimal setiap tier harus berbeda",
+        variant: "destructive"
+      });
+      return;
+    }
+
     try {
       await updateShippingRate.mutateAsync({
         id: selectedRate.id,
         updates: {
           price: price,
-          delivery_time: formData.delivery_time
+          delivery_time: formData.delivery_time,
+          weight_tiers: weightTiers.sort((a, b) => a.max_weight - b.max_weight),
+          cool_surcharge: parseInt(formData.cool_surcharge) || 0,
+          frozen_surcharge: parseInt(formData.frozen_surcharge) || 0
         }
       });
 
@@ -204,8 +250,14 @@ const ShippingRates = () => {
     setSelectedRate(rate);
     setFormData({
       price: rate.price.toString(),
-      delivery_time: rate.delivery_time
+      delivery_time: rate.delivery_time,
+      cool_surcharge: rate.cool_surcharge?.toString() || '',
+      frozen_surcharge: rate.frozen_surcharge?.toString() || ''
     });
+    setTiers((rate.weight_tiers || []).map(tier => ({
+      max_weight: tier.max_weight.toString(),
+      price: tier.price.toString()
+    })));
     setIsEditDialogOpen(true);
   };
 
@@ -272,6 +324,8 @@ const ShippingRates = () => {
                       <TableHead>Prefektur (Kanji)</TableHead>
                       <TableHead>Prefektur (Romaji)</TableHead>
                       <TableHead>Ongkos Kirim</TableHead>
+                      <TableHead>Tier Berat</TableHead>
+                      <TableHead>Biaya Cool / Frozen</TableHead>
                       <TableHead>Estimasi Waktu</TableHead>
                       <TableHead>Terakhir Diperbarui</TableHead>
                       <TableHead className="text-right">Aksi</TableHead>
@@ -280,7 +334,7 @@ const ShippingRates = () => {
                   <TableBody>
                     {filteredRates.length === 0 ? (
                       <TableRow>
-                        <TableCell colSpan={6} className="text-center py-8 text-gray-500">
+                        <TableCell colSpan={8} className="text-center py-8 text-gray-500">
                           {searchTerm ? 'Tidak ada prefektur yang cocok dengan pencarian' : 'Belum ada ongkos kirim yang ditambahkan'}
                         </TableCell>
                       </TableRow>
@@ -292,6 +346,22 @@ const ShippingRates = () => {
                           <TableCell className="font-semibold text-primary">
                             {formatPrice(rate.price)}
                           </TableCell>
+                          <TableCell className="text-sm">
+                            {rate.weight_tiers && rate.weight_tiers.length > 0 ? (
+                              <div className="space-y-0.5">
+                                {rate.weight_tiers.map(tier => (
+                                  <div key={tier.max_weight}>
+                                    ≤ {formatWeight(tier.max_weight)}: {formatPrice(tier.price)}
+                                  </div>
+                                ))}
+                              </div>
+                            ) : (
+                              <span className="text-gray-400">-</span>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-sm">
+                            {formatPrice(rate.cool_surcharge || 0)} / {formatPrice(rate.frozen_surcharge || 0)}
+                          </TableCell>
                           <TableCell>{rate.delivery_time}</TableCell>
                           <TableCell className="text-sm text-gray-500">
                             {rate.updated_at ? new Date(rate.updated_at).toLocaleDateString('id-ID', {
@@ -349,9 +419,11 @@ const ShippingRates = () => {
           </CardContent>
         </Card>
 
+        <ShippingPromotionsManager />
+
         {/* Edit Dialog */}
         <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
-          <DialogContent>
+          <DialogContent className="max-h-[90vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle>Edit Ongkos Kirim</DialogTitle>
               <DialogDescription>
@@ -371,7 +443,7 @@ const ShippingRates = () => {
               </div>
               
               <div className="space-y-2">
-                <Label htmlFor="edit-price">Ongkos Kirim (¥)</Label>
+                <Label htmlFor="edit-price">Ongkos Kirim Dasar (¥)</Label>
                 <Input
                   id="edit-price"
                   type="number"
@@ -382,6 +454,69 @@ const ShippingRates = () => {
                 />
               </div>
               
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>Tier Berat</Label>
+                  <Button type="button" variant="outline" size="sm" onClick={addTier}>
+                    <Plus className="w-4 h-4 mr-1" />
+                    Tambah Tier
+                  </Button>
+                </div>
+                {tiers.length === 0 ? (
+                  <p className="text-xs text-gray-500">
+                    Tanpa tier, ongkos kirim dasar dipakai untuk seluruh pesanan.
+                  </p>
+                ) : (
+                  <div className="space-y-2">
+                    {tiers.map((tier, index) => (
+                      <div key={index} className="flex items-center gap-2">
+                        <Input
+                          inputMode="numeric"
+                          value={tier.max_weight}
+                          onChange={(e) => handleTierChange(index, 'max_weight', e.target.value)}
+                          placeholder="Berat maks (gram)"
+                        />
+                        <Input
+                          inputMode="numeric"
+                          value={tier.price}
+                          onChange={(e) => handleTierChange(index, 'price', e.target.value)}
+                          placeholder="Ongkir (¥)"
+                        />
+                        <Button type="button" variant="ghost" size="sm" onClick={() => removeTier(index)}>
+                          <X className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    ))}
+                    <p className="text-xs text-gray-500">
+                      Pesanan yang lebih berat dari tier terbesar dikirim dalam beberapa paket.
+                    </p>
+                  </div>
+                )}
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="edit-cool_surcharge">Biaya Cool (¥/paket)</Label>
+                  <Input
+                    id="edit-cool_surcharge"
+                    inputMode="numeric"
+                    value={formData.cool_surcharge}
+                    onChange={(e) => handleInputChange('cool_surcharge', e.target.value)}
+                    placeholder="0"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="edit-frozen_surcharge">Biaya Frozen (¥/paket)</Label>
+                  <Input
+                    id="edit-frozen_surcharge"
+                    inputMode="numeric"
+                    value={formData.frozen_surcharge}
+                    onChange={(e) => handleInputChange('frozen_surcharge', e.target.value)}
+                    placeholder="0"
+                  />
+                </div>
+              </div>
+              
               <div className="space-y-2">
                 <Label htmlFor="edit-delivery_time">Estimasi Pengiriman</Label>
                 <Input
@@ -1,75 +1,43 @@
 
 import { useState, useEffect } from 'react';
-import { useAuth } from '@/hooks/useFirebaseAuth';
+import { useQueryClient } from '@tanstack/react-query';
+import { usePermissions } from '@/hooks/usePermissions';
 import { toast } from '@/hooks/use-toast';
 import AdminLayout from '@/components/admin/AdminLayout';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Users, Shield, User as UserIcon, RefreshCw, UserPlus } from 'lucide-react';
-import { getFirestore, collection, getDocs, doc, setDoc, updateDoc, onSnapshot, query, orderBy } from 'firebase/firestore';
-import { getAuth } from 'firebase/auth';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Users, Shield, User as UserIcon, RefreshCw, UserPlus, Crown } from 'lucide-react';
+import { getFirestore, collection, onSnapshot, query, orderBy } from 'firebase/firestore';
+import { claimStoreOwnership, updateUserRole } from '@/services/userService';
+import { UserRole } from '@/types';
+import { USER_ROLES, ROLE_LABELS, normalizeRole, canAssignRole } from '@/utils/permissions';
 
 interface UserProfile {
   uid: string;
   email: string;
   displayName: string;
-  role: 'admin' | 'user';
+  role: UserRole;
   createdAt: string;
   lastLogin: string;
   isOnline?: boolean;
 }
 
 const UserManagement = () => {
-  const { user } = useAuth();
+  const { user, role: currentUserRole, can } = usePermissions();
+  const queryClient = useQueryClient();
   const [users, setUsers] = useState<UserProfile[]>([]);
   const [loading, setLoading] = useState(true);
-  const [currentUserRole, setCurrentUserRole] = useState<'admin' | 'user'>('user');
+  const [claimingOwnership, setClaimingOwnership] = useState(false);
   
   const db = getFirestore();
-  const auth = getAuth();
-
-  // Check current user's role
-  useEffect(() => {
-    const checkCurrentUserRole = async () => {
-      if (user) {
-        const adminEmails = ['admin@gmail.com', 'ari4rich@gmail.com'];
-        if (adminEmails.includes(user.email || '')) {
-          setCurrentUserRole('admin');
-          // Create/update current user profile in Firestore
-          await ensureUserProfile(user.uid, user.email || '', user.displayName || '', 'admin');
-        } else {
-          setCurrentUserRole('user');
-          await ensureUserProfile(user.uid, user.email || '', user.displayName || '', 'user');
-        }
-      }
-    };
-
-    checkCurrentUserRole();
-  }, [user]);
-
-  // Ensure user profile exists in Firestore
-  const ensureUserProfile = async (uid: string, email: string, displayName: string, role: 'admin' | 'user') => {
-    try {
-      const userRef = doc(db, 'users', uid);
-      await setDoc(userRef, {
-        uid,
-        email,
-        displayName: displayName || email.split('@')[0],
-        role,
-        createdAt: new Date().toISOString(),
-        lastLogin: new Date().toISOString(),
-        isOnline: true
-      }, { merge: true });
-    } catch (error) {
-      console.error('Error ensuring user profile:', error);
-    }
-  };
+  const canManageUsers = can('users.manage');
 
   // Fetch users with real-time updates
   useEffect(() => {
-    if (!user || currentUserRole !== 'admin') {
+    if (!user || !canManageUsers) {
       setLoading(false);
       return;
     }
@@ -83,7 +51,7 @@ const UserManagement = () => {
       const usersData: UserProfile[] = [];
       snapshot.forEach((doc) => {
         const userData = doc.data() as UserProfile;
-        usersData.push(userData);
+        usersData.push({ ...userData, role: normalizeRole(userData.role) });
       });
       
       console.log('Real-time users data:', usersData);
@@ -100,13 +68,13 @@ const UserManagement = () => {
     });
 
     return () => unsubscribe();
-  }, [user, currentUserRole, db]);
+  }, [user, canManageUsers, db]);
 
-  const handleRoleUpdate = async (userId: string, newRole: 'admin' | 'user') => {
-    if (currentUserRole !== 'admin') {
+  const handleRoleUpdate = async (userId: string, currentRole: UserRole, newRole: UserRole) => {
+    if (!canAssignRole(currentUserRole, currentRole, newRole)) {
       toast({
         title: "Akses Ditolak",
-        description: "Hanya admin yang dapat mengubah role pengguna",
+        description: `Role ${ROLE_LABELS[currentUserRole]} tidak dapat mengubah role ini`,
         variant: "destructive"
       });
       return;
@@ -122,15 +90,12 @@ const UserManagement = () => {
     }
 
     try {
-      const userRef = doc(db, 'users', userId);
-      await updateDoc(userRef, {
-        role: newRole,
-        updatedAt: new Date().toISOString()
-      });
+      await updateUserRole(userId, newRole);
+      queryClient.invalidateQueries({ queryKey: ['user-profile', userId] });
 
       toast({
         title: "Berhasil",
-        description: `Role pengguna berhasil diubah menjadi ${newRole}`,
+        description: `Role pengguna berhasil diubah menjadi ${ROLE_LABELS[newRole]}`,
         variant: "default"
       });
     } catch (error) {
@@ -143,6 +108,31 @@ const UserManagement = () => {
     }
   };
 
+  const handleClaimOwnership = async () => {
+    if (!user) return;
+
+    setClaimingOwnership(true);
+    try {
+      await claimStoreOwnership(user.uid);
+      queryClient.invalidateQueries({ queryKey: ['user-profile', user.uid] });
+
+      toast({
+        title: "Berhasil",
+        description: "Anda sekarang Owner toko",
+        variant: "default"
+      });
+    } catch (error) {
+      console.error('Error claiming store ownership:', error);
+      toast({
+        title: "Error",
+        description: "Gagal mengklaim Owner. Toko mungkin sudah memiliki Owner.",
+        variant: "destructive"
+      });
+    } finally {
+      setClaimingOwnership(false);
+    }
+  };
+
   const refreshUsers = () => {
     // The onSnapshot listener will automatically refresh the data
     toast({
@@ -152,12 +142,12 @@ const UserManagement = () => {
     });
   };
 
-  const getRoleBadgeVariant = (role: string) => {
-    return role === 'admin' ? 'destructive' : 'secondary';
+  const getRoleBadgeVariant = (role: UserRole) => {
+    return role === 'owner' || role === 'admin' ? 'destructive' : role === 'customer' ? 'secondary' : 'default';
   };
 
-  const getRoleIcon = (role: string) => {
-    return role === 'admin' ? Shield : UserIcon;
+  const getRoleIcon = (role: UserRole) => {
+    return role === 'customer' ? UserIcon : Shield;
   };
 
   const formatDate = (dateString: string) => {
@@ -170,7 +160,7 @@ const UserManagement = () => {
     });
   };
 
-  const canEditRoles = currentUserRole === 'admin';
+  const canEditRoles = canManageUsers;
 
   return (
     <AdminLayout>
@@ -189,12 +179,25 @@ const UserManagement = () => {
           </Button>
         </div>
 
-        {currentUserRole !== 'admin' && (
+        {!canManageUsers && (
           <div className="mb-4 p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
             <p className="text-yellow-800 text-sm">
               <Shield className="w-4 h-4 inline mr-2" />
-              <strong>Akses Terbatas:</strong> Anda perlu role admin untuk mengakses fitur manajemen pengguna.
+              <strong>Akses Terbatas:</strong> Role Anda tidak memiliki izin untuk mengakses fitur manajemen pengguna.
+            </p>
+          </div>
+        )}
+
+        {currentUserRole === 'admin' && !loading && users.length > 0 && !users.some(u => u.role === 'owner') && (
+          <div className="mb-4 p-4 bg-blue-50 border border-blue-200 rounded-lg flex items-center justify-between gap-4">
+            <p className="text-blue-800 text-sm">
+              <Crown className="w-4 h-4 inline mr-2" />
+              <strong>Belum Ada Owner:</strong> Hanya Owner yang dapat mengangkat Admin dan Owner lain.
+              Admin pertama yang mengklaim akan menjadi Owner toko.
             </p>
+            <Button onClick={handleClaimOwnership} disabled={claimingOwnership} size="sm">
+              {claimingOwnership ? 'Memproses...' : 'Jadikan Saya Owner'}
+            </Button>
           </div>
         )}
 
@@ -272,7 +275,7 @@ const UserManagement = () => {
                           </TableCell>
                           <TableCell>
                             <Badge variant={getRoleBadgeVariant(userProfile.role)}>
-                              {userProfile.role}
+                              {ROLE_LABELS[userProfile.role]}
                             </Badge>
                           </TableCell>
                           <TableCell className="text-sm text-gray-600">
@@ -293,13 +296,26 @@ const UserManagement = () => {
                                   Tidak bisa mengubah role sendiri
                                 </span>
                               ) : (
-                                <Button
-                                  size="sm"
-                                  variant="outline"
-                                  onClick={() => handleRoleUpdate(userProfile.uid, userProfile.role === 'admin' ? 'user' : 'admin')}
+                                <Select
+                                  value={userProfile.role}
+                                  onValueChange={(value) => handleRoleUpdate(userProfile.uid, userProfile.role, value as UserRole)}
+                                  disabled={!USER_ROLES.some((role) => role !== userProfile.role && canAssignRole(currentUserRole, userProfile.role, role))}
                                 >
-                                  Jadikan {userProfile.role === 'admin' ? 'User' : 'Admin'}
-                                </Button>
+                                  <SelectTrigger className="w-44">
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    {USER_ROLES.map((role) => (
+                                      <SelectItem
+                                        key={role}
+                                        value={role}
+                                        disabled={role !== userProfile.role && !canAssignRole(currentUserRole, userProfile.role, role)}
+                                      >
+                                        {ROLE_LABELS[role]}
+                                      </SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
                               )}
                             </TableCell>
                           )}
@@ -317,7 +333,7 @@ const UserManagement = () => {
           <div className="mt-4 p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
             <p className="text-yellow-800 text-sm">
               <Shield className="w-4 h-4 inline mr-2" />
-              Anda perlu role admin untuk mengubah role pengguna lain.
+              Role Anda tidak memiliki izin untuk mengubah role pengguna lain.
             </p>
           </div>
         )}
@@ -0,0 +1,584 @@
+import { useState } from 'react';
+import {
+  useVouchers,
+  useVoucherRedemptions,
+  useAddVoucher,
+  useUpdateVoucher,
+  useDeleteVoucher
+} from '@/hooks/useVouchers';
+import { VoucherError } from '@/services/voucherService';
+import { getCategoriesWithVariants } from '@/utils/categoryVariants';
+import { VOUCHER_TYPE_LABELS, getVoucherAvailabilityError, normalizeVoucherCode } from '@/utils/voucherUtils';
+import { toast } from '@/hooks/use-toast';
+import AdminLayout from '@/components/admin/AdminLayout';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Ticket, Edit, Trash2, Plus, Search, Receipt } from 'lucide-react';
+import { Voucher, VoucherType } from '@/types';
+
+const emptyForm = {
+  code: '',
+  description: '',
+  type: 'percent' as VoucherType,
+  value: '',
+  max_discount: '',
+  min_spend: '',
+  categories: [] as string[],
+  usage_limit: '',
+  per_user_limit: '',
+  starts_at: '',
+  expires_at: '',
+  active: true
+};
+
+const toggleValue = (values: string[], value: string) =>
+  values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+
+const parseLimit = (value: string) => parseInt(value) > 0 ? parseInt(value) : null;
+
+const Vouchers = () => {
+  const { data: vouchers = [], isLoading } = useVouchers();
+  const { data: redemptions = [] } = useVoucherRedemptions();
+  const addVoucher = useAddVoucher();
+  const updateVoucher = useUpdateVoucher();
+  const deleteVoucher = useDeleteVoucher();
+
+  const [searchTerm, setSearchTerm] = useState('');
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  const categories = getCategoriesWithVariants();
+
+  const formatPrice = (price: number) => {
+    return new Intl.NumberFormat('ja-JP', {
+      style: 'currency',
+      currency: 'JPY',
+    }).format(price);
+  };
+
+  const formatDate = (date?: string | null) =>
+    date ? new Date(date).toLocaleDateString('id-ID', { day: 'numeric', month: 'short', year: 'numeric' }) : '...';
+
+  const filteredVouchers = vouchers.filter(voucher =>
+    voucher.code.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    (voucher.description || '').toLowerCase().includes(searchTerm.toLowerCase())
+  );
+
+  const openCreate = () => {
+    setEditingId(null);
+    setFormData(emptyForm);
+    setIsDialogOpen(true);
+  };
+
+  const openEdit = (voucher: Voucher) => {
+    setEditingId(voucher.id);
+    setFormData({
+      code: voucher.code,
+      description: voucher.description || '',
+      type: voucher.type,
+      value: voucher.value?.toString() || '',
+      max_discount: voucher.max_discount?.toString() || '',
+      min_spend: voucher.min_spend?.toString() || '',
+      categories: voucher.categories || [],
+      usage_limit: voucher.usage_limit?.toString() || '',
+      per_user_limit: voucher.per_user_limit?.toString() || '',
+      starts_at: voucher.starts_at ? voucher.starts_at.split('T')[0] : '',
+      expires_at: voucher.expires_at ? voucher.expires_at.split('T')[0] : '',
+      active: voucher.active
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleSubmit = async () => {
+    const code = normalizeVoucherCode(formData.code);
+    const value = parseInt(formData.value) || 0;
+
+    if (!editingId && !/^[A-Z0-9_-]{3,30}$/.test(code)) {
+      toast({
+        title: "Error",
+        description: "Kode voucher harus 3-30 karakter (huruf, angka, - atau _)",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (formData.type !== 'free_shipping' && value <= 0) {
+      toast({
+        title: "Error",
+        description: "Nilai voucher harus lebih dari 0",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (formData.type === 'percent' && value > 100) {
+      toast({
+        title: "Error",
+        description: "Diskon persen maksimal 100%",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (formData.starts_at && formData.expires_at && formData.starts_at > formData.expires_at) {
+      toast({
+        title: "Error",
+        description: "Tanggal mulai harus sebelum tanggal kedaluwarsa",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const voucher = {
+      description: formData.description.trim(),
+      type: formData.type,
+      value: formData.type === 'free_shipping' ? 0 : value,
+      max_discount: formData.type === 'percent' ? parseLimit(formData.max_discount) : null,
+      min_spend: parseInt(formData.min_spend) || 0,
+      categories: formData.categories,
+      usage_limit: parseLimit(formData.usage_limit),
+      per_user_limit: parseLimit(formData.per_user_limit),
+      // Date inputs are whole days in Japan time
+      starts_at: formData.starts_at ? new Date(`${formData.starts_at}T00:00:00+09:00`).toISOString() : null,
+      expires_at: formData.expires_at ? new Date(`${formData.expires_at}T23:59:59+09:00`).toISOString() : null,
+      active: formData.active
+    };
+
+    try {
+      if (editingId) {
+        await updateVoucher.mutateAsync({ id: editingId, updates: voucher });
+      } else {
+        await addVoucher.mutateAsync({ ...voucher, code });
+      }
+
+      toast({
+        title: "Berhasil",
+        description: `Voucher ${editingId || code} berhasil disimpan`,
+      });
+      setIsDialogOpen(false);
+    } catch (error) {
+      console.error('Error saving voucher:', error);
+      toast({
+        title: "Error",
+        description: error instanceof VoucherError ? error.message : "Gagal menyimpan voucher",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleToggleActive = async (voucher: Voucher) => {
+    try {
+      await updateVoucher.mutateAsync({ id: voucher.id, updates: { active: !voucher.active } });
+    } catch (error) {
+      console.error('Error toggling voucher:', error);
+      toast({
+        title: "Error",
+        description: "Gagal mengubah status voucher",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleDelete = async (voucher: Voucher) => {
+    if (!window.confirm(`Hapus voucher ${voucher.code}?`)) return;
+
+    try {
+      await deleteVoucher.mutateAsync(voucher.id);
+      toast({
+        title: "Berhasil",
+        description: `Voucher ${voucher.code} berhasil dihapus`,
+      });
+    } catch (error) {
+      console.error('Error deleting voucher:', error);
+      toast({
+        title: "Error",
+        description: "Gagal menghapus voucher",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const describeBenefit = (voucher: Voucher) => {
+    if (voucher.type === 'free_shipping') return 'Gratis ongkir';
+    if (voucher.type === 'fixed') return `Potongan ${formatPrice(voucher.value)}`;
+    return `Diskon ${voucher.value}%${voucher.max_discount ? ` (maks. ${formatPrice(voucher.max_discount)})` : ''}`;
+  };
+
+  const describePeriod = (voucher: Voucher) => {
+    if (!voucher.starts_at && !voucher.expires_at) return 'Tanpa batas waktu';
+    return `${formatDate(voucher.starts_at)} - ${formatDate(voucher.expires_at)}`;
+  };
+
+  return (
+    <AdminLayout>
+      <div className="p-8">
+        <div className="mb-8 flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Voucher & Kode Diskon</h1>
+            <p className="text-gray-600">Kelola kode voucher yang bisa dipakai pelanggan saat checkout</p>
+          </div>
+          <Button onClick={openCreate}>
+            <Plus className="w-4 h-4 mr-2" />
+            Tambah Voucher
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <Ticket className="w-5 h-5" />
+              <span>Daftar Voucher ({vouchers.length})</span>
+            </CardTitle>
+            <div className="relative mt-4 max-w-sm">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+              <Input
+                placeholder="Cari kode atau deskripsi..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex items-center justify-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Kode</TableHead>
+                      <TableHead>Benefit</TableHead>
+                      <TableHead>Syarat</TableHead>
+                      <TableHead>Pemakaian</TableHead>
+                      <TableHead>Periode</TableHead>
+                      <TableHead>Aktif</TableHead>
+                      <TableHead className="text-right">Aksi</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {filteredVouchers.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={7} className="text-center py-8 text-gray-500">
+                          {searchTerm ? 'Tidak ada voucher yang cocok' : 'Belum ada voucher'}
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      filteredVouchers.map(voucher => {
+                        const availabilityError = getVoucherAvailabilityError(voucher);
+                        return (
+                          <TableRow key={voucher.id}>
+                            <TableCell>
+                              <div className="font-mono font-bold">{voucher.code}</div>
+                              {voucher.description && (
+                                <div className="text-xs text-gray-500">{voucher.description}</div>
+                              )}
+                              {voucher.active && availabilityError && (
+                                <Badge variant="outline" className="mt-1 text-orange-600 border-orange-300">
+                                  {availabilityError}
+                                </Badge>
+                              )}
+                            </TableCell>
+                            <TableCell>
+                              <Badge variant="secondary">{describeBenefit(voucher)}</Badge>
+                            </TableCell>
+                            <TableCell className="text-sm text-gray-600">
+                              <div>Min. {formatPrice(voucher.min_spend || 0)}</div>
+                              <div>
+                                {voucher.categories?.length > 0
+                                  ? voucher.categories.join(', ')
+                                  : 'Semua kategori'}
+                              </div>
+                            </TableCell>
+                            <TableCell className="text-sm text-gray-600">
+                              <div>
+                                {voucher.used_count || 0}
+                                {voucher.usage_limit ? ` / ${voucher.usage_limit}` : ''} kali
+                              </div>
+                              {voucher.per_user_limit && (
+                                <div>Maks. {voucher.per_user_limit}x per pelanggan</div>
+                              )}
+                            </TableCell>
+                            <TableCell className="text-sm text-gray-600">{describePeriod(voucher)}</TableCell>
+                            <TableCell>
+                              <Switch
+                                checked={voucher.active}
+                                onCheckedChange={() => handleToggleActive(voucher)}
+                              />
+                            </TableCell>
+                            <TableCell className="text-right">
+                              <div className="flex justify-end space-x-2">
+                                <Button variant="outline" size="sm" onClick={() => openEdit(voucher)}>
+                                  <Edit className="w-4 h-4" />
+                                </Button>
+                                <Button variant="destructive" size="sm" onClick={() => handleDelete(voucher)}>
+                                  <Trash2 className="w-4 h-4" />
+                                </Button>
+                              </div>
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="mt-6">
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <Receipt className="w-5 h-5" />
+              <span>Riwayat Pemakaian ({redemptions.length})</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Tanggal</TableHead>
+                    <TableHead>Kode</TableHead>
+                    <TableHead>Pesanan</TableHead>
+                    <TableHead>Pelanggan</TableHead>
+                    <TableHead className="text-right">Potongan</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {redemptions.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center py-8 text-gray-500">
+                        Belum ada voucher yang dipakai
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    redemptions.slice(0, 50).map(redemption => (
+                      <TableRow key={redemption.id}>
+                        <TableCell className="text-sm">{formatDate(redemption.created_at)}</TableCell>
+                        <TableCell className="font-mono">{redemption.code}</TableCell>
+                        <TableCell className="font-mono text-sm">#{redemption.order_id.slice(-8)}</TableCell>
+                        <TableCell className="text-sm">{redemption.customer_email}</TableCell>
+                        <TableCell className="text-right">
+                          {formatPrice(redemption.discount + redemption.shipping_discount)}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingId ? `Edit Voucher ${editingId}` : 'Tambah Voucher'}</DialogTitle>
+            <DialogDescription>
+              Satu voucher dapat dipakai per pesanan. Kode tidak dapat diubah setelah dibuat.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="voucher-code">Kode Voucher</Label>
+              <Input
+                id="voucher-code"
+                value={formData.code}
+                onChange={(e) => setFormData(prev => ({ ...prev, code: e.target.value.toUpperCase() }))}
+                placeholder="Contoh: HEMAT10"
+                className="font-mono"
+                disabled={!!editingId}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="voucher-description">Deskripsi</Label>
+              <Textarea
+                id="voucher-description"
+                value={formData.description}
+                onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+                placeholder="Ditampilkan ke pelanggan saat voucher dipakai"
+                rows={2}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Jenis</Label>
+                <Select
+                  value={formData.type}
+                  onValueChange={(value) => setFormData(prev => ({ ...prev, type: value as VoucherType }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(VOUCHER_TYPE_LABELS).map(([type, label]) => (
+                      <SelectItem key={type} value={type}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="voucher-value">Nilai</Label>
+                <Input
+                  id="voucher-value"
+                  inputMode="numeric"
+                  value={formData.type === 'free_shipping' ? '' : formData.value}
+                  onChange={(e) => setFormData(prev => ({ ...prev, value: e.target.value.replace(/[^\d]/g, '') }))}
+                  placeholder={formData.type === 'percent' ? 'Persen' : 'Yen'}
+                  disabled={formData.type === 'free_shipping'}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="voucher-min-spend">Minimal Belanja (¥)</Label>
+                <Input
+                  id="voucher-min-spend"
+                  inputMode="numeric"
+                  value={formData.min_spend}
+                  onChange={(e) => setFormData(prev => ({ ...prev, min_spend: e.target.value.replace(/[^\d]/g, '') }))}
+                  placeholder="0"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="voucher-max-discount">Maks. Diskon (¥)</Label>
+                <Input
+                  id="voucher-max-discount"
+                  inputMode="numeric"
+                  value={formData.type === 'percent' ? formData.max_discount : ''}
+                  onChange={(e) => setFormData(prev => ({ ...prev, max_discount: e.target.value.replace(/[^\d]/g, '') }))}
+                  placeholder="Tanpa batas"
+                  disabled={formData.type !== 'percent'}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="voucher-usage-limit">Kuota Total</Label>
+                <Input
+                  id="voucher-usage-limit"
+                  inputMode="numeric"
+                  value={formData.usage_limit}
+                  onChange={(e) => setFormData(prev => ({ ...prev, usage_limit: e.target.value.replace(/[^\d]/g, '') }))}
+                  placeholder="Tanpa batas"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="voucher-per-user-limit">Batas per Pelanggan</Label>
+                <Input
+                  id="voucher-per-user-limit"
+                  inputMode="numeric"
+                  value={formData.per_user_limit}
+                  onChange={(e) => setFormData(prev => ({ ...prev, per_user_limit: e.target.value.replace(/[^\d]/g, '') }))}
+                  placeholder="Tanpa batas"
+                />
+              </div>
+            </div>
+            {formData.per_user_limit && (
+              <p className="text-xs text-gray-500">
+                Voucher dengan batas per pelanggan hanya bisa dipakai oleh pelanggan yang login.
+              </p>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="voucher-start">Mulai</Label>
+                <Input
+                  id="voucher-start"
+                  type="date"
+                  value={formData.starts_at}
+                  onChange={(e) => setFormData(prev => ({ ...prev, starts_at: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="voucher-end">Kedaluwarsa</Label>
+                <Input
+                  id="voucher-end"
+                  type="date"
+                  value={formData.expires_at}
+                  onChange={(e) => setFormData(prev => ({ ...prev, expires_at: e.target.value }))}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Kategori (kosongkan untuk semua)</Label>
+              <div className="grid grid-cols-2 gap-2">
+                {categories.map(category => (
+                  <label key={category} className="flex items-center space-x-2 text-sm">
+                    <Checkbox
+                      checked={formData.categories.includes(category)}
+                      onCheckedChange={() => setFormData(prev => ({
+                        ...prev,
+                        categories: toggleValue(prev.categories, category)
+                      }))}
+                    />
+                    <span>{category}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="voucher-active"
+                checked={formData.active}
+                onCheckedChange={(checked) => setFormData(prev => ({ ...prev, active: checked }))}
+              />
+              <Label htmlFor="voucher-active">Aktif</Label>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+              Batal
+            </Button>
+            <Button
+              onClick={handleSubmit}
+              disabled={addVoucher.isPending || updateVoucher.isPending}
+              className="bg-blue-600 hover:bg-blue-700"
+            >
+              {addVoucher.isPending || updateVoucher.isPending ? 'Menyimpan...' : 'Simpan Voucher'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </AdminLayout>
+  );
+};
+
+export default Vouchers;
@@ -0,0 +1,96 @@
+import {
+  collection,
+  getDocs,
+  query,
+  orderBy,
+  limit,
+  addDoc
+} from 'firebase/firestore';
+import { db, auth } from '@/config/firebase';
+import { AdminLog, AdminLogChange } from '@/types';
+
+const ADMIN_LOGS_COLLECTION = 'admin_logs';
+
+// Timestamps change on every write and only add noise to the diff
+const IGNORED_FIELDS = ['updated_at', 'updatedAt'];
+
+// Firestore rejects undefined values, so store them as null
+const toFirestoreValue = (value: unknown): unknown => {
+  if (value === undefined) return null;
+  return JSON.parse(JSON.stringify(value));
+};
+
+export const diffChanges = (
+  before: object | null | undefined,
+  after: object | null | undefined
+): Record<string, AdminLogChange> => {
+  const beforeData = (before || {}) as Record<string, unknown>;
+  const afterData = (after || {}) as Record<string, unknown>;
+
+  // Partial updates only describe the fields they touch
+  const keys = before && after
+    ? Object.keys(afterData)
+    : Array.from(new Set([...Object.keys(beforeData), ...Object.keys(afterData)]));
+
+  const changes: Record<string, AdminLogChange> = {};
+  keys
+    .filter((key) => !IGNORED_FIELDS.includes(key))
+    .forEach((key) => {
+      const beforeValue = toFirestoreValue(beforeData[key]);
+      const afterValue = toFirestoreValue(afterData[key]);
+
+      if (JSON.stringify(beforeValue) !== JSON.stringify(afterValue)) {
+        changes[key] = { before: beforeValue, after: afterValue };
+      }
+    });
+
+  return changes;
+};
+
+export const logAdminAction = async (entry: {
+  action: string;
+  target_type: string;
+  target_id?: string;
+  before?: object | null;
+  after?: object | null;
+  details?: Record<string, unknown>;
+}): Promise<void> => {
+  try {
+    const actor = auth.currentUser;
+    if (!actor) {
+      console.warn('Skipping admin log without a signed-in user:', entry.action);
+      return;
+    }
+
+    await addDoc(collection(db, ADMIN_LOGS_COLLECTION), {
+      user_id: actor.uid,
+      admin_id: actor.uid,
+      admin_email: actor.email || '',
+      action: entry.action,
+      target_type: entry.target_type,
+      target_id: entry.target_id || '',
+      changes: diffChanges(entry.before, entry.after),
+      details: toFirestoreValue(entry.details || {}),
+      created_at: new Date().toISOString()
+    });
+  } catch (error) {
+    // A failed audit write must never undo or block the admin action itself
+    console.error('Error writing admin log:', error);
+  }
+};
+
+export const getAdminLogs = async (maxEntries = 500): Promise<AdminLog[]> => {
+  try {
+    const logsRef = collection(db, ADMIN_LOGS_COLLECTION);
+    const q = query(logsRef, orderBy('created_at', 'desc'), limit(maxEntries));
+    const snapshot = await getDocs(q);
+
+    return snapshot.docs.map(doc => ({
+      id: doc.id,
+      ...doc.data()
+    } as AdminLog));
+  } catch (error) {
+    console.error('Error fetching admin logs:', error);
+    throw error;
+  }
+};
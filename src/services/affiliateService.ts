@@ -10,18 +10,61 @@ import {
   orderBy,
   limit,
   increment,
+  arrayUnion,
   addDoc,
-  onSnapshot
+  onSnapshot,
+  runTransaction,
+  DocumentSnapshot,
+  Transaction,
+  writeBatch
 } from 'firebase/firestore';
-import { db } from '@/config/firebase';
+import { db, auth } from '@/config/firebase';
+import { logAdminAction } from '@/services/adminLogService';
 import { 
   AffiliateUser, 
   AffiliateReferral, 
   AffiliateCommission, 
   AffiliateSettings,
   AffiliatePayout,
-  AffiliateFollower
+  AffiliatePayoutRun,
+  AffiliatePayoutRunItem,
+  AffiliateBankInfo,
+  AffiliateFollower,
+  AffiliateLedgerEntry,
+  AffiliateLedgerDrift,
+  AffiliateAttribution,
+  AffiliateNotification,
+  AffiliateNotificationSettings,
+  AffiliateNotificationType,
+  CommissionAdjustment,
+  CommissionAdjustmentReason
 } from '@/types/affiliate';
+import {
+  calculateCommission,
+  CommissionableItem,
+  getCommissionMonth,
+  getMaxCommissionRate,
+  COMMISSION_ADJUSTMENT_LABELS
+} from '@/utils/commissionCalculator';
+import { getContactKeys } from '@/utils/affiliateFraud';
+import { DEFAULT_NOTIFICATION_PREFERENCES, getReachedClickMilestone } from '@/utils/affiliateNotifications';
+import {
+  DEFAULT_ATTRIBUTION_MODEL,
+  DEFAULT_ATTRIBUTION_WINDOW_DAYS,
+  isAttributionActive
+} from '@/utils/affiliateAttribution';
+import {
+  DEFAULT_HOLD_PERIOD_DAYS,
+  EMPTY_BALANCE,
+  getCorrectionPostings,
+  getExpectedBalance,
+  getHoldPeriodDays,
+  getLedgerBalance,
+  getLedgerBalances,
+  getPayoutRunCandidates,
+  getWithdrawableBalance,
+  isBalanceEqual
+} from '@/utils/affiliateLedger';
 
 // Collection names
 const AFFILIATES_COLLECTION = 'affiliates';
@@ -29,6 +72,15 @@ const REFERRALS_COLLECTION = 'affiliate_referrals';
 const COMMISSIONS_COLLECTION = 'affiliate_commissions';
 const SETTINGS_COLLECTION = 'affiliate_settings';
 const PAYOUTS_COLLECTION = 'affiliate_payouts';
+const MONTHLY_SALES_COLLECTION = 'affiliate_monthly_sales';
+const LEDGER_COLLECTION = 'affiliate_ledger';
+const PAYOUT_RUNS_COLLECTION = 'affiliate_payout_runs';
+const ATTRIBUTIONS_COLLECTION = 'affiliate_attributions';
+const NOTIFICATIONS_COLLECTION = 'affiliate_notifications';
+const NOTIFICATION_SETTINGS_COLLECTION = 'affiliate_notification_settings';
+const PRODUCTS_COLLECTION = 'products';
+// Public lookup of referral code -> affiliate ID, so visitors never need to read affiliate profiles
+const REFERRAL_CODES_COLLECTION = 'referral_codes';
 
 // Generate a unique referral code
 export const generateReferralCode = (userId: string, name: string): string => {
@@ -64,11 +116,15 @@ export const createOrUpdateAffiliateUser = async (
       
       await updateDoc(affiliateRef, updateData);
       
-      return {
+      const affiliate = {
         id: affiliateDoc.id,
         ...affiliateDoc.data(),
         ...updateData
       } as AffiliateUser;
+      
+      await ensureReferralCodeIndex(affiliate);
+      
+      return affiliate;
     } else {
       // Create new affiliate
       const referralCode = generateReferralCode(userId, displayName);
@@ -80,15 +136,14 @@ export const createOrUpdateAffiliateUser = async (
         referralCode,
         totalClicks: 0,
         totalReferrals: 0,
-        totalCommission: 0,
-        pendingCommission: 0,
-        paidCommission: 0,
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString()
       };
       
       await setDoc(affiliateRef, newAffiliate);
       
+      await ensureReferralCodeIndex({ id: userId, ...newAffiliate });
+      
       return {
         id: userId,
         ...newAffiliate
@@ -100,6 +155,40 @@ export const createOrUpdateAffiliateUser = async (
   }
 };
 
+// Make sure the affiliate's referral code can be resolved by visitors
+export const ensureReferralCodeIndex = async (affiliate: AffiliateUser): Promise<void> => {
+  try {
+    const codeRef = doc(db, REFERRAL_CODES_COLLECTION, affiliate.referralCode);
+    const codeDoc = await getDoc(codeRef);
+    
+    if (!codeDoc.exists()) {
+      await setDoc(codeRef, {
+        affiliateId: affiliate.id,
+        createdAt: new Date().toISOString()
+      });
+    }
+  } catch (error) {
+    console.error('Error indexing referral code:', error);
+    throw error;
+  }
+};
+
+// Resolve a referral code to its affiliate ID without reading the affiliate profile
+export const resolveReferralCode = async (referralCode: string): Promise<string | null> => {
+  try {
+    const codeDoc = await getDoc(doc(db, REFERRAL_CODES_COLLECTION, referralCode));
+    
+    if (codeDoc.exists()) {
+      return codeDoc.data().affiliateId as string;
+    }
+    
+    return null;
+  } catch (error) {
+    console.error('Error resolving referral code:', error);
+    throw error;
+  }
+};
+
 // Get affiliate user by ID
 export const getAffiliateUser = async (userId: string): Promise<AffiliateUser | null> => {
   try {
@@ -142,119 +231,188 @@ export const getAffiliateByReferralCode = async (referralCode: string): Promise<
   }
 };
 
-// Track referral click
-export const trackReferralClick = async (referralCode: string, visitorId: string): Promise<string> => {
+// Track referral click. `fingerprint` identifies the device across visitor IDs
+// so click flooding can be spotted; `campaign` is the link's sub-ID.
+export const trackReferralClick = async (
+  referralCode: string,
+  visitorId: string,
+  fingerprint?: string,
+  campaign?: string,
+  productId?: string
+): Promise<string> => {
   try {
     // Check if referral code exists
-    const affiliate = await getAffiliateByReferralCode(referralCode);
-    if (!affiliate) {
+    const affiliateId = await resolveReferralCode(referralCode);
+    if (!affiliateId) {
       throw new Error('Invalid referral code');
     }
     
-    // Check if this visitor has already clicked this referral link
-    const referralsRef = collection(db, REFERRALS_COLLECTION);
-    const q = query(
-      referralsRef, 
-      where('referralCode', '==', referralCode),
-      where('visitorId', '==', visitorId)
-    );
+    // One click document per visitor and referral code
+    const clickId = `${referralCode}_${visitorId}`;
     
-    const querySnapshot = await getDocs(q);
+    // Affiliates clicking their own link are not counted
+    if (auth.currentUser?.uid === affiliateId) {
+      return clickId;
+    }
     
-    if (!querySnapshot.empty) {
+    const clickRef = doc(db, REFERRALS_COLLECTION, clickId);
+    const clickDoc = await getDoc(clickRef);
+    
+    if (clickDoc.exists()) {
       // Already clicked, just return the ID
-      return querySnapshot.docs[0].id;
+      return clickId;
     }
     
     // Create new referral click
     const newReferral: Partial<AffiliateReferral> = {
       referralCode,
-      referrerId: affiliate.id,
+      referrerId: affiliateId,
       visitorId,
+      ...(fingerprint ? { fingerprint } : {}),
+      ...(campaign ? { campaign } : {}),
+      ...(productId ? { productId } : {}),
       status: 'clicked',
       clickedAt: new Date().toISOString(),
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString()
     };
     
-    // Add to referrals collection
-    const referralDocRef = await addDoc(collection(db, REFERRALS_COLLECTION), newReferral);
+    await setDoc(clickRef, newReferral);
     
     // Update affiliate stats
-    await updateDoc(doc(db, AFFILIATES_COLLECTION, affiliate.id), {
+    await updateDoc(doc(db, AFFILIATES_COLLECTION, affiliateId), {
       totalClicks: increment(1),
       updatedAt: new Date().toISOString()
     });
     
-    return referralDocRef.id;
+    return clickId;
   } catch (error) {
     console.error('Error tracking referral click:', error);
     throw error;
   }
 };
 
+// Get the affiliate a user's orders are currently credited to
+export const getUserAttribution = async (userId: string): Promise<AffiliateAttribution | null> => {
+  try {
+    const attributionDoc = await getDoc(doc(db, ATTRIBUTIONS_COLLECTION, userId));
+    
+    if (!attributionDoc.exists()) {
+      return null;
+    }
+    
+    return { id: attributionDoc.id, ...attributionDoc.data() } as AffiliateAttribution;
+  } catch (error) {
+    console.error('Error getting user attribution:', error);
+    throw error;
+  }
+};
+
+// Keep the attribution with the user account so it survives clearing the
+// browser or switching devices. It is recorded once, at registration; only
+// staff can move it to another affiliate afterwards.
+const recordAttribution = async (
+  userId: string,
+  affiliateId: string,
+  referralCode: string,
+  campaign?: string
+): Promise<void> => {
+  const existing = await getUserAttribution(userId);
+  if (existing) {
+    console.log(`Keeping attribution of user ${userId} to ${existing.referralCode}`);
+    return;
+  }
+  
+  const now = new Date().toISOString();
+  await setDoc(doc(db, ATTRIBUTIONS_COLLECTION, userId), {
+    userId,
+    affiliateId,
+    referralCode,
+    ...(campaign ? { campaign } : {}),
+    attributedAt: now,
+    updatedAt: now
+  });
+};
+
 // Register user with referral
 export const registerWithReferral = async (
   referralCode: string, 
   userId: string, 
   email: string,
-  displayName: string
+  displayName: string,
+  visitorId?: string,
+  campaign?: string
 ): Promise<void> => {
   try {
     console.log(`Registering user ${userId} with referral code ${referralCode}`);
     
     // Get affiliate by referral code
-    const affiliate = await getAffiliateByReferralCode(referralCode);
-    if (!affiliate) {
+    const affiliateId = await resolveReferralCode(referralCode);
+    if (!affiliateId) {
       throw new Error('Invalid referral code');
     }
     
-    // Find the most recent click for this referral code
+    // Affiliates cannot refer themselves
+    if (affiliateId === userId) {
+      console.log(`Skipping self-referral for user ${userId}`);
+      return;
+    }
+    
+    await recordAttribution(userId, affiliateId, referralCode, campaign);
+    
     const referralsRef = collection(db, REFERRALS_COLLECTION);
-    const q = query(
+    
+    // Skip users that are already registered under this referral code
+    const existingQuery = query(
       referralsRef,
+      where('referredUserId', '==', userId),
       where('referralCode', '==', referralCode),
-      where('status', '==', 'clicked'),
-      orderBy('createdAt', 'desc'),
       limit(1)
     );
+    const existingSnapshot = await getDocs(existingQuery);
     
-    const querySnapshot = await getDocs(q);
+    if (!existingSnapshot.empty) {
+      console.log(`User ${userId} already registered with referral code ${referralCode}`);
+      return;
+    }
     
-    if (querySnapshot.empty) {
-      console.log('No click found for this referral code, creating new referral');
-      // Create a new referral record if no click found
-      const newReferral: Partial<AffiliateReferral> = {
-        referralCode,
-        referrerId: affiliate.id,
+    // Claim this visitor's own click if it was tracked
+    const clickDoc = visitorId
+      ? await getDoc(doc(db, REFERRALS_COLLECTION, `${referralCode}_${visitorId}`))
+      : null;
+    
+    if (clickDoc?.exists() && clickDoc.data().status === 'clicked' && !clickDoc.data().referredUserId) {
+      console.log(`Updating referral ${clickDoc.id} with user info`);
+      
+      await updateDoc(clickDoc.ref, {
         referredUserId: userId,
         referredUserEmail: email,
         referredUserName: displayName,
         status: 'registered',
         registeredAt: new Date().toISOString(),
-        createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString()
-      };
-      
-      await addDoc(collection(db, REFERRALS_COLLECTION), newReferral);
+      });
     } else {
-      // Update existing referral with user info
-      const referralDoc = querySnapshot.docs[0];
-      
-      console.log(`Updating referral ${referralDoc.id} with user info`);
-      
-      await updateDoc(referralDoc.ref, {
+      console.log('No click found for this visitor, creating new referral');
+      // Create a new referral record if no click found
+      const newReferral: Partial<AffiliateReferral> = {
+        referralCode,
+        referrerId: affiliateId,
         referredUserId: userId,
         referredUserEmail: email,
         referredUserName: displayName,
+        ...(campaign ? { campaign } : {}),
         status: 'registered',
         registeredAt: new Date().toISOString(),
+        createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString()
-      });
+      };
+      
+      await addDoc(referralsRef, newReferral);
     }
     
     // Update affiliate stats
-    await updateDoc(doc(db, AFFILIATES_COLLECTION, affiliate.id), {
+    await updateDoc(doc(db, AFFILIATES_COLLECTION, affiliateId), {
       totalReferrals: increment(1),
       updatedAt: new Date().toISOString()
     });
@@ -266,17 +424,126 @@ export const registerWithReferral = async (
   }
 };
 
-// Create order with referral
+// Commission rules can target categories, which order items do not store
+const withProductCategories = async (items: CommissionableItem[]): Promise<CommissionableItem[]> => {
+  const productIds = Array.from(new Set(
+    items.filter(item => item.product_id && !item.category).map(item => item.product_id)
+  ));
+  const productDocs = await Promise.all(
+    productIds.map(productId => getDoc(doc(db, PRODUCTS_COLLECTION, productId)))
+  );
+  
+  const categories = new Map<string, string>();
+  productDocs.forEach(productDoc => {
+    if (productDoc.exists() && productDoc.data().category) {
+      categories.set(productDoc.id, productDoc.data().category);
+    }
+  });
+  
+  return items.map(item => item.category || !categories.has(item.product_id)
+    ? item
+    : { ...item, category: categories.get(item.product_id) });
+};
+
+// Referred sales so far this month, which decide the affiliate's tier
+export const getAffiliateMonthlySales = async (affiliateId: string, month: string = getCommissionMonth()): Promise<number> => {
+  try {
+    const salesDoc = await getDoc(doc(db, MONTHLY_SALES_COLLECTION, `${affiliateId}_${month}`));
+    return salesDoc.exists() ? salesDoc.data().sales || 0 : 0;
+  } catch (error) {
+    console.error('Error getting affiliate monthly sales:', error);
+    throw error;
+  }
+};
+
+// Remember the contact details an affiliate orders with, so commissions on
+// orders placed with the same details can be flagged as self-referrals
+export const recordAffiliateContact = async (
+  userId: string,
+  contact: { email?: string; phone?: string; address?: string; postal_code?: string }
+): Promise<void> => {
+  try {
+    const affiliateRef = doc(db, AFFILIATES_COLLECTION, userId);
+    const affiliateDoc = await getDoc(affiliateRef);
+    
+    if (!affiliateDoc.exists()) return;
+    
+    const contactKeys = await getContactKeys(contact);
+    const knownKeys: string[] = affiliateDoc.data().contactKeys || [];
+    
+    if (contactKeys.every(key => knownKeys.includes(key))) return;
+    
+    await updateDoc(affiliateRef, {
+      contactKeys: arrayUnion(...contactKeys),
+      updatedAt: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error recording affiliate contact:', error);
+    throw error;
+  }
+};
+
+type LedgerEntryInput = Omit<AffiliateLedgerEntry, 'id' | 'createdAt' | 'createdBy'>;
+
+const getLedgerEntryRef = (entryId?: string) =>
+  entryId ? doc(db, LEDGER_COLLECTION, entryId) : doc(collection(db, LEDGER_COLLECTION));
+
+const toLedgerEntryData = (entry: LedgerEntryInput) => ({
+  ...entry,
+  createdAt: new Date().toISOString(),
+  createdBy: auth.currentUser?.uid || null
+});
+
+// Balances are derived from the ledger, so every change to one is an entry here.
+// Entries for a commission or payout event get a fixed ID so the same event
+// can never be booked twice.
+const postLedgerEntry = async (entry: LedgerEntryInput, entryId?: string): Promise<void> => {
+  await setDoc(getLedgerEntryRef(entryId), toLedgerEntryData(entry));
+};
+
+// Same as postLedgerEntry, but booked together with the transaction's other writes
+const addLedgerEntry = (transaction: Transaction, entry: LedgerEntryInput, entryId?: string): void => {
+  transaction.set(getLedgerEntryRef(entryId), toLedgerEntryData(entry));
+};
+
+// Create order with referral. Commission is computed per line item from the
+// product, category and tier rules; shipping is not part of `items`. The
+// buyer's contact details are kept on the commission for fraud review.
 export const createOrderWithReferral = async (
   userId: string,
   orderId: string,
   orderTotal: number,
-  referralCode?: string
+  items: CommissionableItem[],
+  referralCode?: string,
+  discount: number = 0,
+  buyerContact: { email?: string; phone?: string; address?: string; postal_code?: string } = {}
 ): Promise<void> => {
   try {
     console.log(`Creating order ${orderId} with referral for user ${userId}`);
     
-    if (!referralCode) {
+    // Get commission rate from settings
+    const settingsRef = doc(db, SETTINGS_COLLECTION, 'default');
+    const settingsDoc = await getDoc(settingsRef);
+    
+    if (!settingsDoc.exists()) {
+      throw new Error('Affiliate settings not found');
+    }
+    
+    const settings = settingsDoc.data() as AffiliateSettings;
+    let campaign: string | undefined;
+    
+    // The attribution stored with the account decides who earns the order;
+    // users referred before it existed fall back to the code in the browser
+    // or their latest referral
+    const attribution = await getUserAttribution(userId);
+    if (attribution) {
+      if (!isAttributionActive(attribution, settings)) {
+        console.log(`Attribution of user ${userId} to ${attribution.referralCode} has expired`);
+        return;
+      }
+      referralCode = attribution.referralCode;
+      campaign = attribution.campaign;
+    } else if (!referralCode) {
       // Check if user was referred
       const referralsRef = collection(db, REFERRALS_COLLECTION);
       const q = query(
@@ -296,79 +563,60 @@ export const createOrderWithReferral = async (
       
       const referralDoc = querySnapshot.docs[0];
       const referral = referralDoc.data() as AffiliateReferral;
+      
+      if (!isAttributionActive({ attributedAt: referral.registeredAt || referral.createdAt }, settings)) {
+        console.log(`Referral of user ${userId} is outside the attribution window`);
+        return;
+      }
       referralCode = referral.referralCode;
       
       console.log(`Found referral code ${referralCode} for user ${userId}`);
     }
     
     // Get affiliate by referral code
-    const affiliate = await getAffiliateByReferralCode(referralCode);
-    if (!affiliate) {
+    const affiliateId = await resolveReferralCode(referralCode);
+    if (!affiliateId) {
       throw new Error('Invalid referral code');
     }
     
-    // Get commission rate from settings
-    const settingsRef = doc(db, SETTINGS_COLLECTION, 'default');
-    const settingsDoc = await getDoc(settingsRef);
-    
-    if (!settingsDoc.exists()) {
-      throw new Error('Affiliate settings not found');
+    // Affiliates never earn commission on their own purchases
+    if (affiliateId === userId) {
+      console.log(`Skipping self-referral commission for order ${orderId}`);
+      return;
     }
     
-    const settings = settingsDoc.data() as AffiliateSettings;
-    const commissionRate = settings.defaultCommissionRate;
-    
     // Calculate commission amount
-    const commissionAmount = Math.floor(orderTotal * (commissionRate / 100));
-    
-    // Create commission record
-    const commissionData: Omit<AffiliateCommission, 'id'> = {
-      affiliateId: affiliate.id,
-      referralId: '',
-      orderId,
-      orderTotal,
-      commissionAmount,
-      status: 'pending',
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString()
-    };
+    const month = getCommissionMonth();
+    const monthlySales = await getAffiliateMonthlySales(affiliateId, month);
+    const { amount: commissionAmount, breakdown } = calculateCommission(
+      await withProductCategories(items),
+      settings,
+      monthlySales,
+      discount
+    );
     
-    const commissionRef = await addDoc(collection(db, COMMISSIONS_COLLECTION), commissionData);
+    // Get user info if available
+    const userRef = doc(db, 'users', userId);
+    const userDoc = await getDoc(userRef);
+    const userName = userDoc.exists() ? userDoc.data().displayName || userDoc.data().email : '';
+    const userEmail = userDoc.exists() ? userDoc.data().email : '';
     
-    // Find and update referral if exists
+    // Find the buyer's own referral for this code
     const referralsRef = collection(db, REFERRALS_COLLECTION);
-    
-    // First try to find by userId
-    let q = query(
+    const q = query(
       referralsRef,
       where('referralCode', '==', referralCode),
       where('referredUserId', '==', userId),
       limit(1)
     );
     
-    let querySnapshot = await getDocs(q);
-    
-    // If not found by userId, try to find by visitorId or just referralCode
-    if (querySnapshot.empty) {
-      q = query(
-        referralsRef,
-        where('referralCode', '==', referralCode),
-        orderBy('createdAt', 'desc'),
-        limit(1)
-      );
-      
-      querySnapshot = await getDocs(q);
-    }
+    const querySnapshot = await getDocs(q);
+    let referralId: string;
     
     if (!querySnapshot.empty) {
       const referralDoc = querySnapshot.docs[0];
       const referral = referralDoc.data() as AffiliateReferral;
-      
-      // Get user info if available
-      const userRef = doc(db, 'users', userId);
-      const userDoc = await getDoc(userRef);
-      const userName = userDoc.exists() ? userDoc.data().displayName || userDoc.data().email : '';
-      const userEmail = userDoc.exists() ? userDoc.data().email : '';
+      campaign = campaign || referral.campaign;
       
       // Update referral with order info
       await updateDoc(referralDoc.ref, {
@@ -376,32 +624,21 @@ export const createOrderWithReferral = async (
         orderTotal,
         commissionAmount,
         status: 'ordered',
-        referredUserId: userId,
-        referredUserEmail: userEmail || referral.referredUserEmail,
-        referredUserName: userName || referral.referredUserName,
+        referredUserEmail: userEmail || referral.referredUserEmail || '',
+        referredUserName: userName || referral.referredUserName || '',
         orderedAt: new Date().toISOString(),
         updatedAt: new Date().toISOString()
       });
       
-      // Update commission with referral ID
-      await updateDoc(commissionRef, {
-        referralId: referralDoc.id
-      });
-      
+      referralId = referralDoc.id;
       console.log(`Updated referral ${referralDoc.id} with order info`);
     } else {
       // Create new referral record if none exists
       console.log(`No existing referral found, creating new one for order ${orderId}`);
       
-      // Get user info
-      const userRef = doc(db, 'users', userId);
-      const userDoc = await getDoc(userRef);
-      const userName = userDoc.exists() ? userDoc.data().displayName || userDoc.data().email : '';
-      const userEmail = userDoc.exists() ? userDoc.data().email : '';
-      
       const newReferral: Partial<AffiliateReferral> = {
         referralCode,
-        referrerId: affiliate.id,
+        referrerId: affiliateId,
         referredUserId: userId,
         referredUserEmail: userEmail,
         referredUserName: userName,
@@ -414,20 +651,54 @@ export const createOrderWithReferral = async (
         updatedAt: new Date().toISOString()
       };
       
-      const referralDocRef = await addDoc(collection(db, REFERRALS_COLLECTION), newReferral);
-      
-      // Update commission with referral ID
-      await updateDoc(commissionRef, {
-        referralId: referralDocRef.id
-      });
+      const referralDocRef = await addDoc(referralsRef, newReferral);
+      referralId = referralDocRef.id;
     }
     
-    // Update affiliate stats
-    await updateDoc(doc(db, AFFILIATES_COLLECTION, affiliate.id), {
-      totalCommission: increment(commissionAmount),
-      pendingCommission: increment(commissionAmount),
+    // Create commission record
+    const buyerContactKeys = await getContactKeys({ email: userEmail, ...buyerContact });
+    const commissionData: Omit<AffiliateCommission, 'id'> = {
+      affiliateId,
+      referralId,
+      orderId,
+      orderTotal,
+      commissionAmount,
+      breakdown,
+      status: 'pending',
+      deliveredAt: null,
+      buyer: {
+        userId,
+        contactKeys: buyerContactKeys
+      },
+      ...(campaign ? { campaign } : {}),
+      createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString()
-    });
+    };
+    
+    const commissionRef = await addDoc(collection(db, COMMISSIONS_COLLECTION), commissionData);
+    
+    // Count this order towards next orders' tier
+    await setDoc(doc(db, MONTHLY_SALES_COLLECTION, `${affiliateId}_${month}`), {
+      affiliateId,
+      month,
+      sales: increment(breakdown.lines.reduce((sum, line) => sum + line.lineTotal, 0)),
+      orders: increment(1),
+      lastOrderId: orderId,
+      updatedAt: new Date().toISOString()
+    }, { merge: true });
+    
+    if (commissionAmount > 0) {
+      await postLedgerEntry({
+        affiliateId,
+        type: 'commission',
+        debit: 'available',
+        credit: 'shop',
+        amount: commissionAmount,
+        commissionId: commissionRef.id,
+        orderId,
+        description: `Komisi order #${orderId.slice(-8)}`
+      }, `commission_${commissionRef.id}`);
+    }
     
     console.log(`Successfully created order ${orderId} with referral, commission: ${commissionAmount}`);
   } catch (error) {
@@ -490,7 +761,11 @@ export const getAffiliateSettings = async (): Promise<AffiliateSettings> => {
       // Create default settings if not exists
       const defaultSettings: Omit<AffiliateSettings, 'id'> = {
         defaultCommissionRate: 5, // 5%
+        maxCommissionRate: 5,
         minPayoutAmount: 5000, // ¥5000
+        holdPeriodDays: DEFAULT_HOLD_PERIOD_DAYS,
+        attributionWindowDays: DEFAULT_ATTRIBUTION_WINDOW_DAYS,
+        attributionModel: DEFAULT_ATTRIBUTION_MODEL,
         payoutMethods: ['Bank Transfer'],
         termsAndConditions: 'Default terms and conditions for the affiliate program.',
         createdAt: new Date().toISOString(),
@@ -519,11 +794,26 @@ export const getAffiliateSettings = async (): Promise<AffiliateSettings> => {
 export const updateAffiliateSettings = async (settings: Partial<AffiliateSettings>): Promise<void> => {
   try {
     const settingsRef = doc(db, SETTINGS_COLLECTION, 'default');
+    const before = await getDoc(settingsRef);
+    const current = (before.exists() ? before.data() : {}) as Partial<AffiliateSettings>;
     
     await updateDoc(settingsRef, {
       ...settings,
+      maxCommissionRate: getMaxCommissionRate({
+        defaultCommissionRate: settings.defaultCommissionRate ?? current.defaultCommissionRate ?? 0,
+        tiers: settings.tiers ?? current.tiers,
+        commissionRules: settings.commissionRules ?? current.commissionRules
+      }),
       updatedAt: new Date().toISOString()
     });
+    
+    await logAdminAction({
+      action: 'update_affiliate_settings',
+      target_type: 'affiliate_settings',
+      target_id: 'default',
+      before: before.exists() ? before.data() : null,
+      after: settings
+    });
   } catch (error) {
     console.error('Error updating affiliate settings:', error);
     throw error;
@@ -562,11 +852,21 @@ export const approveCommission = async (
     const commission = commissionDoc.data() as AffiliateCommission;
     
     // Update commission status
-    await updateDoc(commissionRef, {
+    const updates = {
       status: 'approved',
       approvedAt: new Date().toISOString(),
       approvedBy: adminId,
       updatedAt: new Date().toISOString()
+    };
+    await updateDoc(commissionRef, updates);
+    
+    await logAdminAction({
+      action: 'approve_commission',
+      target_type: 'affiliate_commission',
+      target_id: commissionId,
+      before: commission,
+      after: updates,
+      details: { affiliate_id: commission.affiliateId, order_id: commission.orderId, amount: commission.commissionAmount }
     });
     
     // Update referral if exists
@@ -584,6 +884,43 @@ export const approveCommission = async (
   }
 };
 
+// Commission that was earned on the products, before any voucher discount was spread
+const getCommissionBase = (commission: AffiliateCommission) =>
+  commission.breakdown
+    ? commission.breakdown.lines.reduce((sum, line) => sum + line.lineTotal, 0)
+    : commission.orderTotal;
+
+// What an order still adds to its affiliate's monthly sales: the commissionable
+// total, in proportion to the commission not yet taken back
+const getCountedSales = (commission: AffiliateCommission, commissionAmount: number) => {
+  const originalAmount = commission.originalAmount ?? commission.commissionAmount;
+  return originalAmount > 0
+    ? Math.round(getCommissionBase(commission) * commissionAmount / originalAmount)
+    : 0;
+};
+
+const getMonthlySalesRef = (commission: AffiliateCommission) =>
+  doc(db, MONTHLY_SALES_COLLECTION, `${commission.affiliateId}_${getCommissionMonth(new Date(commission.createdAt))}`);
+
+// Takes sales and orders back out of the month they counted towards
+const writeMonthlySalesReduction = (
+  transaction: Transaction,
+  salesDoc: DocumentSnapshot,
+  sales: number,
+  orders: number
+): void => {
+  if (!salesDoc.exists() || (sales <= 0 && orders <= 0)) {
+    return;
+  }
+  
+  const current = salesDoc.data();
+  transaction.update(salesDoc.ref, {
+    sales: Math.max(0, (current.sales || 0) - sales),
+    orders: Math.max(0, (current.orders || 0) - orders),
+    updatedAt: new Date().toISOString()
+  });
+};
+
 // Reject commission
 export const rejectCommission = async (
   commissionId: string, 
@@ -592,37 +929,67 @@ export const rejectCommission = async (
 ): Promise<void> => {
   try {
     const commissionRef = doc(db, COMMISSIONS_COLLECTION, commissionId);
-    const commissionDoc = await getDoc(commissionRef);
-    
-    if (!commissionDoc.exists()) {
-      throw new Error('Commission not found');
-    }
-    
-    const commission = commissionDoc.data() as AffiliateCommission;
     
-    // Update commission status
-    await updateDoc(commissionRef, {
-      status: 'rejected',
-      rejectedAt: new Date().toISOString(),
-      rejectedBy: adminId,
-      notes: reason,
-      updatedAt: new Date().toISOString()
-    });
-    
-    // Update referral if exists
-    if (commission.referralId) {
-      await updateDoc(doc(db, REFERRALS_COLLECTION, commission.referralId), {
+    // The commission, its referral, its ledger entry and the month's sales
+    // change together
+    const { commission, updates } = await runTransaction(db, async (transaction) => {
+      const commissionDoc = await transaction.get(commissionRef);
+      
+      if (!commissionDoc.exists()) {
+        throw new Error('Commission not found');
+      }
+      
+      const commission = commissionDoc.data() as AffiliateCommission;
+      // Nothing was booked if it never counted or was already reversed
+      const counted = commission.status !== 'rejected' && commission.status !== 'reversed' && commission.commissionAmount > 0;
+      const salesDoc = counted ? await transaction.get(getMonthlySalesRef(commission)) : null;
+      
+      // Update commission status
+      const updates = {
         status: 'rejected',
         rejectedAt: new Date().toISOString(),
         rejectedBy: adminId,
+        notes: reason,
         updatedAt: new Date().toISOString()
-      });
-    }
+      };
+      transaction.update(commissionRef, updates);
+      
+      // Update referral if exists
+      if (commission.referralId) {
+        transaction.update(doc(db, REFERRALS_COLLECTION, commission.referralId), {
+          status: 'rejected',
+          rejectedAt: new Date().toISOString(),
+          rejectedBy: adminId,
+          updatedAt: new Date().toISOString()
+        });
+      }
+      
+      // Take back what was booked
+      if (counted && salesDoc) {
+        addLedgerEntry(transaction, {
+          affiliateId: commission.affiliateId,
+          type: 'reversal',
+          debit: 'shop',
+          credit: 'available',
+          amount: commission.commissionAmount,
+          commissionId,
+          orderId: commission.orderId,
+          description: `Komisi ditolak: ${reason}`
+        }, `reversal_${commissionId}_rejected`);
+        
+        writeMonthlySalesReduction(transaction, salesDoc, getCountedSales(commission, commission.commissionAmount), 1);
+      }
+      
+      return { commission, updates };
+    });
     
-    // Update affiliate stats
-    await updateDoc(doc(db, AFFILIATES_COLLECTION, commission.affiliateId), {
-      pendingCommission: increment(-commission.commissionAmount),
-      updatedAt: new Date().toISOString()
+    await logAdminAction({
+      action: 'reject_commission',
+      target_type: 'affiliate_commission',
+      target_id: commissionId,
+      before: commission,
+      after: updates,
+      details: { affiliate_id: commission.affiliateId, order_id: commission.orderId, amount: commission.commissionAmount, reason }
     });
   } catch (error) {
     console.error('Error rejecting commission:', error);
@@ -630,39 +997,188 @@ export const rejectCommission = async (
   }
 };
 
-// Request payout
-export const requestPayout = async (
-  affiliateId: string,
-  amount: number,
-  method: string,
-  bankInfo?: {
-    bankName: string;
-    accountNumber: string;
-    accountName: string;
-  }
-): Promise<string> => {
+/**
+ * Takes back commission when its order is cancelled, its payment is rejected
+ * or it is (partly) refunded. Cancellations and rejections reverse whatever is
+ * left; refunds reverse the refunded share of the commissionable total. Paid
+ * commissions are clawed back from the affiliate's future balance. Each
+ * reversal is written to the affiliate ledger and takes its share of the
+ * order back out of the affiliate's monthly sales. Returns the amount reversed.
+ */
+export const reverseOrderCommission = async (
+  orderId: string,
+  reason: CommissionAdjustmentReason,
+  options: { refundAmount?: number; notes?: string } = {}
+): Promise<number> => {
   try {
-    // Validate amount against minimum payout
-    const settings = await getAffiliateSettings();
-    if (amount < settings.minPayoutAmount) {
-      throw new Error(`Minimum payout amount is ¥${settings.minPayoutAmount}`);
-    }
+    const q = query(collection(db, COMMISSIONS_COLLECTION), where('orderId', '==', orderId));
+    const snapshot = await getDocs(q);
+    
+    // Re-read inside the transaction so two reversals of the same order
+    // cannot both take back the same commission
+    const reversals = await runTransaction(db, async (transaction) => {
+      const commissions: AffiliateCommission[] = [];
+      for (const commissionDoc of snapshot.docs) {
+        const current = await transaction.get(commissionDoc.ref);
+        if (current.exists()) {
+          commissions.push({ id: current.id, ...current.data() } as AffiliateCommission);
+        }
+      }
+      
+      const salesDocs = new Map<string, DocumentSnapshot>();
+      for (const commission of commissions) {
+        const salesRef = getMonthlySalesRef(commission);
+        if (!salesDocs.has(salesRef.path)) {
+          salesDocs.set(salesRef.path, await transaction.get(salesRef));
+        }
+      }
+      
+      const salesReductions = new Map<string, { sales: number; orders: number }>();
+      const reversals: { commission: AffiliateCommission; amount: number; remaining: number }[] = [];
+      
+      for (const commission of commissions) {
+        // Rejected commissions never counted; reversed ones have nothing left
+        if (commission.status === 'rejected' || commission.status === 'reversed' || commission.commissionAmount <= 0) {
+          continue;
+        }
+        
+        const originalAmount = commission.originalAmount ?? commission.commissionAmount;
+        const amount = reason === 'refund'
+          ? Math.min(
+              commission.commissionAmount,
+              Math.round(originalAmount * Math.min(1, (options.refundAmount || 0) / (getCommissionBase(commission) || 1)))
+            )
+          : commission.commissionAmount;
+        
+        if (amount <= 0) continue;
+        
+        const timestamp = new Date().toISOString();
+        const createdBy = auth.currentUser?.uid || null;
+        const adjustment: CommissionAdjustment = {
+          id: `${reason}-${Date.parse(timestamp)}`,
+          reason,
+          amount,
+          ...(options.notes ? { notes: options.notes } : {}),
+          createdAt: timestamp,
+          createdBy
+        };
+        const remaining = commission.commissionAmount - amount;
+        
+        transaction.update(doc(db, COMMISSIONS_COLLECTION, commission.id), {
+          commissionAmount: remaining,
+          originalAmount,
+          adjustments: [...(commission.adjustments || []), adjustment],
+          // Paid commissions stay paid; the clawback shows in the ledger
+          status: remaining === 0 && commission.status !== 'paid' ? 'reversed' : commission.status,
+          updatedAt: timestamp
+        });
+        
+        addLedgerEntry(transaction, {
+          affiliateId: commission.affiliateId,
+          type: 'reversal',
+          debit: 'shop',
+          credit: 'available',
+          amount,
+          commissionId: commission.id,
+          orderId,
+          description: options.notes
+            ? `${COMMISSION_ADJUSTMENT_LABELS[reason]}: ${options.notes}`
+            : COMMISSION_ADJUSTMENT_LABELS[reason]
+        }, `reversal_${commission.id}_${adjustment.id}`);
+        
+        const salesPath = getMonthlySalesRef(commission).path;
+        const reduction = salesReductions.get(salesPath) || { sales: 0, orders: 0 };
+        salesReductions.set(salesPath, {
+          sales: reduction.sales + getCountedSales(commission, commission.commissionAmount) - getCountedSales(commission, remaining),
+          orders: reduction.orders + (remaining === 0 ? 1 : 0)
+        });
+        
+        reversals.push({ commission, amount, remaining });
+      }
+      
+      salesReductions.forEach((reduction, salesPath) => {
+        writeMonthlySalesReduction(transaction, salesDocs.get(salesPath) as DocumentSnapshot, reduction.sales, reduction.orders);
+      });
+      
+      return reversals;
+    });
     
-    // Check if affiliate has enough pending commission
-    const affiliateRef = doc(db, AFFILIATES_COLLECTION, affiliateId);
-    const affiliateDoc = await getDoc(affiliateRef);
+    for (const { commission, amount, remaining } of reversals) {
+      await logAdminAction({
+        action: 'reverse_commission',
+        target_type: 'affiliate_commission',
+        target_id: commission.id,
+        before: { commissionAmount: commission.commissionAmount, status: commission.status },
+        after: { commissionAmount: remaining },
+        details: { affiliate_id: commission.affiliateId, order_id: orderId, amount, reason }
+      });
+    }
+    
+    return reversals.reduce((sum, { amount }) => sum + amount, 0);
+  } catch (error) {
+    console.error('Error reversing order commission:', error);
+    throw error;
+  }
+};
+
+// The hold period of an order's commission starts once the order is delivered
+export const startCommissionHold = async (orderId: string, deliveredAt: string = new Date().toISOString()): Promise<void> => {
+  try {
+    const q = query(collection(db, COMMISSIONS_COLLECTION), where('orderId', '==', orderId));
+    const snapshot = await getDocs(q);
+    
+    await Promise.all(snapshot.docs
+      .filter(commissionDoc => commissionDoc.data().deliveredAt === null)
+      .map(commissionDoc => updateDoc(commissionDoc.ref, {
+        deliveredAt,
+        updatedAt: deliveredAt
+      })));
+  } catch (error) {
+    console.error('Error starting commission hold:', error);
+    throw error;
+  }
+};
+
+// Request payout
+export const requestPayout = async (
+  affiliateId: string,
+  amount: number,
+  method: string,
+  bankInfo?: AffiliateBankInfo
+): Promise<string> => {
+  try {
+    // Validate amount against minimum payout
+    const settings = await getAffiliateSettings();
+    if (amount < settings.minPayoutAmount) {
+      throw new Error(`Minimum payout amount is ¥${settings.minPayoutAmount}`);
+    }
+    
+    const affiliateDoc = await getDoc(doc(db, AFFILIATES_COLLECTION, affiliateId));
     
     if (!affiliateDoc.exists()) {
       throw new Error('Affiliate not found');
     }
     
-    const affiliate = affiliateDoc.data() as AffiliateUser;
+    // Check if affiliate has enough approved balance outside the hold period
+    // that earlier requests have not claimed yet
+    const [ledger, commissions, payouts] = await Promise.all([
+      getAffiliateLedger(affiliateId),
+      getAffiliateCommissions(affiliateId),
+      getAffiliatePayouts(affiliateId)
+    ]);
+    const { withdrawable } = getWithdrawableBalance(
+      getLedgerBalance(ledger),
+      commissions,
+      payouts,
+      getHoldPeriodDays(settings)
+    );
     
-    if (affiliate.pendingCommission < amount) {
-      throw new Error('Insufficient pending commission');
+    if (withdrawable < amount) {
+      throw new Error('Insufficient available balance; some commission may still be on hold or awaiting approval');
     }
     
-    // Create payout request
+    // Create payout request. Its amount is reserved on the ledger once staff
+    // accept it for processing.
     const payoutData: Omit<AffiliatePayout, 'id'> = {
       affiliateId,
       amount,
@@ -674,11 +1190,13 @@ export const requestPayout = async (
     
     const payoutRef = await addDoc(collection(db, PAYOUTS_COLLECTION), payoutData);
     
-    // Update affiliate stats
-    await updateDoc(affiliateRef, {
-      pendingCommission: increment(-amount),
-      updatedAt: new Date().toISOString()
-    });
+    // Payout runs pay to the account the affiliate used last
+    if (bankInfo) {
+      await updateDoc(doc(db, AFFILIATES_COLLECTION, affiliateId), {
+        bankInfo,
+        updatedAt: new Date().toISOString()
+      });
+    }
     
     return payoutRef.id;
   } catch (error) {
@@ -687,6 +1205,138 @@ export const requestPayout = async (
   }
 };
 
+const getPayoutReservationId = (payoutId: string) => `payout_${payoutId}_requested`;
+
+/**
+ * Staff only accept a payout request while the affiliate's withdrawable
+ * balance, leaving out the request itself, still covers it. Requests from
+ * before staff reserved them already hold their amount.
+ */
+const assertPayoutCovered = async (payoutId: string, payout: AffiliatePayout): Promise<void> => {
+  const [settings, ledger, commissions, payouts] = await Promise.all([
+    getAffiliateSettings(),
+    getAffiliateLedger(payout.affiliateId),
+    getAffiliateCommissions(payout.affiliateId),
+    getAffiliatePayouts(payout.affiliateId)
+  ]);
+  
+  if (ledger.some(entry => entry.id === getPayoutReservationId(payoutId))) {
+    return;
+  }
+  
+  const { withdrawable } = getWithdrawableBalance(
+    getLedgerBalance(ledger),
+    commissions,
+    payouts.filter(other => other.id !== payoutId),
+    getHoldPeriodDays(settings)
+  );
+  if (withdrawable < payout.amount) {
+    throw new Error('Insufficient withdrawable balance for this payout');
+  }
+};
+
+interface PayoutState {
+  payout: AffiliatePayout;
+  reserved: boolean; // whether the ledger already holds its amount
+}
+
+// Null when the payout does not exist
+const readPayoutState = async (transaction: Transaction, payoutId: string): Promise<PayoutState | null> => {
+  const payoutDoc = await transaction.get(doc(db, PAYOUTS_COLLECTION, payoutId));
+  
+  if (!payoutDoc.exists()) {
+    return null;
+  }
+  
+  const reservationDoc = await transaction.get(doc(db, LEDGER_COLLECTION, getPayoutReservationId(payoutId)));
+  return { payout: payoutDoc.data() as AffiliatePayout, reserved: reservationDoc.exists() };
+};
+
+/**
+ * Moves a payout read with readPayoutState to `status` within `transaction`,
+ * together with its ledger entry: accepting it reserves the amount,
+ * completing it pays the reserved amount out, and rejecting it returns
+ * whatever was reserved or paid. Returns the fields written to the payout.
+ */
+const writePayoutStatus = (
+  transaction: Transaction,
+  payoutId: string,
+  { payout, reserved }: PayoutState,
+  adminId: string,
+  status: 'processing' | 'completed' | 'rejected',
+  notes?: string
+): Record<string, unknown> => {
+  if (payout.status !== 'pending' && status === 'processing') {
+    throw new Error('Payout is not in pending status');
+  }
+  
+  if (payout.status !== 'processing' && status === 'completed') {
+    throw new Error('Payout is not in processing status');
+  }
+  
+  if (payout.status === 'rejected' && status === 'rejected') {
+    throw new Error('Payout is already rejected');
+  }
+  
+  const updateData: Record<string, unknown> = {
+    status,
+    notes,
+    updatedAt: new Date().toISOString()
+  };
+  
+  if (status === 'processing') {
+    updateData.processedAt = new Date().toISOString();
+    updateData.processedBy = adminId;
+    
+    // Reserve the amount until the payout is completed or rejected
+    if (!reserved) {
+      addLedgerEntry(transaction, {
+        affiliateId: payout.affiliateId,
+        type: 'payout',
+        debit: 'payout_requested',
+        credit: 'available',
+        amount: payout.amount,
+        payoutId,
+        description: `Permintaan pencairan via ${payout.method}`
+      }, getPayoutReservationId(payoutId));
+    }
+  } else if (status === 'completed') {
+    updateData.completedAt = new Date().toISOString();
+    updateData.completedBy = adminId;
+    
+    addLedgerEntry(transaction, {
+      affiliateId: payout.affiliateId,
+      type: 'payout',
+      debit: 'paid',
+      credit: 'payout_requested',
+      amount: payout.amount,
+      payoutId,
+      description: `Pencairan selesai via ${payout.method}`
+    }, `payout_${payoutId}_completed`);
+  } else if (status === 'rejected') {
+    updateData.rejectedAt = new Date().toISOString();
+    updateData.rejectedBy = adminId;
+    
+    // Return the amount to the available balance; a request that was never
+    // accepted has nothing to return
+    if (payout.status === 'completed' || reserved) {
+      addLedgerEntry(transaction, {
+        affiliateId: payout.affiliateId,
+        type: 'payout',
+        debit: 'available',
+        credit: payout.status === 'completed' ? 'paid' : 'payout_requested',
+        amount: payout.amount,
+        payoutId,
+        description: notes ? `Pencairan ditolak: ${notes}` : 'Pencairan ditolak'
+      }, `payout_${payoutId}_rejected`);
+    }
+  }
+  
+  transaction.update(doc(db, PAYOUTS_COLLECTION, payoutId), updateData);
+  
+  return updateData;
+};
+
 // Process payout (admin)
 export const processPayout = async (
   payoutId: string,
@@ -695,53 +1345,37 @@ export const processPayout = async (
   notes?: string
 ): Promise<void> => {
   try {
-    const payoutRef = doc(db, PAYOUTS_COLLECTION, payoutId);
-    const payoutDoc = await getDoc(payoutRef);
-    
-    if (!payoutDoc.exists()) {
-      throw new Error('Payout not found');
-    }
-    
-    const payout = payoutDoc.data() as AffiliatePayout;
-    
-    if (payout.status !== 'pending' && status === 'processing') {
-      throw new Error('Payout is not in pending status');
-    }
-    
-    if (payout.status !== 'processing' && status === 'completed') {
-      throw new Error('Payout is not in processing status');
-    }
-    
-    const updateData: any = {
-      status,
-      notes,
-      updatedAt: new Date().toISOString()
-    };
-    
     if (status === 'processing') {
-      updateData.processedAt = new Date().toISOString();
-      updateData.processedBy = adminId;
-    } else if (status === 'completed') {
-      updateData.completedAt = new Date().toISOString();
-      updateData.completedBy = adminId;
-      
-      // Update affiliate stats
-      await updateDoc(doc(db, AFFILIATES_COLLECTION, payout.affiliateId), {
-        paidCommission: increment(payout.amount),
-        updatedAt: new Date().toISOString()
-      });
-    } else if (status === 'rejected') {
-      updateData.rejectedAt = new Date().toISOString();
-      updateData.rejectedBy = adminId;
+      const payoutDoc = await getDoc(doc(db, PAYOUTS_COLLECTION, payoutId));
       
-      // Return amount to pending commission
-      await updateDoc(doc(db, AFFILIATES_COLLECTION, payout.affiliateId), {
-        pendingCommission: increment(payout.amount),
-        updatedAt: new Date().toISOString()
-      });
+      if (!payoutDoc.exists()) {
+        throw new Error('Payout not found');
+      }
+      
+      await assertPayoutCovered(payoutId, payoutDoc.data() as AffiliatePayout);
     }
     
-    await updateDoc(payoutRef, updateData);
+    const { payout, updateData } = await runTransaction(db, async (transaction) => {
+      const state = await readPayoutState(transaction, payoutId);
+      
+      if (!state) {
+        throw new Error('Payout not found');
+      }
+      
+      return {
+        payout: state.payout,
+        updateData: writePayoutStatus(transaction, payoutId, state, adminId, status, notes)
+      };
+    });
+    
+    await logAdminAction({
+      action: `${status === 'processing' ? 'process' : status === 'completed' ? 'complete' : 'reject'}_payout`,
+      target_type: 'affiliate_payout',
+      target_id: payoutId,
+      before: payout,
+      after: updateData,
+      details: { affiliate_id: payout.affiliateId, amount: payout.amount }
+    });
   } catch (error) {
     console.error('Error processing payout:', error);
     throw error;
@@ -788,6 +1422,37 @@ export const getAllPayouts = async (): Promise<AffiliatePayout[]> => {
   }
 };
 
+// Get an affiliate's ledger, oldest entry first
+export const getAffiliateLedger = async (affiliateId: string): Promise<AffiliateLedgerEntry[]> => {
+  try {
+    // Use a simpler query to avoid index requirements
+    const q = query(collection(db, LEDGER_COLLECTION), where('affiliateId', '==', affiliateId));
+    const querySnapshot = await getDocs(q);
+    
+    return querySnapshot.docs
+      .map(doc => ({ id: doc.id, ...doc.data() } as AffiliateLedgerEntry))
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  } catch (error) {
+    console.error('Error getting affiliate ledger:', error);
+    throw error;
+  }
+};
+
+// Get all ledger entries (admin)
+export const getAllLedgerEntries = async (): Promise<AffiliateLedgerEntry[]> => {
+  try {
+    const querySnapshot = await getDocs(collection(db, LEDGER_COLLECTION));
+    
+    return querySnapshot.docs.map(doc => ({
+      id: doc.id,
+      ...doc.data()
+    } as AffiliateLedgerEntry));
+  } catch (error) {
+    console.error('Error getting ledger entries:', error);
+    throw error;
+  }
+};
+
 // Subscribe to affiliate stats (real-time)
 export const subscribeToAffiliateStats = (
   affiliateId: string,
@@ -928,14 +1593,154 @@ export const subscribeToAffiliatePayouts = (
   }
 };
 
+// Subscribe to an affiliate's ledger (real-time), oldest entry first
+export const subscribeToAffiliateLedger = (
+  affiliateId: string,
+  callback: (entries: AffiliateLedgerEntry[]) => void
+) => {
+  try {
+    const q = query(collection(db, LEDGER_COLLECTION), where('affiliateId', '==', affiliateId));
+    
+    return onSnapshot(q, (querySnapshot) => {
+      const entries = querySnapshot.docs.map(doc => ({
+        id: doc.id,
+        ...doc.data()
+      } as AffiliateLedgerEntry));
+      
+      entries.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+      
+      callback(entries);
+    }, (error) => {
+      console.error('Error in ledger snapshot:', error);
+    });
+  } catch (error) {
+    console.error('Error setting up ledger subscription:', error);
+    // Return a no-op function to avoid errors when unsubscribing
+    return () => {};
+  }
+};
+
+// Subscribe to an affiliate's notifications (real-time), newest first
+export const subscribeToAffiliateNotifications = (
+  affiliateId: string,
+  callback: (notifications: AffiliateNotification[]) => void
+) => {
+  try {
+    const q = query(collection(db, NOTIFICATIONS_COLLECTION), where('affiliateId', '==', affiliateId));
+    
+    return onSnapshot(q, (querySnapshot) => {
+      const notifications = querySnapshot.docs.map(doc => ({
+        id: doc.id,
+        ...doc.data()
+      } as AffiliateNotification));
+      
+      notifications.sort((a, b) => b.eventAt.localeCompare(a.eventAt));
+      
+      callback(notifications);
+    }, (error) => {
+      console.error('Error in notifications snapshot:', error);
+    });
+  } catch (error) {
+    console.error('Error setting up notifications subscription:', error);
+    // Return a no-op function to avoid errors when unsubscribing
+    return () => {};
+  }
+};
+
+// Get an affiliate's notification settings, starting the feed from now on first use
+export const getNotificationSettings = async (
+  affiliateId: string,
+  totalClicks: number = 0
+): Promise<AffiliateNotificationSettings> => {
+  try {
+    const settingsRef = doc(db, NOTIFICATION_SETTINGS_COLLECTION, affiliateId);
+    const settingsDoc = await getDoc(settingsRef);
+    
+    if (settingsDoc.exists()) {
+      return settingsDoc.data() as AffiliateNotificationSettings;
+    }
+    
+    const now = new Date().toISOString();
+    const settings: AffiliateNotificationSettings = {
+      affiliateId,
+      preferences: DEFAULT_NOTIFICATION_PREFERENCES,
+      since: now,
+      clickMilestone: getReachedClickMilestone(totalClicks),
+      updatedAt: now
+    };
+    
+    await setDoc(settingsRef, settings);
+    
+    return settings;
+  } catch (error) {
+    console.error('Error getting notification settings:', error);
+    throw error;
+  }
+};
+
+// Turn notification types on or off
+export const updateNotificationPreferences = async (
+  affiliateId: string,
+  preferences: Record<AffiliateNotificationType, boolean>
+): Promise<void> => {
+  try {
+    await updateDoc(doc(db, NOTIFICATION_SETTINGS_COLLECTION, affiliateId), {
+      preferences,
+      updatedAt: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error updating notification preferences:', error);
+    throw error;
+  }
+};
+
+// Record new notifications, and the click milestone they reached, in one batch
+export const recordAffiliateNotifications = async (
+  affiliateId: string,
+  notifications: AffiliateNotification[],
+  clickMilestone?: number
+): Promise<void> => {
+  try {
+    const batch = writeBatch(db);
+    
+    notifications.forEach(({ id, ...notification }) => {
+      batch.set(doc(db, NOTIFICATIONS_COLLECTION, id), notification);
+    });
+    
+    if (clickMilestone !== undefined) {
+      batch.update(doc(db, NOTIFICATION_SETTINGS_COLLECTION, affiliateId), {
+        clickMilestone,
+        updatedAt: new Date().toISOString()
+      });
+    }
+    
+    await batch.commit();
+  } catch (error) {
+    console.error('Error recording affiliate notifications:', error);
+    throw error;
+  }
+};
+
+// Mark notifications as read
+export const markNotificationsRead = async (notificationIds: string[]): Promise<void> => {
+  try {
+    const batch = writeBatch(db);
+    
+    notificationIds.forEach(id => {
+      batch.update(doc(db, NOTIFICATIONS_COLLECTION, id), { read: true });
+    });
+    
+    await batch.commit();
+  } catch (error) {
+    console.error('Error marking notifications as read:', error);
+    throw error;
+  }
+};
+
 // Update affiliate bank info
 export const updateAffiliateBankInfo = async (
   affiliateId: string,
-  bankInfo: {
-    bankName: string;
-    accountNumber: string;
-    accountName: string;
-  }
+  bankInfo: AffiliateBankInfo
 ): Promise<void> => {
   try {
     const affiliateRef = doc(db, AFFILIATES_COLLECTION, affiliateId);
@@ -1005,6 +1810,343 @@ export const getAffiliateFollowers = async (affiliateId: string): Promise<Affili
   }
 };
 
+/**
+ * Compares every affiliate's ledger balances with what their commission and
+ * payout documents say, and returns the affiliates whose ledger has drifted
+ * (e.g. a write that failed half-way, or balances from before the ledger).
+ */
+export const findLedgerDrift = async (): Promise<AffiliateLedgerDrift[]> => {
+  try {
+    const [affiliates, commissionsSnapshot, payouts, entries] = await Promise.all([
+      getAllAffiliates(),
+      getDocs(collection(db, COMMISSIONS_COLLECTION)),
+      getAllPayouts(),
+      getAllLedgerEntries()
+    ]);
+    
+    const commissions = commissionsSnapshot.docs.map(doc => ({
+      id: doc.id,
+      ...doc.data()
+    } as AffiliateCommission));
+    const balances = getLedgerBalances(entries);
+    
+    return affiliates
+      .map(affiliate => ({
+        affiliateId: affiliate.id,
+        displayName: affiliate.displayName,
+        expected: getExpectedBalance(
+          commissions.filter(commission => commission.affiliateId === affiliate.id),
+          payouts.filter(payout => payout.affiliateId === affiliate.id)
+        ),
+        actual: balances[affiliate.id] || EMPTY_BALANCE
+      }))
+      .filter(drift => !isBalanceEqual(drift.expected, drift.actual));
+  } catch (error) {
+    console.error('Error finding ledger drift:', error);
+    throw error;
+  }
+};
+
+// Book adjustment entries that bring the ledger in line with the documents
+export const repairLedgerDrift = async (drift: AffiliateLedgerDrift): Promise<void> => {
+  try {
+    const postings = getCorrectionPostings(drift.expected, drift.actual);
+    
+    for (const posting of postings) {
+      await postLedgerEntry({
+        affiliateId: drift.affiliateId,
+        type: 'adjustment',
+        ...posting,
+        description: 'Koreksi rekonsiliasi'
+      });
+    }
+    
+    await logAdminAction({
+      action: 'reconcile_affiliate_ledger',
+      target_type: 'affiliate',
+      target_id: drift.affiliateId,
+      before: drift.actual,
+      after: drift.expected,
+      details: { postings: postings.length }
+    });
+  } catch (error) {
+    console.error('Error repairing ledger drift:', error);
+    throw error;
+  }
+};
+
+// Get all payout runs (admin), newest first
+export const getPayoutRuns = async (): Promise<AffiliatePayoutRun[]> => {
+  try {
+    const q = query(collection(db, PAYOUT_RUNS_COLLECTION), orderBy('createdAt', 'desc'));
+    const querySnapshot = await getDocs(q);
+    
+    return querySnapshot.docs.map(doc => ({
+      id: doc.id,
+      ...doc.data()
+    } as AffiliatePayoutRun));
+  } catch (error) {
+    console.error('Error getting payout runs:', error);
+    throw error;
+  }
+};
+
+/**
+ * Starts a monthly payout run: every affiliate with bank details whose
+ * approved, withdrawable balance reaches the minimum payout gets a payout in
+ * 'processing', reserved on the ledger like a request staff accept. Only one run
+ * can be open at a time.
+ */
+export const createPayoutRun = async (adminId: string, month: string = getCommissionMonth()): Promise<string> => {
+  try {
+    const openRuns = await getDocs(query(collection(db, PAYOUT_RUNS_COLLECTION), where('status', '==', 'draft')));
+    if (!openRuns.empty) {
+      throw new Error('Masih ada payout run yang belum selesai');
+    }
+    
+    const [settings, affiliates, entries, commissionsSnapshot, payouts] = await Promise.all([
+      getAffiliateSettings(),
+      getAllAffiliates(),
+      getAllLedgerEntries(),
+      getDocs(collection(db, COMMISSIONS_COLLECTION)),
+      getAllPayouts()
+    ]);
+    const commissions = commissionsSnapshot.docs.map(doc => ({
+      id: doc.id,
+      ...doc.data()
+    } as AffiliateCommission));
+    
+    const candidates = getPayoutRunCandidates(affiliates, entries, commissions, payouts, settings)
+      .filter(candidate => candidate.affiliate.bankInfo);
+    if (candidates.length === 0) {
+      throw new Error('Tidak ada saldo affiliate yang memenuhi syarat pencairan');
+    }
+    
+    const runRef = doc(collection(db, PAYOUT_RUNS_COLLECTION));
+    const now = new Date().toISOString();
+    const items: AffiliatePayoutRunItem[] = candidates.map(candidate => ({
+      affiliateId: candidate.affiliate.id,
+      displayName: candidate.affiliate.displayName,
+      email: candidate.affiliate.email,
+      amount: candidate.amount,
+      payoutId: doc(collection(db, PAYOUTS_COLLECTION)).id,
+      bankInfo: candidate.affiliate.bankInfo as AffiliateBankInfo,
+      commissions: candidate.commissions
+    }));
+    const run: Omit<AffiliatePayoutRun, 'id'> = {
+      month,
+      status: 'draft',
+      items,
+      totalAmount: items.reduce((sum, item) => sum + item.amount, 0),
+      createdAt: now,
+      createdBy: adminId
+    };
+    
+    // The payouts, their reservations and the run are written together, so a
+    // failure part-way leaves no payout outside a run
+    await runTransaction(db, async (transaction) => {
+      for (const item of items) {
+        transaction.set(doc(db, PAYOUTS_COLLECTION, item.payoutId), {
+          affiliateId: item.affiliateId,
+          amount: item.amount,
+          method: 'Bank Transfer',
+          status: 'processing',
+          bankInfo: item.bankInfo,
+          runId: runRef.id,
+          requestedAt: now,
+          processedAt: now,
+          processedBy: adminId
+        });
+        
+        addLedgerEntry(transaction, {
+          affiliateId: item.affiliateId,
+          type: 'payout',
+          debit: 'payout_requested',
+          credit: 'available',
+          amount: item.amount,
+          payoutId: item.payoutId,
+          description: `Pencairan bulanan ${month}`
+        }, getPayoutReservationId(item.payoutId));
+      }
+      
+      transaction.set(runRef, run);
+    });
+    
+    await logAdminAction({
+      action: 'create_payout_run',
+      target_type: 'affiliate_payout_run',
+      target_id: runRef.id,
+      after: { month, affiliates: items.length, totalAmount: run.totalAmount }
+    });
+    
+    return runRef.id;
+  } catch (error) {
+    console.error('Error creating payout run:', error);
+    throw error;
+  }
+};
+
+// Marks every transfer in the run and the commission it pays as done once the
+// bank file has been sent, all in one transaction. Payouts already completed
+// or rejected on their own are left as they are.
+export const completePayoutRun = async (runId: string, adminId: string): Promise<void> => {
+  try {
+    const runRef = doc(db, PAYOUT_RUNS_COLLECTION, runId);
+    
+    const { run, completed, updates } = await runTransaction(db, async (transaction) => {
+      const runDoc = await transaction.get(runRef);
+      
+      if (!runDoc.exists()) {
+        throw new Error('Payout run not found');
+      }
+      
+      const run = { id: runDoc.id, ...runDoc.data() } as AffiliatePayoutRun;
+      
+      if (run.status !== 'draft') {
+        throw new Error('Payout run is not open');
+      }
+      
+      const payoutStates = new Map<string, PayoutState>();
+      const approvedCommissionIds: string[] = [];
+      for (const item of run.items) {
+        const state = await readPayoutState(transaction, item.payoutId);
+        if (state?.payout.status === 'processing') {
+          payoutStates.set(item.payoutId, state);
+        }
+        
+        for (const commission of item.commissions) {
+          const commissionDoc = await transaction.get(doc(db, COMMISSIONS_COLLECTION, commission.commissionId));
+          if (commissionDoc.exists() && (commissionDoc.data() as AffiliateCommission).status === 'approved') {
+            approvedCommissionIds.push(commission.commissionId);
+          }
+        }
+      }
+      
+      const completed: { payout: AffiliatePayout; payoutId: string; updateData: Record<string, unknown> }[] = [];
+      payoutStates.forEach((state, payoutId) => {
+        completed.push({
+          payout: state.payout,
+          payoutId,
+          updateData: writePayoutStatus(transaction, payoutId, state, adminId, 'completed', `Payout run ${run.month}`)
+        });
+      });
+      
+      for (const commissionId of approvedCommissionIds) {
+        transaction.update(doc(db, COMMISSIONS_COLLECTION, commissionId), {
+          status: 'paid',
+          paidAt: new Date().toISOString(),
+          paidBy: adminId,
+          updatedAt: new Date().toISOString()
+        });
+      }
+      
+      const updates = {
+        status: 'completed',
+        completedAt: new Date().toISOString(),
+        completedBy: adminId
+      };
+      transaction.update(runRef, updates);
+      
+      return { run, completed, updates };
+    });
+    
+    for (const { payout, payoutId, updateData } of completed) {
+      await logAdminAction({
+        action: 'complete_payout',
+        target_type: 'affiliate_payout',
+        target_id: payoutId,
+        before: payout,
+        after: updateData,
+        details: { affiliate_id: payout.affiliateId, amount: payout.amount }
+      });
+    }
+    
+    await logAdminAction({
+      action: 'complete_payout_run',
+      target_type: 'affiliate_payout_run',
+      target_id: runId,
+      before: { status: run.status },
+      after: updates,
+      details: { month: run.month, affiliates: run.items.length, totalAmount: run.totalAmount }
+    });
+  } catch (error) {
+    console.error('Error completing payout run:', error);
+    throw error;
+  }
+};
+
+// Rejects the run's open payouts, which returns the amounts to the balances,
+// and closes the run in one transaction
+export const cancelPayoutRun = async (runId: string, adminId: string, notes: string): Promise<void> => {
+  try {
+    const runRef = doc(db, PAYOUT_RUNS_COLLECTION, runId);
+    
+    const { run, rejected, updates } = await runTransaction(db, async (transaction) => {
+      const runDoc = await transaction.get(runRef);
+      
+      if (!runDoc.exists()) {
+        throw new Error('Payout run not found');
+      }
+      
+      const run = { id: runDoc.id, ...runDoc.data() } as AffiliatePayoutRun;
+      
+      if (run.status !== 'draft') {
+        throw new Error('Payout run is not open');
+      }
+      
+      const payoutStates = new Map<string, PayoutState>();
+      for (const item of run.items) {
+        const state = await readPayoutState(transaction, item.payoutId);
+        if (state?.payout.status === 'processing') {
+          payoutStates.set(item.payoutId, state);
+        }
+      }
+      
+      const rejected: { payout: AffiliatePayout; payoutId: string; updateData: Record<string, unknown> }[] = [];
+      payoutStates.forEach((state, payoutId) => {
+        rejected.push({
+          payout: state.payout,
+          payoutId,
+          updateData: writePayoutStatus(transaction, payoutId, state, adminId, 'rejected', notes)
+        });
+      });
+      
+      const updates = {
+        status: 'cancelled',
+        cancelledAt: new Date().toISOString(),
+        cancelledBy: adminId,
+        notes
+      };
+      transaction.update(runRef, updates);
+      
+      return { run, rejected, updates };
+    });
+    
+    for (const { payout, payoutId, updateData } of rejected) {
+      await logAdminAction({
+        action: 'reject_payout',
+        target_type: 'affiliate_payout',
+        target_id: payoutId,
+        before: payout,
+        after: updateData,
+        details: { affiliate_id: payout.affiliateId, amount: payout.amount }
+      });
+    }
+    
+    await logAdminAction({
+      action: 'cancel_payout_run',
+      target_type: 'affiliate_payout_run',
+      target_id: runId,
+      before: { status: run.status },
+      after: updates,
+      details: { month: run.month }
+    });
+  } catch (error) {
+    console.error('Error cancelling payout run:', error);
+    throw error;
+  }
+};
+
 // Initialize affiliate settings if not exists
 export const initializeAffiliateSettings = async (): Promise<void> => {
   try {
@@ -1014,7 +2156,11 @@ export const initializeAffiliateSettings = async (): Promise<void> => {
     if (!settingsDoc.exists()) {
       const defaultSettings: Omit<AffiliateSettings, 'id'> = {
         defaultCommissionRate: 5, // 5%
+        maxCommissionRate: 5,
         minPayoutAmount: 5000, // ¥5000
+        holdPeriodDays: DEFAULT_HOLD_PERIOD_DAYS,
+        attributionWindowDays: DEFAULT_ATTRIBUTION_WINDOW_DAYS,
+        attributionModel: DEFAULT_ATTRIBUTION_MODEL,
         payoutMethods: ['Bank Transfer'],
         termsAndConditions: 'Default terms and conditions for the affiliate program.',
         createdAt: new Date().toISOString(),
@@ -0,0 +1,181 @@
+import {
+  collection,
+  getDocs,
+  getDoc,
+  query,
+  where,
+  setDoc,
+  updateDoc,
+  doc
+} from 'firebase/firestore';
+import { db, auth } from '@/config/firebase';
+import { logAdminAction } from '@/services/adminLogService';
+import { updateOrderStatus } from '@/services/orderService';
+import { verifyPaymentProof } from '@/services/paymentService';
+import { BankStatementTransaction, BankTransaction, Order, PaymentProof } from '@/types';
+import { getBankTransactionIds, matchBankTransactions } from '@/utils/bankReconciliation';
+import { getOrderPaymentProofs } from '@/utils/paymentUtils';
+
+const BANK_TRANSACTIONS_COLLECTION = 'bank_transactions';
+
+export interface BankStatementImportResult {
+  imported: number;
+  duplicates: number;
+  autoVerified: number;
+  review: number;
+  unmatched: number;
+}
+
+// Transfers that matched more than one order, or only partly, wait for an admin
+export const getBankReviewQueue = async (): Promise<BankTransaction[]> => {
+  try {
+    const transactionsRef = collection(db, BANK_TRANSACTIONS_COLLECTION);
+    const q = query(transactionsRef, where('status', '==', 'review'));
+    const snapshot = await getDocs(q);
+
+    return snapshot.docs
+      .map(doc => ({ id: doc.id, ...doc.data() } as BankTransaction))
+      .sort((a, b) => a.date.localeCompare(b.date));
+  } catch (error) {
+    console.error('Error fetching bank review queue:', error);
+    throw error;
+  }
+};
+
+// The latest open proof is accepted when there is one; otherwise the order is confirmed directly
+const verifyOrderTransfer = async (order: Order, proofs: PaymentProof[]) => {
+  const pendingProof = getOrderPaymentProofs(order, proofs)
+    .filter(proof => proof.status === 'pending')
+    .pop();
+
+  if (pendingProof) {
+    await verifyPaymentProof(pendingProof);
+  } else {
+    await updateOrderStatus(order.id, 'confirmed', 'verified', 'Pembayaran dicocokkan dengan mutasi bank');
+  }
+};
+
+/**
+ * Records the incoming transfers of a bank statement and verifies the orders
+ * they confidently match. Transfers already imported from an earlier,
+ * overlapping statement are skipped.
+ */
+export const importBankStatement = async (
+  fileName: string,
+  transactions: BankStatementTransaction[],
+  orders: Order[],
+  proofs: PaymentProof[]
+): Promise<BankStatementImportResult> => {
+  try {
+    const ids = getBankTransactionIds(transactions);
+    const existing = await Promise.all(
+      ids.map(id => getDoc(doc(db, BANK_TRANSACTIONS_COLLECTION, id)))
+    );
+    const newIndexes = ids.map((_, index) => index).filter(index => !existing[index].exists());
+
+    const matches = matchBankTransactions(newIndexes.map(index => transactions[index]), orders);
+    const importedAt = new Date().toISOString();
+    const result: BankStatementImportResult = {
+      imported: matches.length,
+      duplicates: ids.length - newIndexes.length,
+      autoVerified: 0,
+      review: 0,
+      unmatched: 0
+    };
+
+    for (const [matchIndex, match] of matches.entries()) {
+      let { status } = match;
+
+      if (status === 'auto_verified') {
+        const order = orders.find(order => order.id === match.order_id);
+        try {
+          if (!order) throw new Error('Order not found');
+          await verifyOrderTransfer(order, proofs);
+        } catch (error) {
+          // Leave it for an admin rather than losing the match
+          console.error('Error verifying matched order:', error);
+          status = 'review';
+        }
+      }
+
+      const record: Omit<BankTransaction, 'id'> = {
+        ...match.transaction,
+        file_name: fileName,
+        imported_at: importedAt,
+        imported_by: auth.currentUser?.uid || '',
+        status,
+        order_id: status === 'auto_verified' ? match.order_id : null,
+        candidate_order_ids: match.candidate_order_ids
+      };
+      await setDoc(doc(db, BANK_TRANSACTIONS_COLLECTION, ids[newIndexes[matchIndex]]), record);
+
+      if (status === 'auto_verified') result.autoVerified++;
+      else if (status === 'review') result.review++;
+      else result.unmatched++;
+    }
+
+    await logAdminAction({
+      action: 'import_bank_statement',
+      target_type: 'bank_statement',
+      target_id: fileName,
+      details: { ...result }
+    });
+
+    return result;
+  } catch (error) {
+    console.error('Error importing bank statement:', error);
+    throw error;
+  }
+};
+
+// Settle a queued transfer against the order the admin picked
+export const confirmBankTransaction = async (
+  transaction: BankTransaction,
+  order: Order,
+  proofs: PaymentProof[]
+): Promise<void> => {
+  try {
+    await verifyOrderTransfer(order, proofs);
+    await updateDoc(doc(db, BANK_TRANSACTIONS_COLLECTION, transaction.id), {
+      status: 'confirmed',
+      order_id: order.id,
+      reviewed_at: new Date().toISOString(),
+      reviewed_by: auth.currentUser?.uid || ''
+    });
+
+    await logAdminAction({
+      action: 'confirm_bank_transaction',
+      target_type: 'bank_transaction',
+      target_id: transaction.id,
+      before: { status: transaction.status, order_id: transaction.order_id },
+      after: { status: 'confirmed', order_id: order.id },
+      details: { amount: transaction.amount, currency: transaction.currency, sender: transaction.sender }
+    });
+  } catch (error) {
+    console.error('Error confirming bank transaction:', error);
+    throw error;
+  }
+};
+
+// Take a transfer out of the queue without touching any order
+export const dismissBankTransaction = async (transaction: BankTransaction): Promise<void> => {
+  try {
+    await updateDoc(doc(db, BANK_TRANSACTIONS_COLLECTION, transaction.id), {
+      status: 'dismissed',
+      reviewed_at: new Date().toISOString(),
+      reviewed_by: auth.currentUser?.uid || ''
+    });
+
+    await logAdminAction({
+      action: 'dismiss_bank_transaction',
+      target_type: 'bank_transaction',
+      target_id: transaction.id,
+      before: { status: transaction.status },
+      after: { status: 'dismissed' },
+      details: { amount: transaction.amount, currency: transaction.currency, sender: transaction.sender }
+    });
+  } catch (error) {
+    console.error('Error dismissing bank transaction:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,213 @@
+import {
+  collection,
+  getDocs,
+  getDoc,
+  query,
+  orderBy,
+  limit,
+  setDoc,
+  addDoc,
+  doc
+} from 'firebase/firestore';
+import { db, auth } from '@/config/firebase';
+import { logAdminAction } from '@/services/adminLogService';
+import {
+  ExchangeRateHistoryEntry,
+  ExchangeRateProvider,
+  ExchangeRateQuote,
+  ExchangeRateSettings
+} from '@/types';
+import { FALLBACK_EXCHANGE_RATE, calculateStoreRate, isExchangeRateStale } from '@/utils/currencyUtils';
+
+const SETTINGS_COLLECTION = 'exchange_rate_settings';
+const SETTINGS_DOC_ID = 'default';
+const HISTORY_COLLECTION = 'exchange_rate_history';
+const CACHE_KEY = 'exchange_rate_cache';
+const STORE_RATE_SOURCES: ExchangeRateQuote['source'][] = ['manual', 'markup'];
+
+export interface StoreExchangeRate {
+  quote: ExchangeRateQuote;
+  updatedAt: string | null; // when the store rate was last changed
+  error: string | null; // set when a stand-in rate is used
+}
+
+const REFERENCE_PROVIDERS: { provider: ExchangeRateProvider; url: string }[] = [
+  { provider: 'exchangerate.host', url: 'https://api.exchangerate.host/latest?base=JPY&symbols=IDR' },
+  { provider: 'open.er-api.com', url: 'https://open.er-api.com/v6/latest/JPY' }
+];
+
+// The store rate customers are quoted; null until an admin has set one
+export const getExchangeRateSettings = async (): Promise<ExchangeRateSettings | null> => {
+  try {
+    const settingsDoc = await getDoc(doc(db, SETTINGS_COLLECTION, SETTINGS_DOC_ID));
+    return settingsDoc.exists() ? settingsDoc.data() as ExchangeRateSettings : null;
+  } catch (error) {
+    console.error('Error fetching exchange rate settings:', error);
+    throw error;
+  }
+};
+
+// Last store rate seen on this device. Rates cached before the store rate
+// existed came from the customer's own browser and are ignored.
+const readCachedRate = (): Omit<StoreExchangeRate, 'error'> | null => {
+  try {
+    const cachedData = localStorage.getItem(CACHE_KEY);
+    if (cachedData) {
+      const { rate, source, timestamp, updatedAt } = JSON.parse(cachedData);
+      if (STORE_RATE_SOURCES.includes(source)) {
+        return { quote: { rate, source, fetched_at: new Date(timestamp).toISOString() }, updatedAt: updatedAt || null };
+      }
+    }
+  } catch (error) {
+    console.warn('Error reading cached exchange rate:', error);
+  }
+  return null;
+};
+
+/**
+ * The store rate as quoted to customers, cached on the device for an hour.
+ * Offline, or before an admin has set a rate, the last cached store rate and
+ * then the local fallback rate stand in. A cached rate keeps the time it was
+ * fetched, and the fallback rate was never fetched at all, so neither passes
+ * for a fresh quote at checkout.
+ */
+export const loadStoreExchangeRate = async (useCache = true): Promise<StoreExchangeRate> => {
+  const cached = readCachedRate();
+  if (useCache && cached && !isExchangeRateStale(cached.quote)) {
+    return { ...cached, error: null };
+  }
+
+  try {
+    const settings = await getExchangeRateSettings();
+    if (!settings) {
+      throw new Error('Store exchange rate has not been set');
+    }
+
+    const quote: ExchangeRateQuote = { rate: settings.rate, source: settings.mode, fetched_at: new Date().toISOString() };
+    try {
+      localStorage.setItem(CACHE_KEY, JSON.stringify({
+        rate: quote.rate,
+        source: quote.source,
+        timestamp: Date.now(),
+        updatedAt: settings.updated_at
+      }));
+    } catch (error) {
+      console.warn('Error caching exchange rate:', error);
+    }
+    return { quote, updatedAt: settings.updated_at, error: null };
+  } catch (error) {
+    console.warn('Store exchange rate unavailable:', error);
+
+    if (cached) {
+      return {
+        quote: cached.quote,
+        updatedAt: cached.updatedAt,
+        error: 'Kurs terbaru tidak dapat dimuat. Menggunakan kurs tersimpan terakhir.'
+      };
+    }
+    return {
+      quote: { rate: FALLBACK_EXCHANGE_RATE, source: 'fallback', fetched_at: new Date(0).toISOString() },
+      updatedAt: null,
+      error: 'Kurs tidak dapat dimuat. Menggunakan kurs cadangan.'
+    };
+  }
+};
+
+export const getExchangeRateHistory = async (): Promise<ExchangeRateHistoryEntry[]> => {
+  try {
+    const historyRef = collection(db, HISTORY_COLLECTION);
+    const q = query(historyRef, orderBy('changed_at', 'desc'), limit(50));
+    const snapshot = await getDocs(q);
+
+    return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as ExchangeRateHistoryEntry));
+  } catch (error) {
+    console.error('Error fetching exchange rate history:', error);
+    throw error;
+  }
+};
+
+/**
+ * Market JPY→IDR rate used as the base for a markup. Only admins fetch it;
+ * customers are quoted the stored rate.
+ */
+export const fetchReferenceRate = async (): Promise<{
+  rate: number;
+  provider: ExchangeRateProvider;
+  fetched_at: string;
+}> => {
+  for (const { provider, url } of REFERENCE_PROVIDERS) {
+    try {
+      const response = await fetch(url, {
+        method: 'GET',
+        headers: {
+          'Accept': 'application/json'
+        },
+        cache: 'no-cache'
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to get exchange rate from ${provider}`);
+      }
+
+      const data = await response.json();
+      if (data.rates && data.rates.IDR) {
+        return { rate: data.rates.IDR, provider, fetched_at: new Date().toISOString() };
+      }
+      throw new Error(`Invalid data from ${provider}`);
+    } catch (error) {
+      console.warn('Reference rate provider failed:', error);
+    }
+  }
+
+  throw new Error('Kurs referensi tidak dapat diambil');
+};
+
+// Save new settings and keep the change in the rate history
+export const updateExchangeRateSettings = async (
+  changes: Pick<ExchangeRateSettings,
+    'mode' | 'manual_rate' | 'markup_percent' | 'reference_rate' | 'reference_provider' | 'reference_fetched_at'>
+): Promise<ExchangeRateSettings> => {
+  try {
+    const rate = calculateStoreRate(changes);
+    if (!rate) {
+      throw new Error(changes.mode === 'manual' ? 'Kurs manual harus lebih dari 0' : 'Kurs referensi belum tersedia');
+    }
+
+    const previous = await getExchangeRateSettings();
+    const timestamp = new Date().toISOString();
+    const settings: ExchangeRateSettings = {
+      ...changes,
+      rate,
+      updated_at: timestamp,
+      updated_by: auth.currentUser?.uid || ''
+    };
+
+    await setDoc(doc(db, SETTINGS_COLLECTION, SETTINGS_DOC_ID), settings);
+
+    const historyEntry: Omit<ExchangeRateHistoryEntry, 'id'> = {
+      mode: settings.mode,
+      manual_rate: settings.manual_rate,
+      markup_percent: settings.markup_percent,
+      reference_rate: settings.reference_rate,
+      rate,
+      previous_rate: previous?.rate ?? null,
+      changed_at: timestamp,
+      changed_by: settings.updated_by,
+      changed_by_email: auth.currentUser?.email || ''
+    };
+    await addDoc(collection(db, HISTORY_COLLECTION), historyEntry);
+
+    await logAdminAction({
+      action: 'update_exchange_rate',
+      target_type: 'exchange_rate',
+      target_id: SETTINGS_DOC_ID,
+      before: previous,
+      after: settings
+    });
+
+    return settings;
+  } catch (error) {
+    console.error('Error updating exchange rate settings:', error);
+    throw error;
+  }
+};
@@ -4,19 +4,88 @@ import {
   query, 
   orderBy,
   where,
-  addDoc,
   updateDoc,
   doc,
   getDoc,
   serverTimestamp,
-  runTransaction
+  runTransaction,
+  arrayUnion,
+  increment
 } from 'firebase/firestore';
-import { db } from '@/config/firebase';
-import { Order } from '@/types';
-import { createOrUpdateAffiliateUser, getAffiliateByReferralCode, createOrderWithReferral } from '@/services/affiliateService';
+import { db, auth } from '@/config/firebase';
+import { AppliedShippingPromotion, AppliedVoucher, Order, OrderExchangeRate, OrderRefund, OrderShipment, OrderTracking, ShippingCarrier } from '@/types';
+import { canTransitionOrderStatus, getOrderStatusLabel } from '@/utils/orderStatus';
+import { getCarrier, normalizeTrackingNumber } from '@/utils/shippingCarriers';
+import { createOrUpdateAffiliateUser, getAffiliateByReferralCode, createOrderWithReferral, reverseOrderCommission, startCommissionHold, recordAffiliateContact } from '@/services/affiliateService';
+import { CommissionAdjustmentReason } from '@/types/affiliate';
+import { logAdminAction } from '@/services/adminLogService';
+import { applyOrderStatsChange } from '@/services/statsService';
+import { getStockReservations, reserveStock, releaseOrderStock } from '@/services/stockService';
+import { countUserRedemptions, getVoucherForRedemption, redeemVoucher } from '@/services/voucherService';
+import { getStoredReferralCode, isReferralCodeValid } from '@/utils/referralUtils';
 
 const ORDERS_COLLECTION = 'orders';
 
+export class InvalidStatusTransitionError extends Error {
+  constructor(from: string, to: string) {
+    super(`Status pesanan tidak dapat diubah dari ${getOrderStatusLabel(from)} ke ${getOrderStatusLabel(to)}`);
+    this.name = 'InvalidStatusTransitionError';
+  }
+}
+
+export const createStatusHistoryEntry = (
+  orderId: string,
+  status: string,
+  previousStatus: string | null,
+  notes?: string
+): OrderTracking => {
+  const timestamp = new Date().toISOString();
+  return {
+    id: `${orderId}-${Date.parse(timestamp)}`,
+    order_id: orderId,
+    status,
+    previous_status: previousStatus,
+    timestamp,
+    notes: notes || '',
+    changed_by: auth.currentUser?.uid || null
+  };
+};
+
+/**
+ * Throws InvalidStatusTransitionError unless the order lifecycle allows moving
+ * from `from` to `to`. Keeping the same status is always allowed.
+ */
+export const assertStatusTransition = (from: string, to: string) => {
+  if (from !== to && !canTransitionOrderStatus(from, to)) {
+    throw new InvalidStatusTransitionError(from, to);
+  }
+};
+
+/**
+ * Takes back affiliate commission for an order. Failures are logged only so a
+ * commission problem never blocks cancelling or refunding the order itself.
+ */
+export const clawBackOrderCommission = async (
+  orderId: string,
+  reason: CommissionAdjustmentReason,
+  options: { refundAmount?: number; notes?: string } = {}
+) => {
+  try {
+    await reverseOrderCommission(orderId, reason, options);
+  } catch (error) {
+    console.error('Error reversing affiliate commission:', error);
+  }
+};
+
+// Starts the affiliate commission hold period; failures are logged only
+export const startOrderCommissionHold = async (orderId: string) => {
+  try {
+    await startCommissionHold(orderId);
+  } catch (error) {
+    console.error('Error starting affiliate commission hold:', error);
+  }
+};
+
 export const getAllOrders = async (): Promise<Order[]> => {
   try {
     const ordersRef = collection(db, ORDERS_COLLECTION);
@@ -150,15 +219,18 @@ export const createOrder = async (orderData: {
   total_price: number;
   status?: string;
   shipping_fee?: number;
+  shipping_promotion?: AppliedShippingPromotion | null;
+  voucher?: AppliedVoucher | null;
   payment_proof_url?: string;
   affiliate_id?: string;
   visitor_id?: string;
+  exchange_rate?: OrderExchangeRate | null;
 }) => {
   try {
     console.log('Creating order with data:', orderData);
     
-    // Get affiliate_id from localStorage if not provided
-    const storedAffiliateId = localStorage.getItem('referralCode');
+    // Get affiliate_id from localStorage if not provided and still within the attribution window
+    const storedAffiliateId = isReferralCodeValid() ? getStoredReferralCode() : null;
     const affiliate_id = orderData.affiliate_id || storedAffiliateId || null;
     
     console.log('Using affiliate_id for order:', affiliate_id);
@@ -179,28 +251,67 @@ export const createOrder = async (orderData: {
       status: orderData.status || 'pending',
       payment_status: payment_status,
       shipping_fee: orderData.shipping_fee || 0,
+      shipping_promotion: orderData.shipping_promotion || null,
+      voucher: orderData.voucher || null,
       payment_proof_url: orderData.payment_proof_url || null,
       affiliate_id: affiliate_id, // Include affiliate_id in the order
       visitor_id: orderData.visitor_id || null, // Include visitor_id for tracking
+      exchange_rate: orderData.exchange_rate || null,
       created_at: timestamp,
       updated_at: timestamp
     };
     
-    // Create the order document
-    const ordersRef = collection(db, ORDERS_COLLECTION);
-    const docRef = await addDoc(ordersRef, orderDoc);
+    // Transactions cannot run queries, so the customer's earlier redemptions
+    // are counted up front for the per-user voucher limit
+    const appliedVoucher = orderData.voucher || null;
+    const previousRedemptions = appliedVoucher && orderData.user_id
+      ? await countUserRedemptions(appliedVoucher.voucher_id, orderData.user_id)
+      : 0;
+    
+    // Reserve stock, redeem the voucher and create the order in one transaction
+    // so two customers can never buy the same last unit or the last voucher use.
+    // Throws OutOfStockError or VoucherError.
+    const docRef = doc(collection(db, ORDERS_COLLECTION));
+    await runTransaction(db, async (transaction) => {
+      const voucher = appliedVoucher
+        ? await getVoucherForRedemption(transaction, appliedVoucher.voucher_id, orderDoc.user_id, previousRedemptions)
+        : null;
+      
+      await reserveStock(transaction, orderData.items, docRef.id);
+      transaction.set(docRef, {
+        ...orderDoc,
+        stock_reserved: true,
+        stock_reservations: getStockReservations(orderData.items),
+        status_history: [createStatusHistoryEntry(docRef.id, orderDoc.status, null, 'Pesanan dibuat')]
+      });
+      
+      if (voucher && appliedVoucher) {
+        redeemVoucher(transaction, voucher, appliedVoucher, {
+          id: docRef.id,
+          user_id: orderDoc.user_id,
+          customer_email: orderData.customer_info.email
+        });
+      }
+    });
     
     console.log('Order created successfully with ID:', docRef.id);
     
-    // Process affiliate commission if applicable
-    if (affiliate_id && orderData.user_id) {
+    await applyOrderStatsChange(null, orderDoc as Pick<Order, 'status' | 'total_price'>, docRef.id);
+    
+    // Process affiliate commission if applicable; the attribution stored with
+    // the account can apply even when the browser has no referral code
+    if (orderData.user_id) {
       try {
-        // Process the affiliate commission
+        // Commission is earned per item on what the customer actually pays:
+        // net of the voucher discount and excluding shipping
         await createOrderWithReferral(
           orderData.user_id,
           docRef.id,
           orderData.total_price,
-          affiliate_id
+          orderData.items,
+          affiliate_id || undefined,
+          appliedVoucher?.discount || 0,
+          orderData.customer_info
         );
         console.log('Affiliate commission processed for order:', docRef.id);
       } catch (affiliateError) {
@@ -209,6 +320,15 @@ export const createOrder = async (orderData: {
       }
     }
     
+    // Affiliates' own contact details help spot self-referrals
+    if (orderData.user_id) {
+      try {
+        await recordAffiliateContact(orderData.user_id, orderData.customer_info);
+      } catch (affiliateError) {
+        console.error('Error recording affiliate contact:', affiliateError);
+      }
+    }
+    
     return docRef.id;
   } catch (error) {
     console.error('Error creating order:', error);
@@ -219,7 +339,8 @@ export const createOrder = async (orderData: {
 export const updateOrderStatus = async (
   orderId: string, 
   status: string, 
-  paymentStatus?: string
+  paymentStatus?: string,
+  notes?: string
 ) => {
   try {
     const orderRef = doc(db, ORDERS_COLLECTION, orderId);
@@ -233,27 +354,211 @@ export const updateOrderStatus = async (
       updateData.payment_status = paymentStatus;
     }
     
-    await updateDoc(orderRef, updateData);
+    // Check the transition against the status being replaced, so two admins
+    // acting at once cannot both move the order on from the same status
+    const { previousOrder, previousStatus } = await runTransaction(db, async (transaction) => {
+      const before = await transaction.get(orderRef);
+      
+      if (!before.exists()) {
+        throw new Error('Order not found');
+      }
+      
+      const previousOrder = before.data() as Order;
+      const previousStatus = previousOrder.status || 'pending';
+      assertStatusTransition(previousStatus, status);
+      
+      transaction.update(orderRef, previousStatus === status ? updateData : {
+        ...updateData,
+        status_history: arrayUnion(createStatusHistoryEntry(orderId, status, previousStatus, notes))
+      });
+      
+      return { previousOrder, previousStatus };
+    });
+    
+    // Cancelled orders and rejected payments give their reserved stock back
+    // and any affiliate commission earned on them
+    if (status === 'cancelled' || paymentStatus === 'rejected') {
+      await releaseOrderStock(orderId);
+      await clawBackOrderCommission(orderId, paymentStatus === 'rejected' ? 'payment_rejected' : 'order_cancelled', {
+        notes
+      });
+    }
+    
+    if (['delivered', 'completed'].includes(status) && !['delivered', 'completed'].includes(previousStatus)) {
+      await startOrderCommissionHold(orderId);
+    }
+    
+    await applyOrderStatsChange(previousOrder, { ...previousOrder, status: status as Order['status'] });
+    
+    const action = paymentStatus === 'verified' ? 'verify_payment'
+      : paymentStatus === 'rejected' ? 'reject_payment'
+      : 'update_order_status';
+    
+    await logAdminAction({
+      action,
+      target_type: 'order',
+      target_id: orderId,
+      before: previousOrder,
+      after: updateData,
+      details: { name: previousOrder.customer_info?.name || '', notes: notes || '' }
+    });
   } catch (error) {
     console.error('Error updating order status:', error);
     throw error;
   }
 };
 
-export const updatePaymentProof = async (orderId: string, paymentProofUrl: string) => {
+/**
+ * Records a full or partial refund and reduces the affiliate commission by the
+ * refunded share.
+ */
+export const refundOrder = async (orderId: string, amount: number, reason: string) => {
   try {
     const orderRef = doc(db, ORDERS_COLLECTION, orderId);
+    const orderDoc = await getDoc(orderRef);
+    
+    if (!orderDoc.exists()) {
+      throw new Error('Order not found');
+    }
+    
+    const order = orderDoc.data() as Order;
+    const refundedAmount = order.refunded_amount || 0;
+    const refundable = (order.total_price || 0) - refundedAmount;
+    
+    if (amount <= 0 || amount > refundable) {
+      throw new Error(`Jumlah refund harus antara ¥1 dan ¥${refundable.toLocaleString()}`);
+    }
+    
+    const timestamp = new Date().toISOString();
+    const refund: OrderRefund = {
+      id: `${orderId}-refund-${Date.parse(timestamp)}`,
+      amount,
+      reason,
+      created_at: timestamp,
+      created_by: auth.currentUser?.uid || null
+    };
+    
     await updateDoc(orderRef, {
-      payment_proof_url: paymentProofUrl,
-      payment_status: 'pending', // Set to pending for verification
-      updated_at: new Date().toISOString()
+      refunds: arrayUnion(refund),
+      refunded_amount: increment(amount),
+      updated_at: timestamp
+    });
+    
+    await clawBackOrderCommission(orderId, 'refund', { refundAmount: amount, notes: reason });
+    
+    await logAdminAction({
+      action: 'refund_order',
+      target_type: 'order',
+      target_id: orderId,
+      before: { refunded_amount: refundedAmount },
+      after: { refunded_amount: refundedAmount + amount },
+      details: { name: order.customer_info?.name || '', amount, reason }
     });
   } catch (error) {
-    console.error('Error updating payment proof:', error);
+    console.error('Error refunding order:', error);
     throw error;
   }
 };
 
+/**
+ * Records how an order was sent. Attaching the first shipment moves a
+ * processing order to shipped; later calls only correct the tracking details.
+ */
+export const updateOrderShipment = async (
+  orderId: string,
+  carrier: ShippingCarrier,
+  trackingNumber: string
+) => {
+  try {
+    const carrierInfo = getCarrier(carrier);
+    const normalizedTrackingNumber = normalizeTrackingNumber(trackingNumber);
+    
+    if (!carrierInfo) {
+      throw new Error(`Kurir tidak dikenal: ${carrier}`);
+    }
+    if (!normalizedTrackingNumber) {
+      throw new Error('Nomor resi wajib diisi');
+    }
+    
+    const orderRef = doc(db, ORDERS_COLLECTION, orderId);
+    const { previousOrder, previousStatus, shipment, updateData } = await runTransaction(db, async (transaction) => {
+      const before = await transaction.get(orderRef);
+      
+      if (!before.exists()) {
+        throw new Error('Order not found');
+      }
+      
+      const previousOrder = before.data() as Order;
+      const previousStatus = previousOrder.status || 'pending';
+      const shipsNow = !['shipped', 'delivered', 'completed'].includes(previousStatus);
+      
+      if (shipsNow) {
+        assertStatusTransition(previousStatus, 'shipped');
+      }
+      
+      const timestamp = new Date().toISOString();
+      const shipment: OrderShipment = {
+        carrier,
+        tracking_number: normalizedTrackingNumber,
+        shipped_at: previousOrder.shipment?.shipped_at || timestamp,
+        updated_at: timestamp
+      };
+      
+      const updateData = {
+        shipment,
+        updated_at: timestamp,
+        ...(shipsNow ? { status: 'shipped' } : {})
+      };
+      
+      transaction.update(orderRef, shipsNow ? {
+        ...updateData,
+        status_history: arrayUnion(createStatusHistoryEntry(
+          orderId,
+          'shipped',
+          previousStatus,
+          `${carrierInfo.name}: ${normalizedTrackingNumber}`
+        ))
+      } : updateData);
+      
+      return { previousOrder, previousStatus, shipment, updateData };
+    });
+    
+    await logAdminAction({
+      action: 'update_shipment',
+      target_type: 'order',
+      target_id: orderId,
+      before: { status: previousStatus, shipment: previousOrder.shipment || null },
+      after: { status: updateData.status || previousStatus, shipment },
+      details: { name: previousOrder.customer_info?.name || '' }
+    });
+  } catch (error) {
+    console.error('Error updating order shipment:', error);
+    throw error;
+  }
+};
+
+export const importOrderShipments = async (
+  shipments: { orderId: string; carrier: ShippingCarrier; trackingNumber: string }[]
+): Promise<{ updated: number; failed: { orderId: string; error: string }[] }> => {
+  const failed: { orderId: string; error: string }[] = [];
+  let updated = 0;
+  
+  // One order at a time so a bad row never blocks the rest of the file
+  for (const shipment of shipments) {
+    try {
+      await updateOrderShipment(shipment.orderId, shipment.carrier, shipment.trackingNumber);
+      updated++;
+    } catch (error) {
+      failed.push({
+        orderId: shipment.orderId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+  
+  return { updated, failed };
+};
+
 export const getOrder = async (id: string): Promise<Order | null> => {
   try {
     const orderRef = doc(db, ORDERS_COLLECTION, id);
@@ -1,69 +1,70 @@
-import { 
-  collection, 
-  getDocs, 
-  query, 
-  where, 
+import {
+  collection,
+  getDocs,
+  query,
+  where,
   orderBy,
-  addDoc,
-  updateDoc,
   doc,
-  getDoc,
-  Timestamp,
-  serverTimestamp
+  arrayUnion,
+  runTransaction,
+  DocumentData,
+  Transaction
 } from 'firebase/firestore';
 import { ref, uploadBytes, getDownloadURL } from 'firebase/storage';
-import { db, storage } from '@/config/firebase';
+import { db, storage, auth } from '@/config/firebase';
+import { logAdminAction } from '@/services/adminLogService';
+import { createStatusHistoryEntry } from '@/services/orderService';
+import { applyOrderStatsChange } from '@/services/statsService';
+import { Order, PaymentProof, PaymentProofReview, PaymentProofStatus } from '@/types';
+import { isLegacyPaymentProof } from '@/utils/paymentUtils';
 
 const PAYMENT_PROOFS_COLLECTION = 'payment_proofs';
+const ORDERS_COLLECTION = 'orders';
 const STORAGE_FOLDER = 'payment-proofs';
 
-export interface PaymentProof {
-  id?: string;
-  user_id?: string;
-  nama: string;
-  email: string;
-  invoice_id: string;
-  metode_pembayaran: string;
-  bukti_url: string;
-  uploaded_at: string;
-  status: 'Menunggu' | 'Terverifikasi' | 'Ditolak';
-  notes?: string;
-  verified_at?: string;
-  rejected_at?: string;
-}
+const LEGACY_STATUSES: Record<string, PaymentProofStatus> = {
+  Menunggu: 'pending',
+  Terverifikasi: 'verified',
+  Ditolak: 'rejected'
+};
+
+// Proofs uploaded before the unified model used Indonesian field names
+const toPaymentProof = (id: string, data: DocumentData): PaymentProof => ({
+  id,
+  order_id: data.order_id || data.invoice_id || '',
+  user_id: data.user_id || null,
+  image_url: data.image_url || data.bukti_url || '',
+  payment_method: data.payment_method || data.metode_pembayaran || '',
+  status: LEGACY_STATUSES[data.status] || data.status || 'pending',
+  uploaded_at: data.uploaded_at,
+  reviews: data.reviews || []
+});
 
 export const getAllPaymentProofs = async (): Promise<PaymentProof[]> => {
   try {
     const paymentProofsRef = collection(db, PAYMENT_PROOFS_COLLECTION);
     const q = query(paymentProofsRef, orderBy('uploaded_at', 'desc'));
     const snapshot = await getDocs(q);
-    
-    return snapshot.docs.map(doc => ({
-      id: doc.id,
-      ...doc.data()
-    } as PaymentProof));
+
+    return snapshot.docs.map(doc => toPaymentProof(doc.id, doc.data()));
   } catch (error) {
     console.error('Error fetching payment proofs:', error);
     throw error;
   }
 };
 
-export const getPaymentProofsByStatus = async (status: string): Promise<PaymentProof[]> => {
+// All uploads for one order, oldest first
+export const getPaymentProofsByOrder = async (orderId: string): Promise<PaymentProof[]> => {
   try {
     const paymentProofsRef = collection(db, PAYMENT_PROOFS_COLLECTION);
-    const q = query(
-      paymentProofsRef,
-      where('status', '==', status),
-      orderBy('uploaded_at', 'desc')
-    );
+    const q = query(paymentProofsRef, where('order_id', '==', orderId));
     const snapshot = await getDocs(q);
-    
-    return snapshot.docs.map(doc => ({
-      id: doc.id,
-      ...doc.data()
-    } as PaymentProof));
+
+    return snapshot.docs
+      .map(doc => toPaymentProof(doc.id, doc.data()))
+      .sort((a, b) => a.uploaded_at.localeCompare(b.uploaded_at));
   } catch (error) {
-    console.error('Error fetching payment proofs by status:', error);
+    console.error('Error fetching payment proofs by order:', error);
     throw error;
   }
 };
@@ -77,103 +78,192 @@ export const getPaymentProofsByUser = async (userId: string): Promise<PaymentPro
       orderBy('uploaded_at', 'desc')
     );
     const snapshot = await getDocs(q);
-    
-    return snapshot.docs.map(doc => ({
-      id: doc.id,
-      ...doc.data()
-    } as PaymentProof));
-  } catch (error) {
-    console.error('Error fetching payment proofs by user:', error);
-    throw error;
-  }
-};
 
-export const getPaymentProofByInvoice = async (invoiceId: string): Promise<PaymentProof | null> => {
-  try {
-    const paymentProofsRef = collection(db, PAYMENT_PROOFS_COLLECTION);
-    const q = query(paymentProofsRef, where('invoice_id', '==', invoiceId));
-    const snapshot = await getDocs(q);
-    
-    if (snapshot.empty) {
-      return null;
-    }
-    
-    return {
-      id: snapshot.docs[0].id,
-      ...snapshot.docs[0].data()
-    } as PaymentProof;
+    return snapshot.docs.map(doc => toPaymentProof(doc.id, doc.data()));
   } catch (error) {
-    console.error('Error fetching payment proof by invoice:', error);
+    console.error('Error fetching payment proofs by user:', error);
     throw error;
   }
 };
 
+// Upload a new proof for an order and put the order back up for verification,
+// unless its payment has already been verified
 export const uploadPaymentProof = async (
   file: File,
-  paymentData: Omit<PaymentProof, 'id' | 'bukti_url' | 'uploaded_at'>
-): Promise<string> => {
+  order: Pick<Order, 'id'> & { user_id?: string | null; payment_method: string }
+): Promise<PaymentProof> => {
   try {
     // Upload file to storage
     const fileExt = file.name.split('.').pop();
-    const fileName = `${Date.now()}-${Math.random().toString(36).substring(2)}.${fileExt}`;
-    const storageRef = ref(storage, `${STORAGE_FOLDER}/${fileName}`);
-    
+    const storageRef = ref(storage, `${STORAGE_FOLDER}/${order.id}_${Date.now()}.${fileExt}`);
+
     await uploadBytes(storageRef, file);
     const downloadURL = await getDownloadURL(storageRef);
-    
-    // Create payment proof document
-    const paymentProofsRef = collection(db, PAYMENT_PROOFS_COLLECTION);
-    const docRef = await addDoc(paymentProofsRef, {
-      ...paymentData,
-      bukti_url: downloadURL,
-      uploaded_at: new Date().toISOString(),
-      status: 'Menunggu'
+
+    const timestamp = new Date().toISOString();
+    const paymentProof: Omit<PaymentProof, 'id'> = {
+      order_id: order.id,
+      user_id: order.user_id || null,
+      image_url: downloadURL,
+      payment_method: order.payment_method,
+      status: 'pending',
+      uploaded_at: timestamp,
+      reviews: []
+    };
+
+    const docRef = doc(collection(db, PAYMENT_PROOFS_COLLECTION));
+    const orderRef = doc(db, ORDERS_COLLECTION, order.id);
+
+    await runTransaction(db, async (transaction) => {
+      const orderDoc = await transaction.get(orderRef);
+
+      transaction.set(docRef, paymentProof);
+      if (orderDoc.exists() && orderDoc.data().payment_status !== 'verified') {
+        transaction.update(orderRef, {
+          payment_proof_url: downloadURL,
+          payment_status: 'pending',
+          updated_at: timestamp
+        });
+      }
     });
-    
-    return docRef.id;
+
+    return { id: docRef.id, ...paymentProof };
   } catch (error) {
     console.error('Error uploading payment proof:', error);
     throw error;
   }
 };
 
-export const verifyPaymentProof = async (paymentId: string): Promise<void> => {
-  try {
-    const paymentRef = doc(db, PAYMENT_PROOFS_COLLECTION, paymentId);
-    await updateDoc(paymentRef, {
-      status: 'Terverifikasi',
-      verified_at: new Date().toISOString()
+// Record a review decision on the proof inside `transaction`. Legacy proofs
+// that only exist as the order's payment_proof_url are saved as a proof
+// document on review.
+const writePaymentProofReview = (
+  transaction: Transaction,
+  proof: PaymentProof,
+  status: PaymentProofReview['status'],
+  notes?: string
+): PaymentProofReview => {
+  const review: PaymentProofReview = {
+    status,
+    reviewed_at: new Date().toISOString(),
+    reviewed_by: auth.currentUser?.uid || '',
+    ...(notes ? { notes } : {})
+  };
+
+  if (isLegacyPaymentProof(proof)) {
+    const { id, ...legacyProof } = proof;
+    transaction.set(doc(db, PAYMENT_PROOFS_COLLECTION, id), {
+      ...legacyProof,
+      status,
+      reviews: [review]
+    });
+  } else {
+    transaction.update(doc(db, PAYMENT_PROOFS_COLLECTION, proof.id), {
+      status,
+      reviews: arrayUnion(review)
     });
-  } catch (error) {
-    console.error('Error verifying payment proof:', error);
-    throw error;
   }
+
+  return review;
 };
 
-export const rejectPaymentProof = async (paymentId: string, reason: string): Promise<void> => {
+const logPaymentProofReview = (
+  proof: PaymentProof,
+  status: PaymentProofReview['status'],
+  notes?: string
+) => logAdminAction({
+  action: status === 'verified' ? 'verify_payment' : 'reject_payment',
+  target_type: 'payment_proof',
+  target_id: proof.id,
+  before: { status: proof.status },
+  after: { status },
+  details: { order_id: proof.order_id, ...(notes ? { reason: notes } : {}) }
+});
+
+// Accept the proof and confirm its order. Orders that already moved past
+// pending (e.g. paid again after shipping) only get their payment marked
+// verified, so a late proof never pulls an order back in its lifecycle.
+export const verifyPaymentProof = async (proof: PaymentProof): Promise<void> => {
   try {
-    const paymentRef = doc(db, PAYMENT_PROOFS_COLLECTION, paymentId);
-    await updateDoc(paymentRef, {
-      status: 'Ditolak',
-      notes: reason,
-      rejected_at: new Date().toISOString()
+    const orderRef = doc(db, ORDERS_COLLECTION, proof.order_id);
+
+    const { previousOrder, updateData } = await runTransaction(db, async (transaction) => {
+      const orderDoc = await transaction.get(orderRef);
+      if (!orderDoc.exists()) {
+        throw new Error('Order not found');
+      }
+
+      const previousOrder = orderDoc.data() as Order;
+      const previousStatus = previousOrder.status || 'pending';
+      const updateData: Partial<Order> = {
+        payment_status: 'verified',
+        updated_at: new Date().toISOString(),
+        ...(previousStatus === 'pending' ? { status: 'confirmed' as const } : {})
+      };
+
+      writePaymentProofReview(transaction, proof, 'verified');
+      transaction.update(orderRef, updateData.status ? {
+        ...updateData,
+        status_history: arrayUnion(
+          createStatusHistoryEntry(proof.order_id, 'confirmed', previousStatus, 'Pembayaran diverifikasi')
+        )
+      } : updateData);
+
+      return { previousOrder, updateData };
+    });
+
+    if (updateData.status) {
+      await applyOrderStatsChange(previousOrder, { ...previousOrder, status: updateData.status });
+    }
+
+    await logPaymentProofReview(proof, 'verified');
+    await logAdminAction({
+      action: 'verify_payment',
+      target_type: 'order',
+      target_id: proof.order_id,
+      before: previousOrder,
+      after: updateData,
+      details: { name: previousOrder.customer_info?.name || '', notes: 'Pembayaran diverifikasi' }
     });
   } catch (error) {
-    console.error('Error rejecting payment proof:', error);
+    console.error('Error verifying payment proof:', error);
     throw error;
   }
 };
 
-export const updatePaymentProofInvoiceId = async (paymentProofId: string, invoiceId: string): Promise<void> => {
+// Reject the proof but keep the order open, so the customer can upload a new
+// one. An order already paid through another proof stays verified.
+export const rejectPaymentProof = async (proof: PaymentProof, reason: string): Promise<void> => {
   try {
-    const paymentRef = doc(db, PAYMENT_PROOFS_COLLECTION, paymentProofId);
-    await updateDoc(paymentRef, {
-      invoice_id: invoiceId,
-      updated_at: new Date().toISOString() // Add updated_at for consistency
+    const orderRef = doc(db, ORDERS_COLLECTION, proof.order_id);
+    // Transactions cannot run queries, so the order's other proofs are looked
+    // up first and read again inside the transaction
+    const otherProofRefs = (await getPaymentProofsByOrder(proof.order_id))
+      .filter(other => other.id !== proof.id)
+      .map(other => doc(db, PAYMENT_PROOFS_COLLECTION, other.id));
+
+    await runTransaction(db, async (transaction) => {
+      const orderDoc = await transaction.get(orderRef);
+      if (!orderDoc.exists()) {
+        throw new Error('Order not found');
+      }
+
+      const otherProofs = await Promise.all(otherProofRefs.map(proofRef => transaction.get(proofRef)));
+      const paidByOtherProof = otherProofs.some(other =>
+        other.exists() && toPaymentProof(other.id, other.data()).status === 'verified'
+      );
+
+      writePaymentProofReview(transaction, proof, 'rejected', reason);
+      if (orderDoc.data().payment_status !== 'verified' && !paidByOtherProof) {
+        transaction.update(orderRef, {
+          payment_status: 'rejected',
+          updated_at: new Date().toISOString()
+        });
+      }
     });
-    console.log(`Payment proof ${paymentProofId} updated with invoice ID ${invoiceId}`);
+    await logPaymentProofReview(proof, 'rejected', reason);
   } catch (error) {
-    console.error('Error updating payment proof invoice ID:', error);
+    console.error('Error rejecting payment proof:', error);
     throw error;
   }
-};
\ No newline at end of file
+};
@@ -19,6 +19,7 @@ import {
 import { db, storage, auth } from '@/config/firebase';
 import { Product, RecycleBinItem } from '@/types';
 import { mapLegacyCategory } from '@/utils/categoryVariants';
+import { logAdminAction } from '@/services/adminLogService';
 
 const PRODUCTS_COLLECTION = 'products';
 const RECYCLE_BIN_COLLECTION = 'recycle_bin';
@@ -145,7 +146,7 @@ export const addProduct = async (product: Omit<Product, 'id'>) => {
     }
     
     const productsRef = collection(db, PRODUCTS_COLLECTION);
-    const docRef = await addDoc(productsRef, {
+    const productData = {
       name: product.name,
       description: product.description,
       price: product.price,
@@ -156,9 +157,18 @@ export const addProduct = async (product: Omit<Product, 'id'>) => {
       status: product.status || 'active',
       created_at: new Date().toISOString(),
       updated_at: new Date().toISOString()
-    });
+    };
+    const docRef = await addDoc(productsRef, productData);
     
     console.log('Product added successfully with ID:', docRef.id);
+    
+    await logAdminAction({
+      action: 'create_product',
+      target_type: 'product',
+      target_id: docRef.id,
+      after: productData,
+      details: { name: product.name }
+    });
     return docRef.id;
   } catch (error) {
     console.error('Error adding product:', error);
@@ -173,10 +183,21 @@ export const updateProduct = async (id: string, updates: Partial<Product>) => {
     }
     
     const productRef = doc(db, PRODUCTS_COLLECTION, id);
+    const before = await getDoc(productRef);
+    
     await updateDoc(productRef, {
       ...updates,
       updated_at: new Date().toISOString()
     });
+    
+    await logAdminAction({
+      action: 'update_product',
+      target_type: 'product',
+      target_id: id,
+      before: before.exists() ? before.data() : null,
+      after: updates,
+      details: { name: updates.name || (before.exists() ? before.data().name : '') }
+    });
   } catch (error) {
     console.error('Error updating product:', error);
     throw error;
@@ -206,6 +227,14 @@ export const moveProductToRecycleBin = async (product: Product) => {
     await deleteDoc(productRef);
     
     console.log('Product moved to recycle bin successfully');
+    
+    await logAdminAction({
+      action: 'delete_product',
+      target_type: 'product',
+      target_id: product.id,
+      before: product,
+      details: { name: product.name, recycle_bin: true }
+    });
   } catch (error) {
     console.error('Error moving product to recycle bin:', error);
     throw error;
@@ -245,12 +274,14 @@ export const restoreFromRecycleBin = async (recycleBinItem: any) => {
     }
     
     // Add back to original collection
+    let restoredId = recycleBinItem.original_id;
     if (recycleBinItem.original_table === 'products') {
       const productsRef = collection(db, PRODUCTS_COLLECTION);
-      await addDoc(productsRef, {
+      const restoredRef = await addDoc(productsRef, {
         ...recycleBinItem.data,
         updated_at: new Date().toISOString()
       });
+      restoredId = restoredRef.id;
     }
     
     // Remove from recycle bin
@@ -258,6 +289,14 @@ export const restoreFromRecycleBin = async (recycleBinItem: any) => {
     await deleteDoc(recycleBinRef);
     
     console.log('Item restored successfully');
+    
+    await logAdminAction({
+      action: 'restore_item',
+      target_type: recycleBinItem.original_table,
+      target_id: restoredId,
+      after: recycleBinItem.data,
+      details: { name: recycleBinItem.data?.name, original_id: recycleBinItem.original_id }
+    });
   } catch (error) {
     console.error('Error restoring item from recycle bin:', error);
     throw error;
@@ -267,7 +306,16 @@ export const restoreFromRecycleBin = async (recycleBinItem: any) => {
 export const deleteProduct = async (id: string) => {
   try {
     const productRef = doc(db, PRODUCTS_COLLECTION, id);
+    const before = await getDoc(productRef);
     await deleteDoc(productRef);
+    
+    await logAdminAction({
+      action: 'delete_product',
+      target_type: 'product',
+      target_id: id,
+      before: before.exists() ? before.data() : null,
+      details: { name: before.exists() ? before.data().name : '' }
+    });
   } catch (error) {
     console.error('Error deleting product:', error);
     throw error;
@@ -11,9 +11,11 @@ import {
   addDoc
 } from 'firebase/firestore';
 import { db } from '@/config/firebase';
-import { ShippingRate } from '@/types';
+import { logAdminAction } from '@/services/adminLogService';
+import { ShippingPromotion, ShippingRate } from '@/types';
 
 const SHIPPING_RATES_COLLECTION = 'shipping_rates';
+const SHIPPING_PROMOTIONS_COLLECTION = 'shipping_promotions';
 
 export const getAllShippingRates = async (): Promise<ShippingRate[]> => {
   try {
@@ -79,6 +81,14 @@ export const addShippingRate = async (shippingRateData: Omit<ShippingRate, 'id'
       updated_at: timestamp
     });
     
+    await logAdminAction({
+      action: 'create_shipping_rate',
+      target_type: 'shipping_rate',
+      target_id: docRef.id,
+      after: shippingRateData,
+      details: { name: shippingRateData.kanji }
+    });
+    
     return docRef.id;
   } catch (error) {
     console.error('Error adding shipping rate:', error);
@@ -89,11 +99,21 @@ export const addShippingRate = async (shippingRateData: Omit<ShippingRate, 'id'
 export const updateShippingRate = async (id: string, updates: Partial<ShippingRate>): Promise<void> => {
   try {
     const shippingRateRef = doc(db, SHIPPING_RATES_COLLECTION, id);
+    const before = await getDoc(shippingRateRef);
     
     await updateDoc(shippingRateRef, {
       ...updates,
       updated_at: new Date().toISOString()
     });
+    
+    await logAdminAction({
+      action: 'update_shipping_rate',
+      target_type: 'shipping_rate',
+      target_id: id,
+      before: before.exists() ? before.data() : null,
+      after: updates,
+      details: { name: updates.kanji || (before.exists() ? before.data().kanji : '') }
+    });
   } catch (error) {
     console.error('Error updating shipping rate:', error);
     throw error;
@@ -103,9 +123,115 @@ export const updateShippingRate = async (id: string, updates: Partial<ShippingRa
 export const deleteShippingRate = async (id: string): Promise<void> => {
   try {
     const shippingRateRef = doc(db, SHIPPING_RATES_COLLECTION, id);
+    const before = await getDoc(shippingRateRef);
     await deleteDoc(shippingRateRef);
+    
+    await logAdminAction({
+      action: 'delete_shipping_rate',
+      target_type: 'shipping_rate',
+      target_id: id,
+      before: before.exists() ? before.data() : null,
+      details: { name: before.exists() ? before.data().kanji : '' }
+    });
   } catch (error) {
     console.error('Error deleting shipping rate:', error);
     throw error;
   }
-};
\ No newline at end of file
+};
+export const getAllShippingPromotions = async (): Promise<ShippingPromotion[]> => {
+  try {
+    const promotionsRef = collection(db, SHIPPING_PROMOTIONS_COLLECTION);
+    const snapshot = await getDocs(promotionsRef);
+    
+    return snapshot.docs.map(doc => ({
+      id: doc.id,
+      ...doc.data()
+    } as ShippingPromotion));
+  } catch (error) {
+    console.error('Error fetching shipping promotions:', error);
+    throw error;
+  }
+};
+
+export const getActiveShippingPromotions = async (): Promise<ShippingPromotion[]> => {
+  try {
+    const promotionsRef = collection(db, SHIPPING_PROMOTIONS_COLLECTION);
+    const q = query(promotionsRef, where('active', '==', true));
+    const snapshot = await getDocs(q);
+    
+    return snapshot.docs.map(doc => ({
+      id: doc.id,
+      ...doc.data()
+    } as ShippingPromotion));
+  } catch (error) {
+    console.error('Error fetching active shipping promotions:', error);
+    throw error;
+  }
+};
+
+export const addShippingPromotion = async (promotion: Omit<ShippingPromotion, 'id' | 'created_at' | 'updated_at'>): Promise<string> => {
+  try {
+    const timestamp = new Date().toISOString();
+    const docRef = await addDoc(collection(db, SHIPPING_PROMOTIONS_COLLECTION), {
+      ...promotion,
+      created_at: timestamp,
+      updated_at: timestamp
+    });
+    
+    await logAdminAction({
+      action: 'create_shipping_promotion',
+      target_type: 'shipping_promotion',
+      target_id: docRef.id,
+      after: promotion,
+      details: { name: promotion.name }
+    });
+    
+    return docRef.id;
+  } catch (error) {
+    console.error('Error adding shipping promotion:', error);
+    throw error;
+  }
+};
+
+export const updateShippingPromotion = async (id: string, updates: Partial<ShippingPromotion>): Promise<void> => {
+  try {
+    const promotionRef = doc(db, SHIPPING_PROMOTIONS_COLLECTION, id);
+    const before = await getDoc(promotionRef);
+    
+    await updateDoc(promotionRef, {
+      ...updates,
+      updated_at: new Date().toISOString()
+    });
+    
+    await logAdminAction({
+      action: 'update_shipping_promotion',
+      target_type: 'shipping_promotion',
+      target_id: id,
+      before: before.exists() ? before.data() : null,
+      after: updates,
+      details: { name: updates.name || (before.exists() ? before.data().name : '') }
+    });
+  } catch (error) {
+    console.error('Error updating shipping promotion:', error);
+    throw error;
+  }
+};
+
+export const deleteShippingPromotion = async (id: string): Promise<void> => {
+  try {
+    const promotionRef = doc(db, SHIPPING_PROMOTIONS_COLLECTION, id);
+    const before = await getDoc(promotionRef);
+    await deleteDoc(promotionRef);
+    
+    await logAdminAction({
+      action: 'delete_shipping_promotion',
+      target_type: 'shipping_promotion',
+      target_id: id,
+      before: before.exists() ? before.data() : null,
+      details: { name: before.exists() ? before.data().name : '' }
+    });
+  } catch (error) {
+    console.error('Error deleting shipping promotion:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,150 @@
+import {
+  collection,
+  getDocs,
+  doc,
+  getDoc,
+  setDoc,
+  increment
+} from 'firebase/firestore';
+import { db } from '@/config/firebase';
+import { DashboardStats, Order, OrderStats, Product } from '@/types';
+import { getAllProducts } from '@/services/productService';
+
+const STATS_COLLECTION = 'stats';
+const ORDER_STATS_DOC = 'orders';
+const ORDERS_COLLECTION = 'orders';
+
+export const LOW_STOCK_LIST_SIZE = 5;
+export const CRITICAL_STOCK_THRESHOLD = 5;
+
+type OrderSnapshot = Pick<Order, 'status' | 'total_price'>;
+
+const orderStatsRef = () => doc(db, STATS_COLLECTION, ORDER_STATS_DOC);
+
+// Cancelled orders never count towards revenue
+const countsAsRevenue = (order: OrderSnapshot) => order.status !== 'cancelled';
+
+const contributionOf = (order: OrderSnapshot | null) => ({
+  totalOrders: order ? 1 : 0,
+  pendingOrders: order && order.status === 'pending' ? 1 : 0,
+  totalRevenue: order && countsAsRevenue(order) ? order.total_price || 0 : 0
+});
+
+/**
+ * Applies the difference between two versions of an order to the aggregate
+ * document. Pass `null` as `before` and the order's ID for a new order; the
+ * ID lets security rules check the added revenue against that order. Failures
+ * are logged only; the dashboard can always rebuild the aggregate from the orders.
+ */
+export const applyOrderStatsChange = async (
+  before: OrderSnapshot | null,
+  after: OrderSnapshot | null,
+  newOrderId?: string
+): Promise<void> => {
+  try {
+    const previous = contributionOf(before);
+    const next = contributionOf(after);
+
+    const delta = {
+      totalOrders: next.totalOrders - previous.totalOrders,
+      pendingOrders: next.pendingOrders - previous.pendingOrders,
+      totalRevenue: next.totalRevenue - previous.totalRevenue
+    };
+
+    if (!delta.totalOrders && !delta.pendingOrders && !delta.totalRevenue) {
+      return;
+    }
+
+    await setDoc(orderStatsRef(), {
+      totalOrders: increment(delta.totalOrders),
+      pendingOrders: increment(delta.pendingOrders),
+      totalRevenue: increment(delta.totalRevenue),
+      ...(newOrderId ? { last_order_id: newOrderId } : {}),
+      updated_at: new Date().toISOString()
+    }, { merge: true });
+  } catch (error) {
+    console.error('Error updating order stats:', error);
+  }
+};
+
+export const rebuildOrderStats = async (): Promise<OrderStats> => {
+  try {
+    const snapshot = await getDocs(collection(db, ORDERS_COLLECTION));
+
+    const stats: OrderStats = {
+      totalOrders: 0,
+      pendingOrders: 0,
+      totalRevenue: 0,
+      updated_at: new Date().toISOString()
+    };
+
+    snapshot.docs.forEach(orderDoc => {
+      const contribution = contributionOf(orderDoc.data() as OrderSnapshot);
+      stats.totalOrders += contribution.totalOrders;
+      stats.pendingOrders += contribution.pendingOrders;
+      stats.totalRevenue += contribution.totalRevenue;
+    });
+
+    await setDoc(orderStatsRef(), stats);
+    return stats;
+  } catch (error) {
+    console.error('Error rebuilding order stats:', error);
+    throw error;
+  }
+};
+
+export const getOrderStats = async (): Promise<OrderStats> => {
+  try {
+    const snapshot = await getDoc(orderStatsRef());
+
+    // First load after deployment: build the aggregate once
+    if (!snapshot.exists()) {
+      return await rebuildOrderStats();
+    }
+
+    return snapshot.data() as OrderStats;
+  } catch (error) {
+    console.error('Error fetching order stats:', error);
+    throw error;
+  }
+};
+
+const summarizeProducts = (products: Product[]) => {
+  const inStock = products.filter(product => product.stock > 0);
+
+  return {
+    totalProducts: products.length,
+    activeProducts: products.filter(product =>
+      (!product.status || product.status === 'active') && product.stock > 0
+    ).length,
+    outOfStockProducts: products.filter(product =>
+      product.stock <= 0 || product.status === 'out_of_stock'
+    ).length,
+    lowStockProducts: [...inStock]
+      .sort((a, b) => a.stock - b.stock)
+      .slice(0, LOW_STOCK_LIST_SIZE),
+    criticalStockProducts: inStock
+      .filter(product => product.stock <= CRITICAL_STOCK_THRESHOLD)
+      .sort((a, b) => a.stock - b.stock),
+    totalCategories: new Set(products.map(product => product.category).filter(Boolean)).size
+  };
+};
+
+export const getDashboardStats = async (): Promise<DashboardStats> => {
+  try {
+    const [products, orderStats] = await Promise.all([
+      getAllProducts(),
+      getOrderStats()
+    ]);
+
+    return {
+      ...summarizeProducts(products),
+      totalOrders: orderStats.totalOrders,
+      pendingOrders: orderStats.pendingOrders,
+      totalRevenue: orderStats.totalRevenue
+    };
+  } catch (error) {
+    console.error('Error fetching dashboard stats:', error);
+    throw error;
+  }
+};
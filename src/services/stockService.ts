@@ -0,0 +1,216 @@
+import {
+  doc,
+  DocumentReference,
+  runTransaction,
+  Transaction
+} from 'firebase/firestore';
+import { db } from '@/config/firebase';
+import { OrderItem, ProductVariant, StockReservation } from '@/types';
+
+const PRODUCTS_COLLECTION = 'products';
+const ORDERS_COLLECTION = 'orders';
+
+export interface StockShortage {
+  product_id: string;
+  name: string;
+  variantName?: string;
+  available: number;
+  requested: number;
+}
+
+export class OutOfStockError extends Error {
+  shortages: StockShortage[];
+
+  constructor(shortages: StockShortage[]) {
+    super(
+      'Stok tidak mencukupi: ' +
+      shortages
+        .map(s => `${s.name}${s.variantName ? ` (${s.variantName})` : ''} tersisa ${s.available}`)
+        .join(', ')
+    );
+    this.name = 'OutOfStockError';
+    this.shortages = shortages;
+  }
+}
+
+type StockItem = Pick<OrderItem, 'product_id' | 'name' | 'quantity' | 'selectedVariantName' | 'selectedVariants'>;
+
+interface ProductStockChange {
+  ref: DocumentReference;
+  name: string;
+  quantity: number;
+  variants: Map<string, number>;
+}
+
+const getVariantName = (item: StockItem): string | null => {
+  if (item.selectedVariantName) return item.selectedVariantName;
+  if (item.selectedVariants && Object.keys(item.selectedVariants).length > 0) {
+    return item.selectedVariants.variant || null;
+  }
+  return null;
+};
+
+// Several cart lines can point at the same product document (one per variant),
+// so quantities are grouped per product before the transaction touches them.
+const groupByProduct = (items: StockItem[]): ProductStockChange[] => {
+  const changes = new Map<string, ProductStockChange>();
+
+  items.forEach(item => {
+    // Skip items without product_id (backward compatibility)
+    if (!item.product_id) return;
+
+    const change = changes.get(item.product_id) || {
+      ref: doc(db, PRODUCTS_COLLECTION, item.product_id),
+      name: item.name,
+      quantity: 0,
+      variants: new Map<string, number>()
+    };
+
+    const variantName = getVariantName(item);
+    if (variantName) {
+      change.variants.set(variantName, (change.variants.get(variantName) || 0) + item.quantity);
+    } else {
+      change.quantity += item.quantity;
+    }
+
+    changes.set(item.product_id, change);
+  });
+
+  return Array.from(changes.values());
+};
+
+/**
+ * Adjusts product and variant stock inside a transaction. A negative
+ * direction reserves stock and throws OutOfStockError when any line cannot be
+ * covered; a positive direction puts reserved stock back.
+ *
+ * Reads every product before writing, as Firestore transactions require.
+ */
+const adjustStock = async (
+  transaction: Transaction,
+  items: StockItem[],
+  direction: 1 | -1,
+  extraFields: Record<string, unknown> = {}
+): Promise<void> => {
+  const changes = groupByProduct(items);
+  const snapshots = await Promise.all(changes.map(change => transaction.get(change.ref)));
+  const shortages: StockShortage[] = [];
+  const timestamp = new Date().toISOString();
+
+  const updates = changes.map((change, index) => {
+    const snapshot = snapshots[index];
+
+    if (!snapshot.exists()) {
+      if (direction === 1) return null;
+      throw new Error(`Product ${change.name} not found`);
+    }
+
+    const productData = snapshot.data();
+    const update: Record<string, unknown> = { ...extraFields, updated_at: timestamp };
+
+    if (change.quantity > 0) {
+      const available = productData.stock || 0;
+      if (direction === -1 && available < change.quantity) {
+        shortages.push({
+          product_id: snapshot.id,
+          name: productData.name || change.name,
+          available,
+          requested: change.quantity
+        });
+      }
+      update.stock = available + direction * change.quantity;
+    }
+
+    if (change.variants.size > 0) {
+      const variants: ProductVariant[] = [...(productData.variants || [])];
+
+      change.variants.forEach((quantity, variantName) => {
+        const variantIndex = variants.findIndex(v => v.name === variantName);
+
+        if (variantIndex === -1) {
+          if (direction === 1) return;
+          throw new Error(`Variant ${variantName} not found for ${change.name}`);
+        }
+
+        const variant = variants[variantIndex];
+        if (direction === -1 && variant.stock < quantity) {
+          shortages.push({
+            product_id: snapshot.id,
+            name: productData.name || change.name,
+            variantName,
+            available: variant.stock,
+            requested: quantity
+          });
+        }
+        variants[variantIndex] = { ...variant, stock: variant.stock + direction * quantity };
+      });
+
+      update.variants = variants;
+    }
+
+    return { ref: change.ref, update };
+  });
+
+  if (shortages.length > 0) {
+    throw new OutOfStockError(shortages);
+  }
+
+  updates.forEach(entry => {
+    if (entry) transaction.update(entry.ref, entry.update);
+  });
+};
+
+/**
+ * What reserving stock for these items takes from each product. Checkout
+ * stores it on the order so security rules can check every decrement.
+ */
+export const getStockReservations = (items: StockItem[]): Record<string, StockReservation> => {
+  const reservations: Record<string, StockReservation> = {};
+
+  groupByProduct(items).forEach(change => {
+    reservations[change.ref.id] = {
+      stock: change.quantity,
+      variants: Object.fromEntries(change.variants)
+    };
+  });
+
+  return reservations;
+};
+
+/**
+ * Reserves stock for a new order. The order ID is stamped on each product so
+ * security rules can check that the decrement belongs to an order created in
+ * the same transaction.
+ */
+export const reserveStock = (transaction: Transaction, items: StockItem[], orderId: string) =>
+  adjustStock(transaction, items, -1, { last_reserved_order: orderId });
+
+export const restoreStock = (transaction: Transaction, items: StockItem[]) =>
+  adjustStock(transaction, items, 1);
+
+/**
+ * Returns the stock held by an order. Safe to call more than once: the order's
+ * stock_reserved flag is cleared in the same transaction.
+ */
+export const releaseOrderStock = async (orderId: string): Promise<boolean> => {
+  try {
+    return await runTransaction(db, async (transaction) => {
+      const orderRef = doc(db, ORDERS_COLLECTION, orderId);
+      const orderDoc = await transaction.get(orderRef);
+
+      if (!orderDoc.exists() || !orderDoc.data().stock_reserved) {
+        return false;
+      }
+
+      await restoreStock(transaction, orderDoc.data().items || []);
+      transaction.update(orderRef, {
+        stock_reserved: false,
+        stock_released_at: new Date().toISOString()
+      });
+      return true;
+    });
+  } catch (error) {
+    console.error('Error releasing order stock:', error);
+    throw error;
+  }
+};
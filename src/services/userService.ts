@@ -7,19 +7,31 @@ import {
   doc,
   getDoc,
   setDoc,
-  updateDoc
+  updateDoc,
+  writeBatch
 } from 'firebase/firestore';
 import { db } from '@/config/firebase';
+import { UserRole } from '@/types';
+import { normalizeRole } from '@/utils/permissions';
+import { logAdminAction } from '@/services/adminLogService';
 
 const USERS_COLLECTION = 'users';
+const APP_CONFIG_COLLECTION = 'app_config';
+const OWNER_CONFIG_DOC = 'owner';
 
-interface UserProfile {
+export interface UserProfile {
   id: string;
   name: string;
   email: string;
-  role: 'user' | 'admin';
+  role: UserRole;
   created_at: string;
   updated_at?: string;
+  // Fields written by the auth page on sign in
+  uid?: string;
+  displayName?: string;
+  createdAt?: string;
+  lastLogin?: string;
+  isOnline?: boolean;
 }
 
 export const getAllUsers = async (): Promise<UserProfile[]> => {
@@ -44,7 +56,8 @@ export const getUserProfile = async (userId: string): Promise<UserProfile | null
     const snapshot = await getDoc(userRef);
     
     if (snapshot.exists()) {
-      return { id: snapshot.id, ...snapshot.data() } as UserProfile;
+      const data = snapshot.data();
+      return { id: snapshot.id, ...data, role: normalizeRole(data.role) } as UserProfile;
     }
     return null;
   } catch (error) {
@@ -56,14 +69,14 @@ export const getUserProfile = async (userId: string): Promise<UserProfile | null
 export const createUserProfile = async (userId: string, userData: {
   name: string;
   email: string;
-  role?: 'user' | 'admin';
+  role?: UserRole;
 }) => {
   try {
     const userRef = doc(db, USERS_COLLECTION, userId);
     await setDoc(userRef, {
       name: userData.name,
       email: userData.email,
-      role: userData.role || 'user',
+      role: userData.role || 'customer',
       created_at: new Date().toISOString(),
       updated_at: new Date().toISOString()
     });
@@ -85,3 +98,98 @@ export const updateUserProfile = async (userId: string, updates: Partial<UserPro
     throw error;
   }
 };
+
+
+// Create the profile on first sign in; later sign ins only refresh login info
+// so a role granted from the admin panel is never overwritten
+export const ensureUserProfile = async (user: {
+  uid: string;
+  email: string | null;
+  displayName: string | null;
+}) => {
+  try {
+    const userRef = doc(db, USERS_COLLECTION, user.uid);
+    const snapshot = await getDoc(userRef);
+    const timestamp = new Date().toISOString();
+    const displayName = user.displayName || user.email?.split('@')[0] || '';
+
+    if (snapshot.exists()) {
+      await updateDoc(userRef, {
+        lastLogin: timestamp,
+        isOnline: true
+      });
+      return;
+    }
+
+    await setDoc(userRef, {
+      uid: user.uid,
+      email: user.email || '',
+      name: displayName,
+      displayName,
+      role: 'customer',
+      created_at: timestamp,
+      createdAt: timestamp,
+      lastLogin: timestamp,
+      isOnline: true
+    });
+  } catch (error) {
+    console.error('Error ensuring user profile:', error);
+    throw error;
+  }
+};
+
+export const updateUserRole = async (userId: string, role: UserRole) => {
+  try {
+    const userRef = doc(db, USERS_COLLECTION, userId);
+    const before = await getDoc(userRef);
+    await updateDoc(userRef, {
+      role,
+      updated_at: new Date().toISOString()
+    });
+    
+    await logAdminAction({
+      action: 'update_user_role',
+      target_type: 'user',
+      target_id: userId,
+      before: { role: before.exists() ? normalizeRole(before.data().role) : null },
+      after: { role },
+      details: { name: before.exists() ? before.data().email : '' }
+    });
+  } catch (error) {
+    console.error('Error updating user role:', error);
+    throw error;
+  }
+};
+
+/**
+ * Makes the signed-in admin the store's first owner. Only owners can appoint
+ * owners, so a new deployment gets its first one here; the app_config/owner
+ * marker written in the same batch lets security rules allow it only once.
+ */
+export const claimStoreOwnership = async (userId: string) => {
+  try {
+    const timestamp = new Date().toISOString();
+    const batch = writeBatch(db);
+
+    batch.update(doc(db, USERS_COLLECTION, userId), {
+      role: 'owner',
+      updated_at: timestamp
+    });
+    batch.set(doc(db, APP_CONFIG_COLLECTION, OWNER_CONFIG_DOC), {
+      userId,
+      claimed_at: timestamp
+    });
+    await batch.commit();
+
+    await logAdminAction({
+      action: 'claim_store_ownership',
+      target_type: 'user',
+      target_id: userId,
+      before: { role: 'admin' },
+      after: { role: 'owner' }
+    });
+  } catch (error) {
+    console.error('Error claiming store ownership:', error);
+    throw error;
+  }
+};
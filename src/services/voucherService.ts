@@ -0,0 +1,262 @@
+import {
+  collection,
+  getDocs,
+  query,
+  where,
+  doc,
+  getDoc,
+  setDoc,
+  updateDoc,
+  deleteDoc,
+  increment,
+  Transaction
+} from 'firebase/firestore';
+import { db } from '@/config/firebase';
+import { logAdminAction } from '@/services/adminLogService';
+import { AppliedVoucher, Voucher, VoucherRedemption } from '@/types';
+import {
+  getVoucherAvailabilityError,
+  getVoucherUserLimitError,
+  normalizeVoucherCode
+} from '@/utils/voucherUtils';
+
+const VOUCHERS_COLLECTION = 'vouchers';
+const VOUCHER_REDEMPTIONS_COLLECTION = 'voucher_redemptions';
+
+export class VoucherError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VoucherError';
+  }
+}
+
+export const getAllVouchers = async (): Promise<Voucher[]> => {
+  try {
+    const snapshot = await getDocs(collection(db, VOUCHERS_COLLECTION));
+
+    return snapshot.docs
+      .map(doc => ({
+        id: doc.id,
+        ...doc.data()
+      } as Voucher))
+      .sort((a, b) => (b.created_at || '').localeCompare(a.created_at || ''));
+  } catch (error) {
+    console.error('Error fetching vouchers:', error);
+    throw error;
+  }
+};
+
+export const getVoucherRedemptions = async (): Promise<VoucherRedemption[]> => {
+  try {
+    const snapshot = await getDocs(collection(db, VOUCHER_REDEMPTIONS_COLLECTION));
+
+    return snapshot.docs
+      .map(doc => ({
+        id: doc.id,
+        ...doc.data()
+      } as VoucherRedemption))
+      .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
+  } catch (error) {
+    console.error('Error fetching voucher redemptions:', error);
+    throw error;
+  }
+};
+
+export const countUserRedemptions = async (voucherId: string, userId: string): Promise<number> => {
+  try {
+    const q = query(
+      collection(db, VOUCHER_REDEMPTIONS_COLLECTION),
+      where('voucher_id', '==', voucherId),
+      where('user_id', '==', userId)
+    );
+    const snapshot = await getDocs(q);
+    return snapshot.size;
+  } catch (error) {
+    console.error('Error counting voucher redemptions:', error);
+    throw error;
+  }
+};
+
+/**
+ * Looks up a code entered at checkout. Throws VoucherError with a
+ * customer-facing message when the code cannot be used; cart-dependent rules
+ * (minimum spend, categories) are checked by evaluateVoucher.
+ */
+export const findRedeemableVoucher = async (code: string, userId?: string | null): Promise<Voucher> => {
+  try {
+    const normalizedCode = normalizeVoucherCode(code);
+    if (!normalizedCode) {
+      throw new VoucherError('Masukkan kode voucher');
+    }
+
+    const voucherDoc = await getDoc(doc(db, VOUCHERS_COLLECTION, normalizedCode));
+    if (!voucherDoc.exists()) {
+      throw new VoucherError('Kode voucher tidak ditemukan');
+    }
+
+    const voucher = { id: voucherDoc.id, ...voucherDoc.data() } as Voucher;
+
+    const availabilityError = getVoucherAvailabilityError(voucher);
+    if (availabilityError) {
+      throw new VoucherError(availabilityError);
+    }
+
+    const previousRedemptions = voucher.per_user_limit && userId
+      ? await countUserRedemptions(voucher.id, userId)
+      : 0;
+    const userLimitError = getVoucherUserLimitError(voucher, userId, previousRedemptions);
+    if (userLimitError) {
+      throw new VoucherError(userLimitError);
+    }
+
+    return voucher;
+  } catch (error) {
+    if (!(error instanceof VoucherError)) {
+      console.error('Error fetching voucher:', error);
+    }
+    throw error;
+  }
+};
+
+/**
+ * Re-reads the voucher inside the checkout transaction so the usage limit
+ * holds even when several customers redeem the last use at once. Must run
+ * before the transaction's first write.
+ */
+export const getVoucherForRedemption = async (
+  transaction: Transaction,
+  voucherId: string,
+  userId: string | null,
+  previousRedemptions: number
+): Promise<Voucher> => {
+  const voucherDoc = await transaction.get(doc(db, VOUCHERS_COLLECTION, voucherId));
+
+  if (!voucherDoc.exists()) {
+    throw new VoucherError('Kode voucher tidak ditemukan');
+  }
+
+  const voucher = { id: voucherDoc.id, ...voucherDoc.data() } as Voucher;
+  const error = getVoucherAvailabilityError(voucher)
+    || getVoucherUserLimitError(voucher, userId, previousRedemptions);
+
+  if (error) {
+    throw new VoucherError(error);
+  }
+
+  return voucher;
+};
+
+/**
+ * Counts the use and writes the redemption record for an order created in the
+ * same transaction. The order ID is stamped on the voucher so security rules
+ * can tie the increment to that order.
+ */
+export const redeemVoucher = (
+  transaction: Transaction,
+  voucher: Voucher,
+  applied: AppliedVoucher,
+  order: { id: string; user_id: string | null; customer_email: string }
+) => {
+  const timestamp = new Date().toISOString();
+
+  transaction.update(doc(db, VOUCHERS_COLLECTION, voucher.id), {
+    used_count: increment(1),
+    last_redeemed_order: order.id,
+    updated_at: timestamp
+  });
+
+  const redemption: Omit<VoucherRedemption, 'id'> = {
+    voucher_id: voucher.id,
+    code: voucher.code,
+    order_id: order.id,
+    user_id: order.user_id,
+    customer_email: order.customer_email,
+    discount: applied.discount,
+    shipping_discount: applied.shipping_discount,
+    created_at: timestamp
+  };
+  transaction.set(doc(db, VOUCHER_REDEMPTIONS_COLLECTION, order.id), redemption);
+};
+
+export const addVoucher = async (
+  voucher: Omit<Voucher, 'id' | 'used_count' | 'created_at' | 'updated_at'>
+): Promise<string> => {
+  try {
+    const code = normalizeVoucherCode(voucher.code);
+    const voucherRef = doc(db, VOUCHERS_COLLECTION, code);
+
+    const existing = await getDoc(voucherRef);
+    if (existing.exists()) {
+      throw new VoucherError(`Kode voucher ${code} sudah ada`);
+    }
+
+    const timestamp = new Date().toISOString();
+    await setDoc(voucherRef, {
+      ...voucher,
+      code,
+      used_count: 0,
+      created_at: timestamp,
+      updated_at: timestamp
+    });
+
+    await logAdminAction({
+      action: 'create_voucher',
+      target_type: 'voucher',
+      target_id: code,
+      after: { ...voucher, code },
+      details: { name: code }
+    });
+
+    return code;
+  } catch (error) {
+    console.error('Error adding voucher:', error);
+    throw error;
+  }
+};
+
+// The code is the document ID, so it cannot be changed once created
+export const updateVoucher = async (
+  id: string,
+  updates: Partial<Omit<Voucher, 'id' | 'code' | 'used_count'>>
+): Promise<void> => {
+  try {
+    const voucherRef = doc(db, VOUCHERS_COLLECTION, id);
+    const before = await getDoc(voucherRef);
+
+    await updateDoc(voucherRef, {
+      ...updates,
+      updated_at: new Date().toISOString()
+    });
+
+    await logAdminAction({
+      action: 'update_voucher',
+      target_type: 'voucher',
+      target_id: id,
+      before: before.exists() ? before.data() : null,
+      after: updates,
+      details: { name: id }
+    });
+  } catch (error) {
+    console.error('Error updating voucher:', error);
+    throw error;
+  }
+};
+
+export const deleteVoucher = async (id: string): Promise<void> => {
+  try {
+    const voucherRef = doc(db, VOUCHERS_COLLECTION, id);
+    const before = await getDoc(voucherRef);
+    await deleteDoc(voucherRef);
+
+    await logAdminAction({
+      action: 'delete_voucher',
+      target_type: 'voucher',
+      target_id: id,
+      before: before.exists() ? before.data() : null,
+      details: { name: id }
+    });
+  } catch (error) {
+    console.error('Error deleting voucher:', error);
+    throw error;
+  }
+};
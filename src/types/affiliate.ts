@@ -6,23 +6,35 @@ export interface AffiliateUser {
   referralCode: string;
   totalClicks: number;
   totalReferrals: number;
-  totalCommission: number;
-  pendingCommission: number;
-  paidCommission: number;
-  bankInfo?: {
-    bankName: string;
-    accountNumber: string;
-    accountName: string;
-  };
+  // Hashed contact details from the affiliate's own orders, to spot self-referrals
+  contactKeys?: string[];
+  bankInfo?: AffiliateBankInfo;
   createdAt: string;
   updatedAt: string;
 }
 
+// Bank and branch codes are only needed for transfers to Japanese banks
+export interface AffiliateBankInfo {
+  bankName: string;
+  accountNumber: string;
+  accountName: string;
+  bankCode?: string; // 4 digits
+  branchCode?: string; // 3 digits
+  branchName?: string;
+  accountType?: BankAccountType;
+  accountNameKana?: string; // account holder as registered with the bank
+}
+
+export type BankAccountType = 'ordinary' | 'checking';
+
 export interface AffiliateReferral {
   id: string;
   referralCode: string;
   referrerId: string;
   visitorId?: string;
+  fingerprint?: string; // device hash of the click, to spot click flooding
+  campaign?: string; // sub-ID from the link, e.g. 'tiktok'
+  productId?: string; // set when the click landed on a product deep link
   referredUserId?: string;
   referredUserEmail?: string;
   referredUserName?: string;
@@ -49,8 +61,9 @@ export interface AffiliateCommission {
   referralId: string;
   orderId: string;
   orderTotal: number;
-  commissionAmount: number;
-  status: 'pending' | 'approved' | 'rejected' | 'paid';
+  commissionAmount: number; // net of any reversals
+  originalAmount?: number; // set once the commission is first reduced
+  status: 'pending' | 'approved' | 'rejected' | 'paid' | 'reversed';
   createdAt: string;
   updatedAt: string;
   approvedAt?: string;
@@ -60,18 +73,175 @@ export interface AffiliateCommission {
   rejectedBy?: string;
   paidBy?: string;
   notes?: string;
+  breakdown?: CommissionBreakdown;
+  adjustments?: CommissionAdjustment[];
+  // Null until the order is delivered, which starts the hold period. Missing
+  // on commissions from before the hold period, which are never locked.
+  deliveredAt?: string | null;
+  buyer?: CommissionBuyer;
+  campaign?: string; // copied from the referral that earned it
+}
+
+// Who placed the order, as hashed contact keys (see getContactKeys)
+export interface CommissionBuyer {
+  userId: string;
+  contactKeys: string[];
+}
+
+export interface CampaignStats {
+  campaign: string; // '' for links without a sub-ID
+  clicks: number;
+  registrations: number;
+  orders: number;
+  commission: number;
+}
+
+// Clicks come from product deep links, orders and commission from the
+// commission lines of that product
+export interface ProductStats {
+  productId: string;
+  name: string;
+  clicks: number;
+  orders: number;
+  quantity: number;
+  commission: number;
+}
+
+// Computed for review in the admin; 0 (clean) to 100
+export interface CommissionRisk {
+  score: number;
+  reasons: string[];
+}
+
+export type CommissionAdjustmentReason = 'order_cancelled' | 'payment_rejected' | 'refund';
+
+export interface CommissionAdjustment {
+  id: string;
+  reason: CommissionAdjustmentReason;
+  amount: number; // commission taken back
+  notes?: string;
+  createdAt: string;
+  createdBy: string | null;
+}
+
+// `shop` is the counterparty; the others are what the shop owes the affiliate
+export type AffiliateLedgerAccount = 'shop' | 'available' | 'payout_requested' | 'paid';
+
+export type AffiliateLedgerEntryType = 'commission' | 'payout' | 'reversal' | 'adjustment';
+
+// Append-only and double-entry: `amount` moves out of `credit` into `debit`
+export interface AffiliateLedgerEntry {
+  id: string;
+  affiliateId: string;
+  type: AffiliateLedgerEntryType;
+  debit: AffiliateLedgerAccount;
+  credit: AffiliateLedgerAccount;
+  amount: number; // always positive
+  commissionId?: string;
+  payoutId?: string;
+  orderId?: string;
+  description: string;
+  createdAt: string;
+  createdBy: string | null;
+}
+
+// Derived from the ledger, never stored
+export interface AffiliateBalance {
+  earned: number; // commission net of reversals and adjustments
+  available: number; // can be requested as a payout
+  payoutRequested: number;
+  paid: number;
+}
+
+// Where the ledger disagrees with the commissions and payouts it records
+export interface AffiliateLedgerDrift {
+  affiliateId: string;
+  displayName: string;
+  expected: AffiliateBalance;
+  actual: AffiliateBalance;
+}
+
+export type CommissionRateSource = 'product' | 'category' | 'tier' | 'default';
+
+export interface CommissionLineItem {
+  productId: string;
+  name: string;
+  category?: string;
+  quantity: number;
+  lineTotal: number; // after this line's share of any voucher discount
+  rate: number;
+  rateSource: CommissionRateSource;
+  amount: number;
+}
+
+// How a commission amount was reached; shipping never earns commission
+export interface CommissionBreakdown {
+  tierId: string | null;
+  tierName: string | null;
+  monthlySales: number; // referred sales earlier in the month, which decide the tier
+  baseRate: number;
+  discount: number;
+  lines: CommissionLineItem[];
+}
+
+// Reached by referred sales within one calendar month (Japan time)
+export interface AffiliateTier {
+  id: string;
+  name: string;
+  minMonthlySales: number;
+  commissionRate: number;
+}
+
+// Product rules win over category rules, which win over the tier rate
+export interface CommissionRule {
+  id: string;
+  type: 'product' | 'category';
+  target: string; // product ID or category name
+  targetName?: string;
+  commissionRate: number;
+}
+
+export interface AffiliateMonthlySales {
+  id: string; // `${affiliateId}_${month}`
+  affiliateId: string;
+  month: string; // Format: YYYY-MM
+  sales: number;
+  orders: number;
+  lastOrderId: string;
+  updatedAt: string;
 }
 
 export interface AffiliateSettings {
   id: string;
   defaultCommissionRate: number; // Percentage (e.g., 5 for 5%)
+  tiers?: AffiliateTier[];
+  commissionRules?: CommissionRule[];
+  maxCommissionRate?: number; // Highest of the rates above, kept for the security rules
   minPayoutAmount: number; // Minimum amount for payout
+  holdPeriodDays?: number; // Days after delivery before commission can be paid out
+  attributionWindowDays?: number; // Days a referral keeps earning commission
+  attributionModel?: AttributionModel;
+  payoutRemitter?: PayoutRemitter; // Shop account that payout runs are sent from
   payoutMethods: string[]; // Available payout methods
   termsAndConditions: string;
   createdAt: string;
   updatedAt: string;
 }
 
+// Whether the first or the latest referral link a user followed gets the credit
+export type AttributionModel = 'first_click' | 'last_click';
+
+// The affiliate a user's orders are credited to, stored per user account
+export interface AffiliateAttribution {
+  id: string; // the user's ID
+  userId: string;
+  affiliateId: string;
+  referralCode: string;
+  campaign?: string;
+  attributedAt: string; // start of the attribution window
+  updatedAt: string;
+}
+
 export interface AffiliateStats {
   totalClicks: number;
   totalReferrals: number;
@@ -101,11 +271,7 @@ export interface AffiliatePayout {
   amount: number;
   method: string;
   status: 'pending' | 'processing' | 'completed' | 'rejected';
-  bankInfo?: {
-    bankName: string;
-    accountNumber: string;
-    accountName: string;
-  };
+  bankInfo?: AffiliateBankInfo;
   requestedAt: string;
   processedAt?: string;
   completedAt?: string;
@@ -114,6 +280,50 @@ export interface AffiliatePayout {
   completedBy?: string;
   rejectedBy?: string;
   notes?: string;
+  runId?: string; // set when the payout was created by a payout run
+}
+
+// The shop's own account, as the header record of a Zengin transfer file
+export interface PayoutRemitter {
+  companyCode: string; // 10 digits, issued by the bank
+  companyNameKana: string;
+  bankCode: string;
+  bankNameKana: string;
+  branchCode: string;
+  branchNameKana: string;
+  accountType: BankAccountType;
+  accountNumber: string;
+}
+
+export interface PayoutRunCommission {
+  commissionId: string;
+  orderId: string;
+  amount: number;
+}
+
+export interface AffiliatePayoutRunItem {
+  affiliateId: string;
+  displayName: string;
+  email: string;
+  amount: number;
+  payoutId: string;
+  bankInfo: AffiliateBankInfo;
+  commissions: PayoutRunCommission[]; // approved commission the transfer covers
+}
+
+export interface AffiliatePayoutRun {
+  id: string;
+  month: string; // Format: YYYY-MM
+  status: 'draft' | 'completed' | 'cancelled';
+  items: AffiliatePayoutRunItem[];
+  totalAmount: number;
+  createdAt: string;
+  createdBy: string;
+  completedAt?: string;
+  completedBy?: string;
+  cancelledAt?: string;
+  cancelledBy?: string;
+  notes?: string;
 }
 
 export interface AffiliateMonthlyStats {
@@ -139,4 +349,34 @@ export interface AffiliateMonthlyStats {
   completedBy?: string;
   rejectedBy?: string;
   notes?: string;
-}
\ No newline at end of file
+}
+
+export type AffiliateNotificationType =
+  | 'click_milestone'
+  | 'referred_order'
+  | 'commission_approved'
+  | 'commission_rejected'
+  | 'payout_completed';
+
+// IDs are derived from the event (e.g. `{affiliateId}_commission_{id}_approved`),
+// so each event is recorded once however many devices the affiliate uses
+export interface AffiliateNotification {
+  id: string;
+  affiliateId: string;
+  type: AffiliateNotificationType;
+  title: string;
+  message: string;
+  read: boolean;
+  eventAt: string;
+  createdAt: string;
+}
+
+// Keyed by affiliate ID. Events before `since` are never notified, so joining
+// the feed does not flood it with history.
+export interface AffiliateNotificationSettings {
+  affiliateId: string;
+  preferences: Record<AffiliateNotificationType, boolean>;
+  since: string;
+  clickMilestone: number; // highest click milestone already notified
+  updatedAt: string;
+}
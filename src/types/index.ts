@@ -8,6 +8,8 @@ export interface Product {
   images?: string[];
   variants?: ProductVariant[];
   stock: number;
+  weight?: number; // grams per unit
+  shipping_class?: ShippingClass;
   status?: 'active' | 'inactive' | 'draft' | 'out_of_stock';
   created_at?: string;
   updated_at?: string;
@@ -16,6 +18,8 @@ export interface Product {
   selectedVariants?: Record<string, any>;
 }
 
+export type ShippingClass = 'normal' | 'cool' | 'frozen';
+
 export interface ProductVariant {
   id?: string;
   name: string;
@@ -25,15 +29,24 @@ export interface ProductVariant {
   rawSelections?: Record<string, string>;
 }
 
+// Stock an order took from one product: plain stock plus stock per variant name
+export interface StockReservation {
+  stock: number;
+  variants: Record<string, number>;
+}
+
+export type OrderStatus = 'pending' | 'confirmed' | 'processing' | 'shipped' | 'delivered' | 'completed' | 'cancelled';
+
 export interface Order {
   id: string;
   user_id: string;
   items: OrderItem[];
   total_amount: number;
   total_price: number; // Alternative property name used in some components
-  status: 'pending' | 'processing' | 'shipped' | 'delivered' | 'cancelled' | 'confirmed' | 'completed';
-  payment_status?: 'pending' | 'verified' | 'rejected';
-  payment_proof_url?: string;
+  status: OrderStatus;
+  status_history?: OrderTracking[];
+  payment_status?: PaymentProofStatus;
+  payment_proof_url?: string; // latest upload; every upload is a PaymentProof
   confirmed_at?: string;
   shipping_address: ShippingAddress;
   payment_method: 'credit_card' | 'paypal' | 'cod' | 'qris';
@@ -45,6 +58,53 @@ export interface Order {
   shipping_fee?: number; // Added shipping fee field
   affiliate_id?: string; // Added affiliate ID field
   visitor_id?: string; // Added visitor ID field for tracking
+  stock_reserved?: boolean; // Stock is held for this order until it is cancelled or rejected
+  stock_reservations?: Record<string, StockReservation>; // by product ID, as taken at checkout
+  stock_released_at?: string;
+  shipment?: OrderShipment;
+  shipping_promotion?: AppliedShippingPromotion | null;
+  voucher?: AppliedVoucher | null;
+  refunds?: OrderRefund[];
+  refunded_amount?: number;
+  exchange_rate?: OrderExchangeRate | null; // only for orders paid in rupiah
+}
+
+// Where a reference rate was fetched from
+export type ExchangeRateProvider = 'exchangerate.host' | 'open.er-api.com';
+
+// 'manual' and 'markup' are the store rate; orders from before the store rate
+// carry the provider the customer's browser fetched from
+export type ExchangeRateSource = ExchangeRateMode | ExchangeRateProvider | 'fallback';
+
+// A JPY→IDR rate and where and when it was obtained
+export interface ExchangeRateQuote {
+  rate: number;
+  source: ExchangeRateSource;
+  fetched_at: string;
+}
+
+// The quote the customer saw at checkout; the rupiah total holds until expires_at
+export interface OrderExchangeRate extends ExchangeRateQuote {
+  total_rupiah: number;
+  locked_at: string;
+  expires_at: string;
+}
+
+export interface OrderRefund {
+  id: string;
+  amount: number;
+  reason: string;
+  created_at: string;
+  created_by: string | null;
+}
+
+export type ShippingCarrier = 'yamato' | 'sagawa' | 'japan_post';
+
+export interface OrderShipment {
+  carrier: ShippingCarrier;
+  tracking_number: string;
+  shipped_at: string;
+  updated_at?: string;
 }
 
 export interface OrderItem {
@@ -78,24 +138,51 @@ export interface ShippingAddress {
   country: string;
 }
 
+// Roles stored on the user profile in the `users` collection
+export type UserRole = 'owner' | 'admin' | 'cashier' | 'affiliate_manager' | 'customer';
+
+export type Permission =
+  | 'admin.access'
+  | 'dashboard.view'
+  | 'products.manage'
+  | 'orders.manage'
+  | 'payments.verify'
+  | 'shipping.manage'
+  | 'reports.view'
+  | 'users.manage'
+  | 'logs.view'
+  | 'affiliate.manage'
+  | 'data.import_export'
+  | 'recycle_bin.manage'
+  | 'pos.access'
+  | 'vouchers.manage'
+  | 'exchange_rate.manage';
+
 export interface User {
   id: string;
   name: string;
   email: string;
   phone?: string;
   address?: string;
-  role: 'admin' | 'customer';
+  role: UserRole;
   created_at?: string;
   updated_at?: string;
 }
 
+export interface AdminLogChange {
+  before: unknown;
+  after: unknown;
+}
+
 export interface AdminLog {
   id: string;
   user_id: string;
   admin_id?: string; // Alternative property name
+  admin_email?: string;
   action: string;
   target_type: string;
   target_id: string;
+  changes?: Record<string, AdminLogChange>;
   details: any;
   created_at: string;
 }
@@ -139,6 +226,14 @@ export interface DashboardStats {
   totalRevenue: number;
 }
 
+// Aggregate order counters maintained in stats/orders
+export interface OrderStats {
+  totalOrders: number;
+  pendingOrders: number;
+  totalRevenue: number;
+  updated_at: string;
+}
+
 // Prefecture interface
 export interface Prefecture {
   name: string;
@@ -164,6 +259,8 @@ export interface OrderTracking {
   status: string;
   timestamp: string;
   notes?: string;
+  previous_status?: string | null;
+  changed_by?: string | null;
   // Additional properties used in export utils
   customer_name?: string;
   customer_email?: string;
@@ -179,19 +276,169 @@ export interface ShippingRate {
   prefecture_id: string;
   kanji: string;
   romaji: string;
-  price: number;
+  price: number; // flat fee used when no weight tiers are set
   delivery_time: string;
+  weight_tiers?: ShippingWeightTier[];
+  cool_surcharge?: number; // per chilled parcel
+  frozen_surcharge?: number; // per frozen parcel
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface ShippingWeightTier {
+  max_weight: number; // grams
+  price: number;
+}
+
+export type ShippingPromotionType = 'free' | 'discount_amount' | 'discount_percent';
+
+// Empty prefecture or category lists mean the promotion applies everywhere
+export interface ShippingPromotion {
+  id: string;
+  name: string;
+  type: ShippingPromotionType;
+  value: number; // yen for discount_amount, percent for discount_percent
+  min_subtotal: number;
+  prefectures: string[]; // prefecture_id values
+  categories: string[];
+  starts_at?: string | null;
+  ends_at?: string | null;
+  active: boolean;
   created_at?: string;
   updated_at?: string;
 }
 
-// Payment Proof interface
+// Snapshot of the promotion stored on the order it was applied to
+export interface AppliedShippingPromotion {
+  id: string;
+  name: string;
+  type: ShippingPromotionType;
+  value: number;
+  original_fee: number;
+  discount: number;
+}
+
+export type VoucherType = 'percent' | 'fixed' | 'free_shipping';
+
+// Codes are stored upper-case and double as the document ID.
+// An empty category list means the voucher applies to the whole cart.
+export interface Voucher {
+  id: string;
+  code: string;
+  description?: string;
+  type: VoucherType;
+  value: number; // percent for 'percent', yen for 'fixed', unused for 'free_shipping'
+  max_discount?: number | null; // cap for percentage vouchers
+  min_spend: number;
+  categories: string[];
+  usage_limit?: number | null; // total redemptions across all customers
+  per_user_limit?: number | null;
+  used_count: number;
+  starts_at?: string | null;
+  expires_at?: string | null;
+  active: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// Snapshot of the voucher stored on the order it was redeemed on
+export interface AppliedVoucher {
+  voucher_id: string;
+  code: string;
+  type: VoucherType;
+  value: number;
+  discount: number; // taken off the product subtotal
+  shipping_discount: number;
+}
+
+// One record per order; the document ID is the order ID
+export interface VoucherRedemption {
+  id: string;
+  voucher_id: string;
+  code: string;
+  order_id: string;
+  user_id: string | null;
+  customer_email: string;
+  discount: number;
+  shipping_discount: number;
+  created_at: string;
+}
+
+export type PaymentProofStatus = 'pending' | 'verified' | 'rejected';
+
+// One review decision on a payment proof
+export interface PaymentProofReview {
+  status: Exclude<PaymentProofStatus, 'pending'>;
+  reviewed_at: string;
+  reviewed_by: string;
+  notes?: string;
+}
+
+// One uploaded payment proof; an order can have several (e.g. a new upload
+// after a rejection). The order's payment_status follows the latest review.
 export interface PaymentProof {
   id: string;
   order_id: string;
+  user_id: string | null;
   image_url: string;
+  payment_method: string;
+  status: PaymentProofStatus;
   uploaded_at: string;
-  verified_at?: string;
-  verified_by?: string;
-  status: 'pending' | 'verified' | 'rejected';
-}
\ No newline at end of file
+  reviews: PaymentProofReview[]; // oldest first
+}
+export type BankStatementCurrency = 'JPY' | 'IDR';
+
+// One incoming transfer read from an imported bank statement
+export interface BankStatementTransaction {
+  line: number;
+  date: string; // YYYY-MM-DD
+  amount: number;
+  currency: BankStatementCurrency;
+  sender: string;
+}
+
+export type BankTransactionStatus = 'auto_verified' | 'review' | 'unmatched' | 'confirmed' | 'dismissed';
+
+// An imported transfer and the pending order it was matched to, if any
+export interface BankTransaction extends BankStatementTransaction {
+  id: string;
+  file_name: string;
+  imported_at: string;
+  imported_by: string;
+  status: BankTransactionStatus;
+  order_id: string | null;
+  candidate_order_ids: string[];
+  reviewed_at?: string;
+  reviewed_by?: string;
+}
+
+// Currencies shown next to storefront prices; checkout always charges in yen or the locked rupiah total
+export type DisplayCurrency = 'JPY' | 'IDR' | 'both';
+
+export type ExchangeRateMode = 'manual' | 'markup';
+
+// Store-wide JPY→IDR rate; every customer is quoted `rate`
+export interface ExchangeRateSettings {
+  mode: ExchangeRateMode;
+  manual_rate: number;
+  markup_percent: number;
+  reference_rate: number | null;
+  reference_provider: ExchangeRateProvider | null;
+  reference_fetched_at: string | null;
+  rate: number;
+  updated_at: string;
+  updated_by: string;
+}
+
+export interface ExchangeRateHistoryEntry {
+  id: string;
+  mode: ExchangeRateMode;
+  manual_rate: number;
+  markup_percent: number;
+  reference_rate: number | null;
+  rate: number;
+  previous_rate: number | null;
+  changed_at: string;
+  changed_by: string;
+  changed_by_email: string;
+}
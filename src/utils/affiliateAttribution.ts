@@ -0,0 +1,26 @@
+import { AffiliateAttribution, AffiliateSettings, AttributionModel } from '@/types/affiliate';
+
+export const DEFAULT_ATTRIBUTION_WINDOW_DAYS = 30;
+export const DEFAULT_ATTRIBUTION_MODEL: AttributionModel = 'last_click';
+
+export const ATTRIBUTION_MODEL_LABELS: Record<AttributionModel, string> = {
+  first_click: 'Klik pertama',
+  last_click: 'Klik terakhir'
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const getAttributionWindowDays = (settings?: AffiliateSettings | null) =>
+  settings?.attributionWindowDays ?? DEFAULT_ATTRIBUTION_WINDOW_DAYS;
+
+export const getAttributionModel = (settings?: AffiliateSettings | null): AttributionModel =>
+  settings?.attributionModel ?? DEFAULT_ATTRIBUTION_MODEL;
+
+export const getAttributionExpiry = (attributedAt: string | number, windowDays: number) =>
+  new Date(new Date(attributedAt).getTime() + windowDays * DAY_MS);
+
+export const isAttributionActive = (
+  attribution: Pick<AffiliateAttribution, 'attributedAt'>,
+  settings?: AffiliateSettings | null,
+  now: Date = new Date()
+) => getAttributionExpiry(attribution.attributedAt, getAttributionWindowDays(settings)) >= now;
@@ -0,0 +1,63 @@
+import { AffiliateCommission, AffiliateReferral, CampaignStats } from '@/types/affiliate';
+
+export const CAMPAIGN_PRESETS: { value: string; label: string }[] = [
+  { value: 'tiktok', label: 'TikTok' },
+  { value: 'instagram', label: 'Instagram' },
+  { value: 'whatsapp', label: 'WhatsApp' },
+  { value: 'facebook', label: 'Facebook' }
+];
+
+const MAX_CAMPAIGN_LENGTH = 32;
+
+// Lower-case letters, digits, '-' and '_' only, so tags group reliably
+export const normalizeCampaign = (value?: string | null): string =>
+  (value || '')
+    .toLowerCase()
+    .replace(/\s+/g, '-')
+    .replace(/[^a-z0-9_-]/g, '')
+    .slice(0, MAX_CAMPAIGN_LENGTH);
+
+export const getCampaignLabel = (campaign?: string) => {
+  if (!campaign) return 'Tanpa campaign';
+  return CAMPAIGN_PRESETS.find(preset => preset.value === campaign)?.label || campaign;
+};
+
+export const buildCampaignLink = (referralLink: string, campaign: string) => {
+  const tag = normalizeCampaign(campaign);
+  return tag ? `${referralLink}&sub=${tag}` : referralLink;
+};
+
+/**
+ * Clicks and registrations come from the referral records, orders and
+ * commission from the commissions (rejected ones excluded). Campaigns with
+ * the most commission come first.
+ */
+export const getCampaignStats = (
+  referrals: AffiliateReferral[],
+  commissions: AffiliateCommission[]
+): CampaignStats[] => {
+  const stats: Record<string, CampaignStats> = {};
+  const getStats = (campaign?: string) => {
+    const key = campaign || '';
+    if (!stats[key]) {
+      stats[key] = { campaign: key, clicks: 0, registrations: 0, orders: 0, commission: 0 };
+    }
+    return stats[key];
+  };
+
+  referrals.forEach(referral => {
+    const campaignStats = getStats(referral.campaign);
+    if (referral.clickedAt) campaignStats.clicks++;
+    if (referral.referredUserId) campaignStats.registrations++;
+  });
+
+  commissions
+    .filter(commission => commission.status !== 'rejected')
+    .forEach(commission => {
+      const campaignStats = getStats(commission.campaign);
+      campaignStats.orders++;
+      campaignStats.commission += commission.commissionAmount;
+    });
+
+  return Object.values(stats).sort((a, b) => b.commission - a.commission || b.clicks - a.clicks);
+};
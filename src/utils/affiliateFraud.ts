@@ -0,0 +1,157 @@
+import { AffiliateCommission, AffiliateReferral, AffiliateUser, CommissionRisk } from '@/types/affiliate';
+
+// A commission at or above this score is flagged for review
+export const RISK_FLAG_SCORE = 50;
+
+const CLICK_FLOOD_WINDOW_MS = 24 * 60 * 60 * 1000;
+const CLICK_FLOOD_THRESHOLD = 10;
+const REPEAT_ADDRESS_THRESHOLD = 3;
+
+const RISK_WEIGHTS = {
+  selfReferral: 100,
+  sameEmail: 80,
+  samePhone: 60,
+  sameAddress: 60,
+  sharedAddress: 50,
+  repeatAddress: 30,
+  clickFlood: 30
+};
+
+interface ContactDetails {
+  email?: string;
+  phone?: string;
+  address?: string;
+  postal_code?: string;
+}
+
+// Commissions carrying the buyer's keys are readable by the affiliate, so only
+// salted hashes of the contact details are ever stored
+const CONTACT_KEY_SALT = 'injapan-food:contact-key:v1';
+
+const hashContactValue = async (value: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${CONTACT_KEY_SALT}:${value}`));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * `email:`, `phone:` and `address:` keys holding a hash of the normalized
+ * detail, so contact details can be compared regardless of case, spacing and
+ * punctuation without revealing them.
+ */
+export const getContactKeys = async (contact: ContactDetails): Promise<string[]> => {
+  const details: [string, string][] = [];
+
+  const email = contact.email?.trim().toLowerCase();
+  if (email) details.push(['email', email]);
+
+  const phone = contact.phone?.replace(/\D/g, '');
+  if (phone && phone.length >= 6) details.push(['phone', phone]);
+
+  const address = `${contact.postal_code || ''}${contact.address || ''}`.toLowerCase().replace(/[\s\-ー−,.、。#]/g, '');
+  if (address) details.push(['address', address]);
+
+  return Promise.all(details.map(async ([type, value]) => `${type}:${await hashContactValue(value)}`));
+};
+
+const getAddressKey = (commission: AffiliateCommission) =>
+  commission.buyer?.contactKeys.find(key => key.startsWith('address:'));
+
+// Most clicks one device made on an affiliate's links within a 24 hour window
+export const getMaxClicksPerDevice = (clicks: AffiliateReferral[]): number => {
+  const byDevice: Record<string, number[]> = {};
+  clicks.forEach(click => {
+    if (!click.fingerprint || !click.clickedAt) return;
+    if (!byDevice[click.fingerprint]) {
+      byDevice[click.fingerprint] = [];
+    }
+    byDevice[click.fingerprint].push(new Date(click.clickedAt).getTime());
+  });
+
+  return Object.values(byDevice).reduce((max, times) => {
+    times.sort((a, b) => a - b);
+    let start = 0;
+    times.forEach((time, end) => {
+      while (time - times[start] > CLICK_FLOOD_WINDOW_MS) start++;
+      max = Math.max(max, end - start + 1);
+    });
+    return max;
+  }, 0);
+};
+
+/**
+ * Scores every commission for signs of abuse: the affiliate buying through
+ * their own link (same account, email, phone or address), many orders going
+ * to one address or one address shared by several buyers, and click floods
+ * from a single device on the affiliate's links.
+ */
+export const assessCommissionRisks = async (
+  commissions: AffiliateCommission[],
+  affiliates: AffiliateUser[],
+  referrals: AffiliateReferral[]
+): Promise<Record<string, CommissionRisk>> => {
+  // The affiliate's account email counts as one of their own contact details
+  const affiliateKeys = new Map(await Promise.all(affiliates.map(async affiliate => [
+    affiliate.id,
+    new Set([...(affiliate.contactKeys || []), ...await getContactKeys({ email: affiliate.email })])
+  ] as const)));
+
+  const ordersPerAddress = new Map<string, AffiliateCommission[]>();
+  commissions.forEach(commission => {
+    const addressKey = getAddressKey(commission);
+    if (!addressKey) return;
+    const key = `${commission.affiliateId}|${addressKey}`;
+    ordersPerAddress.set(key, [...(ordersPerAddress.get(key) || []), commission]);
+  });
+
+  const clickFloods = new Map<string, number>();
+  const clicksByAffiliate = new Map<string, AffiliateReferral[]>();
+  referrals.forEach(referral => {
+    clicksByAffiliate.set(referral.referrerId, [...(clicksByAffiliate.get(referral.referrerId) || []), referral]);
+  });
+  clicksByAffiliate.forEach((clicks, affiliateId) => {
+    clickFloods.set(affiliateId, getMaxClicksPerDevice(clicks));
+  });
+
+  return Object.fromEntries(commissions.map(commission => {
+    const reasons: string[] = [];
+    let score = 0;
+    const addRisk = (weight: number, reason: string) => {
+      score += weight;
+      reasons.push(reason);
+    };
+
+    if (commission.buyer) {
+      if (commission.buyer.userId === commission.affiliateId) {
+        addRisk(RISK_WEIGHTS.selfReferral, 'Pembeli adalah affiliate itu sendiri');
+      }
+
+      const ownKeys = affiliateKeys.get(commission.affiliateId);
+      const matches = commission.buyer.contactKeys.filter(key => ownKeys?.has(key));
+      if (matches.some(key => key.startsWith('email:'))) {
+        addRisk(RISK_WEIGHTS.sameEmail, 'Email pembeli sama dengan affiliate');
+      }
+      if (matches.some(key => key.startsWith('phone:'))) {
+        addRisk(RISK_WEIGHTS.samePhone, 'Telepon pembeli sama dengan affiliate');
+      }
+      if (matches.some(key => key.startsWith('address:'))) {
+        addRisk(RISK_WEIGHTS.sameAddress, 'Alamat pembeli sama dengan affiliate');
+      }
+
+      const addressKey = getAddressKey(commission);
+      const sameAddress = addressKey ? ordersPerAddress.get(`${commission.affiliateId}|${addressKey}`) || [] : [];
+      const buyers = new Set(sameAddress.map(other => other.buyer?.userId));
+      if (buyers.size > 1) {
+        addRisk(RISK_WEIGHTS.sharedAddress, `Alamat yang sama dipakai ${buyers.size} akun pembeli`);
+      } else if (sameAddress.length >= REPEAT_ADDRESS_THRESHOLD) {
+        addRisk(RISK_WEIGHTS.repeatAddress, `${sameAddress.length} pesanan ke alamat yang sama`);
+      }
+    }
+
+    const maxClicks = clickFloods.get(commission.affiliateId) || 0;
+    if (maxClicks >= CLICK_FLOOD_THRESHOLD) {
+      addRisk(RISK_WEIGHTS.clickFlood, `${maxClicks} klik dari satu perangkat dalam 24 jam`);
+    }
+
+    return [commission.id, { score: Math.min(100, score), reasons }];
+  }));
+};
@@ -0,0 +1,244 @@
+import {
+  AffiliateBalance,
+  AffiliateCommission,
+  AffiliateLedgerAccount,
+  AffiliateLedgerEntry,
+  AffiliateLedgerEntryType,
+  AffiliatePayout,
+  AffiliateSettings,
+  AffiliateUser,
+  PayoutRunCommission
+} from '@/types/affiliate';
+
+export const LEDGER_ENTRY_TYPE_LABELS: Record<AffiliateLedgerEntryType, string> = {
+  commission: 'Komisi',
+  payout: 'Pencairan',
+  reversal: 'Pembatalan',
+  adjustment: 'Penyesuaian'
+};
+
+export const LEDGER_ACCOUNT_LABELS: Record<AffiliateLedgerAccount, string> = {
+  shop: 'Toko',
+  available: 'Saldo tersedia',
+  payout_requested: 'Dalam pencairan',
+  paid: 'Sudah dibayar'
+};
+
+export const EMPTY_BALANCE: AffiliateBalance = { earned: 0, available: 0, payoutRequested: 0, paid: 0 };
+
+export const DEFAULT_HOLD_PERIOD_DAYS = 14;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface WithdrawableBalance {
+  locked: number; // approved commission still within its hold period
+  pending: number; // commission still waiting for approval
+  requested: number; // payout requests staff have not accepted yet
+  withdrawable: number; // what requestPayout and payout runs accept
+}
+
+export interface PayoutRunCandidate {
+  affiliate: AffiliateUser;
+  amount: number;
+  commissions: PayoutRunCommission[];
+}
+
+export type LedgerPosting = Pick<AffiliateLedgerEntry, 'debit' | 'credit' | 'amount'>;
+
+export interface StatementLine {
+  entry: AffiliateLedgerEntry;
+  change: number; // effect on the available balance
+  balance: number; // available balance after this entry
+}
+
+const sortByCreatedAt = (entries: AffiliateLedgerEntry[]) =>
+  [...entries].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+const getAccountChange = (entry: LedgerPosting, account: AffiliateLedgerAccount) =>
+  (entry.debit === account ? entry.amount : 0) - (entry.credit === account ? entry.amount : 0);
+
+export const getLedgerBalance = (entries: AffiliateLedgerEntry[]): AffiliateBalance => {
+  return entries.reduce((balance, entry) => ({
+    earned: balance.earned - getAccountChange(entry, 'shop'),
+    available: balance.available + getAccountChange(entry, 'available'),
+    payoutRequested: balance.payoutRequested + getAccountChange(entry, 'payout_requested'),
+    paid: balance.paid + getAccountChange(entry, 'paid')
+  }), EMPTY_BALANCE);
+};
+
+export const getLedgerBalances = (entries: AffiliateLedgerEntry[]): Record<string, AffiliateBalance> => {
+  const byAffiliate: Record<string, AffiliateLedgerEntry[]> = {};
+  entries.forEach(entry => {
+    if (!byAffiliate[entry.affiliateId]) {
+      byAffiliate[entry.affiliateId] = [];
+    }
+    byAffiliate[entry.affiliateId].push(entry);
+  });
+
+  return Object.fromEntries(
+    Object.entries(byAffiliate).map(([affiliateId, affiliateEntries]) => [affiliateId, getLedgerBalance(affiliateEntries)])
+  );
+};
+
+// What the ledger should hold according to the commission and payout documents.
+// A payout is only reserved once staff accept it for processing.
+export const getExpectedBalance = (commissions: AffiliateCommission[], payouts: AffiliatePayout[]): AffiliateBalance => {
+  const earned = commissions
+    .filter(commission => commission.status !== 'rejected')
+    .reduce((sum, commission) => sum + commission.commissionAmount, 0);
+  const payoutRequested = payouts
+    .filter(payout => payout.status === 'processing')
+    .reduce((sum, payout) => sum + payout.amount, 0);
+  const paid = payouts
+    .filter(payout => payout.status === 'completed')
+    .reduce((sum, payout) => sum + payout.amount, 0);
+
+  return { earned, available: earned - payoutRequested - paid, payoutRequested, paid };
+};
+
+export const isBalanceEqual = (a: AffiliateBalance, b: AffiliateBalance) =>
+  a.earned === b.earned && a.available === b.available && a.payoutRequested === b.payoutRequested && a.paid === b.paid;
+
+/**
+ * Postings that move the ledger from `actual` to `expected`. Each one goes
+ * through the available balance, so the available balance ends up right once
+ * the other three accounts are.
+ */
+export const getCorrectionPostings = (expected: AffiliateBalance, actual: AffiliateBalance): LedgerPosting[] => {
+  const postings: LedgerPosting[] = [];
+  const addPosting = (account: AffiliateLedgerAccount, difference: number, fromShop = false) => {
+    if (difference === 0) return;
+    // Earned commission comes from the shop; payouts come out of the available balance
+    const source: AffiliateLedgerAccount = fromShop ? 'shop' : 'available';
+    const target: AffiliateLedgerAccount = fromShop ? 'available' : account;
+    postings.push(difference > 0
+      ? { debit: target, credit: source, amount: difference }
+      : { debit: source, credit: target, amount: -difference });
+  };
+
+  addPosting('available', expected.earned - actual.earned, true);
+  addPosting('payout_requested', expected.payoutRequested - actual.payoutRequested);
+  addPosting('paid', expected.paid - actual.paid);
+
+  return postings;
+};
+
+// Oldest first, with the available balance running alongside
+export const buildStatement = (entries: AffiliateLedgerEntry[]): StatementLine[] => {
+  let balance = 0;
+  return sortByCreatedAt(entries).map(entry => {
+    const change = getAccountChange(entry, 'available');
+    balance += change;
+    return { entry, change, balance };
+  });
+};
+
+export const getHoldPeriodDays = (settings?: AffiliateSettings | null) =>
+  settings?.holdPeriodDays ?? DEFAULT_HOLD_PERIOD_DAYS;
+
+// Null while the order has not been delivered
+export const getCommissionReleaseDate = (commission: AffiliateCommission, holdPeriodDays: number): Date | null =>
+  commission.deliveredAt
+    ? new Date(new Date(commission.deliveredAt).getTime() + holdPeriodDays * DAY_MS)
+    : null;
+
+export const isCommissionLocked = (
+  commission: AffiliateCommission,
+  holdPeriodDays: number,
+  now: Date = new Date()
+): boolean => {
+  if (['rejected', 'reversed', 'paid'].includes(commission.status) || commission.commissionAmount <= 0) {
+    return false;
+  }
+  // Commissions from before the hold period have no delivery field at all
+  if (commission.deliveredAt === undefined) {
+    return false;
+  }
+
+  const releaseDate = getCommissionReleaseDate(commission, holdPeriodDays);
+  return !releaseDate || releaseDate > now;
+};
+
+/**
+ * Splits the ledger's available balance into the part still held back and the
+ * part that can be paid out. Commission is held back while it awaits approval
+ * or is within its hold period, and payout requests until staff accept them;
+ * neither counts for more than the available balance, e.g. after a clawback.
+ */
+export const getWithdrawableBalance = (
+  balance: AffiliateBalance,
+  commissions: AffiliateCommission[],
+  payouts: AffiliatePayout[],
+  holdPeriodDays: number,
+  now: Date = new Date()
+): WithdrawableBalance => {
+  const sumOf = (heldBack: (commission: AffiliateCommission) => boolean) => commissions
+    .filter(heldBack)
+    .reduce((sum, commission) => sum + Math.max(0, commission.commissionAmount), 0);
+
+  const pendingCommission = sumOf(commission => commission.status === 'pending');
+  const lockedCommission = sumOf(commission =>
+    commission.status !== 'pending' && isCommissionLocked(commission, holdPeriodDays, now));
+
+  const locked = Math.max(0, Math.min(lockedCommission, balance.available));
+  const pending = Math.max(0, Math.min(pendingCommission, balance.available - locked));
+  const requestedPayouts = payouts
+    .filter(payout => payout.status === 'pending')
+    .reduce((sum, payout) => sum + payout.amount, 0);
+  const requested = Math.max(0, Math.min(requestedPayouts, balance.available - locked - pending));
+
+  return {
+    locked,
+    pending,
+    requested,
+    withdrawable: Math.max(0, balance.available - locked - pending - requested)
+  };
+};
+
+// What a payout run may send an affiliate: the same withdrawable balance
+// affiliates can request themselves
+export const getPayoutRunAmount = (
+  balance: AffiliateBalance,
+  commissions: AffiliateCommission[],
+  payouts: AffiliatePayout[],
+  holdPeriodDays: number,
+  now: Date = new Date()
+): number => getWithdrawableBalance(balance, commissions, payouts, holdPeriodDays, now).withdrawable;
+
+// Affiliates whose eligible balance reaches the minimum payout, largest first
+export const getPayoutRunCandidates = (
+  affiliates: AffiliateUser[],
+  entries: AffiliateLedgerEntry[],
+  commissions: AffiliateCommission[],
+  payouts: AffiliatePayout[],
+  settings: AffiliateSettings,
+  now: Date = new Date()
+): PayoutRunCandidate[] => {
+  const balances = getLedgerBalances(entries);
+  const holdPeriodDays = getHoldPeriodDays(settings);
+
+  return affiliates
+    .map(affiliate => {
+      const affiliateCommissions = commissions.filter(commission => commission.affiliateId === affiliate.id);
+      const affiliatePayouts = payouts.filter(payout => payout.affiliateId === affiliate.id);
+      return {
+        affiliate,
+        amount: getPayoutRunAmount(
+          balances[affiliate.id] || EMPTY_BALANCE,
+          affiliateCommissions,
+          affiliatePayouts,
+          holdPeriodDays,
+          now
+        ),
+        commissions: affiliateCommissions
+          .filter(commission => commission.status === 'approved' && !isCommissionLocked(commission, holdPeriodDays, now))
+          .map(commission => ({
+            commissionId: commission.id,
+            orderId: commission.orderId,
+            amount: commission.commissionAmount
+          }))
+      };
+    })
+    .filter(candidate => candidate.amount > 0 && candidate.amount >= settings.minPayoutAmount)
+    .sort((a, b) => b.amount - a.amount);
+};
@@ -0,0 +1,110 @@
+import {
+  AffiliateCommission,
+  AffiliateNotification,
+  AffiliateNotificationSettings,
+  AffiliateNotificationType,
+  AffiliatePayout,
+  AffiliateUser
+} from '@/types/affiliate';
+
+export const NOTIFICATION_TYPE_LABELS: Record<AffiliateNotificationType, string> = {
+  click_milestone: 'Pencapaian jumlah klik',
+  referred_order: 'Pesanan baru dari referral',
+  commission_approved: 'Komisi disetujui',
+  commission_rejected: 'Komisi ditolak',
+  payout_completed: 'Pencairan selesai'
+};
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: Record<AffiliateNotificationType, boolean> = {
+  click_milestone: true,
+  referred_order: true,
+  commission_approved: true,
+  commission_rejected: true,
+  payout_completed: true
+};
+
+export const CLICK_MILESTONES = [10, 50, 100, 250, 500, 1000, 2500, 5000, 10000];
+
+// Highest milestone the click count has reached, 0 below the first one
+export const getReachedClickMilestone = (totalClicks: number) =>
+  CLICK_MILESTONES.filter(milestone => totalClicks >= milestone).pop() || 0;
+
+export const getNotificationPreferences = (settings?: AffiliateNotificationSettings | null) => ({
+  ...DEFAULT_NOTIFICATION_PREFERENCES,
+  ...settings?.preferences
+});
+
+const formatOrderId = (orderId: string) => `#${orderId.slice(-6).toUpperCase()}`;
+
+/**
+ * Events from the affiliate's own profile, commissions and payouts that have
+ * no notification yet. Events before `settings.since`, types switched off in
+ * the preferences and IDs in `knownIds` are left out.
+ */
+export const getNewNotifications = (
+  affiliate: AffiliateUser,
+  commissions: AffiliateCommission[],
+  payouts: AffiliatePayout[],
+  settings: AffiliateNotificationSettings,
+  knownIds: Set<string>,
+  now: Date = new Date()
+): AffiliateNotification[] => {
+  const preferences = getNotificationPreferences(settings);
+  const createdAt = now.toISOString();
+  const notifications: AffiliateNotification[] = [];
+  const add = (key: string, type: AffiliateNotificationType, eventAt: string | undefined, title: string, message: string) => {
+    const notificationId = `${affiliate.id}_${key}`;
+    if (!eventAt || eventAt < settings.since || !preferences[type] || knownIds.has(notificationId)) return;
+    notifications.push({ id: notificationId, affiliateId: affiliate.id, type, title, message, read: false, eventAt, createdAt });
+  };
+
+  const milestone = getReachedClickMilestone(affiliate.totalClicks || 0);
+  if (milestone > settings.clickMilestone) {
+    add(
+      `clicks_${milestone}`,
+      'click_milestone',
+      createdAt,
+      `${milestone.toLocaleString()} klik tercapai!`,
+      `Link affiliate Anda sudah diklik ${(affiliate.totalClicks || 0).toLocaleString()} kali`
+    );
+  }
+
+  commissions.forEach(commission => {
+    const orderLabel = formatOrderId(commission.orderId);
+    add(
+      `commission_${commission.id}_created`,
+      'referred_order',
+      commission.createdAt,
+      'Pesanan baru dari referral',
+      `Pesanan ${orderLabel} menghasilkan komisi ¥${commission.commissionAmount.toLocaleString()}`
+    );
+    add(
+      `commission_${commission.id}_approved`,
+      'commission_approved',
+      commission.approvedAt,
+      'Komisi disetujui',
+      `Komisi ¥${commission.commissionAmount.toLocaleString()} untuk pesanan ${orderLabel} telah disetujui`
+    );
+    add(
+      `commission_${commission.id}_rejected`,
+      'commission_rejected',
+      commission.rejectedAt,
+      'Komisi ditolak',
+      `Komisi untuk pesanan ${orderLabel} ditolak${commission.notes ? `: ${commission.notes}` : ''}`
+    );
+  });
+
+  payouts
+    .filter(payout => payout.status === 'completed')
+    .forEach(payout => {
+      add(
+        `payout_${payout.id}_completed`,
+        'payout_completed',
+        payout.completedAt || payout.processedAt,
+        'Pencairan selesai',
+        `Pencairan ¥${payout.amount.toLocaleString()} telah ditransfer`
+      );
+    });
+
+  return notifications.sort((a, b) => b.eventAt.localeCompare(a.eventAt));
+};
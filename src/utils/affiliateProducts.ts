@@ -0,0 +1,45 @@
+import { AffiliateCommission, AffiliateReferral, ProductStats } from '@/types/affiliate';
+
+// Deep link to a product page that also carries the affiliate's code
+export const buildProductLink = (origin: string, productId: string, referralCode: string) =>
+  `${origin}/products/${productId}?ref=${referralCode}`;
+
+/**
+ * Clicks are counted for the product a click landed on; orders, quantity and
+ * commission per product from the commission lines (rejected ones excluded).
+ * Products with the most commission come first.
+ */
+export const getProductStats = (
+  referrals: AffiliateReferral[],
+  commissions: AffiliateCommission[]
+): ProductStats[] => {
+  const stats: Record<string, ProductStats> = {};
+  const getStats = (productId: string) => {
+    if (!stats[productId]) {
+      stats[productId] = { productId, name: '', clicks: 0, orders: 0, quantity: 0, commission: 0 };
+    }
+    return stats[productId];
+  };
+
+  referrals.forEach(referral => {
+    if (referral.productId && referral.clickedAt) {
+      getStats(referral.productId).clicks++;
+    }
+  });
+
+  commissions
+    .filter(commission => commission.status !== 'rejected')
+    .forEach(commission => {
+      const orderedProducts = new Set<string>();
+      (commission.breakdown?.lines || []).forEach(line => {
+        const productStats = getStats(line.productId);
+        productStats.name = productStats.name || line.name;
+        productStats.quantity += line.quantity;
+        productStats.commission += line.amount;
+        orderedProducts.add(line.productId);
+      });
+      orderedProducts.forEach(productId => stats[productId].orders++);
+    });
+
+  return Object.values(stats).sort((a, b) => b.commission - a.commission || b.clicks - a.clicks);
+};
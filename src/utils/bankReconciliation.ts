@@ -0,0 +1,259 @@
+import { BankStatementCurrency, BankStatementTransaction, BankTransaction, Order } from '@/types';
+import { isRupiahPaymentMethod } from '@/utils/currencyUtils';
+import { parseCSVLine } from '@/utils/exportUtils';
+
+export type BankTransactionMatch = Pick<BankTransaction, 'status' | 'order_id' | 'candidate_order_ids'> & {
+  transaction: BankStatementTransaction;
+};
+
+// Customers often round a rupiah transfer, so it only has to be close
+const RUPIAH_TOLERANCE_RATIO = 0.005;
+const RUPIAH_TOLERANCE_MIN = 1000;
+// Share of the customer's name that must appear in the sender field
+const NAME_MATCH_THRESHOLD = 0.5;
+
+const DATE_HEADERS = ['日付', 'tanggal', 'date'];
+const CREDIT_HEADERS = ['受入', '入金', 'kredit', 'credit', 'masuk'];
+const AMOUNT_HEADERS = ['jumlah', 'mutasi', 'nominal', 'amount'];
+const DIRECTION_HEADERS = ['db/cr', 'd/k', 'cr/db', 'tipe', 'type', 'jenis'];
+const SENDER_HEADERS = ['詳細', '摘要', '取引内容', '依頼人', 'keterangan', 'deskripsi', 'description', 'uraian', 'berita', 'nama'];
+
+const findColumns = (headers: string[], names: string[]) =>
+  headers.reduce<number[]>((columns, header, index) =>
+    names.some(name => header.includes(name)) ? [...columns, index] : columns, []);
+
+/**
+ * Yucho exports are Shift_JIS while Indonesian banks export UTF-8; a UTF-8
+ * decode of a Shift_JIS file leaves replacement characters behind.
+ */
+export const decodeBankStatement = (buffer: ArrayBuffer): string => {
+  const text = new TextDecoder('utf-8').decode(buffer);
+  return text.includes('\uFFFD') ? new TextDecoder('shift_jis').decode(buffer) : text;
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const toIsoDate = (year: number, month: number, day: number): string | null =>
+  month >= 1 && month <= 12 && day >= 1 && day <= 31 ? `${year}-${pad(month)}-${pad(day)}` : null;
+
+// Japanese statements use YYYY/MM/DD, YYYYMMDD or the Reiwa era; Indonesian ones DD/MM/YYYY
+export const parseStatementDate = (value: string): string | null => {
+  const text = value.replace(/^'/, '').trim();
+  let match = text.match(/^(\d{4})[/\-.年](\d{1,2})[/\-.月](\d{1,2})/);
+  if (match) return toIsoDate(Number(match[1]), Number(match[2]), Number(match[3]));
+
+  match = text.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (match) return toIsoDate(Number(match[1]), Number(match[2]), Number(match[3]));
+
+  match = text.match(/^(?:R|令和)\s*(\d{1,2})[/.年](\d{1,2})[/.月](\d{1,2})/);
+  if (match) return toIsoDate(2018 + Number(match[1]), Number(match[2]), Number(match[3]));
+
+  match = text.match(/^(\d{1,2})[/\-.](\d{1,2})(?:[/\-.](\d{2,4}))?$/);
+  if (match) {
+    const year = match[3]
+      ? Number(match[3].length === 2 ? `20${match[3]}` : match[3])
+      : new Date().getFullYear();
+    return toIsoDate(year, Number(match[2]), Number(match[1]));
+  }
+
+  return null;
+};
+
+// Handles both 1,500,000.00 and 1.500.000,00; a separator followed by
+// one or two digits is the decimal point
+export const parseStatementAmount = (value: string): number | null => {
+  const cleaned = value.replace(/[^\d.,-]/g, '');
+  if (!/\d/.test(cleaned)) return null;
+
+  const lastSeparator = Math.max(cleaned.lastIndexOf('.'), cleaned.lastIndexOf(','));
+  const decimals = lastSeparator >= 0 ? cleaned.length - lastSeparator - 1 : 0;
+  const hasFraction = decimals > 0 && decimals <= 2;
+  const integerPart = (hasFraction ? cleaned.slice(0, lastSeparator) : cleaned).replace(/[.,]/g, '');
+  const fraction = hasFraction ? Number(`0.${cleaned.slice(lastSeparator + 1)}`) : 0;
+
+  return Math.round(Number(integerPart) + (integerPart.startsWith('-') ? -fraction : fraction));
+};
+
+/**
+ * Reads the incoming transfers of a Yucho or Indonesian bank CSV export.
+ * Account details above the header row and outgoing payments are skipped.
+ */
+export const parseBankStatement = (csvText: string): BankStatementTransaction[] => {
+  const lines = csvText.replace(/^\uFEFF/, '').split(/\r?\n/);
+
+  const headerIndex = lines.findIndex(line => {
+    const headers = parseCSVLine(line).map(header => header.toLowerCase());
+    return findColumns(headers, DATE_HEADERS).length > 0
+      && findColumns(headers, [...CREDIT_HEADERS, ...AMOUNT_HEADERS]).length > 0;
+  });
+  if (headerIndex === -1) {
+    throw new Error('Header mutasi tidak ditemukan. Pastikan file berisi kolom tanggal dan nominal.');
+  }
+
+  const headers = parseCSVLine(lines[headerIndex]).map(header => header.toLowerCase());
+  const currency: BankStatementCurrency = /[\u3040-\u30FF\u4E00-\u9FFF]/.test(lines[headerIndex]) ? 'JPY' : 'IDR';
+  const dateColumn = findColumns(headers, DATE_HEADERS)[0];
+  const creditColumn = findColumns(headers, CREDIT_HEADERS)[0];
+  const amountColumn = findColumns(headers, AMOUNT_HEADERS)[0];
+  const directionColumn = findColumns(headers, DIRECTION_HEADERS)[0];
+  const senderColumns = findColumns(headers, SENDER_HEADERS);
+
+  const transactions: BankStatementTransaction[] = [];
+
+  lines.slice(headerIndex + 1).forEach((line, index) => {
+    if (!line.trim()) return;
+    const values = parseCSVLine(line);
+
+    const date = parseStatementDate(values[dateColumn] || '');
+    if (!date) return;
+
+    let amount: number | null;
+    if (creditColumn !== undefined) {
+      amount = parseStatementAmount(values[creditColumn] || '');
+    } else {
+      const rawAmount = values[amountColumn] || '';
+      const direction = directionColumn !== undefined ? values[directionColumn] || '' : rawAmount;
+      amount = /\b(DB|D|debit)\b/i.test(direction) ? null : parseStatementAmount(rawAmount);
+    }
+    if (!amount || amount <= 0) return;
+
+    transactions.push({
+      line: headerIndex + index + 2,
+      date,
+      amount,
+      currency,
+      sender: senderColumns.map(column => values[column] || '').filter(Boolean).join(' ')
+    });
+  });
+
+  return transactions;
+};
+
+// Half-width kana and full-width letters compare equal, hiragana as katakana
+const normalizeName = (value: string): string[] =>
+  value
+    .normalize('NFKC')
+    .toUpperCase()
+    .replace(/[ぁ-ゖ]/g, char => String.fromCharCode(char.charCodeAt(0) + 0x60))
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(token => token.length >= 2);
+
+// Banks truncate long sender names, so a token may be cut short
+export const getNameMatchScore = (customerName: string, sender: string): number => {
+  const nameTokens = normalizeName(customerName);
+  const senderTokens = normalizeName(sender);
+  if (nameTokens.length === 0) return 0;
+
+  const found = nameTokens.filter(token =>
+    senderTokens.some(senderToken =>
+      senderToken === token || (senderToken.length >= 3 && token.startsWith(senderToken)) || senderToken.startsWith(token)
+    )
+  );
+  return found.length / nameTokens.length;
+};
+
+const getTransferCurrency = (order: Order): BankStatementCurrency =>
+  isRupiahPaymentMethod(order.customer_info?.payment_method) ? 'IDR' : 'JPY';
+
+// Amount the customer was asked to transfer, in the currency of the payment method
+export const getExpectedTransferAmount = (order: Order): { amount: number; currency: BankStatementCurrency } | null => {
+  if (getTransferCurrency(order) === 'IDR') {
+    return order.exchange_rate ? { amount: order.exchange_rate.total_rupiah, currency: 'IDR' } : null;
+  }
+  return { amount: order.total_price ?? order.total_amount, currency: 'JPY' };
+};
+
+const isAmountMatch = (transaction: BankStatementTransaction, expected: { amount: number; currency: BankStatementCurrency }) => {
+  if (transaction.currency !== expected.currency) return false;
+  if (expected.currency === 'JPY') return transaction.amount === expected.amount;
+
+  const tolerance = Math.max(RUPIAH_TOLERANCE_MIN, expected.amount * RUPIAH_TOLERANCE_RATIO);
+  return Math.abs(transaction.amount - expected.amount) <= tolerance;
+};
+
+// Orders still waiting for a transfer; COD is settled on delivery
+export const isAwaitingTransfer = (order: Order) =>
+  order.status === 'pending'
+  && order.payment_status !== 'verified'
+  && order.customer_info?.payment_method !== 'COD (Cash on Delivery)';
+
+const addDays = (isoDate: string, days: number) => {
+  const date = new Date(`${isoDate}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+};
+
+/**
+ * Matches each transfer to the pending orders. A transfer whose amount fits
+ * exactly one order that also carries the sender's name is confident and
+ * verified automatically; other amount or name hits go to the review queue.
+ * Orders without a checkout rate can't be matched on a rupiah amount.
+ */
+export const matchBankTransactions = (
+  transactions: BankStatementTransaction[],
+  orders: Order[]
+): BankTransactionMatch[] => {
+  const claimedOrderIds = new Set<string>();
+  const pendingOrders = orders.filter(isAwaitingTransfer);
+
+  return transactions.map((transaction): BankTransactionMatch => {
+    // Allow a day of slack for the time zone of the statement
+    const candidates = pendingOrders.filter(order =>
+      !claimedOrderIds.has(order.id) && transaction.date >= addDays(order.created_at.slice(0, 10), -1)
+    );
+    const amountMatches = candidates.filter(order => {
+      const expected = getExpectedTransferAmount(order);
+      return expected !== null && isAmountMatch(transaction, expected);
+    });
+    const hasName = (order: Order) =>
+      getNameMatchScore(order.customer_info?.name || '', transaction.sender) >= NAME_MATCH_THRESHOLD;
+    const confident = amountMatches.filter(hasName);
+
+    if (confident.length === 1) {
+      claimedOrderIds.add(confident[0].id);
+      return { transaction, status: 'auto_verified', order_id: confident[0].id, candidate_order_ids: [confident[0].id] };
+    }
+
+    const reviewCandidates = confident.length > 1
+      ? confident
+      : amountMatches.length > 0
+        ? amountMatches
+        : candidates.filter(order => getTransferCurrency(order) === transaction.currency && hasName(order));
+
+    return {
+      transaction,
+      status: reviewCandidates.length > 0 ? 'review' : 'unmatched',
+      order_id: null,
+      candidate_order_ids: reviewCandidates.map(order => order.id)
+    };
+  });
+};
+
+/**
+ * Stable document IDs so that importing an overlapping statement again skips
+ * the transfers that are already recorded. Identical transfers on the same
+ * day are told apart by their position.
+ */
+export const getBankTransactionIds = (transactions: BankStatementTransaction[]): string[] => {
+  const occurrences = new Map<string, number>();
+
+  return transactions.map(transaction => {
+    const key = `${transaction.currency}|${transaction.date}|${transaction.amount}|${normalizeName(transaction.sender).join(' ')}`;
+    const occurrence = occurrences.get(key) || 0;
+    occurrences.set(key, occurrence + 1);
+
+    let hash = 5381;
+    for (let i = 0; i < key.length; i++) {
+      hash = ((hash * 33) ^ key.charCodeAt(i)) >>> 0;
+    }
+    return `${transaction.date}_${transaction.currency}_${transaction.amount}_${hash.toString(36)}_${occurrence}`;
+  });
+};
+
+export const BANK_TRANSACTION_STATUS_LABELS: Record<BankTransaction['status'], string> = {
+  auto_verified: 'Terverifikasi Otomatis',
+  review: 'Perlu Ditinjau',
+  unmatched: 'Tidak Cocok',
+  confirmed: 'Dikonfirmasi',
+  dismissed: 'Diabaikan'
+};
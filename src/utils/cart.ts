@@ -47,7 +47,9 @@ export const addToCart = (product: Product, quantity: number = 1): CartItem[] =>
         image_url: product.image_url || '/placeholder.svg',
         category: product.category,
         description: product.description || '',
-        stock: product.stock
+        stock: product.stock,
+        weight: product.weight || 0,
+        shipping_class: product.shipping_class || 'normal'
       },
       selectedVariants: product.selectedVariants || {},
       selectedVariantName: product.selectedVariantName || null,
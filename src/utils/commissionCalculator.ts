@@ -0,0 +1,127 @@
+import {
+  AffiliateSettings,
+  AffiliateTier,
+  CommissionAdjustmentReason,
+  CommissionBreakdown,
+  CommissionLineItem,
+  CommissionRateSource
+} from '@/types/affiliate';
+
+export interface CommissionableItem {
+  product_id: string;
+  name: string;
+  price: number;
+  quantity: number;
+  category?: string;
+}
+
+export const RATE_SOURCE_LABELS: Record<CommissionRateSource, string> = {
+  product: 'Produk',
+  category: 'Kategori',
+  tier: 'Tier',
+  default: 'Default'
+};
+
+export const COMMISSION_ADJUSTMENT_LABELS: Record<CommissionAdjustmentReason, string> = {
+  order_cancelled: 'Pesanan dibatalkan',
+  payment_rejected: 'Pembayaran ditolak',
+  refund: 'Refund'
+};
+
+// Calendar month in Japan time, e.g. '2024-05'
+export const getCommissionMonth = (date: Date = new Date()) =>
+  new Date(date.getTime() + 9 * 60 * 60 * 1000).toISOString().slice(0, 7);
+
+// Highest tier whose threshold the month's referred sales have reached
+export const getAffiliateTier = (tiers: AffiliateTier[] = [], monthlySales: number): AffiliateTier | null => {
+  return [...tiers]
+    .sort((a, b) => b.minMonthlySales - a.minMonthlySales)
+    .find(tier => monthlySales >= tier.minMonthlySales) || null;
+};
+
+// Highest rate any line can earn; the security rules cap a commission at this
+// share of the order total
+export const getMaxCommissionRate = (settings: Pick<AffiliateSettings, 'defaultCommissionRate' | 'tiers' | 'commissionRules'>) =>
+  Math.max(
+    settings.defaultCommissionRate,
+    ...(settings.tiers || []).map(tier => tier.commissionRate),
+    ...(settings.commissionRules || []).map(rule => rule.commissionRate)
+  );
+
+const getLineRate = (
+  item: CommissionableItem,
+  settings: AffiliateSettings,
+  baseRate: number,
+  baseSource: CommissionRateSource
+): { rate: number; rateSource: CommissionRateSource } => {
+  const rules = settings.commissionRules || [];
+
+  const productRule = rules.find(rule => rule.type === 'product' && rule.target === item.product_id);
+  if (productRule) {
+    return { rate: productRule.commissionRate, rateSource: 'product' };
+  }
+
+  const categoryRule = item.category
+    ? rules.find(rule => rule.type === 'category' && rule.target === item.category)
+    : undefined;
+  if (categoryRule) {
+    return { rate: categoryRule.commissionRate, rateSource: 'category' };
+  }
+
+  return { rate: baseRate, rateSource: baseSource };
+};
+
+/**
+ * Computes commission per line item. Shipping is never part of `items`; a
+ * voucher discount is spread over the lines in proportion to their value so
+ * commission is only earned on what the customer actually paid.
+ */
+export const calculateCommission = (
+  items: CommissionableItem[],
+  settings: AffiliateSettings,
+  monthlySales: number,
+  discount: number = 0
+): { amount: number; breakdown: CommissionBreakdown } => {
+  const tier = getAffiliateTier(settings.tiers, monthlySales);
+  const baseRate = tier ? tier.commissionRate : settings.defaultCommissionRate;
+  const baseSource: CommissionRateSource = tier ? 'tier' : 'default';
+
+  const subtotal = items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+  const totalDiscount = Math.min(Math.max(discount, 0), subtotal);
+  let remainingDiscount = totalDiscount;
+
+  const lines: CommissionLineItem[] = items.map((item, index) => {
+    const gross = item.price * item.quantity;
+    // The last line absorbs rounding so the shares add up to the discount
+    const discountShare = index === items.length - 1
+      ? remainingDiscount
+      : Math.min(remainingDiscount, Math.floor(totalDiscount * gross / (subtotal || 1)));
+    remainingDiscount -= discountShare;
+
+    const lineTotal = gross - discountShare;
+    const { rate, rateSource } = getLineRate(item, settings, baseRate, baseSource);
+
+    return {
+      productId: item.product_id,
+      name: item.name,
+      ...(item.category ? { category: item.category } : {}),
+      quantity: item.quantity,
+      lineTotal,
+      rate,
+      rateSource,
+      amount: Math.floor(lineTotal * (rate / 100))
+    };
+  });
+
+  return {
+    amount: lines.reduce((sum, line) => sum + line.amount, 0),
+    breakdown: {
+      tierId: tier ? tier.id : null,
+      tierName: tier ? tier.name : null,
+      monthlySales,
+      baseRate,
+      discount: totalDiscount,
+      lines
+    }
+  };
+};
@@ -2,6 +2,23 @@
  * Utility functions for currency conversion and formatting
  */
 
+import { DisplayCurrency, ExchangeRateMode, ExchangeRateQuote, ExchangeRateSettings, OrderExchangeRate } from '@/types';
+
+// Used when no exchange rate API can be reached: 1 JPY ≈ 100 IDR
+export const FALLBACK_EXCHANGE_RATE = 100;
+
+// A fetched rate is refreshed before it is locked onto an order once it is this old
+export const EXCHANGE_RATE_MAX_AGE_MS = 60 * 60 * 1000;
+
+// How long the rupiah total locked at checkout stays payable
+export const EXCHANGE_RATE_QUOTE_HOURS = 24;
+
+// Payment methods where the customer pays the converted rupiah amount
+export const RUPIAH_PAYMENT_METHODS = ['Bank Transfer (Rupiah)', 'QRIS / QR Code'];
+
+export const isRupiahPaymentMethod = (method?: string): boolean =>
+  !!method && RUPIAH_PAYMENT_METHODS.includes(method);
+
 /**
  * Format a number as Indonesian Rupiah
  * @param amount - Amount to format
@@ -30,13 +47,45 @@ export const formatYen = (amount: number): string => {
   }).format(amount);
 };
 
+/**
+ * Format an approximate rupiah price for a yen amount
+ * @param yenAmount - Amount in Japanese Yen
+ * @param rate - Exchange rate (IDR per JPY)
+ * @returns Formatted string with ≈ Rp prefix
+ */
+export const formatApproxRupiah = (yenAmount: number, rate: number): string => {
+  return `≈ ${formatRupiah(convertYenToRupiah(yenAmount, rate))}`;
+};
+
+/**
+ * Storefront price in the customer's display currency. Without a rate the
+ * yen price is shown alone.
+ * @param yenAmount - Amount in Japanese Yen
+ * @param displayCurrency - Customer's display currency preference
+ * @param rate - Exchange rate (IDR per JPY), if loaded
+ * @returns Main price and, for 'both', the rupiah estimate shown beside it
+ */
+export const getDisplayPrices = (
+  yenAmount: number,
+  displayCurrency: DisplayCurrency,
+  rate: number | null
+): { primary: string; secondary: string | null } => {
+  if (displayCurrency === 'JPY' || !rate) {
+    return { primary: formatYen(yenAmount), secondary: null };
+  }
+  if (displayCurrency === 'IDR') {
+    return { primary: formatApproxRupiah(yenAmount, rate), secondary: null };
+  }
+  return { primary: formatYen(yenAmount), secondary: formatApproxRupiah(yenAmount, rate) };
+};
+
 /**
  * Convert JPY to IDR using a fallback rate
  * @param yenAmount - Amount in Japanese Yen
  * @param rate - Exchange rate (default: 100)
  * @returns Converted amount in Indonesian Rupiah
  */
-export const convertYenToRupiah = (yenAmount: number, rate: number = 100): number => {
+export const convertYenToRupiah = (yenAmount: number, rate: number = FALLBACK_EXCHANGE_RATE): number => {
   return Math.round(yenAmount * rate);
 };
 
@@ -47,6 +96,71 @@ export const convertYenToRupiah = (yenAmount: number, rate: number = 100): numbe
  * @returns Estimated amount in Indonesian Rupiah
  */
 export const fallbackYenToRupiah = (yenAmount: number): number => {
-  const fallbackRate = 100; // Conservative estimate: 1 JPY ≈ 100 IDR
-  return Math.round(yenAmount * fallbackRate);
+  return Math.round(yenAmount * FALLBACK_EXCHANGE_RATE);
+};
+
+/**
+ * Whether a quote is too old to be locked onto a new order
+ * @param quote - Exchange rate quote
+ * @param now - Current time
+ */
+export const isExchangeRateStale = (quote: ExchangeRateQuote, now: Date = new Date()): boolean => {
+  return now.getTime() - new Date(quote.fetched_at).getTime() > EXCHANGE_RATE_MAX_AGE_MS;
+};
+
+/**
+ * Lock a quote and the converted total onto an order at checkout
+ * @param quote - Exchange rate quote shown to the customer
+ * @param totalRupiah - Converted order total the customer saw
+ * @param now - Checkout time
+ */
+export const lockExchangeRate = (
+  quote: ExchangeRateQuote,
+  totalRupiah: number,
+  now: Date = new Date()
+): OrderExchangeRate => {
+  const expiresAt = new Date(now.getTime() + EXCHANGE_RATE_QUOTE_HOURS * 60 * 60 * 1000);
+  return {
+    ...quote,
+    total_rupiah: totalRupiah,
+    locked_at: now.toISOString(),
+    expires_at: expiresAt.toISOString()
+  };
+};
+
+/**
+ * Whether the locked rupiah total of an order is past its expiry
+ * @param exchangeRate - Rate locked onto the order
+ * @param now - Current time
+ */
+export const isExchangeRateExpired = (exchangeRate: OrderExchangeRate, now: Date = new Date()): boolean => {
+  return new Date(exchangeRate.expires_at).getTime() < now.getTime();
+};
+
+export const EXCHANGE_RATE_SOURCE_LABELS: Record<ExchangeRateQuote['source'], string> = {
+  manual: 'Kurs toko',
+  markup: 'Kurs toko',
+  'exchangerate.host': 'exchangerate.host',
+  'open.er-api.com': 'open.er-api.com',
+  fallback: 'Kurs cadangan'
+};
+
+export const EXCHANGE_RATE_MODE_LABELS: Record<ExchangeRateMode, string> = {
+  manual: 'Kurs manual',
+  markup: 'Markup dari kurs referensi'
+};
+
+/**
+ * Rate quoted to customers for the store's exchange rate settings
+ * @param settings - Mode, manual rate, markup and reference rate
+ * @returns IDR per JPY, rounded to two decimals, or null without a reference rate
+ */
+export const calculateStoreRate = (
+  settings: Pick<ExchangeRateSettings, 'mode' | 'manual_rate' | 'markup_percent' | 'reference_rate'>
+): number | null => {
+  if (settings.mode === 'manual') {
+    return settings.manual_rate > 0 ? settings.manual_rate : null;
+  }
+  if (!settings.reference_rate) return null;
+  return Math.round(settings.reference_rate * (1 + settings.markup_percent / 100) * 100) / 100;
 };
\ No newline at end of file
@@ -1,5 +1,6 @@
 
-import { Product, OrderTracking } from '@/types';
+import { Product, OrderTracking, ShippingCarrier } from '@/types';
+import { parseCarrier } from '@/utils/shippingCarriers';
 
 export const exportProductsToCSV = (products: Product[]) => {
   const headers = [
@@ -181,3 +182,69 @@ export const exportOrdersToCSV = (orders: OrderTracking[]) => {
   document.body.removeChild(link);
   URL.revokeObjectURL(url);
 };
+
+// Splits one CSV line, honouring quoted fields and escaped ("") quotes
+export const parseCSVLine = (line: string): string[] => {
+  const values: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+
+    if (char === '"') {
+      if (inQuotes && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        inQuotes = !inQuotes;
+      }
+    } else if (char === ',' && !inQuotes) {
+      values.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  values.push(current.trim());
+
+  return values;
+};
+
+export interface ShipmentImportRow {
+  line: number;
+  orderRef: string;
+  carrier: ShippingCarrier | null;
+  rawCarrier: string;
+  trackingNumber: string;
+}
+
+export const parseCSVShipments = (csvText: string): ShipmentImportRow[] => {
+  // Remove BOM if present
+  csvText = csvText.replace(/^\uFEFF/, '');
+
+  const lines = csvText.split(/\r?\n/).filter(line => line.trim());
+  if (lines.length < 2) throw new Error('CSV file harus memiliki header dan minimal 1 baris data');
+
+  const headers = parseCSVLine(lines[0]).map(h => h.toLowerCase());
+  const orderIndex = headers.findIndex(h => h.includes('order') || h.includes('pesanan'));
+  const carrierIndex = headers.findIndex(h => h.includes('carrier') || h.includes('kurir') || h.includes('ekspedisi'));
+  const trackingIndex = headers.findIndex(h => h.includes('tracking') || h.includes('resi'));
+
+  if (orderIndex === -1 || carrierIndex === -1 || trackingIndex === -1) {
+    throw new Error('Header yang diperlukan tidak ditemukan: order_id, carrier, tracking_number');
+  }
+
+  return lines.slice(1).map((line, index) => {
+    const values = parseCSVLine(line);
+    const rawCarrier = values[carrierIndex] || '';
+
+    return {
+      line: index + 2,
+      orderRef: (values[orderIndex] || '').replace(/^#/, ''),
+      carrier: parseCarrier(rawCarrier),
+      rawCarrier,
+      trackingNumber: values[trackingIndex] || ''
+    };
+  });
+};
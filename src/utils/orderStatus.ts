@@ -0,0 +1,41 @@
+import { OrderStatus } from '@/types';
+
+export const ORDER_STATUSES: OrderStatus[] = [
+  'pending',
+  'confirmed',
+  'processing',
+  'shipped',
+  'delivered',
+  'completed',
+  'cancelled'
+];
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  pending: 'Menunggu Konfirmasi',
+  confirmed: 'Dikonfirmasi',
+  processing: 'Diproses',
+  shipped: 'Dikirim',
+  delivered: 'Diterima',
+  completed: 'Selesai',
+  cancelled: 'Dibatalkan'
+};
+
+// Orders can be cancelled until they leave the warehouse
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ['confirmed', 'cancelled'],
+  confirmed: ['processing', 'cancelled'],
+  processing: ['shipped', 'cancelled'],
+  shipped: ['delivered', 'completed'],
+  delivered: ['completed'],
+  completed: [],
+  cancelled: []
+};
+
+export const getOrderStatusLabel = (status: string): string =>
+  ORDER_STATUS_LABELS[status as OrderStatus] || status;
+
+export const getNextOrderStatuses = (status: string): OrderStatus[] =>
+  ORDER_STATUS_TRANSITIONS[status as OrderStatus] || [];
+
+export const canTransitionOrderStatus = (from: string, to: string): boolean =>
+  getNextOrderStatuses(from).includes(to as OrderStatus);
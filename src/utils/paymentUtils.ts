@@ -1,45 +1,40 @@
-import { ref, uploadBytes, getDownloadURL } from 'firebase/storage';
-import { collection, addDoc } from 'firebase/firestore';
-import { db, storage } from '@/config/firebase';
+import { Order, PaymentProof, PaymentProofStatus } from '@/types';
 
-// Upload payment proof to Firebase Storage and save metadata to Firestore
-export const uploadPaymentProofToFirebase = async (
-  file: File,
-  userData: {
-    userId?: string;
-    name: string;
-    email: string;
-    invoiceId: string;
-    paymentMethod: string;
-  }
-): Promise<string> => {
-  try {
-    // 1. Upload file to Firebase Storage
-    const fileExt = file.name.split('.').pop();
-    const fileName = `payment_proof_${Date.now()}_${Math.random().toString(36).substring(2)}.${fileExt}`;
-    const storageRef = ref(storage, `payment-proofs/${fileName}`);
-    
-    await uploadBytes(storageRef, file);
-    const downloadURL = await getDownloadURL(storageRef);
-    
-    // 2. Save metadata to Firestore
-    const paymentProofsRef = collection(db, 'payment_proofs');
-    const docRef = await addDoc(paymentProofsRef, {
-      user_id: userData.userId || null,
-      nama: userData.name,
-      email: userData.email,
-      invoice_id: userData.invoiceId,
-      metode_pembayaran: userData.paymentMethod,
-      bukti_url: downloadURL,
-      uploaded_at: new Date().toISOString(),
-      status: 'Menunggu'
-    });
-    
-    return docRef.id;
-  } catch (error) {
-    console.error('Error uploading payment proof:', error);
-    throw error;
+export const PAYMENT_PROOF_STATUS_LABELS: Record<PaymentProofStatus, string> = {
+  pending: 'Menunggu Verifikasi',
+  verified: 'Terverifikasi',
+  rejected: 'Ditolak'
+};
+
+const LEGACY_PROOF_PREFIX = 'legacy_';
+
+// Orders from before payment proofs were stored separately only have a URL
+export const isLegacyPaymentProof = (proof: PaymentProof) => proof.id.startsWith(LEGACY_PROOF_PREFIX);
+
+/**
+ * Every proof uploaded for the order, oldest first. Orders that only carry a
+ * payment_proof_url get that upload as a single proof with the order's
+ * payment status.
+ */
+export const getOrderPaymentProofs = (order: Order, proofs: PaymentProof[]): PaymentProof[] => {
+  const orderProofs = proofs
+    .filter(proof => proof.order_id === order.id)
+    .sort((a, b) => a.uploaded_at.localeCompare(b.uploaded_at));
+
+  if (orderProofs.length > 0 || !order.payment_proof_url) {
+    return orderProofs;
   }
+
+  return [{
+    id: `${LEGACY_PROOF_PREFIX}${order.id}`,
+    order_id: order.id,
+    user_id: order.user_id || null,
+    image_url: order.payment_proof_url,
+    payment_method: order.customer_info?.payment_method || '',
+    status: order.payment_status || 'pending',
+    uploaded_at: order.updated_at || order.created_at,
+    reviews: []
+  }];
 };
 
 // Helper function to format payment method for display
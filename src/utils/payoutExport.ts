@@ -0,0 +1,196 @@
+import { AffiliateBankInfo, AffiliatePayoutRun, BankAccountType, PayoutRemitter } from '@/types/affiliate';
+
+const ZENGIN_RECORD_LENGTH = 120;
+
+export const EMPTY_REMITTER: PayoutRemitter = {
+  companyCode: '',
+  companyNameKana: '',
+  bankCode: '',
+  bankNameKana: '',
+  branchCode: '',
+  branchNameKana: '',
+  accountType: 'ordinary',
+  accountNumber: ''
+};
+
+const FULL_KANA = 'アイウエオカキクケコサシスセソタチツテトナニヌネノハヒフヘホマミムメモヤユヨラリルレロワヲンァィゥェォャュョッ';
+// Zengin names only allow the large kana, so small ones map to their large form
+const HALF_KANA = 'ｱｲｳｴｵｶｷｸｹｺｻｼｽｾｿﾀﾁﾂﾃﾄﾅﾆﾇﾈﾉﾊﾋﾌﾍﾎﾏﾐﾑﾒﾓﾔﾕﾖﾗﾘﾙﾚﾛﾜｦﾝｱｲｳｴｵﾔﾕﾖﾂ';
+
+const KANA_MAP: Record<string, string> = {
+  '\u3099': 'ﾞ', // combining voiced mark, split off by NFD
+  '\u309a': 'ﾟ',
+  'ー': '-',
+  '・': '.'
+};
+FULL_KANA.split('').forEach((char, index) => {
+  KANA_MAP[char] = HALF_KANA[index];
+});
+
+const ZENGIN_ASCII = /[0-9A-Z ().,\-/]/;
+
+const ACCOUNT_TYPE_CODES: Record<BankAccountType, string> = {
+  ordinary: '1',
+  checking: '2'
+};
+
+/**
+ * Converts a name to the character set of a Zengin file: digits, upper-case
+ * letters, half-width katakana and a few symbols. Anything else is dropped.
+ */
+export const toZenginKana = (value: string): string =>
+  value
+    .normalize('NFKC')
+    .toUpperCase()
+    .replace(/[ぁ-ゖ]/g, char => String.fromCharCode(char.charCodeAt(0) + 0x60))
+    .normalize('NFD')
+    .split('')
+    .map(char => KANA_MAP[char] ?? (ZENGIN_ASCII.test(char) ? char : ''))
+    .join('')
+    .trim();
+
+const padText = (value: string, length: number) => value.slice(0, length).padEnd(length, ' ');
+
+const padNumber = (value: string | number, length: number) =>
+  String(value).replace(/\D/g, '').slice(-length).padStart(length, '0');
+
+// Half-width katakana are single bytes in Shift_JIS; everything else is ASCII
+const encodeShiftJis = (text: string) =>
+  new Uint8Array(Array.from(text, char => {
+    const code = char.charCodeAt(0);
+    return code >= 0xff61 && code <= 0xff9f ? code - 0xfec0 : code;
+  }));
+
+export const getBankInfoIssues = (bankInfo: AffiliateBankInfo): string[] => {
+  const issues: string[] = [];
+  if (!/^\d{4}$/.test(bankInfo.bankCode || '')) issues.push('kode bank (4 digit)');
+  if (!/^\d{3}$/.test(bankInfo.branchCode || '')) issues.push('kode cabang (3 digit)');
+  if (!/^\d{1,7}$/.test(bankInfo.accountNumber.replace(/\D/g, ''))) issues.push('nomor rekening (maks. 7 digit)');
+  if (!toZenginKana(bankInfo.accountNameKana || bankInfo.accountName)) issues.push('nama pemilik (katakana)');
+  return issues;
+};
+
+export const getRemitterIssues = (remitter?: PayoutRemitter): string[] => {
+  if (!remitter) return ['rekening pengirim belum diatur'];
+
+  const issues: string[] = [];
+  if (!/^\d{1,10}$/.test(remitter.companyCode)) issues.push('kode perusahaan');
+  if (!toZenginKana(remitter.companyNameKana)) issues.push('nama perusahaan (katakana)');
+  if (!/^\d{4}$/.test(remitter.bankCode)) issues.push('kode bank pengirim');
+  if (!/^\d{3}$/.test(remitter.branchCode)) issues.push('kode cabang pengirim');
+  if (!/^\d{1,7}$/.test(remitter.accountNumber)) issues.push('nomor rekening pengirim');
+  return issues;
+};
+
+/**
+ * Builds a Zengin (全銀) general transfer file: one header, one data record
+ * per affiliate, a trailer and an end record, each 120 bytes and CRLF
+ * terminated, in Shift_JIS. Throws if any account is incomplete.
+ */
+export const buildZenginFile = (
+  run: AffiliatePayoutRun,
+  remitter: PayoutRemitter | undefined,
+  transferDate: Date
+): Uint8Array => {
+  const remitterIssues = getRemitterIssues(remitter);
+  if (!remitter || remitterIssues.length > 0) {
+    throw new Error(`Data pengirim belum lengkap: ${remitterIssues.join(', ')}`);
+  }
+
+  const incomplete = run.items
+    .map(item => ({ item, issues: getBankInfoIssues(item.bankInfo) }))
+    .filter(({ issues }) => issues.length > 0);
+  if (incomplete.length > 0) {
+    throw new Error(`Rekening belum lengkap: ${incomplete.map(({ item, issues }) => `${item.displayName} (${issues.join(', ')})`).join('; ')}`);
+  }
+
+  const header = [
+    '1', '21', '0',
+    padNumber(remitter.companyCode, 10),
+    padText(toZenginKana(remitter.companyNameKana), 40),
+    padNumber(transferDate.getMonth() + 1, 2) + padNumber(transferDate.getDate(), 2),
+    padNumber(remitter.bankCode, 4),
+    padText(toZenginKana(remitter.bankNameKana), 15),
+    padNumber(remitter.branchCode, 3),
+    padText(toZenginKana(remitter.branchNameKana), 15),
+    ACCOUNT_TYPE_CODES[remitter.accountType],
+    padNumber(remitter.accountNumber, 7),
+    padText('', 17)
+  ].join('');
+
+  const data = run.items.map(item => [
+    '2',
+    padNumber(item.bankInfo.bankCode || '', 4),
+    padText(toZenginKana(item.bankInfo.bankName), 15),
+    padNumber(item.bankInfo.branchCode || '', 3),
+    padText(toZenginKana(item.bankInfo.branchName || ''), 15),
+    padText('', 4),
+    ACCOUNT_TYPE_CODES[item.bankInfo.accountType || 'ordinary'],
+    padNumber(item.bankInfo.accountNumber, 7),
+    padText(toZenginKana(item.bankInfo.accountNameKana || item.bankInfo.accountName), 30),
+    padNumber(item.amount, 10),
+    '0',
+    padText(item.payoutId.slice(0, 10).toUpperCase().replace(/[^0-9A-Z]/g, '0'), 10),
+    padText('', 10),
+    '7',
+    ' ',
+    padText('', 7)
+  ].join(''));
+
+  const trailer = [
+    '8',
+    padNumber(run.items.length, 6),
+    padNumber(run.totalAmount, 12),
+    padText('', 101)
+  ].join('');
+
+  const end = padText('9', ZENGIN_RECORD_LENGTH);
+
+  return encodeShiftJis([header, ...data, trailer, end].map(record => `${record}\r\n`).join(''));
+};
+
+const quote = (value: string) => `"${value.replace(/"/g, '""')}"`;
+
+// Generic bulk transfer sheet for Indonesian banks; amounts stay in yen
+export const buildIndonesianBankCsv = (run: AffiliatePayoutRun): string => {
+  const headers = [
+    'No',
+    'Nama Bank',
+    'Nomor Rekening',
+    'Nama Pemilik Rekening',
+    'Jumlah',
+    'Mata Uang',
+    'Email',
+    'Keterangan'
+  ];
+
+  const rows = run.items.map((item, index) => [
+    index + 1,
+    quote(item.bankInfo.bankName),
+    quote(item.bankInfo.accountNumber),
+    quote(item.bankInfo.accountName),
+    item.amount,
+    'JPY',
+    quote(item.email),
+    quote(`Komisi affiliate ${run.month}`)
+  ]);
+
+  return [
+    headers.join(','),
+    ...rows.map(row => row.join(','))
+  ].join('\n');
+};
+
+export const downloadFile = (content: BlobPart, type: string, filename: string) => {
+  const blob = new Blob([content], { type });
+
+  const link = document.createElement('a');
+  const url = URL.createObjectURL(blob);
+  link.setAttribute('href', url);
+  link.setAttribute('download', filename);
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -1,3 +1,5 @@
+import { AffiliatePayoutRun, AffiliatePayoutRunItem } from '@/types/affiliate';
+
 export const generateInvoicePDF = async (element: HTMLElement | null, invoiceNumber: string) => {
   if (!element) {
     console.error('Element not found for PDF generation');
@@ -50,4 +52,77 @@ export const generateInvoicePDF = async (element: HTMLElement | null, invoiceNum
     // Fallback: open print dialog
     window.print();
   }
-};
\ No newline at end of file
+};
+// Remittance advice for one affiliate in a payout run
+export const generateRemittanceStatementPDF = async (
+  run: AffiliatePayoutRun,
+  item: AffiliatePayoutRunItem
+) => {
+  const jsPDF = (await import('jspdf')).default;
+  const pdf = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4' });
+  const formatYen = (amount: number) => `JPY ${amount.toLocaleString('en-US')}`;
+  const paidDate = new Date(run.completedAt || run.createdAt).toLocaleDateString('id-ID', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric'
+  });
+
+  let y = 20;
+  const line = (label: string, value: string) => {
+    pdf.setFont('helvetica', 'normal');
+    pdf.text(label, 20, y);
+    pdf.text(value, 80, y);
+    y += 7;
+  };
+
+  pdf.setFontSize(16);
+  pdf.setFont('helvetica', 'bold');
+  pdf.text('Bukti Transfer Komisi Affiliate', 20, y);
+  y += 12;
+
+  pdf.setFontSize(10);
+  line('Periode', run.month);
+  line('Tanggal transfer', paidDate);
+  line('No. referensi', item.payoutId);
+  line('Affiliate', item.displayName);
+  line('Email', item.email);
+  y += 3;
+  line('Bank', item.bankInfo.bankName);
+  if (item.bankInfo.branchName) {
+    line('Cabang', item.bankInfo.branchName);
+  }
+  line('No. rekening', item.bankInfo.accountNumber);
+  line('Atas nama', item.bankInfo.accountName);
+  y += 5;
+
+  pdf.setFont('helvetica', 'bold');
+  pdf.text('Rincian komisi', 20, y);
+  y += 7;
+  pdf.setFont('helvetica', 'normal');
+  item.commissions.forEach(commission => {
+    if (y > 270) {
+      pdf.addPage();
+      y = 20;
+    }
+    pdf.text(`Order #${commission.orderId.slice(-8)}`, 20, y);
+    pdf.text(formatYen(commission.amount), 190, y, { align: 'right' });
+    y += 6;
+  });
+
+  // Balance carried over from earlier payouts or ledger corrections
+  const difference = item.amount - item.commissions.reduce((sum, commission) => sum + commission.amount, 0);
+  if (difference !== 0) {
+    pdf.text('Saldo sebelumnya / penyesuaian', 20, y);
+    pdf.text(`${difference < 0 ? '-' : ''}${formatYen(Math.abs(difference))}`, 190, y, { align: 'right' });
+    y += 6;
+  }
+
+  y += 4;
+  pdf.line(20, y, 190, y);
+  y += 7;
+  pdf.setFont('helvetica', 'bold');
+  pdf.text('Total ditransfer', 20, y);
+  pdf.text(formatYen(item.amount), 190, y, { align: 'right' });
+
+  pdf.save(`Bukti-Transfer-${run.month}-${item.displayName.replace(/[^\w-]+/g, '_')}.pdf`);
+};
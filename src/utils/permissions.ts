@@ -0,0 +1,83 @@
+import { Permission, UserRole } from '@/types';
+
+export const USER_ROLES: UserRole[] = ['owner', 'admin', 'cashier', 'affiliate_manager', 'customer'];
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  owner: 'Owner',
+  admin: 'Admin',
+  cashier: 'Kasir',
+  affiliate_manager: 'Affiliate Manager',
+  customer: 'Customer'
+};
+
+const ALL_PERMISSIONS: Permission[] = [
+  'admin.access',
+  'dashboard.view',
+  'products.manage',
+  'orders.manage',
+  'payments.verify',
+  'shipping.manage',
+  'reports.view',
+  'users.manage',
+  'logs.view',
+  'affiliate.manage',
+  'data.import_export',
+  'recycle_bin.manage',
+  'pos.access',
+  'vouchers.manage',
+  'exchange_rate.manage'
+];
+
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  owner: ALL_PERMISSIONS,
+  admin: ALL_PERMISSIONS,
+  cashier: ['pos.access', 'orders.manage'],
+  affiliate_manager: ['admin.access', 'dashboard.view', 'affiliate.manage'],
+  customer: []
+};
+
+// Permission each /admin page requires; App.tsx builds the route guards from it
+export const ADMIN_ROUTE_PERMISSIONS = {
+  '/admin': 'admin.access',
+  '/admin/dashboard': 'dashboard.view',
+  '/admin/enhanced': 'dashboard.view',
+  '/admin/products': 'products.manage',
+  '/admin/sales-report': 'reports.view',
+  '/admin/add-product': 'products.manage',
+  '/admin/edit-product/:id': 'products.manage',
+  '/admin/products/edit/:id': 'products.manage',
+  '/admin/orders-history': 'orders.manage',
+  '/admin/order-confirmation': 'orders.manage',
+  '/admin/payment-verification': 'payments.verify',
+  '/admin/users': 'users.manage',
+  '/admin/logs': 'logs.view',
+  '/admin/import-export': 'data.import_export',
+  '/admin/recycle-bin': 'recycle_bin.manage',
+  '/admin/shipping-rates': 'shipping.manage',
+  '/admin/vouchers': 'vouchers.manage',
+  '/admin/exchange-rate': 'exchange_rate.manage',
+  '/admin/affiliate': 'affiliate.manage'
+} satisfies Record<string, Permission>;
+
+export type AdminRoutePath = keyof typeof ADMIN_ROUTE_PERMISSIONS;
+
+// Profiles created before roles existed store 'user' (or nothing at all)
+export const normalizeRole = (role?: string | null): UserRole => {
+  if (role && (USER_ROLES as string[]).includes(role)) {
+    return role as UserRole;
+  }
+  return 'customer';
+};
+
+export const hasPermission = (role: UserRole, permission: Permission): boolean => {
+  return ROLE_PERMISSIONS[role].includes(permission);
+};
+
+// Owners can hand out any role; admins can manage everyone below them
+export const canAssignRole = (actorRole: UserRole, currentRole: UserRole, newRole: UserRole): boolean => {
+  if (actorRole === 'owner') return true;
+  if (!hasPermission(actorRole, 'users.manage')) return false;
+
+  const protectedRoles: UserRole[] = ['owner', 'admin'];
+  return !protectedRoles.includes(currentRole) && !protectedRoles.includes(newRole);
+};
@@ -1,5 +1,13 @@
-import { trackReferralClick, registerWithReferral } from '@/services/affiliateService';
+import { trackReferralClick, registerWithReferral, getAffiliateSettings } from '@/services/affiliateService';
 import { auth } from '@/config/firebase';
+import { AffiliateSettings } from '@/types/affiliate';
+import { normalizeCampaign } from '@/utils/affiliateCampaigns';
+import {
+  DEFAULT_ATTRIBUTION_WINDOW_DAYS,
+  getAttributionExpiry,
+  getAttributionModel,
+  getAttributionWindowDays
+} from '@/utils/affiliateAttribution';
 
 // Get referral code from URL
 export const getReferralCodeFromUrl = (): string | null => {
@@ -7,10 +15,33 @@ export const getReferralCodeFromUrl = (): string | null => {
   return urlParams.get('ref');
 };
 
-// Store referral code in localStorage
-export const storeReferralCode = (referralCode: string): void => {
+// Campaign sub-ID from the link; UTM tags work too for links built elsewhere
+export const getCampaignFromUrl = (): string => {
+  const urlParams = new URLSearchParams(window.location.search);
+  return normalizeCampaign(urlParams.get('sub') || urlParams.get('utm_campaign') || urlParams.get('utm_source'));
+};
+
+// Product ID when the referral link is a product deep link
+export const getProductIdFromUrl = (): string | undefined => {
+  const match = window.location.pathname.match(/^\/products\/([^/]+)/);
+  return match ? decodeURIComponent(match[1]) : undefined;
+};
+
+// Store referral code in localStorage, valid for the attribution window
+export const storeReferralCode = (
+  referralCode: string,
+  campaign: string = '',
+  windowDays: number = DEFAULT_ATTRIBUTION_WINDOW_DAYS
+): void => {
+  const now = Date.now();
   localStorage.setItem('referralCode', referralCode);
-  localStorage.setItem('referralTimestamp', Date.now().toString());
+  localStorage.setItem('referralTimestamp', now.toString());
+  localStorage.setItem('referralExpiresAt', getAttributionExpiry(now, windowDays).getTime().toString());
+  if (campaign) {
+    localStorage.setItem('referralCampaign', campaign);
+  } else {
+    localStorage.removeItem('referralCampaign');
+  }
   console.log(`Stored referral code in localStorage: ${referralCode}`);
 };
 
@@ -19,24 +50,68 @@ export const getStoredReferralCode = (): string | null => {
   return localStorage.getItem('referralCode');
 };
 
-// Check if referral code is still valid (within 30 days)
+// Get the campaign of the stored referral code
+export const getStoredCampaign = (): string => {
+  return localStorage.getItem('referralCampaign') || '';
+};
+
+// Check if referral code is still within the attribution window it was stored with
 export const isReferralCodeValid = (): boolean => {
+  const expiresAt = localStorage.getItem('referralExpiresAt');
+  if (expiresAt) {
+    return Date.now() <= parseInt(expiresAt);
+  }
+  
+  // Codes stored before the window was configurable
   const timestamp = localStorage.getItem('referralTimestamp');
   if (!timestamp) return false;
   
-  const referralDate = new Date(parseInt(timestamp));
-  const now = new Date();
+  return getAttributionExpiry(parseInt(timestamp), DEFAULT_ATTRIBUTION_WINDOW_DAYS).getTime() >= Date.now();
+};
+
+// Rough device hash that survives clearing localStorage, so one device
+// generating many visitor IDs still shows up as one source of clicks
+export const getDeviceFingerprint = (): string => {
+  const source = [
+    navigator.userAgent,
+    navigator.language,
+    `${window.screen.width}x${window.screen.height}x${window.screen.colorDepth}`,
+    Intl.DateTimeFormat().resolvedOptions().timeZone,
+    navigator.hardwareConcurrency
+  ].join('|');
   
-  // Calculate difference in days
-  const diffTime = now.getTime() - referralDate.getTime();
-  const diffDays = diffTime / (1000 * 60 * 60 * 24);
+  let hash = 0;
+  for (let i = 0; i < source.length; i++) {
+    hash = (hash * 31 + source.charCodeAt(i)) | 0;
+  }
+  return `fp_${(hash >>> 0).toString(36)}`;
+};
+
+// Store a referral code under the store's attribution window and model.
+// Under first-click a newer code does not replace one that is still valid.
+export const rememberReferralCode = async (referralCode: string, campaign: string = ''): Promise<void> => {
+  let settings: AffiliateSettings | null = null;
+  try {
+    settings = await getAffiliateSettings();
+  } catch (settingsError) {
+    console.error('Error loading affiliate settings, using default attribution:', settingsError);
+  }
+  
+  const storedCode = getStoredReferralCode();
+  if (getAttributionModel(settings) === 'first_click' && storedCode && storedCode !== referralCode && isReferralCodeValid()) {
+    console.log(`Keeping first-click referral code ${storedCode}`);
+    return;
+  }
   
-  // Valid for 30 days
-  return diffDays <= 30;
+  storeReferralCode(referralCode, campaign, getAttributionWindowDays(settings));
 };
 
 // Track referral click
-export const trackReferral = async (referralCode: string): Promise<void> => {
+export const trackReferral = async (
+  referralCode: string,
+  campaign: string = '',
+  productId?: string
+): Promise<void> => {
   try {
     // Generate a visitor ID (or use existing one)
     let visitorId = localStorage.getItem('visitorId');
@@ -46,10 +121,9 @@ export const trackReferral = async (referralCode: string): Promise<void> => {
     }
     
     // Track the click
-    await trackReferralClick(referralCode, visitorId);
+    await trackReferralClick(referralCode, visitorId, getDeviceFingerprint(), campaign, productId);
     
-    // Store the referral code
-    storeReferralCode(referralCode);
+    await rememberReferralCode(referralCode, campaign);
     
     console.log('Referral tracked successfully:', referralCode);
     
@@ -62,7 +136,9 @@ export const trackReferral = async (referralCode: string): Promise<void> => {
           referralCode,
           currentUser.uid,
           currentUser.email || '',
-          currentUser.displayName || currentUser.email?.split('@')[0] || 'User'
+          currentUser.displayName || currentUser.email?.split('@')[0] || 'User',
+          visitorId,
+          campaign
         );
         console.log('User registered with referral successfully');
       } catch (registerError) {
@@ -81,7 +157,7 @@ export const processReferralCode = async (): Promise<void> => {
     
     if (referralCode) {
       console.log('Found referral code in URL:', referralCode);
-      await trackReferral(referralCode);
+      await trackReferral(referralCode, getCampaignFromUrl(), getProductIdFromUrl());
     } else {
       console.log('No referral code found in URL');
     }
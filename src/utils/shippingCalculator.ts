@@ -0,0 +1,200 @@
+import {
+  AppliedShippingPromotion,
+  CartItem,
+  Product,
+  ShippingClass,
+  ShippingPromotion,
+  ShippingRate
+} from '@/types';
+
+export const SHIPPING_CLASSES: ShippingClass[] = ['normal', 'cool', 'frozen'];
+
+export const SHIPPING_CLASS_LABELS: Record<ShippingClass, string> = {
+  normal: 'Normal',
+  cool: 'Dingin (Cool)',
+  frozen: 'Beku (Frozen)'
+};
+
+export interface ShippingParcel {
+  shipping_class: ShippingClass;
+  weight: number;
+  price: number;
+  surcharge: number;
+}
+
+export interface ShippingQuote {
+  total: number;
+  parcels: ShippingParcel[];
+}
+
+export const formatWeight = (grams: number) =>
+  grams >= 1000 ? `${(grams / 1000).toLocaleString()} kg` : `${grams.toLocaleString()} g`;
+
+const sortTiers = (rate: ShippingRate) =>
+  [...(rate.weight_tiers || [])]
+    .filter(tier => tier.max_weight > 0)
+    .sort((a, b) => a.max_weight - b.max_weight);
+
+const getSurcharge = (rate: ShippingRate, shippingClass: ShippingClass) => {
+  if (shippingClass === 'cool') return rate.cool_surcharge || 0;
+  if (shippingClass === 'frozen') return rate.frozen_surcharge || 0;
+  return 0;
+};
+
+/**
+ * Splits one temperature class into parcels. Without tiers the flat
+ * prefecture price covers the whole class; with tiers anything heavier than
+ * the largest tier is sent as several boxes.
+ */
+const packParcels = (rate: ShippingRate, shippingClass: ShippingClass, weight: number): ShippingParcel[] => {
+  const tiers = sortTiers(rate);
+  const surcharge = getSurcharge(rate, shippingClass);
+
+  if (tiers.length === 0) {
+    return [{ shipping_class: shippingClass, weight, price: rate.price, surcharge }];
+  }
+
+  const largest = tiers[tiers.length - 1];
+  const parcels: ShippingParcel[] = [];
+  let remaining = weight;
+
+  while (remaining > largest.max_weight) {
+    parcels.push({ shipping_class: shippingClass, weight: largest.max_weight, price: largest.price, surcharge });
+    remaining -= largest.max_weight;
+  }
+
+  const tier = tiers.find(t => remaining <= t.max_weight) || largest;
+  parcels.push({ shipping_class: shippingClass, weight: remaining, price: tier.price, surcharge });
+
+  return parcels;
+};
+
+/**
+ * Calculates the shipping fee for a whole cart. Chilled and frozen goods
+ * travel in their own boxes, so each temperature class is packed separately.
+ * `products` supplies current weight and class data for carts saved before
+ * those fields existed.
+ */
+export const calculateShippingFee = (
+  rate: ShippingRate,
+  cart: CartItem[],
+  products: Product[] = []
+): ShippingQuote => {
+  const weights = new Map<ShippingClass, number>();
+
+  cart.forEach(item => {
+    const productId = item.product?.id || item.id.split('-')[0];
+    const product = products.find(p => p.id === productId) || item.product;
+    const shippingClass = product?.shipping_class || 'normal';
+    const weight = (product?.weight || 0) * item.quantity;
+
+    weights.set(shippingClass, (weights.get(shippingClass) || 0) + weight);
+  });
+
+  const parcels = SHIPPING_CLASSES
+    .filter(shippingClass => weights.has(shippingClass))
+    .flatMap(shippingClass => packParcels(rate, shippingClass, weights.get(shippingClass) || 0));
+
+  return {
+    total: parcels.reduce((sum, parcel) => sum + parcel.price + parcel.surcharge, 0),
+    parcels
+  };
+};
+
+export interface ShippingPromotionResult {
+  fee: number;
+  applied: AppliedShippingPromotion | null;
+  // Closest promotion the cart would qualify for by spending more
+  next: { promotion: ShippingPromotion; remaining: number; discount: number } | null;
+}
+
+const isWithinWindow = (promotion: ShippingPromotion, now: Date) => {
+  if (promotion.starts_at && new Date(promotion.starts_at) > now) return false;
+  if (promotion.ends_at && new Date(promotion.ends_at) < now) return false;
+  return true;
+};
+
+const getPromotionDiscount = (promotion: ShippingPromotion, fee: number) => {
+  switch (promotion.type) {
+    case 'free':
+      return fee;
+    case 'discount_amount':
+      return Math.min(fee, promotion.value);
+    case 'discount_percent':
+      return Math.min(fee, Math.round(fee * promotion.value / 100));
+    default:
+      return 0;
+  }
+};
+
+/**
+ * Cart subtotal restricted to the given categories. An empty list counts the
+ * whole cart. Shared with vouchers, which restrict categories the same way.
+ */
+export const getCategorySubtotal = (categories: string[] | undefined, cart: CartItem[], products: Product[]) => {
+  return cart.reduce((sum, item) => {
+    if (categories && categories.length > 0) {
+      const productId = item.product?.id || item.id.split('-')[0];
+      const product = products.find(p => p.id === productId) || item.product;
+      if (!product || !categories.includes(product.category)) {
+        return sum;
+      }
+    }
+    return sum + item.price * item.quantity;
+  }, 0);
+};
+
+/**
+ * Picks the promotion that saves the customer the most on shipping. Only one
+ * promotion applies per order.
+ */
+export const applyShippingPromotions = (
+  fee: number,
+  promotions: ShippingPromotion[],
+  cart: CartItem[],
+  prefectureId: string,
+  products: Product[] = [],
+  now: Date = new Date()
+): ShippingPromotionResult => {
+  let applied: AppliedShippingPromotion | null = null;
+  let next: ShippingPromotionResult['next'] = null;
+
+  const candidates = promotions
+    .filter(promotion => promotion.active && isWithinWindow(promotion, now))
+    .filter(promotion =>
+      !promotion.prefectures || promotion.prefectures.length === 0 || promotion.prefectures.includes(prefectureId)
+    );
+
+  for (const promotion of candidates) {
+    const discount = getPromotionDiscount(promotion, fee);
+    if (discount <= 0) continue;
+
+    const remaining = (promotion.min_subtotal || 0) - getCategorySubtotal(promotion.categories, cart, products);
+
+    if (remaining <= 0) {
+      if (!applied || discount > applied.discount) {
+        applied = {
+          id: promotion.id,
+          name: promotion.name,
+          type: promotion.type,
+          value: promotion.value,
+          original_fee: fee,
+          discount
+        };
+      }
+    } else if (!next || remaining < next.remaining) {
+      next = { promotion, remaining, discount };
+    }
+  }
+
+  // Only suggest spending more when it beats what the cart already gets
+  if (next && applied && next.discount <= applied.discount) {
+    next = null;
+  }
+
+  return {
+    fee: fee - (applied ? applied.discount : 0),
+    applied,
+    next
+  };
+};
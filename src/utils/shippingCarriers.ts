@@ -0,0 +1,55 @@
+import { ShippingCarrier } from '@/types';
+
+export interface CarrierInfo {
+  id: ShippingCarrier;
+  name: string;
+  aliases: string[];
+  trackingUrl: (trackingNumber: string) => string;
+}
+
+export const SHIPPING_CARRIERS: CarrierInfo[] = [
+  {
+    id: 'yamato',
+    name: 'Yamato Transport (Kuroneko)',
+    aliases: ['yamato', 'kuroneko', 'takkyubin', 'ヤマト', 'ヤマト運輸', 'クロネコ'],
+    trackingUrl: (trackingNumber) =>
+      `https://toi.kuronekoyamato.co.jp/cgi-bin/tneko?number00=1&number01=${encodeURIComponent(trackingNumber)}`
+  },
+  {
+    id: 'sagawa',
+    name: 'Sagawa Express',
+    aliases: ['sagawa', 'sagawa express', '佐川', '佐川急便'],
+    trackingUrl: (trackingNumber) =>
+      `https://k2k.sagawa-exp.co.jp/p/web/okurijosearch.do?okurijoNo=${encodeURIComponent(trackingNumber)}`
+  },
+  {
+    id: 'japan_post',
+    name: 'Japan Post (Yu-Pack)',
+    aliases: ['japan_post', 'japan post', 'japanpost', 'yu-pack', 'yupack', 'yu pack', 'ゆうパック', '日本郵便'],
+    trackingUrl: (trackingNumber) =>
+      `https://trackings.post.japanpost.jp/services/srv/search/direct?reqCodeNo1=${encodeURIComponent(trackingNumber)}&locale=ja`
+  }
+];
+
+export const getCarrier = (carrier: string): CarrierInfo | undefined =>
+  SHIPPING_CARRIERS.find(info => info.id === carrier);
+
+// Accepts carrier names the way staff type them in spreadsheets
+export const parseCarrier = (value: string): ShippingCarrier | null => {
+  const normalized = value.trim().toLowerCase();
+  if (!normalized) return null;
+
+  const match = SHIPPING_CARRIERS.find(info =>
+    info.id === normalized || info.aliases.some(alias => normalized.includes(alias))
+  );
+  return match ? match.id : null;
+};
+
+// Carriers print numbers with hyphens or spaces; their tracking pages want digits only
+export const normalizeTrackingNumber = (trackingNumber: string): string =>
+  trackingNumber.replace(/[\s-]/g, '').toUpperCase();
+
+export const getTrackingUrl = (carrier: string, trackingNumber: string): string | null => {
+  const info = getCarrier(carrier);
+  return info ? info.trackingUrl(normalizeTrackingNumber(trackingNumber)) : null;
+};
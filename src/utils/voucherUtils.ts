@@ -0,0 +1,113 @@
+import { AppliedVoucher, CartItem, Product, Voucher, VoucherType } from '@/types';
+import { getCategorySubtotal } from '@/utils/shippingCalculator';
+
+export const VOUCHER_TYPE_LABELS: Record<VoucherType, string> = {
+  percent: 'Diskon (%)',
+  fixed: 'Potongan (¥)',
+  free_shipping: 'Gratis Ongkir'
+};
+
+export const normalizeVoucherCode = (code: string) => code.trim().toUpperCase().replace(/\s+/g, '');
+
+/**
+ * Checks whether a voucher can be redeemed at all right now, independent of
+ * the cart. Returns a customer-facing reason, or null when it is usable.
+ */
+export const getVoucherAvailabilityError = (voucher: Voucher, now: Date = new Date()): string | null => {
+  if (!voucher.active) return 'Voucher tidak aktif';
+  if (voucher.starts_at && new Date(voucher.starts_at) > now) return 'Voucher belum berlaku';
+  if (voucher.expires_at && new Date(voucher.expires_at) < now) return 'Voucher sudah kedaluwarsa';
+  if (voucher.usage_limit && (voucher.used_count || 0) >= voucher.usage_limit) {
+    return 'Kuota voucher sudah habis';
+  }
+  return null;
+};
+
+// Per-customer limits need an account to count against
+export const getVoucherUserLimitError = (
+  voucher: Voucher,
+  userId: string | null | undefined,
+  previousRedemptions: number
+): string | null => {
+  if (!voucher.per_user_limit) return null;
+  if (!userId) return 'Silakan login untuk memakai voucher ini';
+  if (previousRedemptions >= voucher.per_user_limit) {
+    return 'Anda sudah mencapai batas pemakaian voucher ini';
+  }
+  return null;
+};
+
+export interface VoucherEvaluation {
+  applied: AppliedVoucher | null;
+  error: string | null;
+}
+
+/**
+ * Works out what a voucher takes off this cart. Percentage and fixed vouchers
+ * discount the (category-restricted) product subtotal; free-shipping vouchers
+ * cover whatever shipping is left after shipping promotions.
+ */
+export const evaluateVoucher = (
+  voucher: Voucher,
+  cart: CartItem[],
+  products: Product[],
+  shippingFee: number,
+  now: Date = new Date()
+): VoucherEvaluation => {
+  const availabilityError = getVoucherAvailabilityError(voucher, now);
+  if (availabilityError) {
+    return { applied: null, error: availabilityError };
+  }
+
+  const eligibleSubtotal = getCategorySubtotal(voucher.categories, cart, products);
+
+  if (voucher.categories && voucher.categories.length > 0 && eligibleSubtotal === 0) {
+    return { applied: null, error: `Voucher hanya berlaku untuk kategori ${voucher.categories.join(', ')}` };
+  }
+
+  if (eligibleSubtotal < (voucher.min_spend || 0)) {
+    return {
+      applied: null,
+      error: `Minimal belanja ¥${voucher.min_spend.toLocaleString()} untuk memakai voucher ini`
+    };
+  }
+
+  let discount = 0;
+  let shippingDiscount = 0;
+
+  switch (voucher.type) {
+    case 'percent':
+      discount = Math.floor(eligibleSubtotal * voucher.value / 100);
+      if (voucher.max_discount) {
+        discount = Math.min(discount, voucher.max_discount);
+      }
+      break;
+    case 'fixed':
+      discount = Math.min(voucher.value, eligibleSubtotal);
+      break;
+    case 'free_shipping':
+      shippingDiscount = shippingFee;
+      break;
+  }
+
+  if (discount <= 0 && shippingDiscount <= 0) {
+    return {
+      applied: null,
+      error: voucher.type === 'free_shipping'
+        ? 'Ongkos kirim pesanan ini sudah gratis'
+        : 'Voucher tidak memberikan potongan untuk keranjang ini'
+    };
+  }
+
+  return {
+    applied: {
+      voucher_id: voucher.id,
+      code: voucher.code,
+      type: voucher.type,
+      value: voucher.value,
+      discount,
+      shipping_discount: shippingDiscount
+    },
+    error: null
+  };
+};
@@ -0,0 +1,421 @@
+import { afterAll, beforeAll, beforeEach, describe, it } from 'vitest';
+import { assertFails, assertSucceeds, RulesTestEnvironment } from '@firebase/rules-unit-testing';
+import { as, asGuest, seed, seedBaseline, setupRulesEnvironment } from './helpers';
+
+let env: RulesTestEnvironment;
+
+const NOW = '2026-10-19T00:00:00.000Z';
+
+const commission = (overrides: Record<string, unknown> = {}) => ({
+  affiliateId: 'affiliate',
+  orderId: 'alice-order',
+  commissionAmount: 100,
+  status: 'pending',
+  deliveredAt: null,
+  buyer: { userId: 'alice', contactKeys: [] },
+  ...overrides
+});
+
+beforeAll(async () => {
+  env = await setupRulesEnvironment();
+});
+
+afterAll(async () => {
+  await env.cleanup();
+});
+
+beforeEach(async () => {
+  await env.clearFirestore();
+  await seedBaseline(env, {
+    'affiliates/affiliate': {
+      userId: 'affiliate',
+      referralCode: 'AFF1',
+      email: 'affiliate@example.com',
+      totalClicks: 0,
+      totalReferrals: 0,
+      contactKeys: ['email:affiliate@example.com']
+    },
+    'affiliate_settings/default': { defaultCommissionRate: 5, maxCommissionRate: 10 }
+  });
+});
+
+describe('referral_codes', () => {
+  it('are looked up by anyone but listed by managers only', async () => {
+    await seed(env, { 'referral_codes/AFF1': { affiliateId: 'affiliate' } });
+    await assertSucceeds(asGuest(env).doc('referral_codes/AFF1').get());
+    await assertFails(asGuest(env).collection('referral_codes').get());
+    await assertSucceeds(as(env, 'manager').collection('referral_codes').get());
+  });
+
+  it('are registered by affiliates for their own code', async () => {
+    await assertSucceeds(as(env, 'affiliate').doc('referral_codes/AFF1').set({ affiliateId: 'affiliate' }));
+    await assertFails(as(env, 'affiliate').doc('referral_codes/OTHER').set({ affiliateId: 'affiliate' }));
+    await assertFails(as(env, 'bob').doc('referral_codes/BOB1').set({ affiliateId: 'bob' }));
+  });
+});
+
+describe('affiliates', () => {
+  it('are readable by themselves and managers', async () => {
+    await assertSucceeds(as(env, 'affiliate').doc('affiliates/affiliate').get());
+    await assertSucceeds(as(env, 'manager').doc('affiliates/affiliate').get());
+    await assertFails(as(env, 'bob').doc('affiliates/affiliate').get());
+  });
+
+  it('are created by their own user', async () => {
+    await assertSucceeds(as(env, 'bob').doc('affiliates/bob').set({ userId: 'bob', referralCode: 'BOB1' }));
+    await assertFails(as(env, 'bob').doc('affiliates/alice').set({ userId: 'bob', referralCode: 'BOB2' }));
+  });
+
+  it('edit their profile but not their counters or contact history', async () => {
+    await assertSucceeds(as(env, 'affiliate').doc('affiliates/affiliate').update({ bankInfo: { bankName: 'BCA' } }));
+    await assertFails(as(env, 'affiliate').doc('affiliates/affiliate').update({ contactKeys: [] }));
+    await assertFails(as(env, 'affiliate').doc('affiliates/affiliate').update({ totalCommission: 99999 }));
+  });
+
+  it('get their click and referral counters bumped by one', async () => {
+    await assertSucceeds(asGuest(env).doc('affiliates/affiliate').update({ totalClicks: 1 }));
+    await assertFails(asGuest(env).doc('affiliates/affiliate').update({ totalClicks: 5 }));
+    await assertSucceeds(as(env, 'alice').doc('affiliates/affiliate').update({ totalReferrals: 1 }));
+    await assertFails(asGuest(env).doc('affiliates/affiliate').update({ totalReferrals: 1 }));
+  });
+
+  it('are managed by affiliate managers', async () => {
+    await assertSucceeds(as(env, 'manager').doc('affiliates/affiliate').update({ status: 'suspended' }));
+    await assertFails(as(env, 'cashier').doc('affiliates/affiliate').update({ status: 'suspended' }));
+  });
+});
+
+describe('affiliate_referrals', () => {
+  beforeEach(async () => {
+    await seed(env, {
+      'affiliate_referrals/click': { status: 'clicked', referrerId: 'affiliate', referralCode: 'AFF1' },
+      'affiliate_referrals/registered': {
+        status: 'registered',
+        referrerId: 'affiliate',
+        referralCode: 'AFF1',
+        referredUserId: 'alice'
+      }
+    });
+  });
+
+  it('record anonymous clicks without personal data', async () => {
+    await assertSucceeds(asGuest(env).doc('affiliate_referrals/new-click').set({ status: 'clicked', referrerId: 'affiliate' }));
+    await assertFails(asGuest(env).doc('affiliate_referrals/new-user').set({
+      status: 'registered',
+      referrerId: 'affiliate',
+      referredUserId: 'alice'
+    }));
+  });
+
+  it('record a customer\'s own registration and orders', async () => {
+    await assertSucceeds(as(env, 'alice').doc('affiliate_referrals/alice-registered').set({
+      status: 'registered',
+      referrerId: 'affiliate',
+      referredUserId: 'alice'
+    }));
+    await assertSucceeds(as(env, 'alice').doc('affiliate_referrals/alice-ordered').set({
+      status: 'ordered',
+      referrerId: 'affiliate',
+      referredUserId: 'alice',
+      orderId: 'alice-order'
+    }));
+    await assertFails(as(env, 'alice').doc('affiliate_referrals/bob-ordered').set({
+      status: 'ordered',
+      referrerId: 'affiliate',
+      referredUserId: 'alice',
+      orderId: 'bob-order'
+    }));
+  });
+
+  it('let a registering customer claim an unclaimed click once', async () => {
+    const claim = { referredUserId: 'alice', status: 'registered', registeredAt: NOW, updatedAt: NOW };
+    await assertSucceeds(as(env, 'alice').doc('affiliate_referrals/click').update(claim));
+    await assertFails(as(env, 'bob').doc('affiliate_referrals/click').update({ ...claim, referredUserId: 'bob' }));
+  });
+
+  it('are readable by the affiliate and the referred customer', async () => {
+    await assertSucceeds(asGuest(env).doc('affiliate_referrals/click').get());
+    await assertSucceeds(as(env, 'alice').doc('affiliate_referrals/registered').get());
+    await assertSucceeds(as(env, 'affiliate').doc('affiliate_referrals/registered').get());
+    await assertFails(as(env, 'bob').doc('affiliate_referrals/registered').get());
+    await assertFails(asGuest(env).doc('affiliate_referrals/registered').get());
+  });
+
+  it('are listed by their affiliate only', async () => {
+    await assertSucceeds(as(env, 'affiliate').collection('affiliate_referrals').where('referrerId', '==', 'affiliate').get());
+    await assertFails(as(env, 'bob').collection('affiliate_referrals').where('referrerId', '==', 'affiliate').get());
+  });
+});
+
+describe('affiliate_notifications', () => {
+  it('are written by the affiliate under their own ID prefix', async () => {
+    await assertSucceeds(as(env, 'affiliate').doc('affiliate_notifications/affiliate_1').set({
+      affiliateId: 'affiliate',
+      message: 'Komisi disetujui',
+      read: false
+    }));
+    await assertFails(as(env, 'affiliate').doc('affiliate_notifications/bob_1').set({ affiliateId: 'affiliate', read: false }));
+    await assertFails(as(env, 'bob').doc('affiliate_notifications/affiliate_2').set({ affiliateId: 'affiliate', read: false }));
+  });
+
+  it('can only be marked read afterwards', async () => {
+    await seed(env, {
+      'affiliate_notifications/affiliate_1': { affiliateId: 'affiliate', message: 'Komisi disetujui', read: false }
+    });
+    await assertSucceeds(as(env, 'affiliate').doc('affiliate_notifications/affiliate_1').update({ read: true }));
+    await assertFails(as(env, 'affiliate').doc('affiliate_notifications/affiliate_1').update({ message: 'Bonus' }));
+    await assertFails(as(env, 'bob').doc('affiliate_notifications/affiliate_1').get());
+  });
+});
+
+describe('affiliate_notification_settings', () => {
+  it('belong to their affiliate', async () => {
+    await assertSucceeds(as(env, 'affiliate').doc('affiliate_notification_settings/affiliate').set({ affiliateId: 'affiliate' }));
+    await assertSucceeds(as(env, 'manager').doc('affiliate_notification_settings/affiliate').get());
+    await assertFails(as(env, 'bob').doc('affiliate_notification_settings/affiliate').set({ affiliateId: 'affiliate' }));
+  });
+});
+
+describe('affiliate_attributions', () => {
+  it('are recorded by the user for another affiliate', async () => {
+    await assertSucceeds(as(env, 'alice').doc('affiliate_attributions/alice').set({ userId: 'alice', affiliateId: 'affiliate' }));
+    await assertFails(as(env, 'affiliate').doc('affiliate_attributions/affiliate').set({ userId: 'affiliate', affiliateId: 'affiliate' }));
+    await assertFails(as(env, 'bob').doc('affiliate_attributions/alice').set({ userId: 'alice', affiliateId: 'affiliate' }));
+  });
+
+  it('are only moved to another affiliate by managers', async () => {
+    await seed(env, { 'affiliate_attributions/alice': { userId: 'alice', affiliateId: 'affiliate' } });
+    await assertFails(as(env, 'alice').doc('affiliate_attributions/alice').set({ userId: 'alice', affiliateId: 'bob' }));
+    await assertSucceeds(as(env, 'manager').doc('affiliate_attributions/alice').update({ affiliateId: 'bob' }));
+  });
+
+  it('are readable by the user and managers', async () => {
+    await seed(env, { 'affiliate_attributions/alice': { userId: 'alice', affiliateId: 'affiliate' } });
+    await assertSucceeds(as(env, 'alice').doc('affiliate_attributions/alice').get());
+    await assertSucceeds(as(env, 'manager').doc('affiliate_attributions/alice').get());
+    await assertFails(as(env, 'bob').doc('affiliate_attributions/alice').get());
+  });
+});
+
+describe('affiliate_commissions', () => {
+  it('are created pending by the buyer for their own order', async () => {
+    await assertSucceeds(as(env, 'alice').doc('affiliate_commissions/own').set(commission()));
+    await assertFails(as(env, 'alice').doc('affiliate_commissions/approved').set(commission({ status: 'approved' })));
+    await assertFails(as(env, 'alice').doc('affiliate_commissions/other-order').set(commission({ orderId: 'bob-order' })));
+    await assertFails(as(env, 'alice').doc('affiliate_commissions/self').set(commission({ affiliateId: 'alice' })));
+    await assertFails(as(env, 'affiliate').doc('affiliate_commissions/for-alice').set(commission()));
+  });
+
+  it('earn at most the highest commission rate on the order total', async () => {
+    await assertFails(as(env, 'alice').doc('affiliate_commissions/over').set(commission({ commissionAmount: 101 })));
+    await assertFails(as(env, 'alice').doc('affiliate_commissions/negative').set(commission({ commissionAmount: -1 })));
+    await seed(env, { 'affiliate_settings/default': { defaultCommissionRate: 5 } });
+    await assertFails(as(env, 'alice').doc('affiliate_commissions/own').set(commission()));
+    await assertSucceeds(as(env, 'alice').doc('affiliate_commissions/own').set(commission({ commissionAmount: 50 })));
+  });
+
+  describe('once created', () => {
+    beforeEach(async () => {
+      await seed(env, { 'affiliate_commissions/c1': commission() });
+    });
+
+    it('are readable by the affiliate and staff', async () => {
+      await assertSucceeds(as(env, 'affiliate').doc('affiliate_commissions/c1').get());
+      await assertSucceeds(as(env, 'cashier').doc('affiliate_commissions/c1').get());
+      await assertFails(as(env, 'bob').doc('affiliate_commissions/c1').get());
+    });
+
+    it('are only reduced or reversed by order handlers', async () => {
+      await assertSucceeds(as(env, 'cashier').doc('affiliate_commissions/c1').update({ commissionAmount: 0, status: 'reversed' }));
+      await seed(env, { 'affiliate_commissions/c1': commission() });
+      await assertFails(as(env, 'cashier').doc('affiliate_commissions/c1').update({ commissionAmount: 200 }));
+      await assertFails(as(env, 'cashier').doc('affiliate_commissions/c1').update({ status: 'approved' }));
+    });
+
+    it('start their hold period on delivery once', async () => {
+      await assertSucceeds(as(env, 'cashier').doc('affiliate_commissions/c1').update({ deliveredAt: NOW }));
+      await assertFails(as(env, 'cashier').doc('affiliate_commissions/c1').update({ deliveredAt: '2026-12-01T00:00:00.000Z' }));
+    });
+
+    it('are decided by affiliate managers', async () => {
+      await assertSucceeds(as(env, 'manager').doc('affiliate_commissions/c1').update({ status: 'approved' }));
+      await assertFails(as(env, 'affiliate').doc('affiliate_commissions/c1').update({ status: 'approved' }));
+    });
+  });
+});
+
+describe('affiliate_ledger', () => {
+  const commissionEntry = (overrides: Record<string, unknown> = {}) => ({
+    affiliateId: 'affiliate',
+    type: 'commission',
+    debit: 'available',
+    credit: 'shop',
+    amount: 100,
+    commissionId: 'c1',
+    orderId: 'alice-order',
+    createdBy: 'alice',
+    ...overrides
+  });
+
+  const payoutEntry = (overrides: Record<string, unknown> = {}) => ({
+    affiliateId: 'affiliate',
+    type: 'payout',
+    debit: 'payout_requested',
+    credit: 'available',
+    amount: 500,
+    payoutId: 'pay1',
+    createdBy: 'affiliate',
+    ...overrides
+  });
+
+  beforeEach(async () => {
+    await seed(env, {
+      'affiliate_commissions/c1': commission(),
+      'affiliate_payouts/pay1': { affiliateId: 'affiliate', status: 'pending', amount: 500 }
+    });
+  });
+
+  it('book the commission a buyer\'s order earned once, for its amount', async () => {
+    await assertSucceeds(as(env, 'alice').doc('affiliate_ledger/commission_c1').set(commissionEntry()));
+    await assertFails(as(env, 'alice').doc('affiliate_ledger/commission_c1').set(commissionEntry()));
+    await assertFails(as(env, 'alice').doc('affiliate_ledger/commission_c1_again').set(commissionEntry()));
+  });
+
+  it('deny commission entries that do not match the commission', async () => {
+    await assertFails(as(env, 'alice').doc('affiliate_ledger/commission_c1').set(commissionEntry({ amount: 150 })));
+    await assertFails(as(env, 'bob').doc('affiliate_ledger/commission_c1').set(commissionEntry({ createdBy: 'bob' })));
+  });
+
+  it('reserve payouts when staff accept them, never when affiliates request them', async () => {
+    await assertFails(as(env, 'affiliate').doc('affiliate_ledger/payout_pay1_requested').set(payoutEntry()));
+    await assertSucceeds(as(env, 'manager').doc('affiliate_ledger/payout_pay1_requested').set(payoutEntry({ createdBy: 'manager' })));
+  });
+
+  it('let order handlers book reversals only', async () => {
+    await assertSucceeds(as(env, 'cashier').doc('affiliate_ledger/reversal').set(commissionEntry({
+      type: 'reversal',
+      debit: 'shop',
+      credit: 'available',
+      createdBy: 'cashier'
+    })));
+    await assertFails(as(env, 'cashier').doc('affiliate_ledger/bonus').set(commissionEntry({
+      type: 'adjustment',
+      createdBy: 'cashier'
+    })));
+  });
+
+  it('are read by their affiliate and never changed', async () => {
+    await seed(env, { 'affiliate_ledger/commission_c1': commissionEntry() });
+    await assertSucceeds(as(env, 'affiliate').doc('affiliate_ledger/commission_c1').get());
+    await assertFails(as(env, 'bob').doc('affiliate_ledger/commission_c1').get());
+    await assertFails(as(env, 'manager').doc('affiliate_ledger/commission_c1').update({ amount: 1 }));
+    await assertFails(as(env, 'manager').doc('affiliate_ledger/commission_c1').delete());
+  });
+});
+
+describe('affiliate_monthly_sales', () => {
+  const sales = (amount: number, orderId = 'alice-order') => ({
+    sales: amount,
+    orders: 2,
+    lastOrderId: orderId,
+    updatedAt: NOW
+  });
+
+  beforeEach(async () => {
+    await seed(env, {
+      'affiliate_monthly_sales/affiliate_2026-10': {
+        affiliateId: 'affiliate',
+        month: '2026-10',
+        sales: 1000,
+        orders: 1,
+        lastOrderId: 'older-order'
+      }
+    });
+  });
+
+  it('add a buyer\'s own order up to its total', async () => {
+    await assertSucceeds(as(env, 'alice').doc('affiliate_monthly_sales/affiliate_2026-10').update(sales(1800)));
+  });
+
+  it('deny raising sales by more than the order\'s total', async () => {
+    await assertFails(as(env, 'alice').doc('affiliate_monthly_sales/affiliate_2026-10').update(sales(7000)));
+  });
+
+  it('deny counting someone else\'s order or the same order twice', async () => {
+    await assertFails(as(env, 'bob').doc('affiliate_monthly_sales/affiliate_2026-10').update(sales(1800)));
+    await seed(env, {
+      'affiliate_monthly_sales/affiliate_2026-10': {
+        affiliateId: 'affiliate',
+        month: '2026-10',
+        sales: 1000,
+        orders: 1,
+        lastOrderId: 'alice-order'
+      }
+    });
+    await assertFails(as(env, 'alice').doc('affiliate_monthly_sales/affiliate_2026-10').update(sales(1800)));
+  });
+
+  it('are only lowered by order handlers', async () => {
+    const lowered = (amount: number, orders: number) => ({ sales: amount, orders, updatedAt: NOW });
+    await assertFails(as(env, 'cashier').doc('affiliate_monthly_sales/affiliate_2026-10').update(lowered(1200, 1)));
+    await assertFails(as(env, 'cashier').doc('affiliate_monthly_sales/affiliate_2026-10').update(lowered(-1, 0)));
+    await assertFails(as(env, 'alice').doc('affiliate_monthly_sales/affiliate_2026-10').update(lowered(400, 0)));
+    await assertSucceeds(as(env, 'cashier').doc('affiliate_monthly_sales/affiliate_2026-10').update(lowered(400, 0)));
+  });
+
+  it('start a month with at most the first order\'s total', async () => {
+    const month = (amount: number) => ({
+      affiliateId: 'affiliate',
+      month: '2026-11',
+      sales: amount,
+      orders: 1,
+      lastOrderId: 'alice-order'
+    });
+    await assertFails(as(env, 'alice').doc('affiliate_monthly_sales/affiliate_2026-11').set(month(5000)));
+    await assertFails(as(env, 'alice').doc('affiliate_monthly_sales/affiliate_2026-12').set(month(900)));
+    await assertSucceeds(as(env, 'alice').doc('affiliate_monthly_sales/affiliate_2026-11').set(month(900)));
+  });
+
+  it('are read when signed in and listed by their affiliate', async () => {
+    await assertSucceeds(as(env, 'alice').doc('affiliate_monthly_sales/affiliate_2026-10').get());
+    await assertFails(asGuest(env).doc('affiliate_monthly_sales/affiliate_2026-10').get());
+    await assertSucceeds(as(env, 'affiliate').collection('affiliate_monthly_sales').where('affiliateId', '==', 'affiliate').get());
+    await assertFails(as(env, 'bob').collection('affiliate_monthly_sales').where('affiliateId', '==', 'affiliate').get());
+  });
+
+  it('are corrected by affiliate managers', async () => {
+    await assertSucceeds(as(env, 'manager').doc('affiliate_monthly_sales/affiliate_2026-10').update({ sales: 0 }));
+  });
+});
+
+describe('affiliate_settings', () => {
+  it('are public and edited by affiliate managers', async () => {
+    await assertSucceeds(as(env, 'manager').doc('affiliate_settings/default').set({ commissionRate: 5 }));
+    await assertSucceeds(asGuest(env).doc('affiliate_settings/default').get());
+    await assertFails(as(env, 'affiliate').doc('affiliate_settings/default').set({ commissionRate: 50 }));
+  });
+});
+
+describe('affiliate_payouts', () => {
+  it('are requested pending by the affiliate', async () => {
+    await assertSucceeds(as(env, 'affiliate').doc('affiliate_payouts/own').set({ affiliateId: 'affiliate', status: 'pending', amount: 500 }));
+    await assertFails(as(env, 'affiliate').doc('affiliate_payouts/paid').set({ affiliateId: 'affiliate', status: 'paid', amount: 500 }));
+    await assertFails(as(env, 'affiliate').doc('affiliate_payouts/for-bob').set({ affiliateId: 'bob', status: 'pending', amount: 500 }));
+  });
+
+  it('are processed by affiliate managers', async () => {
+    await seed(env, { 'affiliate_payouts/pay1': { affiliateId: 'affiliate', status: 'pending', amount: 500 } });
+    await assertSucceeds(as(env, 'affiliate').doc('affiliate_payouts/pay1').get());
+    await assertFails(as(env, 'bob').doc('affiliate_payouts/pay1').get());
+    await assertFails(as(env, 'affiliate').doc('affiliate_payouts/pay1').update({ status: 'paid' }));
+    await assertSucceeds(as(env, 'manager').doc('affiliate_payouts/pay1').update({ status: 'paid' }));
+  });
+});
+
+describe('affiliate_payout_runs', () => {
+  it('are for affiliate managers only', async () => {
+    await assertSucceeds(as(env, 'manager').doc('affiliate_payout_runs/2026-10').set({ status: 'draft' }));
+    await assertFails(as(env, 'affiliate').doc('affiliate_payout_runs/2026-10').get());
+    await assertFails(as(env, 'cashier').doc('affiliate_payout_runs/2026-10').set({ status: 'draft' }));
+  });
+});
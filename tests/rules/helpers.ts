@@ -0,0 +1,70 @@
+import { readFileSync } from 'node:fs';
+import {
+  initializeTestEnvironment,
+  RulesTestEnvironment,
+} from '@firebase/rules-unit-testing';
+
+export const PROJECT_ID = 'demo-injapan-food';
+
+// One account per role, plus a second customer and a customer who is an affiliate
+export const USERS = {
+  owner: { role: 'owner', email: 'owner@example.com' },
+  admin: { role: 'admin', email: 'admin@example.com' },
+  cashier: { role: 'cashier', email: 'cashier@example.com' },
+  manager: { role: 'affiliate_manager', email: 'manager@example.com' },
+  alice: { role: 'customer', email: 'alice@example.com' },
+  bob: { role: 'customer', email: 'bob@example.com' },
+  affiliate: { role: 'customer', email: 'affiliate@example.com' },
+};
+
+export type TestUser = keyof typeof USERS;
+
+export const ALICE_ORDER = {
+  user_id: 'alice',
+  status: 'pending',
+  payment_status: 'pending',
+  total_price: 1000,
+  items: [{ product_id: 'pocky', name: 'Pocky', price: 500, quantity: 2 }],
+};
+
+export const BOB_ORDER = { ...ALICE_ORDER, user_id: 'bob' };
+
+export const setupRulesEnvironment = () =>
+  initializeTestEnvironment({
+    projectId: PROJECT_ID,
+    firestore: {
+      rules: readFileSync(new URL('../../firestore.rules', import.meta.url), 'utf8'),
+    },
+  });
+
+// Writes documents as they would exist in production, bypassing the rules
+export const seed = (
+  env: RulesTestEnvironment,
+  docs: Record<string, Record<string, unknown>>
+) =>
+  env.withSecurityRulesDisabled(async (context) => {
+    const db = context.firestore();
+    await Promise.all(
+      Object.entries(docs).map(([path, data]) => db.doc(path).set(data))
+    );
+  });
+
+// Every test starts from the role profiles and one pending order per customer
+export const seedBaseline = (
+  env: RulesTestEnvironment,
+  docs: Record<string, Record<string, unknown>> = {}
+) =>
+  seed(env, {
+    ...Object.fromEntries(
+      Object.entries(USERS).map(([uid, profile]) => [`users/${uid}`, profile])
+    ),
+    'orders/alice-order': ALICE_ORDER,
+    'orders/bob-order': BOB_ORDER,
+    ...docs,
+  });
+
+export const as = (env: RulesTestEnvironment, uid: TestUser) =>
+  env.authenticatedContext(uid, { email: USERS[uid].email }).firestore();
+
+export const asGuest = (env: RulesTestEnvironment) =>
+  env.unauthenticatedContext().firestore();
@@ -0,0 +1,404 @@
+import { afterAll, beforeAll, beforeEach, describe, it } from 'vitest';
+import { assertFails, assertSucceeds, RulesTestEnvironment } from '@firebase/rules-unit-testing';
+import { ALICE_ORDER, as, asGuest, seed, seedBaseline, setupRulesEnvironment } from './helpers';
+
+let env: RulesTestEnvironment;
+
+beforeAll(async () => {
+  env = await setupRulesEnvironment();
+});
+
+afterAll(async () => {
+  await env.cleanup();
+});
+
+beforeEach(async () => {
+  await env.clearFirestore();
+  await seedBaseline(env);
+});
+
+describe('products', () => {
+  const checkoutOrder = (reservations: Record<string, unknown>) => ({
+    ...ALICE_ORDER,
+    stock_reserved: true,
+    stock_reservations: reservations
+  });
+
+  beforeEach(async () => {
+    await seed(env, {
+      'products/pocky': { name: 'Pocky', price: 500, stock: 10, variants: [] },
+      'products/ramune': {
+        name: 'Ramune',
+        price: 200,
+        stock: 0,
+        variants: [
+          { name: 'Melon', price: 200, stock: 4 },
+          { name: 'Grape', price: 220, stock: 3 }
+        ]
+      }
+    });
+  });
+
+  it('are readable by anyone', async () => {
+    await assertSucceeds(asGuest(env).doc('products/pocky').get());
+  });
+
+  it('are edited by admins only', async () => {
+    await assertSucceeds(as(env, 'admin').doc('products/pocky').update({ price: 450 }));
+    await assertSucceeds(as(env, 'admin').doc('products/new').set({ name: 'Kitkat', price: 300, stock: 1 }));
+    await assertFails(as(env, 'alice').doc('products/pocky').update({ price: 1 }));
+    await assertFails(as(env, 'alice').doc('products/other').set({ name: 'Kitkat', price: 300, stock: 1 }));
+    await assertFails(asGuest(env).doc('products/pocky').delete());
+  });
+
+  it('let order handlers adjust stock but not prices', async () => {
+    await assertSucceeds(as(env, 'cashier').doc('products/pocky').update({ stock: 12 }));
+    await assertFails(as(env, 'cashier').doc('products/pocky').update({ price: 1 }));
+  });
+
+  it('let checkout take the stock its new order reserves', async () => {
+    const db = as(env, 'alice');
+    const batch = db.batch();
+    batch.set(db.doc('orders/checkout'), checkoutOrder({ pocky: { stock: 2, variants: {} } }));
+    batch.update(db.doc('products/pocky'), { stock: 8, last_reserved_order: 'checkout' });
+    await assertSucceeds(batch.commit());
+  });
+
+  it('let checkout take reserved variant stock', async () => {
+    const db = as(env, 'alice');
+    const batch = db.batch();
+    batch.set(db.doc('orders/checkout'), checkoutOrder({ ramune: { stock: 0, variants: { Melon: 1 } } }));
+    batch.update(db.doc('products/ramune'), {
+      variants: [
+        { name: 'Melon', price: 200, stock: 3 },
+        { name: 'Grape', price: 220, stock: 3 }
+      ],
+      last_reserved_order: 'checkout'
+    });
+    await assertSucceeds(batch.commit());
+  });
+
+  it('deny checkout taking more stock than its order reserves', async () => {
+    const db = as(env, 'alice');
+    const batch = db.batch();
+    batch.set(db.doc('orders/checkout'), checkoutOrder({ pocky: { stock: 2, variants: {} } }));
+    batch.update(db.doc('products/pocky'), { stock: 0, last_reserved_order: 'checkout' });
+    await assertFails(batch.commit());
+  });
+
+  it('deny checkout taking stock of a product its order does not reserve', async () => {
+    const db = as(env, 'alice');
+    const batch = db.batch();
+    batch.set(db.doc('orders/checkout'), checkoutOrder({ ramune: { stock: 0, variants: { Melon: 1 } } }));
+    batch.update(db.doc('products/pocky'), { stock: 9, last_reserved_order: 'checkout' });
+    await assertFails(batch.commit());
+  });
+
+  it('deny checkout changing variant prices or names', async () => {
+    const db = as(env, 'alice');
+    const batch = db.batch();
+    batch.set(db.doc('orders/checkout'), checkoutOrder({ ramune: { stock: 0, variants: { Melon: 1 } } }));
+    batch.update(db.doc('products/ramune'), {
+      variants: [
+        { name: 'Melon', price: 1, stock: 3 },
+        { name: 'Grape Free', price: 220, stock: 3 }
+      ],
+      last_reserved_order: 'checkout'
+    });
+    await assertFails(batch.commit());
+  });
+
+  it('deny stock decrements tied to an existing order', async () => {
+    await seed(env, { 'orders/old': checkoutOrder({ pocky: { stock: 5, variants: {} } }) });
+    await assertFails(as(env, 'alice').doc('products/pocky').update({ stock: 5, last_reserved_order: 'old' }));
+  });
+});
+
+describe('users', () => {
+  it('are readable by themselves and staff only', async () => {
+    await assertSucceeds(as(env, 'alice').doc('users/alice').get());
+    await assertSucceeds(as(env, 'admin').doc('users/alice').get());
+    await assertFails(as(env, 'bob').doc('users/alice').get());
+    await assertFails(as(env, 'cashier').doc('users/alice').get());
+  });
+
+  it('create their own customer profile only', async () => {
+    await env.clearFirestore();
+    await assertSucceeds(as(env, 'alice').doc('users/alice').set({ role: 'customer' }));
+    await assertFails(as(env, 'bob').doc('users/bob').set({ role: 'admin' }));
+    await assertFails(as(env, 'bob').doc('users/alice').set({ role: 'customer' }));
+  });
+
+  it('edit their profile but never their role', async () => {
+    await assertSucceeds(as(env, 'alice').doc('users/alice').update({ name: 'Alice' }));
+    await assertFails(as(env, 'alice').doc('users/alice').update({ role: 'admin' }));
+    await assertFails(as(env, 'cashier').doc('users/cashier').update({ role: 'admin' }));
+  });
+
+  it('get roles below admin from admins and any role from owners', async () => {
+    await assertSucceeds(as(env, 'admin').doc('users/bob').update({ role: 'cashier' }));
+    await assertFails(as(env, 'admin').doc('users/bob').update({ role: 'admin' }));
+    await assertFails(as(env, 'admin').doc('users/owner').update({ role: 'customer' }));
+    await assertSucceeds(as(env, 'owner').doc('users/bob').update({ role: 'admin' }));
+    await assertFails(as(env, 'cashier').doc('users/bob').update({ role: 'cashier' }));
+  });
+
+  it('let an admin claim the first owner role once', async () => {
+    const claim = (uid: 'admin' | 'alice') => {
+      const db = as(env, uid);
+      const batch = db.batch();
+      batch.update(db.doc(`users/${uid}`), { role: 'owner', updated_at: '2026-10-19T00:00:00.000Z' });
+      batch.set(db.doc('app_config/owner'), { userId: uid, claimed_at: '2026-10-19T00:00:00.000Z' });
+      return batch.commit();
+    };
+
+    await assertFails(claim('alice'));
+    await assertSucceeds(claim('admin'));
+
+    await seed(env, { 'users/admin': { role: 'admin' } });
+    await assertFails(claim('admin'));
+  });
+
+  it('deny claiming ownership without the marker', async () => {
+    await assertFails(as(env, 'admin').doc('users/admin').update({ role: 'owner' }));
+  });
+});
+
+describe('app_config', () => {
+  it('is readable when signed in and never edited', async () => {
+    await seed(env, { 'app_config/owner': { userId: 'owner' } });
+    await assertSucceeds(as(env, 'alice').doc('app_config/owner').get());
+    await assertFails(asGuest(env).doc('app_config/owner').get());
+    await assertFails(as(env, 'owner').doc('app_config/owner').update({ userId: 'admin' }));
+  });
+});
+
+describe('orders', () => {
+  it('are created pending by guests and by customers for themselves', async () => {
+    await assertSucceeds(asGuest(env).doc('orders/guest').set({ ...ALICE_ORDER, user_id: null }));
+    await assertSucceeds(as(env, 'alice').doc('orders/new').set(ALICE_ORDER));
+    await assertFails(as(env, 'bob').doc('orders/for-alice').set(ALICE_ORDER));
+    await assertFails(as(env, 'alice').doc('orders/confirmed').set({ ...ALICE_ORDER, status: 'confirmed' }));
+  });
+
+  it('are readable by their customer and order handlers', async () => {
+    await assertSucceeds(as(env, 'alice').doc('orders/alice-order').get());
+    await assertSucceeds(as(env, 'cashier').doc('orders/alice-order').get());
+    await assertFails(as(env, 'bob').doc('orders/alice-order').get());
+    await assertFails(as(env, 'manager').doc('orders/alice-order').get());
+  });
+
+  it('only get a payment proof from their customer', async () => {
+    await assertSucceeds(as(env, 'alice').doc('orders/alice-order').update({
+      payment_proof_url: 'https://example.com/proof.jpg',
+      payment_status: 'pending'
+    }));
+    await assertFails(as(env, 'alice').doc('orders/alice-order').update({ status: 'confirmed' }));
+    await assertFails(as(env, 'alice').doc('orders/alice-order').update({ payment_status: 'verified' }));
+    await assertFails(as(env, 'bob').doc('orders/alice-order').update({ payment_proof_url: 'x', payment_status: 'pending' }));
+  });
+
+  it('are managed by order handlers and deleted by admins', async () => {
+    await assertSucceeds(as(env, 'cashier').doc('orders/alice-order').update({ status: 'confirmed' }));
+    await assertFails(as(env, 'cashier').doc('orders/alice-order').delete());
+    await assertFails(as(env, 'alice').doc('orders/alice-order').delete());
+    await assertSucceeds(as(env, 'admin').doc('orders/alice-order').delete());
+  });
+});
+
+describe('recycle_bin', () => {
+  it('is for admins only', async () => {
+    await assertSucceeds(as(env, 'admin').doc('recycle_bin/item').set({ type: 'product' }));
+    await assertFails(as(env, 'cashier').doc('recycle_bin/item').set({ type: 'product' }));
+    await assertFails(as(env, 'alice').collection('recycle_bin').get());
+  });
+});
+
+describe('admin_logs', () => {
+  it('are appended by staff as themselves', async () => {
+    await assertSucceeds(as(env, 'cashier').doc('admin_logs/log').set({ user_id: 'cashier', action: 'confirm_order' }));
+    await assertFails(as(env, 'cashier').doc('admin_logs/log').set({ user_id: 'admin', action: 'confirm_order' }));
+    await assertFails(as(env, 'alice').doc('admin_logs/log').set({ user_id: 'alice', action: 'confirm_order' }));
+  });
+
+  it('are read by admins and never changed', async () => {
+    await seed(env, { 'admin_logs/log': { user_id: 'admin', action: 'update_product' } });
+    await assertSucceeds(as(env, 'admin').doc('admin_logs/log').get());
+    await assertFails(as(env, 'cashier').doc('admin_logs/log').get());
+    await assertFails(as(env, 'owner').doc('admin_logs/log').update({ action: 'none' }));
+    await assertFails(as(env, 'owner').doc('admin_logs/log').delete());
+  });
+});
+
+describe('stats', () => {
+  const bump = (revenue: number, orderId = 'alice-order') => ({
+    totalOrders: 6,
+    pendingOrders: 3,
+    totalRevenue: 5000 + revenue,
+    last_order_id: orderId,
+    updated_at: '2026-10-19T00:00:00.000Z'
+  });
+
+  beforeEach(async () => {
+    await seed(env, {
+      'stats/orders': { totalOrders: 5, pendingOrders: 2, totalRevenue: 5000, last_order_id: 'older-order' }
+    });
+  });
+
+  it('are read by admins and affiliate managers only', async () => {
+    await assertSucceeds(as(env, 'manager').doc('stats/orders').get());
+    await assertFails(as(env, 'alice').doc('stats/orders').get());
+    await assertFails(as(env, 'cashier').doc('stats/orders').get());
+  });
+
+  it('count a customer\'s new order with its total', async () => {
+    await assertSucceeds(as(env, 'alice').doc('stats/orders').update(bump(1000)));
+  });
+
+  it('count a guest order', async () => {
+    await seed(env, { 'orders/guest-order': { ...ALICE_ORDER, user_id: null } });
+    await assertSucceeds(asGuest(env).doc('stats/orders').update(bump(1000, 'guest-order')));
+  });
+
+  it('deny revenue other than the new order\'s total', async () => {
+    await assertFails(as(env, 'alice').doc('stats/orders').update(bump(999999)));
+    await assertFails(as(env, 'alice').doc('stats/orders').update(bump(0)));
+  });
+
+  it('deny counting an order twice or someone else\'s order', async () => {
+    await seed(env, {
+      'stats/orders': { totalOrders: 5, pendingOrders: 2, totalRevenue: 5000, last_order_id: 'alice-order' }
+    });
+    await assertFails(as(env, 'alice').doc('stats/orders').update(bump(1000)));
+    await assertFails(as(env, 'alice').doc('stats/orders').update(bump(1000, 'bob-order')));
+  });
+
+  it('are maintained by order handlers', async () => {
+    await assertSucceeds(as(env, 'cashier').doc('stats/orders').update({ pendingOrders: 1 }));
+    await assertFails(as(env, 'alice').doc('stats/orders').update({ pendingOrders: 1 }));
+    await assertFails(as(env, 'cashier').doc('stats/orders').delete());
+  });
+});
+
+describe.each(['shipping_rates', 'exchange_rate_settings', 'shipping_promotions'])('%s', (collection) => {
+  it('are public and edited by admins', async () => {
+    await assertSucceeds(as(env, 'admin').doc(`${collection}/default`).set({ value: 1 }));
+    await assertSucceeds(asGuest(env).doc(`${collection}/default`).get());
+    await assertFails(as(env, 'alice').doc(`${collection}/default`).set({ value: 2 }));
+    await assertFails(as(env, 'cashier').doc(`${collection}/default`).set({ value: 2 }));
+  });
+});
+
+describe('exchange_rate_history', () => {
+  it('is appended and read by admins only', async () => {
+    await assertSucceeds(as(env, 'admin').doc('exchange_rate_history/entry').set({ rate: 105 }));
+    await assertSucceeds(as(env, 'admin').doc('exchange_rate_history/entry').get());
+    await assertFails(as(env, 'admin').doc('exchange_rate_history/entry').update({ rate: 1 }));
+    await assertFails(as(env, 'alice').doc('exchange_rate_history/entry').get());
+  });
+});
+
+describe('vouchers', () => {
+  const redeem = (usedCount: number) => {
+    const db = as(env, 'alice');
+    const batch = db.batch();
+    batch.set(db.doc('orders/checkout'), { ...ALICE_ORDER, voucher: { voucher_id: 'hemat' } });
+    batch.update(db.doc('vouchers/hemat'), { used_count: usedCount, last_redeemed_order: 'checkout' });
+    batch.set(db.doc('voucher_redemptions/checkout'), { voucher_id: 'hemat', user_id: 'alice' });
+    return batch.commit();
+  };
+
+  beforeEach(async () => {
+    await seed(env, { 'vouchers/hemat': { code: 'HEMAT', used_count: 0, usage_limit: 1 } });
+  });
+
+  it('are looked up by code but not listed', async () => {
+    await assertSucceeds(asGuest(env).doc('vouchers/hemat').get());
+    await assertFails(as(env, 'alice').collection('vouchers').get());
+    await assertSucceeds(as(env, 'admin').collection('vouchers').get());
+  });
+
+  it('count one use for the order that redeems them', async () => {
+    await assertSucceeds(redeem(1));
+  });
+
+  it('deny skipping the count or passing the usage limit', async () => {
+    await assertFails(redeem(2));
+    await seed(env, { 'vouchers/hemat': { code: 'HEMAT', used_count: 1, usage_limit: 1 } });
+    await assertFails(redeem(2));
+  });
+
+  it('are edited by admins only', async () => {
+    await assertSucceeds(as(env, 'admin').doc('vouchers/hemat').update({ usage_limit: 10 }));
+    await assertFails(as(env, 'alice').doc('vouchers/hemat').update({ usage_limit: 10 }));
+  });
+});
+
+describe('voucher_redemptions', () => {
+  beforeEach(async () => {
+    await seed(env, { 'voucher_redemptions/alice-order': { voucher_id: 'hemat', user_id: 'alice' } });
+  });
+
+  it('are readable by their customer and admins', async () => {
+    await assertSucceeds(as(env, 'alice').doc('voucher_redemptions/alice-order').get());
+    await assertSucceeds(as(env, 'admin').doc('voucher_redemptions/alice-order').get());
+    await assertFails(as(env, 'bob').doc('voucher_redemptions/alice-order').get());
+  });
+
+  it('are not created for existing orders or changed by customers', async () => {
+    await assertFails(as(env, 'bob').doc('voucher_redemptions/bob-order').set({ voucher_id: 'hemat', user_id: 'bob' }));
+    await assertFails(as(env, 'alice').doc('voucher_redemptions/alice-order').delete());
+  });
+});
+
+describe('payment_proofs', () => {
+  const proof = (overrides: Record<string, unknown> = {}) => ({
+    user_id: 'alice',
+    order_id: 'alice-order',
+    status: 'pending',
+    reviews: [],
+    ...overrides
+  });
+
+  it('are uploaded pending by customers for their own orders', async () => {
+    await assertSucceeds(as(env, 'alice').doc('payment_proofs/own').set(proof()));
+    await assertFails(as(env, 'alice').doc('payment_proofs/other-order').set(proof({ order_id: 'bob-order' })));
+    await assertFails(as(env, 'alice').doc('payment_proofs/verified').set(proof({ status: 'verified' })));
+    await assertFails(as(env, 'bob').doc('payment_proofs/for-alice').set(proof()));
+  });
+
+  it('are read by their customer and reviewed by admins', async () => {
+    await seed(env, { 'payment_proofs/proof': proof() });
+    await assertSucceeds(as(env, 'alice').doc('payment_proofs/proof').get());
+    await assertFails(as(env, 'bob').doc('payment_proofs/proof').get());
+    await assertFails(as(env, 'alice').doc('payment_proofs/proof').update({ status: 'verified' }));
+    await assertSucceeds(as(env, 'admin').doc('payment_proofs/proof').update({ status: 'verified' }));
+  });
+});
+
+describe('bank_transactions', () => {
+  it('are for admins only', async () => {
+    await assertSucceeds(as(env, 'admin').doc('bank_transactions/tx').set({ amount: 1000 }));
+    await assertFails(as(env, 'cashier').doc('bank_transactions/tx').get());
+    await assertFails(as(env, 'alice').doc('bank_transactions/tx').set({ amount: 1000 }));
+  });
+});
+
+describe('user_settings', () => {
+  it('belong to their user', async () => {
+    await assertSucceeds(as(env, 'alice').doc('user_settings/alice').set({ displayCurrency: 'IDR' }));
+    await assertSucceeds(as(env, 'alice').doc('user_settings/alice').get());
+    await assertFails(as(env, 'bob').doc('user_settings/alice').get());
+    await assertFails(as(env, 'admin').doc('user_settings/alice').set({ displayCurrency: 'JPY' }));
+  });
+});
+
+describe('transactions', () => {
+  it('are recorded by the point of sale and changed by admins', async () => {
+    await assertSucceeds(as(env, 'cashier').doc('transactions/tx').set({ total: 1000 }));
+    await assertSucceeds(as(env, 'cashier').doc('transactions/tx').get());
+    await assertFails(as(env, 'cashier').doc('transactions/tx').update({ total: 1 }));
+    await assertSucceeds(as(env, 'admin').doc('transactions/tx').update({ total: 900 }));
+    await assertFails(as(env, 'alice').doc('transactions/tx').set({ total: 1000 }));
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { AffiliateCommission, AffiliateReferral, AffiliateUser } from '@/types/affiliate';
+import { assessCommissionRisks, getContactKeys, getMaxClicksPerDevice, RISK_FLAG_SCORE } from '@/utils/affiliateFraud';
+
+const AFFILIATE = {
+  id: 'affiliate',
+  email: 'affiliate@example.com',
+  contactKeys: []
+} as unknown as AffiliateUser;
+
+const commission = (id: string, buyerId: string, contactKeys: string[]): AffiliateCommission => ({
+  id,
+  affiliateId: 'affiliate',
+  referralId: 'r1',
+  orderId: `order-${id}`,
+  orderTotal: 5000,
+  commissionAmount: 250,
+  status: 'pending',
+  createdAt: '2026-10-01T00:00:00.000Z',
+  updatedAt: '2026-10-01T00:00:00.000Z',
+  buyer: { userId: buyerId, contactKeys }
+});
+
+const click = (fingerprint: string, clickedAt: string) => ({
+  referrerId: 'affiliate',
+  fingerprint,
+  clickedAt
+} as AffiliateReferral);
+
+describe('getContactKeys', () => {
+  it('stores hashes, never the contact details themselves', async () => {
+    const keys = await getContactKeys({ email: 'Buyer@Example.com', phone: '090-1234-5678', address: 'Shibuya 1-2-3' });
+
+    expect(keys.map(key => key.split(':')[0])).toEqual(['email', 'phone', 'address']);
+    keys.forEach(key => expect(key).toMatch(/^[a-z]+:[0-9a-f]{64}$/));
+    expect(keys.join()).not.toContain('example');
+    expect(keys.join()).not.toContain('1234');
+  });
+
+  it('matches details regardless of case, spacing and punctuation', async () => {
+    expect(await getContactKeys({ email: ' buyer@example.com', phone: '09012345678', address: 'shibuya 123', postal_code: '150-0002' }))
+      .toEqual(await getContactKeys({ email: 'BUYER@example.com ', phone: '090-1234-5678', address: 'Shibuya 1-2-3', postal_code: '1500002' }));
+  });
+
+  it('skips missing details and phone numbers too short to compare', async () => {
+    expect(await getContactKeys({ phone: '12-34' })).toEqual([]);
+  });
+});
+
+describe('getMaxClicksPerDevice', () => {
+  it('counts the busiest 24 hours of a single device', () => {
+    expect(getMaxClicksPerDevice([
+      click('a', '2026-10-01T00:00:00.000Z'),
+      click('a', '2026-10-01T12:00:00.000Z'),
+      click('a', '2026-10-01T23:00:00.000Z'),
+      click('a', '2026-10-03T00:00:00.000Z'),
+      click('b', '2026-10-01T01:00:00.000Z')
+    ])).toBe(3);
+  });
+});
+
+describe('assessCommissionRisks', () => {
+  it('flags buyers sharing the affiliate\'s account email', async () => {
+    const risks = await assessCommissionRisks(
+      [commission('c1', 'buyer', await getContactKeys({ email: 'AFFILIATE@example.com' }))],
+      [AFFILIATE],
+      []
+    );
+
+    expect(risks.c1.score).toBeGreaterThanOrEqual(RISK_FLAG_SCORE);
+    expect(risks.c1.reasons).toContain('Email pembeli sama dengan affiliate');
+  });
+
+  it('flags one address shared by several buyers', async () => {
+    const address = await getContactKeys({ address: 'Shibuya 1-2-3' });
+    const risks = await assessCommissionRisks(
+      [commission('c1', 'buyer-1', address), commission('c2', 'buyer-2', address)],
+      [AFFILIATE],
+      []
+    );
+
+    expect(risks.c1.reasons).toContain('Alamat yang sama dipakai 2 akun pembeli');
+    expect(risks.c1.score).toBeGreaterThanOrEqual(RISK_FLAG_SCORE);
+  });
+
+  it('leaves ordinary commissions unflagged', async () => {
+    const risks = await assessCommissionRisks(
+      [commission('c1', 'buyer', await getContactKeys({ email: 'buyer@example.com' }))],
+      [AFFILIATE],
+      [click('a', '2026-10-01T00:00:00.000Z')]
+    );
+
+    expect(risks.c1).toEqual({ score: 0, reasons: [] });
+  });
+});
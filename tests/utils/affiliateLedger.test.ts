@@ -0,0 +1,236 @@
+import { describe, expect, it } from 'vitest';
+import { AffiliateCommission, AffiliateLedgerEntry, AffiliatePayout, AffiliateSettings, AffiliateUser } from '@/types/affiliate';
+import {
+  buildStatement,
+  EMPTY_BALANCE,
+  getCorrectionPostings,
+  getCommissionReleaseDate,
+  getExpectedBalance,
+  getHoldPeriodDays,
+  getLedgerBalance,
+  getLedgerBalances,
+  getPayoutRunCandidates,
+  getWithdrawableBalance,
+  isCommissionLocked
+} from '@/utils/affiliateLedger';
+
+const entry = (
+  debit: AffiliateLedgerEntry['debit'],
+  credit: AffiliateLedgerEntry['credit'],
+  amount: number,
+  overrides: Partial<AffiliateLedgerEntry> = {}
+): AffiliateLedgerEntry => ({
+  id: `${debit}-${credit}-${amount}`,
+  affiliateId: 'affiliate',
+  type: 'adjustment',
+  debit,
+  credit,
+  amount,
+  description: '',
+  createdAt: '2026-10-01T00:00:00.000Z',
+  createdBy: null,
+  ...overrides
+});
+
+const commission = (
+  commissionAmount: number,
+  status: AffiliateCommission['status'] = 'approved',
+  overrides: Partial<AffiliateCommission> = {}
+): AffiliateCommission => ({
+  id: `c-${commissionAmount}`,
+  affiliateId: 'affiliate',
+  referralId: 'r1',
+  orderId: 'o1',
+  orderTotal: 10000,
+  commissionAmount,
+  status,
+  createdAt: '2026-10-01T00:00:00.000Z',
+  updatedAt: '2026-10-01T00:00:00.000Z',
+  ...overrides
+});
+
+const payout = (amount: number, status: AffiliatePayout['status']): AffiliatePayout => ({
+  id: `p-${amount}`,
+  affiliateId: 'affiliate',
+  amount,
+  method: 'Bank Transfer',
+  status,
+  requestedAt: '2026-10-01T00:00:00.000Z'
+});
+
+describe('getLedgerBalance', () => {
+  it('follows commission through a payout request to payment', () => {
+    const balance = getLedgerBalance([
+      entry('available', 'shop', 1000, { type: 'commission' }),
+      entry('payout_requested', 'available', 600, { type: 'payout' }),
+      entry('paid', 'payout_requested', 600, { type: 'payout' }),
+      entry('shop', 'available', 100, { type: 'reversal' })
+    ]);
+
+    expect(balance).toEqual({ earned: 900, available: 300, payoutRequested: 0, paid: 600 });
+  });
+
+  it('is empty without entries', () => {
+    expect(getLedgerBalance([])).toEqual(EMPTY_BALANCE);
+  });
+});
+
+describe('getLedgerBalances', () => {
+  it('keeps each affiliate\'s entries apart', () => {
+    const balances = getLedgerBalances([
+      entry('available', 'shop', 1000),
+      entry('available', 'shop', 300, { affiliateId: 'other' })
+    ]);
+
+    expect(balances.affiliate.available).toBe(1000);
+    expect(balances.other.available).toBe(300);
+  });
+});
+
+describe('getExpectedBalance', () => {
+  it('counts commission that was not rejected and reserves accepted payouts', () => {
+    const expected = getExpectedBalance(
+      [commission(1000), commission(500, 'paid'), commission(700, 'rejected')],
+      [payout(400, 'processing'), payout(500, 'completed'), payout(200, 'pending'), payout(300, 'rejected')]
+    );
+
+    expect(expected).toEqual({ earned: 1500, available: 600, payoutRequested: 400, paid: 500 });
+  });
+});
+
+describe('getCorrectionPostings', () => {
+  it('brings every account in line with the documents', () => {
+    const actual = getLedgerBalance([entry('available', 'shop', 800), entry('payout_requested', 'available', 300)]);
+    const expected = { earned: 1000, available: 500, payoutRequested: 0, paid: 500 };
+
+    const postings = getCorrectionPostings(expected, actual);
+    const corrected = getLedgerBalance([
+      entry('available', 'shop', 800),
+      entry('payout_requested', 'available', 300),
+      ...postings.map(posting => entry(posting.debit, posting.credit, posting.amount))
+    ]);
+
+    expect(corrected).toEqual(expected);
+    expect(postings.every(posting => posting.amount > 0)).toBe(true);
+  });
+
+  it('posts nothing when the ledger is right', () => {
+    const balance = { earned: 1000, available: 400, payoutRequested: 100, paid: 500 };
+    expect(getCorrectionPostings(balance, balance)).toEqual([]);
+  });
+});
+
+describe('buildStatement', () => {
+  it('runs the available balance oldest first', () => {
+    const lines = buildStatement([
+      entry('payout_requested', 'available', 400, { createdAt: '2026-10-03T00:00:00.000Z' }),
+      entry('available', 'shop', 1000, { createdAt: '2026-10-01T00:00:00.000Z' }),
+      entry('paid', 'payout_requested', 400, { createdAt: '2026-10-05T00:00:00.000Z' })
+    ]);
+
+    expect(lines.map(line => [line.change, line.balance])).toEqual([[1000, 1000], [-400, 600], [0, 600]]);
+  });
+});
+
+describe('hold period', () => {
+  const NOW = new Date('2026-10-19T00:00:00.000Z');
+
+  it('defaults to 14 days but can be switched off', () => {
+    expect(getHoldPeriodDays(null)).toBe(14);
+    expect(getHoldPeriodDays({ holdPeriodDays: 0 } as AffiliateSettings)).toBe(0);
+  });
+
+  it('releases commission the given number of days after delivery', () => {
+    const delivered = commission(1000, 'approved', { deliveredAt: '2026-10-10T00:00:00.000Z' });
+    expect(getCommissionReleaseDate(delivered, 14)?.toISOString()).toBe('2026-10-24T00:00:00.000Z');
+    expect(isCommissionLocked(delivered, 14, NOW)).toBe(true);
+    expect(isCommissionLocked(delivered, 7, NOW)).toBe(false);
+  });
+
+  it('locks commission until its order is delivered', () => {
+    expect(isCommissionLocked(commission(1000, 'approved', { deliveredAt: null }), 14, NOW)).toBe(true);
+  });
+
+  it('never locks commission from before the hold period or that no longer counts', () => {
+    expect(isCommissionLocked(commission(1000), 14, NOW)).toBe(false);
+    expect(isCommissionLocked(commission(1000, 'reversed', { deliveredAt: null }), 14, NOW)).toBe(false);
+  });
+});
+
+describe('getWithdrawableBalance', () => {
+  const NOW = new Date('2026-10-19T00:00:00.000Z');
+  const balance = (available: number) => ({ ...EMPTY_BALANCE, earned: available, available });
+
+  it('holds back locked and unapproved commission', () => {
+    const withdrawable = getWithdrawableBalance(balance(3000), [
+      commission(1000, 'approved', { deliveredAt: '2026-10-15T00:00:00.000Z' }),
+      commission(500, 'pending', { deliveredAt: null }),
+      commission(1500)
+    ], [], 14, NOW);
+
+    expect(withdrawable).toEqual({ locked: 1000, pending: 500, requested: 0, withdrawable: 1500 });
+  });
+
+  it('holds back payout requests staff have not accepted yet', () => {
+    const withdrawable = getWithdrawableBalance(balance(3000), [commission(3000)], [
+      payout(1000, 'pending'),
+      payout(500, 'processing')
+    ], 14, NOW);
+
+    expect(withdrawable.requested).toBe(1000);
+    expect(withdrawable.withdrawable).toBe(2000);
+  });
+
+  it('never holds back more than the available balance after a clawback', () => {
+    const withdrawable = getWithdrawableBalance(balance(400), [
+      commission(1000, 'approved', { deliveredAt: null })
+    ], [payout(300, 'pending')], 14, NOW);
+
+    expect(withdrawable).toEqual({ locked: 400, pending: 0, requested: 0, withdrawable: 0 });
+  });
+});
+
+describe('getPayoutRunCandidates', () => {
+  const NOW = new Date('2026-10-19T00:00:00.000Z');
+  const SETTINGS = { minPayoutAmount: 1000, holdPeriodDays: 14 } as AffiliateSettings;
+  const affiliate = (id: string) => ({ id, displayName: id } as AffiliateUser);
+
+  it('pays every withdrawable balance above the minimum, largest first', () => {
+    const candidates = getPayoutRunCandidates(
+      [affiliate('small'), affiliate('affiliate'), affiliate('big')],
+      [
+        entry('available', 'shop', 1500),
+        entry('available', 'shop', 900, { affiliateId: 'small' }),
+        entry('available', 'shop', 4000, { affiliateId: 'big' })
+      ],
+      [
+        commission(1500, 'approved', { id: 'c1' }),
+        commission(4000, 'approved', { id: 'c2', affiliateId: 'big' })
+      ],
+      [],
+      SETTINGS,
+      NOW
+    );
+
+    expect(candidates.map(candidate => [candidate.affiliate.id, candidate.amount])).toEqual([['big', 4000], ['affiliate', 1500]]);
+    expect(candidates[1].commissions).toEqual([{ commissionId: 'c1', orderId: 'o1', amount: 1500 }]);
+  });
+
+  it('leaves out locked commission and open payout requests', () => {
+    const candidates = getPayoutRunCandidates(
+      [affiliate('affiliate')],
+      [entry('available', 'shop', 3000)],
+      [
+        commission(1000, 'approved', { id: 'c1' }),
+        commission(1000, 'approved', { id: 'c2', deliveredAt: '2026-10-15T00:00:00.000Z' }),
+        commission(1000, 'approved', { id: 'c3' })
+      ],
+      [payout(500, 'pending')],
+      SETTINGS,
+      NOW
+    );
+
+    expect(candidates[0].amount).toBe(1500);
+    expect(candidates[0].commissions.map(covered => covered.commissionId)).toEqual(['c1', 'c3']);
+  });
+});
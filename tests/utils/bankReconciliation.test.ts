@@ -0,0 +1,164 @@
+import { describe, expect, it } from 'vitest';
+import { BankStatementTransaction, Order } from '@/types';
+import {
+  getBankTransactionIds,
+  getNameMatchScore,
+  matchBankTransactions,
+  parseBankStatement,
+  parseStatementAmount,
+  parseStatementDate
+} from '@/utils/bankReconciliation';
+
+const transfer = (amount: number, sender: string, overrides: Partial<BankStatementTransaction> = {}): BankStatementTransaction => ({
+  line: 2,
+  date: '2026-10-19',
+  amount,
+  currency: 'JPY',
+  sender,
+  ...overrides
+});
+
+const order = (id: string, name: string, totalPrice: number, overrides: Partial<Order> = {}) => ({
+  id,
+  status: 'pending',
+  payment_status: 'pending',
+  total_price: totalPrice,
+  total_amount: totalPrice,
+  created_at: '2026-10-18T10:00:00.000Z',
+  customer_info: { name, payment_method: 'Bank Transfer (Yucho)' },
+  ...overrides
+} as Order);
+
+describe('parseStatementDate', () => {
+  it('reads Japanese statement dates', () => {
+    expect(parseStatementDate('2026/10/19')).toBe('2026-10-19');
+    expect(parseStatementDate('2026年10月9日')).toBe('2026-10-09');
+    expect(parseStatementDate("'20261019")).toBe('2026-10-19');
+    expect(parseStatementDate('R8.10.19')).toBe('2026-10-19');
+  });
+
+  it('reads Indonesian dates day first', () => {
+    expect(parseStatementDate('19/10/2026')).toBe('2026-10-19');
+    expect(parseStatementDate('05-11-26')).toBe('2026-11-05');
+  });
+
+  it('rejects anything that is not a date', () => {
+    expect(parseStatementDate('2026/13/01')).toBeNull();
+    expect(parseStatementDate('Saldo Awal')).toBeNull();
+  });
+});
+
+describe('parseStatementAmount', () => {
+  it('reads thousands and decimal separators in either style', () => {
+    expect(parseStatementAmount('1,500,000.00')).toBe(1500000);
+    expect(parseStatementAmount('1.500.000,00')).toBe(1500000);
+    expect(parseStatementAmount('Rp 2.500.000')).toBe(2500000);
+    expect(parseStatementAmount('¥12,500')).toBe(12500);
+  });
+
+  it('rounds fractions and keeps the sign', () => {
+    expect(parseStatementAmount('1234,56')).toBe(1235);
+    expect(parseStatementAmount('-1,000.40')).toBe(-1000);
+  });
+
+  it('is null without digits', () => {
+    expect(parseStatementAmount('')).toBeNull();
+    expect(parseStatementAmount('-')).toBeNull();
+  });
+});
+
+describe('parseBankStatement', () => {
+  it('reads the incoming transfers of a Yucho export in yen', () => {
+    const transactions = parseBankStatement([
+      '口座番号,12345',
+      '日付,受入金額,払出金額,詳細',
+      '2026/10/19,"12,500",,ﾌﾞﾃﾞｲ ｻﾝﾄｿ',
+      '2026/10/19,,3000,振替'
+    ].join('\r\n'));
+
+    expect(transactions).toEqual([{ line: 3, date: '2026-10-19', amount: 12500, currency: 'JPY', sender: 'ﾌﾞﾃﾞｲ ｻﾝﾄｿ' }]);
+  });
+
+  it('skips debits in Indonesian exports with a direction column', () => {
+    const transactions = parseBankStatement([
+      'Tanggal,Keterangan,Mutasi,DB/CR',
+      '19/10/2026,TRSF BUDI SANTOSO,"1.250.000,00",CR',
+      '19/10/2026,BIAYA ADM,"10.000,00",DB'
+    ].join('\n'));
+
+    expect(transactions).toEqual([{ line: 2, date: '2026-10-19', amount: 1250000, currency: 'IDR', sender: 'TRSF BUDI SANTOSO' }]);
+  });
+
+  it('needs a date and an amount column', () => {
+    expect(() => parseBankStatement('Nama,Catatan\nBudi,-')).toThrow('Header mutasi tidak ditemukan');
+  });
+});
+
+describe('getNameMatchScore', () => {
+  it('compares names across half-width, full-width and hiragana spellings', () => {
+    expect(getNameMatchScore('ブディ サントソ', 'ﾌﾞﾃﾞｨ ｻﾝﾄｿ')).toBe(1);
+    expect(getNameMatchScore('ぶでぃ さんとそ', 'ﾌﾞﾃﾞｨ ｻﾝﾄｿ')).toBe(1);
+    expect(getNameMatchScore('Budi Santoso', 'TRSF ＢＵＤＩ SANTOSO')).toBe(1);
+  });
+
+  it('accepts names the bank cut short', () => {
+    expect(getNameMatchScore('Budi Santoso', 'BUDI SANT')).toBe(1);
+    expect(getNameMatchScore('Budi Santoso', 'ANDI')).toBe(0);
+  });
+});
+
+describe('matchBankTransactions', () => {
+  it('verifies a transfer matching one order by amount and name', () => {
+    const [match] = matchBankTransactions([transfer(5000, 'BUDI SANTOSO')], [
+      order('a', 'Budi Santoso', 5000),
+      order('b', 'Siti Rahma', 5000)
+    ]);
+
+    expect(match).toMatchObject({ status: 'auto_verified', order_id: 'a', candidate_order_ids: ['a'] });
+  });
+
+  it('sends amount-only and name-only hits to review', () => {
+    const orders = [order('a', 'Budi Santoso', 5000), order('b', 'Siti Rahma', 7000)];
+    const [amountOnly, nameOnly, none] = matchBankTransactions([
+      transfer(7000, 'ANDI'),
+      transfer(4000, 'BUDI SANTOSO'),
+      transfer(9000, 'ANDI')
+    ], orders);
+
+    expect(amountOnly).toMatchObject({ status: 'review', order_id: null, candidate_order_ids: ['b'] });
+    expect(nameOnly).toMatchObject({ status: 'review', candidate_order_ids: ['a'] });
+    expect(none).toMatchObject({ status: 'unmatched', candidate_order_ids: [] });
+  });
+
+  it('allows rupiah transfers to be slightly off the locked total', () => {
+    const rupiahOrder = order('a', 'Budi Santoso', 5000, {
+      customer_info: { name: 'Budi Santoso', payment_method: 'Bank Transfer (Rupiah)' },
+      exchange_rate: { total_rupiah: 500400 }
+    } as Partial<Order>);
+
+    const [match] = matchBankTransactions([transfer(500000, 'BUDI SANTOSO', { currency: 'IDR' })], [rupiahOrder]);
+    expect(match.status).toBe('auto_verified');
+  });
+
+  it('ignores paid orders and transfers dated before the order', () => {
+    const matches = matchBankTransactions([
+      transfer(5000, 'BUDI SANTOSO', { date: '2026-10-16' }),
+      transfer(6000, 'SITI RAHMA')
+    ], [
+      order('a', 'Budi Santoso', 5000),
+      order('b', 'Siti Rahma', 6000, { payment_status: 'verified' })
+    ]);
+
+    expect(matches.map(match => match.status)).toEqual(['unmatched', 'unmatched']);
+  });
+});
+
+describe('getBankTransactionIds', () => {
+  it('gives the same transfer the same ID on every import and tells identical ones apart', () => {
+    const ids = getBankTransactionIds([transfer(5000, 'BUDI'), transfer(5000, 'BUDI'), transfer(5000, 'SITI')]);
+
+    expect(getBankTransactionIds([transfer(5000, 'BUDI')])).toEqual([ids[0]]);
+    expect(new Set(ids).size).toBe(3);
+    expect(ids[1].endsWith('_1')).toBe(true);
+  });
+});
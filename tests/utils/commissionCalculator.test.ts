@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { AffiliateSettings } from '@/types/affiliate';
+import {
+  calculateCommission,
+  getAffiliateTier,
+  getCommissionMonth,
+  getMaxCommissionRate
+} from '@/utils/commissionCalculator';
+
+const SETTINGS: AffiliateSettings = {
+  id: 'default',
+  defaultCommissionRate: 5,
+  tiers: [
+    { id: 'silver', name: 'Silver', minMonthlySales: 50000, commissionRate: 7 },
+    { id: 'gold', name: 'Gold', minMonthlySales: 200000, commissionRate: 10 }
+  ],
+  commissionRules: [
+    { id: 'r1', type: 'product', target: 'rice', commissionRate: 2 },
+    { id: 'r2', type: 'category', target: 'Frozen', commissionRate: 8 }
+  ],
+  minPayoutAmount: 5000,
+  payoutMethods: ['Bank Transfer'],
+  termsAndConditions: '',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z'
+};
+
+const item = (productId: string, price: number, quantity: number, category?: string) => ({
+  product_id: productId,
+  name: productId,
+  price,
+  quantity,
+  ...(category ? { category } : {})
+});
+
+describe('getCommissionMonth', () => {
+  it('uses the calendar month in Japan time', () => {
+    expect(getCommissionMonth(new Date('2026-10-31T14:59:59.000Z'))).toBe('2026-10');
+    expect(getCommissionMonth(new Date('2026-10-31T15:00:00.000Z'))).toBe('2026-11');
+  });
+});
+
+describe('getAffiliateTier', () => {
+  it('picks the highest tier the monthly sales have reached', () => {
+    expect(getAffiliateTier(SETTINGS.tiers, 10000)).toBeNull();
+    expect(getAffiliateTier(SETTINGS.tiers, 50000)?.id).toBe('silver');
+    expect(getAffiliateTier(SETTINGS.tiers, 250000)?.id).toBe('gold');
+  });
+});
+
+describe('calculateCommission', () => {
+  it('prefers product rules, then category rules, then the tier or default rate', () => {
+    const { amount, breakdown } = calculateCommission([
+      item('rice', 1000, 1, 'Frozen'),
+      item('tempe', 1000, 1, 'Frozen'),
+      item('chips', 1000, 1, 'Snack')
+    ], SETTINGS, 0);
+
+    expect(breakdown.lines.map(line => line.rateSource)).toEqual(['product', 'category', 'default']);
+    expect(breakdown.lines.map(line => line.amount)).toEqual([20, 80, 50]);
+    expect(amount).toBe(150);
+  });
+
+  it('applies the tier rate to lines without a rule', () => {
+    const { amount, breakdown } = calculateCommission([item('chips', 1000, 2, 'Snack')], SETTINGS, 60000);
+    expect(breakdown.tierId).toBe('silver');
+    expect(amount).toBe(140);
+  });
+
+  it('spreads a voucher discount over the lines by value', () => {
+    const { breakdown } = calculateCommission([
+      item('chips', 1000, 3, 'Snack'),
+      item('cookies', 1000, 1, 'Snack')
+    ], SETTINGS, 0, 1000);
+
+    expect(breakdown.lines.map(line => line.lineTotal)).toEqual([2250, 750]);
+    expect(breakdown.discount).toBe(1000);
+  });
+
+  it('lets the last line absorb rounding of the discount', () => {
+    const { breakdown } = calculateCommission([
+      item('a', 100, 1),
+      item('b', 100, 1),
+      item('c', 100, 1)
+    ], SETTINGS, 0, 100);
+
+    expect(breakdown.lines.reduce((sum, line) => sum + line.lineTotal, 0)).toBe(200);
+  });
+
+  it('rounds each line down and never earns on more than was paid', () => {
+    const { amount } = calculateCommission([item('chips', 99, 1)], SETTINGS, 0, 500);
+    expect(amount).toBe(0);
+  });
+});
+
+describe('getMaxCommissionRate', () => {
+  it('is the highest of the default, tier and rule rates', () => {
+    expect(getMaxCommissionRate(SETTINGS)).toBe(10);
+    expect(getMaxCommissionRate({ defaultCommissionRate: 5 })).toBe(5);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { ExchangeRateQuote } from '@/types';
+import {
+  calculateStoreRate,
+  convertYenToRupiah,
+  formatApproxRupiah,
+  formatRupiah,
+  formatYen,
+  getDisplayPrices,
+  isExchangeRateExpired,
+  isExchangeRateStale,
+  isRupiahPaymentMethod,
+  lockExchangeRate
+} from '@/utils/currencyUtils';
+
+const NOW = new Date('2026-10-19T12:00:00.000Z');
+
+const QUOTE: ExchangeRateQuote = {
+  rate: 104.5,
+  source: 'open.er-api.com',
+  fetched_at: '2026-10-19T11:30:00.000Z'
+};
+
+describe('convertYenToRupiah', () => {
+  it('rounds to whole rupiah', () => {
+    expect(convertYenToRupiah(1234, 104.5)).toBe(128953);
+    expect(convertYenToRupiah(1000)).toBe(100000);
+  });
+});
+
+describe('isRupiahPaymentMethod', () => {
+  it('is true only for methods paid in rupiah', () => {
+    expect(isRupiahPaymentMethod('Bank Transfer (Rupiah)')).toBe(true);
+    expect(isRupiahPaymentMethod('QRIS / QR Code')).toBe(true);
+    expect(isRupiahPaymentMethod('COD (Cash on Delivery)')).toBe(false);
+    expect(isRupiahPaymentMethod(undefined)).toBe(false);
+  });
+});
+
+describe('isExchangeRateStale', () => {
+  it('refreshes quotes older than an hour', () => {
+    expect(isExchangeRateStale(QUOTE, NOW)).toBe(false);
+    expect(isExchangeRateStale({ ...QUOTE, fetched_at: '2026-10-19T10:59:59.000Z' }, NOW)).toBe(true);
+  });
+});
+
+describe('lockExchangeRate', () => {
+  it('keeps the quote and total payable for 24 hours', () => {
+    const locked = lockExchangeRate(QUOTE, 1306250, NOW);
+
+    expect(locked).toEqual({
+      ...QUOTE,
+      total_rupiah: 1306250,
+      locked_at: '2026-10-19T12:00:00.000Z',
+      expires_at: '2026-10-20T12:00:00.000Z'
+    });
+    expect(isExchangeRateExpired(locked, new Date('2026-10-20T11:59:59.000Z'))).toBe(false);
+    expect(isExchangeRateExpired(locked, new Date('2026-10-20T12:00:01.000Z'))).toBe(true);
+  });
+});
+
+describe('calculateStoreRate', () => {
+  const settings = { mode: 'markup' as const, manual_rate: 0, markup_percent: 3, reference_rate: 104.5 };
+
+  it('adds the markup to the reference rate, to two decimals', () => {
+    expect(calculateStoreRate(settings)).toBe(107.64);
+  });
+
+  it('uses the manual rate as given', () => {
+    expect(calculateStoreRate({ ...settings, mode: 'manual', manual_rate: 110 })).toBe(110);
+  });
+
+  it('has no rate before one is set or fetched', () => {
+    expect(calculateStoreRate({ ...settings, mode: 'manual' })).toBeNull();
+    expect(calculateStoreRate({ ...settings, reference_rate: null })).toBeNull();
+  });
+});
+
+describe('getDisplayPrices', () => {
+  it('shows yen, rupiah or both as the customer prefers', () => {
+    expect(getDisplayPrices(1200, 'JPY', 104.5)).toEqual({ primary: formatYen(1200), secondary: null });
+    expect(getDisplayPrices(1200, 'IDR', 104.5)).toEqual({ primary: formatApproxRupiah(1200, 104.5), secondary: null });
+    expect(getDisplayPrices(1200, 'both', 104.5)).toEqual({ primary: formatYen(1200), secondary: formatApproxRupiah(1200, 104.5) });
+  });
+
+  it('falls back to yen until a rate is loaded', () => {
+    expect(getDisplayPrices(1200, 'IDR', null)).toEqual({ primary: formatYen(1200), secondary: null });
+  });
+});
+
+describe('formatApproxRupiah', () => {
+  it('marks the converted price as an estimate', () => {
+    expect(formatApproxRupiah(1200, 104.5)).toBe(`≈ ${formatRupiah(125400)}`);
+  });
+});
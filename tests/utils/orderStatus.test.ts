@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { canTransitionOrderStatus, getNextOrderStatuses, getOrderStatusLabel } from '@/utils/orderStatus';
+
+describe('canTransitionOrderStatus', () => {
+  it('moves orders forward one step at a time', () => {
+    expect(canTransitionOrderStatus('pending', 'confirmed')).toBe(true);
+    expect(canTransitionOrderStatus('confirmed', 'processing')).toBe(true);
+    expect(canTransitionOrderStatus('processing', 'shipped')).toBe(true);
+    expect(canTransitionOrderStatus('pending', 'shipped')).toBe(false);
+  });
+
+  it('allows cancelling until the order is shipped', () => {
+    expect(canTransitionOrderStatus('processing', 'cancelled')).toBe(true);
+    expect(canTransitionOrderStatus('shipped', 'cancelled')).toBe(false);
+  });
+
+  it('lets shipped orders complete without a delivery confirmation', () => {
+    expect(canTransitionOrderStatus('shipped', 'completed')).toBe(true);
+  });
+
+  it('never moves orders back or out of a final status', () => {
+    expect(canTransitionOrderStatus('shipped', 'processing')).toBe(false);
+    expect(canTransitionOrderStatus('completed', 'pending')).toBe(false);
+    expect(canTransitionOrderStatus('cancelled', 'confirmed')).toBe(false);
+  });
+});
+
+describe('getNextOrderStatuses', () => {
+  it('has nothing after an unknown status', () => {
+    expect(getNextOrderStatuses('archived')).toEqual([]);
+  });
+});
+
+describe('getOrderStatusLabel', () => {
+  it('labels known statuses and passes unknown ones through', () => {
+    expect(getOrderStatusLabel('shipped')).toBe('Dikirim');
+    expect(getOrderStatusLabel('archived')).toBe('archived');
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { AffiliateBankInfo, AffiliatePayoutRun, PayoutRemitter } from '@/types/affiliate';
+import {
+  buildIndonesianBankCsv,
+  buildZenginFile,
+  getBankInfoIssues,
+  getRemitterIssues,
+  toZenginKana
+} from '@/utils/payoutExport';
+
+const REMITTER: PayoutRemitter = {
+  companyCode: '1234567890',
+  companyNameKana: 'インジャパンフード',
+  bankCode: '9900',
+  bankNameKana: 'ユウチヨ',
+  branchCode: '019',
+  branchNameKana: 'ゼロイチキユウ',
+  accountType: 'ordinary',
+  accountNumber: '1234567'
+};
+
+const BANK_INFO: AffiliateBankInfo = {
+  bankName: 'みずほ',
+  bankCode: '0001',
+  branchCode: '100',
+  branchName: 'トウキヨウ',
+  accountType: 'ordinary',
+  accountNumber: '7654321',
+  accountName: 'Budi Santoso',
+  accountNameKana: 'ブディ　サントソ'
+};
+
+const run = (bankInfo: AffiliateBankInfo = BANK_INFO): AffiliatePayoutRun => ({
+  id: 'run1',
+  month: '2026-10',
+  status: 'draft',
+  items: [{
+    affiliateId: 'affiliate',
+    displayName: 'Budi',
+    email: 'budi@example.com',
+    amount: 12500,
+    payoutId: 'pay1abc',
+    bankInfo,
+    commissions: []
+  }],
+  totalAmount: 12500,
+  createdAt: '2026-10-19T00:00:00.000Z',
+  createdBy: 'admin'
+});
+
+const records = (file: Uint8Array) => {
+  const text = new TextDecoder('latin1').decode(file);
+  expect(text.endsWith('\r\n')).toBe(true);
+  return text.slice(0, -2).split('\r\n');
+};
+
+describe('toZenginKana', () => {
+  it('turns names into half-width katakana with voiced marks split off', () => {
+    expect(toZenginKana('ブディ　サントソ')).toBe('ﾌﾞﾃﾞｲ ｻﾝﾄｿ');
+    expect(toZenginKana('ぱん')).toBe('ﾊﾟﾝ');
+  });
+
+  it('keeps upper-case letters and digits and drops anything else', () => {
+    expect(toZenginKana('abc 123 山田')).toBe('ABC 123');
+  });
+});
+
+describe('bank details', () => {
+  it('are complete with bank, branch, account number and a kana name', () => {
+    expect(getBankInfoIssues(BANK_INFO)).toEqual([]);
+    expect(getBankInfoIssues({ bankName: 'BCA', accountNumber: '1234567890', accountName: '山田' })).toHaveLength(4);
+  });
+
+  it('need a remitter before a Zengin file can be built', () => {
+    expect(getRemitterIssues(undefined)).toEqual(['rekening pengirim belum diatur']);
+    expect(getRemitterIssues(REMITTER)).toEqual([]);
+  });
+});
+
+describe('buildZenginFile', () => {
+  const file = buildZenginFile(run(), REMITTER, new Date(2026, 9, 25));
+
+  it('writes a header, one record per transfer, a trailer and an end record of 120 bytes each', () => {
+    const lines = records(file);
+    expect(lines.map(line => line[0])).toEqual(['1', '2', '8', '9']);
+    lines.forEach(line => expect(line).toHaveLength(120));
+    expect(file.length).toBe(4 * 122);
+  });
+
+  it('encodes half-width katakana as single Shift_JIS bytes', () => {
+    const [, data] = records(file);
+    expect(data.slice(50, 56)).toBe('\xcc\xde\xc3\xde\xb2 '); // ﾌﾞﾃﾞｲ
+  });
+
+  it('puts the transfer date, account and amounts in their fixed positions', () => {
+    const [header, data, trailer] = records(file);
+    expect(header.slice(54, 58)).toBe('1025');
+    expect(data.slice(1, 5)).toBe('0001');
+    expect(data.slice(42, 50)).toBe('17654321');
+    expect(data.slice(80, 90)).toBe('0000012500');
+    expect(trailer.slice(1, 19)).toBe('000001000000012500');
+  });
+
+  it('refuses incomplete accounts', () => {
+    expect(() => buildZenginFile(run({ ...BANK_INFO, branchCode: '' }), REMITTER, new Date()))
+      .toThrow('Rekening belum lengkap: Budi (kode cabang (3 digit))');
+    expect(() => buildZenginFile(run(), undefined, new Date())).toThrow('Data pengirim belum lengkap');
+  });
+});
+
+describe('buildIndonesianBankCsv', () => {
+  it('lists each transfer in yen with quoted text fields', () => {
+    const [header, row] = buildIndonesianBankCsv(run({ ...BANK_INFO, accountName: 'Budi "BS" Santoso' })).split('\n');
+    expect(header.split(',')).toHaveLength(8);
+    expect(row).toBe('1,"みずほ","7654321","Budi ""BS"" Santoso",12500,JPY,"budi@example.com","Komisi affiliate 2026-10"');
+  });
+});
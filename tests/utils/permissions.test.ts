@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { canAssignRole, hasPermission, normalizeRole } from '@/utils/permissions';
+
+describe('normalizeRole', () => {
+  it('keeps known roles', () => {
+    expect(normalizeRole('cashier')).toBe('cashier');
+    expect(normalizeRole('affiliate_manager')).toBe('affiliate_manager');
+  });
+
+  it('treats legacy and missing roles as customers', () => {
+    expect(normalizeRole('user')).toBe('customer');
+    expect(normalizeRole(undefined)).toBe('customer');
+    expect(normalizeRole(null)).toBe('customer');
+  });
+});
+
+describe('hasPermission', () => {
+  it('gives cashiers the point of sale and orders only', () => {
+    expect(hasPermission('cashier', 'pos.access')).toBe(true);
+    expect(hasPermission('cashier', 'orders.manage')).toBe(true);
+    expect(hasPermission('cashier', 'admin.access')).toBe(false);
+    expect(hasPermission('cashier', 'payments.verify')).toBe(false);
+  });
+
+  it('gives affiliate managers the affiliate pages only', () => {
+    expect(hasPermission('affiliate_manager', 'affiliate.manage')).toBe(true);
+    expect(hasPermission('affiliate_manager', 'orders.manage')).toBe(false);
+  });
+
+  it('gives customers nothing', () => {
+    expect(hasPermission('customer', 'admin.access')).toBe(false);
+  });
+});
+
+describe('canAssignRole', () => {
+  it('lets owners hand out any role', () => {
+    expect(canAssignRole('owner', 'customer', 'admin')).toBe(true);
+    expect(canAssignRole('owner', 'admin', 'customer')).toBe(true);
+  });
+
+  it('keeps admins away from owners and admins', () => {
+    expect(canAssignRole('admin', 'customer', 'cashier')).toBe(true);
+    expect(canAssignRole('admin', 'customer', 'admin')).toBe(false);
+    expect(canAssignRole('admin', 'owner', 'customer')).toBe(false);
+  });
+
+  it('denies roles without user management', () => {
+    expect(canAssignRole('cashier', 'customer', 'cashier')).toBe(false);
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest';
+import { CartItem, Product, ShippingClass, ShippingPromotion, ShippingRate } from '@/types';
+import { applyShippingPromotions, calculateShippingFee, formatWeight } from '@/utils/shippingCalculator';
+
+const rate = (overrides: Partial<ShippingRate> = {}): ShippingRate => ({
+  id: 'tokyo',
+  prefecture_id: '13',
+  kanji: '東京都',
+  romaji: 'Tokyo',
+  price: 800,
+  delivery_time: '1-2 hari',
+  ...overrides
+});
+
+const TIERED = rate({
+  weight_tiers: [
+    { max_weight: 5000, price: 1200 },
+    { max_weight: 2000, price: 900 }
+  ],
+  cool_surcharge: 300,
+  frozen_surcharge: 500
+});
+
+const product = (id: string, weight: number, shippingClass: ShippingClass = 'normal'): Product => ({
+  id,
+  name: id,
+  price: 500,
+  category: 'Snack',
+  stock: 10,
+  weight,
+  shipping_class: shippingClass
+});
+
+const item = (itemProduct: Product, quantity: number): CartItem => ({
+  id: itemProduct.id,
+  name: itemProduct.name,
+  price: itemProduct.price,
+  quantity,
+  image_url: '',
+  product: itemProduct
+});
+
+describe('calculateShippingFee', () => {
+  it('charges the flat prefecture price without weight tiers', () => {
+    const quote = calculateShippingFee(rate(), [item(product('chips', 300), 20)]);
+    expect(quote.total).toBe(800);
+    expect(quote.parcels).toHaveLength(1);
+  });
+
+  it('picks the smallest tier the weight fits in', () => {
+    expect(calculateShippingFee(TIERED, [item(product('chips', 500), 4)]).total).toBe(900);
+    expect(calculateShippingFee(TIERED, [item(product('chips', 500), 5)]).total).toBe(1200);
+  });
+
+  it('splits weight above the largest tier into several boxes', () => {
+    const quote = calculateShippingFee(TIERED, [item(product('rice', 5000), 2), item(product('chips', 500), 2)]);
+    expect(quote.parcels.map(parcel => parcel.weight)).toEqual([5000, 5000, 1000]);
+    expect(quote.total).toBe(1200 + 1200 + 900);
+  });
+
+  it('packs each temperature class separately with its surcharge', () => {
+    const quote = calculateShippingFee(TIERED, [
+      item(product('chips', 500), 1),
+      item(product('tempe', 500, 'cool'), 1),
+      item(product('nugget', 500, 'frozen'), 1)
+    ]);
+    expect(quote.parcels.map(parcel => parcel.shipping_class)).toEqual(['normal', 'cool', 'frozen']);
+    expect(quote.total).toBe(900 * 3 + 300 + 500);
+  });
+
+  it('uses current product data for carts saved before weights existed', () => {
+    const saved = item({ ...product('rice', 0), weight: undefined }, 2);
+    const quote = calculateShippingFee(TIERED, [saved], [product('rice', 3000)]);
+    expect(quote.parcels.map(parcel => parcel.weight)).toEqual([5000, 1000]);
+  });
+});
+
+describe('formatWeight', () => {
+  it('shows grams below a kilo and kilos above', () => {
+    expect(formatWeight(750)).toBe('750 g');
+    expect(formatWeight(2500)).toBe('2.5 kg');
+  });
+});
+
+describe('applyShippingPromotions', () => {
+  const NOW = new Date('2026-10-19T00:00:00.000Z');
+
+  const promotion = (overrides: Partial<ShippingPromotion> = {}): ShippingPromotion => ({
+    id: 'free-5000',
+    name: 'Gratis ongkir',
+    type: 'free',
+    value: 0,
+    min_subtotal: 5000,
+    prefectures: [],
+    categories: [],
+    active: true,
+    ...overrides
+  });
+
+  const cart = [item(product('chips', 300), 8)];
+
+  it('applies a promotion once the subtotal reaches its minimum', () => {
+    const result = applyShippingPromotions(900, [promotion({ min_subtotal: 4000 })], cart, '13', [], NOW);
+    expect(result.fee).toBe(0);
+    expect(result.applied).toMatchObject({ id: 'free-5000', original_fee: 900, discount: 900 });
+    expect(result.next).toBeNull();
+  });
+
+  it('suggests the closest promotion the cart has not reached yet', () => {
+    const result = applyShippingPromotions(900, [promotion()], cart, '13', [], NOW);
+    expect(result.fee).toBe(900);
+    expect(result.next).toMatchObject({ remaining: 1000, discount: 900 });
+  });
+
+  it('applies only the promotion that saves the most', () => {
+    const result = applyShippingPromotions(900, [
+      promotion({ id: 'half', type: 'discount_percent', value: 50, min_subtotal: 0 }),
+      promotion({ id: 'minus-300', type: 'discount_amount', value: 300, min_subtotal: 0 })
+    ], cart, '13', [], NOW);
+    expect(result.applied?.id).toBe('half');
+    expect(result.fee).toBe(450);
+  });
+
+  it('skips inactive, expired and other prefectures\' promotions', () => {
+    const result = applyShippingPromotions(900, [
+      promotion({ min_subtotal: 0, active: false }),
+      promotion({ min_subtotal: 0, ends_at: '2026-10-01T00:00:00.000Z' }),
+      promotion({ min_subtotal: 0, prefectures: ['27'] })
+    ], cart, '13', [], NOW);
+    expect(result.applied).toBeNull();
+    expect(result.fee).toBe(900);
+  });
+
+  it('counts only the promotion\'s categories towards its minimum', () => {
+    const mixed = [item(product('chips', 300), 8), item({ ...product('tempe', 500), category: 'Frozen' }, 2)];
+    const frozenOnly = (minSubtotal: number) => promotion({ min_subtotal: minSubtotal, categories: ['Frozen'] });
+    expect(applyShippingPromotions(900, [frozenOnly(1000)], mixed, '13', [], NOW).applied).not.toBeNull();
+    expect(applyShippingPromotions(900, [frozenOnly(1500)], mixed, '13', [], NOW).next).toMatchObject({ remaining: 500 });
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { CartItem, Product, Voucher } from '@/types';
+import {
+  evaluateVoucher,
+  getVoucherAvailabilityError,
+  getVoucherUserLimitError,
+  normalizeVoucherCode
+} from '@/utils/voucherUtils';
+
+const NOW = new Date('2026-10-19T00:00:00.000Z');
+
+const voucher = (overrides: Partial<Voucher> = {}): Voucher => ({
+  id: 'v1',
+  code: 'HEMAT10',
+  type: 'percent',
+  value: 10,
+  min_spend: 0,
+  categories: [],
+  used_count: 0,
+  active: true,
+  ...overrides
+});
+
+const product = (id: string, category: string): Product => ({ id, name: id, price: 1000, category, stock: 10 });
+
+const item = (itemProduct: Product, quantity: number): CartItem => ({
+  id: itemProduct.id,
+  name: itemProduct.name,
+  price: itemProduct.price,
+  quantity,
+  image_url: '',
+  product: itemProduct
+});
+
+const CART = [item(product('chips', 'Snack'), 3), item(product('tempe', 'Frozen'), 2)];
+
+describe('normalizeVoucherCode', () => {
+  it('ignores case and spaces', () => {
+    expect(normalizeVoucherCode(' hemat 10 ')).toBe('HEMAT10');
+  });
+});
+
+describe('getVoucherAvailabilityError', () => {
+  it('accepts an active voucher within its dates and quota', () => {
+    expect(getVoucherAvailabilityError(voucher({ usage_limit: 5, used_count: 4 }), NOW)).toBeNull();
+  });
+
+  it('rejects inactive, future, expired and used-up vouchers', () => {
+    expect(getVoucherAvailabilityError(voucher({ active: false }), NOW)).toBe('Voucher tidak aktif');
+    expect(getVoucherAvailabilityError(voucher({ starts_at: '2026-11-01T00:00:00.000Z' }), NOW)).toBe('Voucher belum berlaku');
+    expect(getVoucherAvailabilityError(voucher({ expires_at: '2026-10-01T00:00:00.000Z' }), NOW)).toBe('Voucher sudah kedaluwarsa');
+    expect(getVoucherAvailabilityError(voucher({ usage_limit: 5, used_count: 5 }), NOW)).toBe('Kuota voucher sudah habis');
+  });
+});
+
+describe('getVoucherUserLimitError', () => {
+  it('needs an account only for vouchers with a per-customer limit', () => {
+    expect(getVoucherUserLimitError(voucher(), null, 0)).toBeNull();
+    expect(getVoucherUserLimitError(voucher({ per_user_limit: 1 }), null, 0)).toBe('Silakan login untuk memakai voucher ini');
+  });
+
+  it('rejects customers who reached the limit', () => {
+    expect(getVoucherUserLimitError(voucher({ per_user_limit: 2 }), 'alice', 1)).toBeNull();
+    expect(getVoucherUserLimitError(voucher({ per_user_limit: 2 }), 'alice', 2)).not.toBeNull();
+  });
+});
+
+describe('evaluateVoucher', () => {
+  it('takes a percentage off the subtotal, up to its cap', () => {
+    expect(evaluateVoucher(voucher(), CART, [], 800, NOW).applied?.discount).toBe(500);
+    expect(evaluateVoucher(voucher({ max_discount: 300 }), CART, [], 800, NOW).applied?.discount).toBe(300);
+  });
+
+  it('never takes a fixed amount beyond the eligible subtotal', () => {
+    const result = evaluateVoucher(voucher({ type: 'fixed', value: 5000, categories: ['Frozen'] }), CART, [], 800, NOW);
+    expect(result.applied?.discount).toBe(2000);
+  });
+
+  it('covers the remaining shipping with free-shipping vouchers', () => {
+    const result = evaluateVoucher(voucher({ type: 'free_shipping', value: 0 }), CART, [], 800, NOW);
+    expect(result.applied).toMatchObject({ discount: 0, shipping_discount: 800 });
+    expect(evaluateVoucher(voucher({ type: 'free_shipping', value: 0 }), CART, [], 0, NOW).error)
+      .toBe('Ongkos kirim pesanan ini sudah gratis');
+  });
+
+  it('requires the minimum spend in the voucher\'s categories', () => {
+    const result = evaluateVoucher(voucher({ min_spend: 2500, categories: ['Frozen'] }), CART, [], 800, NOW);
+    expect(result.applied).toBeNull();
+    expect(result.error).toContain('Minimal belanja');
+  });
+
+  it('explains when no item is in the voucher\'s categories', () => {
+    const result = evaluateVoucher(voucher({ categories: ['Minuman'] }), CART, [], 800, NOW);
+    expect(result.error).toBe('Voucher hanya berlaku untuk kategori Minuman');
+  });
+});